@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "ImportProfile" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "headers" TEXT NOT NULL,
+    "dateColumn" INTEGER NOT NULL,
+    "descriptionColumn" INTEGER NOT NULL,
+    "amountColumn" INTEGER NOT NULL,
+    "dateFormat" TEXT NOT NULL DEFAULT 'auto',
+    "skipRows" INTEGER NOT NULL DEFAULT 0,
+    "signConvention" TEXT NOT NULL DEFAULT 'signed',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportProfile_name_key" ON "ImportProfile"("name");
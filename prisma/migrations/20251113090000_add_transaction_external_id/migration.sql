@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "accountNumber" TEXT;
+ALTER TABLE "Transaction" ADD COLUMN "externalId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Transaction_externalId_idx" ON "Transaction"("externalId");
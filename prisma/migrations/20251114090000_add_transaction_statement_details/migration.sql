@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "counterpartyIban" TEXT;
+ALTER TABLE "Transaction" ADD COLUMN "counterpartyName" TEXT;
+ALTER TABLE "Transaction" ADD COLUMN "remittanceInfo" TEXT;
+ALTER TABLE "Transaction" ADD COLUMN "valueDate" DATETIME;
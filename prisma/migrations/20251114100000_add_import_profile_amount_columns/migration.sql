@@ -0,0 +1,25 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_ImportProfile" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "headers" TEXT NOT NULL,
+    "dateColumn" INTEGER NOT NULL,
+    "descriptionColumn" INTEGER NOT NULL,
+    "amountColumn" INTEGER,
+    "debitColumn" INTEGER,
+    "creditColumn" INTEGER,
+    "dateFormat" TEXT NOT NULL DEFAULT 'auto',
+    "decimalSeparator" TEXT NOT NULL DEFAULT '.',
+    "skipRows" INTEGER NOT NULL DEFAULT 0,
+    "signConvention" TEXT NOT NULL DEFAULT 'signed',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+INSERT INTO "new_ImportProfile" ("amountColumn", "createdAt", "dateColumn", "dateFormat", "descriptionColumn", "headers", "id", "name", "signConvention", "skipRows", "updatedAt") SELECT "amountColumn", "createdAt", "dateColumn", "dateFormat", "descriptionColumn", "headers", "id", "name", "signConvention", "skipRows", "updatedAt" FROM "ImportProfile";
+DROP TABLE "ImportProfile";
+ALTER TABLE "new_ImportProfile" RENAME TO "ImportProfile";
+CREATE UNIQUE INDEX "ImportProfile_name_key" ON "ImportProfile"("name");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
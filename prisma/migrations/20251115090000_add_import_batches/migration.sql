@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "ImportBatch" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "fileName" TEXT NOT NULL,
+    "fileHash" TEXT,
+    "sourceFormat" TEXT NOT NULL DEFAULT 'csv',
+    "profileName" TEXT,
+    "rowCount" INTEGER NOT NULL DEFAULT 0,
+    "insertedCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "suspiciousCount" INTEGER NOT NULL DEFAULT 0,
+    "invalidCount" INTEGER NOT NULL DEFAULT 0,
+    "rolledBackAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Transaction" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "date" DATETIME NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "categoryId" INTEGER,
+    "externalId" TEXT,
+    "accountNumber" TEXT,
+    "valueDate" DATETIME,
+    "counterpartyName" TEXT,
+    "counterpartyIban" TEXT,
+    "remittanceInfo" TEXT,
+    "importBatchId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Transaction_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_importBatchId_fkey" FOREIGN KEY ("importBatchId") REFERENCES "ImportBatch" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Transaction" ("accountNumber", "amount", "categoryId", "counterpartyIban", "counterpartyName", "createdAt", "date", "description", "externalId", "id", "remittanceInfo", "updatedAt", "valueDate") SELECT "accountNumber", "amount", "categoryId", "counterpartyIban", "counterpartyName", "createdAt", "date", "description", "externalId", "id", "remittanceInfo", "updatedAt", "valueDate" FROM "Transaction";
+DROP TABLE "Transaction";
+ALTER TABLE "new_Transaction" RENAME TO "Transaction";
+CREATE INDEX "Transaction_externalId_idx" ON "Transaction"("externalId");
+CREATE INDEX "Transaction_importBatchId_idx" ON "Transaction"("importBatchId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "ImportBatch_fileHash_idx" ON "ImportBatch"("fileHash");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "ImportBatch" ADD COLUMN "errorMessage" TEXT;
+ALTER TABLE "ImportBatch" ADD COLUMN "headerRowIndex" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "ImportBatch" ADD COLUMN "mapping" TEXT;
+ALTER TABLE "ImportBatch" ADD COLUMN "processedBytes" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "ImportBatch" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'completed';
+ALTER TABLE "ImportBatch" ADD COLUMN "totalBytes" INTEGER;
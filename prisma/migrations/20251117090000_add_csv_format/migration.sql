@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "ImportBatch" ADD COLUMN "csvFormat" TEXT;
+
+-- AlterTable
+ALTER TABLE "ImportProfile" ADD COLUMN "delimiter" TEXT NOT NULL DEFAULT 'auto';
+ALTER TABLE "ImportProfile" ADD COLUMN "encoding" TEXT NOT NULL DEFAULT 'auto';
+ALTER TABLE "ImportProfile" ADD COLUMN "quoteChar" TEXT NOT NULL DEFAULT 'auto';
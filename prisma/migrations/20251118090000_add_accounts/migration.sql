@@ -0,0 +1,72 @@
+-- CreateTable
+CREATE TABLE "Account" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "bank" TEXT,
+    "ibanMask" TEXT,
+    "currency" TEXT NOT NULL DEFAULT 'EUR',
+    "openingBalance" REAL NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_ImportBatch" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "fileName" TEXT NOT NULL,
+    "fileHash" TEXT,
+    "sourceFormat" TEXT NOT NULL DEFAULT 'csv',
+    "profileName" TEXT,
+    "accountId" INTEGER,
+    "rowCount" INTEGER NOT NULL DEFAULT 0,
+    "insertedCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "suspiciousCount" INTEGER NOT NULL DEFAULT 0,
+    "invalidCount" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'completed',
+    "mapping" TEXT,
+    "headerRowIndex" INTEGER NOT NULL DEFAULT 0,
+    "csvFormat" TEXT,
+    "totalBytes" INTEGER,
+    "processedBytes" INTEGER NOT NULL DEFAULT 0,
+    "errorMessage" TEXT,
+    "rolledBackAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ImportBatch_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_ImportBatch" ("createdAt", "csvFormat", "errorMessage", "fileHash", "fileName", "headerRowIndex", "id", "insertedCount", "invalidCount", "mapping", "processedBytes", "profileName", "rolledBackAt", "rowCount", "skippedCount", "sourceFormat", "status", "suspiciousCount", "totalBytes") SELECT "createdAt", "csvFormat", "errorMessage", "fileHash", "fileName", "headerRowIndex", "id", "insertedCount", "invalidCount", "mapping", "processedBytes", "profileName", "rolledBackAt", "rowCount", "skippedCount", "sourceFormat", "status", "suspiciousCount", "totalBytes" FROM "ImportBatch";
+DROP TABLE "ImportBatch";
+ALTER TABLE "new_ImportBatch" RENAME TO "ImportBatch";
+CREATE INDEX "ImportBatch_fileHash_idx" ON "ImportBatch"("fileHash");
+CREATE TABLE "new_Transaction" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "date" DATETIME NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "categoryId" INTEGER,
+    "externalId" TEXT,
+    "accountNumber" TEXT,
+    "valueDate" DATETIME,
+    "counterpartyName" TEXT,
+    "counterpartyIban" TEXT,
+    "remittanceInfo" TEXT,
+    "accountId" INTEGER,
+    "importBatchId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Transaction_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_importBatchId_fkey" FOREIGN KEY ("importBatchId") REFERENCES "ImportBatch" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Transaction" ("accountNumber", "amount", "categoryId", "counterpartyIban", "counterpartyName", "createdAt", "date", "description", "externalId", "id", "importBatchId", "remittanceInfo", "updatedAt", "valueDate") SELECT "accountNumber", "amount", "categoryId", "counterpartyIban", "counterpartyName", "createdAt", "date", "description", "externalId", "id", "importBatchId", "remittanceInfo", "updatedAt", "valueDate" FROM "Transaction";
+DROP TABLE "Transaction";
+ALTER TABLE "new_Transaction" RENAME TO "Transaction";
+CREATE INDEX "Transaction_externalId_idx" ON "Transaction"("externalId");
+CREATE INDEX "Transaction_importBatchId_idx" ON "Transaction"("importBatchId");
+CREATE INDEX "Transaction_accountId_idx" ON "Transaction"("accountId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Account_name_key" ON "Account"("name");
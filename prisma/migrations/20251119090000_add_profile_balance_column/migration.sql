@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ImportProfile" ADD COLUMN "balanceColumn" INTEGER;
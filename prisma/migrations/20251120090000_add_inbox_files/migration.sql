@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "InboxFile" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "fileName" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "fileHash" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "profileName" TEXT,
+    "accountId" INTEGER,
+    "importBatchId" INTEGER,
+    "errorMessage" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" DATETIME,
+    CONSTRAINT "InboxFile_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "InboxFile_importBatchId_fkey" FOREIGN KEY ("importBatchId") REFERENCES "ImportBatch" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "InboxFile_fileHash_idx" ON "InboxFile"("fileHash");
+
+-- CreateIndex
+CREATE INDEX "InboxFile_status_idx" ON "InboxFile"("status");
@@ -0,0 +1,7 @@
+-- CreateTable
+CREATE TABLE "CategoryClassifier" (
+    "id" INTEGER NOT NULL PRIMARY KEY,
+    "model" TEXT,
+    "autoApply" BOOLEAN NOT NULL DEFAULT false,
+    "updatedAt" DATETIME NOT NULL
+);
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "TransactionSplit" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "transactionId" INTEGER NOT NULL,
+    "amount" REAL NOT NULL,
+    "categoryId" INTEGER,
+    "note" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TransactionSplit_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TransactionSplit_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "TransactionSplit_transactionId_idx" ON "TransactionSplit"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "TransactionSplit_categoryId_idx" ON "TransactionSplit"("categoryId");
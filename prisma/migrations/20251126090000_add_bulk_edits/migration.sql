@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "BulkEdit" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "token" TEXT NOT NULL,
+    "selection" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "changes" TEXT NOT NULL,
+    "changedCount" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "undoneAt" DATETIME
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BulkEdit_token_key" ON "BulkEdit"("token");
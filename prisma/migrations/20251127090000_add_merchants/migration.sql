@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "Merchant" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "categoryId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Merchant_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "MerchantAlias" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "key" TEXT NOT NULL,
+    "merchantId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "MerchantAlias_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Transaction" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "date" DATETIME NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" REAL NOT NULL,
+    "categoryId" INTEGER,
+    "externalId" TEXT,
+    "accountNumber" TEXT,
+    "valueDate" DATETIME,
+    "counterpartyName" TEXT,
+    "counterpartyIban" TEXT,
+    "remittanceInfo" TEXT,
+    "accountId" INTEGER,
+    "importBatchId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "merchantId" INTEGER,
+    CONSTRAINT "Transaction_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "Account" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_importBatchId_fkey" FOREIGN KEY ("importBatchId") REFERENCES "ImportBatch" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Transaction_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Transaction" ("accountId", "accountNumber", "amount", "categoryId", "counterpartyIban", "counterpartyName", "createdAt", "date", "description", "externalId", "id", "importBatchId", "remittanceInfo", "updatedAt", "valueDate") SELECT "accountId", "accountNumber", "amount", "categoryId", "counterpartyIban", "counterpartyName", "createdAt", "date", "description", "externalId", "id", "importBatchId", "remittanceInfo", "updatedAt", "valueDate" FROM "Transaction";
+DROP TABLE "Transaction";
+ALTER TABLE "new_Transaction" RENAME TO "Transaction";
+CREATE INDEX "Transaction_externalId_idx" ON "Transaction"("externalId");
+CREATE INDEX "Transaction_importBatchId_idx" ON "Transaction"("importBatchId");
+CREATE INDEX "Transaction_accountId_idx" ON "Transaction"("accountId");
+CREATE INDEX "Transaction_merchantId_idx" ON "Transaction"("merchantId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Merchant_name_key" ON "Merchant"("name");
+
+-- CreateIndex
+CREATE INDEX "Merchant_categoryId_idx" ON "Merchant"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MerchantAlias_key_key" ON "MerchantAlias"("key");
+
+-- CreateIndex
+CREATE INDEX "MerchantAlias_merchantId_idx" ON "MerchantAlias"("merchantId");
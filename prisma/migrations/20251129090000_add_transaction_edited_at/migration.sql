@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "editedAt" DATETIME;
+
+-- Transactions updated well after their insert were edited before the column existed
+-- (dates are stored in milliseconds)
+UPDATE "Transaction" SET "editedAt" = "updatedAt" WHERE "updatedAt" - "createdAt" > 1000;
@@ -0,0 +1,368 @@
+import 'dotenv/config';
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { prisma } from '@/lib/prisma';
+import { listImportProfiles } from '@/lib/import-profiles';
+import { columnMappingSchema } from '@/lib/schemas';
+import {
+  STATEMENT_EXTENSIONS,
+  hashBytes,
+  parseStatementFile,
+  StatementFormat,
+} from '@/lib/statement-files';
+import { checkDuplicates, importTransactions } from '@/lib/transaction-import';
+import { matchAccount } from '@/domain/accounts';
+import { ColumnMapping, InvalidRow } from '@/domain/csv-import';
+import { ImportProfile, normalizeHeader } from '@/domain/import-profiles';
+
+/**
+ * Headless import of bank statements, for cron jobs and scripts
+ *
+ *   npm run import -- [options] <file|directory>...
+ *
+ * Exits with 1 when a file could not be imported or had invalid rows,
+ * and with 2 on a usage error (unknown option, profile or account).
+ */
+
+const USAGE = `Usage : npm run import -- [options] <fichier|dossier>...
+
+Options :
+  --profile <nom>      Profil d'import à utiliser (sinon reconnu d'après l'en-tête)
+  --mapping <json>     Mapping des colonnes, ex. '{"dateColumn":0,"descriptionColumn":1,"amountColumn":2}'
+  --account <id|nom>   Compte auquel rattacher les transactions
+  --dry-run            Analyse les fichiers sans rien enregistrer
+  --json               Résumé au format JSON au lieu d'un tableau
+  --help               Affiche cette aide`;
+
+// Invalid rows printed per file in the table output
+const INVALID_ROWS_SHOWN = 5;
+
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+interface CLIOptions {
+  paths: string[];
+  profileName?: string;
+  mapping?: ColumnMapping;
+  account?: string;
+  dryRun: boolean;
+  json: boolean;
+}
+
+interface AccountRecord {
+  id: number;
+  name: string;
+  ibanMask: string | null;
+}
+
+interface FileReport {
+  file: string;
+  status: 'imported' | 'checked' | 'failed';
+  sourceFormat?: StatementFormat;
+  profileName?: string;
+  accountName?: string;
+  valid: number;
+  invalid: number;
+  duplicates: number;
+  suspicious: number;
+  inserted: number;
+  batchId?: number;
+  error?: string;
+  invalidRows: InvalidRow[];
+}
+
+/**
+ * Error in the command line, reported with the usage
+ */
+function usageError(message: string): Error {
+  const error = new Error(message);
+  error.name = 'UsageError';
+  return error;
+}
+
+function isUsageError(error: unknown): error is Error {
+  return (
+    error instanceof Error &&
+    (error.name === 'UsageError' ||
+      // Unknown option or missing value, from parseArgs
+      String((error as { code?: string }).code).startsWith('ERR_PARSE_ARGS'))
+  );
+}
+
+/**
+ * Reads the command line
+ */
+function parseOptions(args: string[]): CLIOptions | null {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      profile: { type: 'string' },
+      mapping: { type: 'string' },
+      account: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    return null;
+  }
+  if (positionals.length === 0) {
+    throw usageError('Aucun fichier à importer');
+  }
+  if (values.profile && values.mapping) {
+    throw usageError('--profile et --mapping ne peuvent pas être utilisés ensemble');
+  }
+
+  let mapping: ColumnMapping | undefined;
+  if (values.mapping) {
+    let json: unknown;
+    try {
+      json = JSON.parse(values.mapping);
+    } catch {
+      throw usageError('--mapping n\'est pas un JSON valide');
+    }
+    const parsed = columnMappingSchema.safeParse(json);
+    if (!parsed.success) {
+      throw usageError(`--mapping invalide : ${parsed.error.issues[0].message}`);
+    }
+    mapping = parsed.data;
+  }
+
+  return {
+    paths: positionals,
+    profileName: values.profile,
+    mapping,
+    account: values.account,
+    dryRun: values['dry-run'],
+    json: values.json,
+  };
+}
+
+/**
+ * Expands directories to the statement files they contain, recursively
+ */
+async function listFiles(paths: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const path of paths) {
+    const stats = await stat(path).catch(() => null);
+    if (!stats) {
+      throw usageError(`Fichier introuvable : ${path}`);
+    }
+    if (!stats.isDirectory()) {
+      files.push(path);
+      continue;
+    }
+
+    const entries = await readdir(path, { withFileTypes: true });
+    const children = entries
+      .filter(
+        (entry) =>
+          entry.isDirectory() ||
+          STATEMENT_EXTENSIONS.includes(extname(entry.name).toLowerCase())
+      )
+      .map((entry) => join(path, entry.name))
+      .sort();
+    files.push(...(await listFiles(children)));
+  }
+
+  return files;
+}
+
+/**
+ * Finds the account given by id or name
+ */
+function findAccount(accounts: AccountRecord[], account: string): AccountRecord {
+  const found = /^\d+$/.test(account)
+    ? accounts.find((a) => a.id === Number(account))
+    : accounts.find((a) => a.name.toLowerCase() === account.toLowerCase());
+  if (!found) {
+    throw usageError(`Compte introuvable : ${account}`);
+  }
+  return found;
+}
+
+/**
+ * Finds a saved or built-in profile by name
+ */
+function findProfile(profiles: ImportProfile[], name: string): ImportProfile {
+  const found = profiles.find((p) => normalizeHeader(p.name) === normalizeHeader(name));
+  if (!found) {
+    throw usageError(
+      `Profil introuvable : ${name} (profils : ${profiles.map((p) => p.name).join(', ')})`
+    );
+  }
+  return found;
+}
+
+/**
+ * Parses a file and imports its valid rows, or only checks them in a dry run
+ */
+async function processFile(
+  file: string,
+  options: CLIOptions,
+  profiles: ImportProfile[],
+  accounts: AccountRecord[],
+  account: AccountRecord | undefined
+): Promise<FileReport> {
+  const report: FileReport = {
+    file,
+    status: 'failed',
+    valid: 0,
+    invalid: 0,
+    duplicates: 0,
+    suspicious: 0,
+    inserted: 0,
+    invalidRows: [],
+  };
+
+  try {
+    const bytes = new Uint8Array(await readFile(file));
+    const parsed = parseStatementFile(bytes, profiles, {
+      profile: options.profileName ? findProfile(profiles, options.profileName) : undefined,
+      mapping: options.mapping,
+    });
+    if (!parsed) {
+      report.error = 'Format non reconnu : précisez --profile ou --mapping';
+      return report;
+    }
+    const { valid, invalid } = parsed.result;
+    const target = account ?? matchAccount(accounts, parsed.accountNumber) ?? undefined;
+    Object.assign(report, {
+      sourceFormat: parsed.sourceFormat,
+      profileName: parsed.profileName,
+      accountName: target?.name,
+      valid: valid.length,
+      invalid: invalid.length,
+      invalidRows: invalid,
+    });
+
+    if (valid.length === 0) {
+      report.error = 'Aucune transaction valide';
+      return report;
+    }
+
+    if (options.dryRun) {
+      const check = await checkDuplicates(valid, prisma, { accountId: target?.id });
+      return {
+        ...report,
+        status: 'checked',
+        duplicates: check.duplicates.length,
+        suspicious: check.suspicious.length,
+        inserted: check.newTransactions.length, // Rows that would be inserted
+      };
+    }
+
+    const summary = await importTransactions(valid, {
+      fileName: basename(file),
+      fileHash: hashBytes(bytes),
+      sourceFormat: parsed.sourceFormat,
+      profileName: parsed.profileName,
+      accountId: target?.id,
+      rowCount: valid.length + invalid.length,
+      invalidCount: invalid.length,
+    });
+    return {
+      ...report,
+      status: 'imported',
+      duplicates: summary.skipped,
+      suspicious: summary.suspicious,
+      inserted: summary.inserted,
+      batchId: summary.batchId,
+    };
+  } catch (error) {
+    if (isUsageError(error)) {
+      throw error;
+    }
+    return { ...report, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Prints one line per file, then the invalid rows and errors
+ */
+function printTable(reports: FileReport[], dryRun: boolean) {
+  console.table(
+    reports.map((report) => ({
+      fichier: basename(report.file),
+      statut: report.status === 'failed' ? 'échec' : dryRun ? 'vérifié' : 'importé',
+      profil: report.profileName ?? report.sourceFormat ?? '',
+      compte: report.accountName ?? '',
+      valides: report.valid,
+      invalides: report.invalid,
+      doublons: report.duplicates,
+      suspects: report.suspicious,
+      [dryRun ? 'à insérer' : 'insérées']: report.inserted,
+    }))
+  );
+
+  reports.forEach((report) => {
+    if (report.error) {
+      console.error(`${report.file} : ${report.error}`);
+    }
+    report.invalidRows.slice(0, INVALID_ROWS_SHOWN).forEach((row) => {
+      console.error(`${report.file}, ligne ${row.rowIndex + 1} : ${row.error}`);
+    });
+    if (report.invalidRows.length > INVALID_ROWS_SHOWN) {
+      console.error(
+        `${report.file} : ${report.invalidRows.length - INVALID_ROWS_SHOWN} autres lignes invalides`
+      );
+    }
+  });
+}
+
+async function main(): Promise<number> {
+  const options = parseOptions(process.argv.slice(2));
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const files = await listFiles(options.paths);
+  if (files.length === 0) {
+    throw usageError('Aucun relevé trouvé dans les dossiers indiqués');
+  }
+
+  const [profiles, accounts]: [ImportProfile[], AccountRecord[]] = await Promise.all([
+    listImportProfiles(),
+    prisma.account.findMany({ select: { id: true, name: true, ibanMask: true } }),
+  ]);
+  const account = options.account ? findAccount(accounts, options.account) : undefined;
+  if (options.profileName) {
+    findProfile(profiles, options.profileName);
+  }
+
+  // One file at a time, so that a statement overlapping the previous one skips its rows
+  const reports: FileReport[] = [];
+  for (const file of files) {
+    reports.push(await processFile(file, options, profiles, accounts, account));
+  }
+
+  if (options.json) {
+    console.log(JSON.stringify({ dryRun: options.dryRun, files: reports }, null, 2));
+  } else {
+    printTable(reports, options.dryRun);
+  }
+
+  return reports.some((report) => report.status === 'failed' || report.invalid > 0)
+    ? EXIT_FAILURE
+    : 0;
+}
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    if (isUsageError(error)) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exitCode = EXIT_USAGE;
+    } else {
+      console.error('Import failed:', error);
+      process.exitCode = EXIT_FAILURE;
+    }
+  })
+  .finally(() => prisma.$disconnect());
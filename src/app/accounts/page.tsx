@@ -0,0 +1,317 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { ApiErrorBody } from '@/lib/api-errors';
+
+interface Account {
+  id: number;
+  name: string;
+  bank: string | null;
+  ibanMask: string | null;
+  currency: string;
+  openingBalance: number;
+  balance: number;
+  transactionCount: number;
+  lastTransactionDate: string | null;
+}
+
+interface StatementLine {
+  id: number;
+  date: string;
+  description: string;
+  amount: number;
+  balance: number;
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return amount.toLocaleString('fr-FR', { style: 'currency', currency });
+}
+
+function AccountForm({ onCreated }: { onCreated: () => void }) {
+  const [name, setName] = useState('');
+  const [bank, setBank] = useState('');
+  const [iban, setIban] = useState('');
+  const [openingBalance, setOpeningBalance] = useState('0');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const response = await fetch('/api/accounts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name,
+          bank: bank || undefined,
+          iban: iban || undefined,
+          openingBalance: Number(openingBalance.replace(',', '.')),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error((data as ApiErrorBody).error || 'Erreur lors de la création du compte');
+      }
+
+      setName('');
+      setBank('');
+      setIban('');
+      setOpeningBalance('0');
+      setError(null);
+      onCreated();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Nom (ex : Compte courant)"
+          required
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="text"
+          value={bank}
+          onChange={(e) => setBank(e.target.value)}
+          placeholder="Banque"
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="text"
+          value={iban}
+          onChange={(e) => setIban(e.target.value)}
+          placeholder="IBAN (seule la fin est conservée)"
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <input
+          type="text"
+          inputMode="decimal"
+          value={openingBalance}
+          onChange={(e) => setOpeningBalance(e.target.value)}
+          placeholder="Solde initial"
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      <button
+        type="submit"
+        disabled={saving || name.trim() === ''}
+        className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+      >
+        {saving ? 'Création...' : 'Ajouter le compte'}
+      </button>
+    </form>
+  );
+}
+
+function AccountStatement({ account }: { account: Account }) {
+  const [lines, setLines] = useState<StatementLine[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/accounts/${account.id}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { lines: StatementLine[] } | null) => {
+        if (!cancelled) {
+          setLines(data?.lines ?? []);
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading account statement:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [account.id, account.transactionCount]);
+
+  if (!lines) {
+    return <p className="text-gray-600 text-sm">Chargement des opérations...</p>;
+  }
+  if (lines.length === 0) {
+    return <p className="text-gray-600 text-sm">Aucune opération sur ce compte</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-2 text-left">Date</th>
+            <th className="px-4 py-2 text-left">Description</th>
+            <th className="px-4 py-2 text-right">Montant</th>
+            <th className="px-4 py-2 text-right">Solde</th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map((line) => (
+            <tr key={line.id} className="border-t">
+              <td className="px-4 py-2 whitespace-nowrap">
+                {new Date(line.date).toLocaleDateString('fr-FR')}
+              </td>
+              <td className="px-4 py-2">{line.description}</td>
+              <td
+                className={`px-4 py-2 text-right whitespace-nowrap ${
+                  line.amount < 0 ? 'text-red-600' : 'text-green-600'
+                }`}
+              >
+                {formatAmount(line.amount, account.currency)}
+              </td>
+              <td className="px-4 py-2 text-right whitespace-nowrap">
+                {formatAmount(line.balance, account.currency)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function AccountsPage() {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/accounts');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Erreur lors du chargement des comptes');
+      }
+      setAccounts(data.accounts);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  const handleDelete = async (account: Account) => {
+    if (!window.confirm(`Supprimer le compte « ${account.name} » ?`)) {
+      return;
+    }
+
+    const response = await fetch(`/api/accounts/${account.id}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const data: ApiErrorBody = await response.json();
+      setError(data.error);
+      return;
+    }
+
+    if (selectedId === account.id) {
+      setSelectedId(null);
+    }
+    await loadAccounts();
+  };
+
+  const selected = accounts.find((account) => account.id === selectedId) ?? null;
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+      <h1 className="text-4xl font-bold text-gray-900 mb-8">Comptes bancaires</h1>
+
+      {error && (
+        <div className="p-4 mb-8 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+        {loading ? (
+          <p className="text-gray-600 text-sm">Chargement des comptes...</p>
+        ) : accounts.length === 0 ? (
+          <p className="text-gray-600 text-sm">Aucun compte pour le moment</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left">Compte</th>
+                  <th className="px-4 py-2 text-left">IBAN</th>
+                  <th className="px-4 py-2 text-right">Opérations</th>
+                  <th className="px-4 py-2 text-right">Solde</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {accounts.map((account) => (
+                  <tr
+                    key={account.id}
+                    className={`border-t ${account.id === selectedId ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="px-4 py-2">
+                      <button
+                        onClick={() => setSelectedId(account.id)}
+                        className="text-left hover:underline"
+                      >
+                        <div className="font-medium">{account.name}</div>
+                        {account.bank && (
+                          <div className="text-xs text-gray-500">{account.bank}</div>
+                        )}
+                      </button>
+                    </td>
+                    <td className="px-4 py-2 font-mono text-xs">{account.ibanMask ?? '—'}</td>
+                    <td className="px-4 py-2 text-right">{account.transactionCount}</td>
+                    <td
+                      className={`px-4 py-2 text-right font-medium whitespace-nowrap ${
+                        account.balance < 0 ? 'text-red-600' : ''
+                      }`}
+                    >
+                      {formatAmount(account.balance, account.currency)}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {account.transactionCount === 0 && (
+                        <button
+                          onClick={() => handleDelete(account)}
+                          className="text-red-600 hover:underline"
+                        >
+                          Supprimer
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+          <h2 className="text-xl font-semibold mb-1">{selected.name}</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            Solde initial : {formatAmount(selected.openingBalance, selected.currency)}
+          </p>
+          <AccountStatement account={selected} />
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold mb-4">Nouveau compte</h2>
+        <AccountForm onCreated={loadAccounts} />
+      </div>
+    </div>
+  );
+}
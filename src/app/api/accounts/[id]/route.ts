@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseId } from '@/lib/api-errors';
+import { deleteAccount, getAccountStatement } from '@/lib/accounts';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const statement = await getAccountStatement(id);
+    if (!statement) {
+      return apiError('ACCOUNT_NOT_FOUND');
+    }
+
+    return NextResponse.json(statement);
+  } catch (error) {
+    console.error('Error loading account:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors du chargement du compte',
+    });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    switch (await deleteAccount(id)) {
+      case 'not-found':
+        return apiError('ACCOUNT_NOT_FOUND');
+      case 'has-transactions':
+        return apiError('ACCOUNT_HAS_TRANSACTIONS');
+      case 'deleted':
+        return NextResponse.json({ success: true });
+    }
+  } catch (error) {
+    console.error('Error deleting account:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la suppression du compte',
+    });
+  }
+}
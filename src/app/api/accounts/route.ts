@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { apiError, parseJsonBody } from '@/lib/api-errors';
+import { createAccount, listAccounts } from '@/lib/accounts';
+import { accountSchema } from '@/lib/schemas';
+
+export async function GET() {
+  try {
+    const accounts = await listAccounts();
+    return NextResponse.json({ accounts });
+  } catch (error) {
+    console.error('Error listing accounts:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors du chargement des comptes',
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, accountSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const account = await createAccount(parsed.data);
+
+    return NextResponse.json({ account }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError && error.code === 'P2002') {
+      return apiError('ACCOUNT_NAME_TAKEN');
+    }
+
+    console.error('Error creating account:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la création du compte',
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseId, parseJsonBody } from '@/lib/api-errors';
+import { deleteBudget, updateBudget } from '@/lib/budgets';
+import { budgetUpdateSchema } from '@/lib/schemas';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const parsed = await parseJsonBody(request, budgetUpdateSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await updateBudget(id, parsed.data);
+    if (result.status !== 'saved') {
+      return apiError('BUDGET_NOT_FOUND');
+    }
+    return NextResponse.json({ budget: result.budget });
+  } catch (error) {
+    console.error('Error updating budget:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la modification du budget',
+    });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    if (!(await deleteBudget(id))) {
+      return apiError('BUDGET_NOT_FOUND');
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting budget:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la suppression du budget',
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { apiError, parseJsonBody } from '@/lib/api-errors';
+import { createBudget, listBudgetSummaries } from '@/lib/budgets';
+import { budgetMonthSchema, budgetSchema } from '@/lib/schemas';
+
+/**
+ * Lists budgets with their status for ?month=YYYY-MM, the current month by default
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const monthParam = request.nextUrl.searchParams.get('month');
+    const parsed = budgetMonthSchema.safeParse(monthParam);
+    if (monthParam !== null && !parsed.success) {
+      return apiError('INVALID_PAYLOAD', { error: parsed.error.issues[0].message });
+    }
+
+    const today = new Date();
+    const [year, month] = parsed.success
+      ? parsed.data.split('-').map(Number)
+      : [today.getFullYear(), today.getMonth() + 1];
+    const budgets = await listBudgetSummaries(month - 1, year);
+    return NextResponse.json({ month: `${year}-${String(month).padStart(2, '0')}`, budgets });
+  } catch (error) {
+    console.error('Error listing budgets:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors du chargement des budgets',
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, budgetSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await createBudget(parsed.data);
+    if (result.status === 'category-not-found') {
+      return apiError('CATEGORY_NOT_FOUND');
+    }
+    if (result.status === 'category-taken') {
+      return apiError('BUDGET_CATEGORY_TAKEN', { details: { budgetId: result.budgetId } });
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    // Created meanwhile for the same category
+    if (error instanceof PrismaClientKnownRequestError && error.code === 'P2002') {
+      return apiError('BUDGET_CATEGORY_TAKEN');
+    }
+
+    console.error('Error creating budget:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la création du budget',
+    });
+  }
+}
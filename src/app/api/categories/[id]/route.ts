@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { apiError, parseId, parseJsonBody } from '@/lib/api-errors';
+import { deleteCategory, updateCategory } from '@/lib/categories';
+import { categoryUpdateSchema } from '@/lib/schemas';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const parsed = await parseJsonBody(request, categoryUpdateSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await updateCategory(id, parsed.data);
+    switch (result.status) {
+      case 'not-found':
+        return apiError('CATEGORY_NOT_FOUND');
+      case 'name-taken':
+        return apiError('CATEGORY_NAME_TAKEN', { details: { categoryId: result.conflict.id } });
+      case 'parent-not-found':
+        return apiError('CATEGORY_NOT_FOUND', { error: 'Catégorie parente introuvable' });
+      case 'parent-cycle':
+        return apiError('CATEGORY_PARENT_INVALID');
+      case 'saved':
+        return NextResponse.json({ category: result.category });
+    }
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError && error.code === 'P2002') {
+      return apiError('CATEGORY_NAME_TAKEN');
+    }
+
+    console.error('Error updating category:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la modification de la catégorie',
+    });
+  }
+}
+
+/**
+ * Deletes a category, ?reassignTo=<id> moves its transactions to another one
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const reassignParam = request.nextUrl.searchParams.get('reassignTo');
+    const reassignTo = reassignParam !== null ? parseId(reassignParam) : undefined;
+    if (reassignTo === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const result = await deleteCategory(id, { reassignTo });
+    switch (result.status) {
+      case 'not-found':
+        return apiError('CATEGORY_NOT_FOUND');
+      case 'target-not-found':
+        return apiError('CATEGORY_NOT_FOUND', {
+          error: 'Catégorie de destination introuvable',
+        });
+      case 'deleted':
+        return NextResponse.json({
+          success: true,
+          movedCount: result.movedCount,
+          budgetDropped: result.budgetDropped,
+        });
+    }
+  } catch (error) {
+    console.error('Error deleting category:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la suppression de la catégorie',
+    });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { apiError, parseJsonBody } from '@/lib/api-errors';
+import { createCategory, listCategorySummaries } from '@/lib/categories';
+import { categorySchema } from '@/lib/schemas';
+
+export async function GET() {
+  try {
+    const categories = await listCategorySummaries();
+    return NextResponse.json({ categories });
+  } catch (error) {
+    console.error('Error listing categories:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors du chargement des catégories',
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, categorySchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await createCategory(parsed.data);
+    if (result.status === 'name-taken') {
+      return apiError('CATEGORY_NAME_TAKEN', { details: { categoryId: result.conflict.id } });
+    }
+    if (result.status === 'parent-not-found') {
+      return apiError('CATEGORY_NOT_FOUND', { error: 'Catégorie parente introuvable' });
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    // Created meanwhile with the exact same name
+    if (error instanceof PrismaClientKnownRequestError && error.code === 'P2002') {
+      return apiError('CATEGORY_NAME_TAKEN');
+    }
+
+    console.error('Error creating category:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la création de la catégorie',
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseId, parseJsonBody } from '@/lib/api-errors';
+import { deleteCategoryRule, updateCategoryRule } from '@/lib/category-rules';
+import { categoryRuleUpdateSchema } from '@/lib/schemas';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const parsed = await parseJsonBody(request, categoryRuleUpdateSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await updateCategoryRule(id, parsed.data);
+    switch (result.status) {
+      case 'not-found':
+        return apiError('RULE_NOT_FOUND');
+      case 'invalid':
+        return apiError('RULE_INVALID', { error: result.message });
+      case 'category-not-found':
+        return apiError('CATEGORY_NOT_FOUND');
+      case 'account-not-found':
+        return apiError('ACCOUNT_NOT_FOUND');
+      case 'saved':
+        return NextResponse.json({ rule: result.rule });
+    }
+  } catch (error) {
+    console.error('Error updating category rule:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la modification de la règle',
+    });
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    if (!(await deleteCategoryRule(id))) {
+      return apiError('RULE_NOT_FOUND');
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting category rule:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la suppression de la règle',
+    });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseJsonBody } from '@/lib/api-errors';
+import { applyCategoryRules } from '@/lib/category-rules';
+import { applyRulesRequestSchema } from '@/lib/schemas';
+
+/**
+ * Applies the rules to uncategorized transactions
+ * With dryRun, only returns how many transactions each rule would categorize.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, applyRulesRequestSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await applyCategoryRules({ dryRun: parsed.data.dryRun });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error applying category rules:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de l\'application des règles',
+    });
+  }
+}
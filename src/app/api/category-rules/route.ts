@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseJsonBody } from '@/lib/api-errors';
+import { createCategoryRule, listCategoryRules, SaveRuleResult } from '@/lib/category-rules';
+import { categoryRuleSchema } from '@/lib/schemas';
+
+/**
+ * Maps the result of saving a rule to a response
+ */
+function saveRuleResponse(result: SaveRuleResult, status = 200) {
+  switch (result.status) {
+    case 'not-found':
+      return apiError('RULE_NOT_FOUND');
+    case 'invalid':
+      return apiError('RULE_INVALID', { error: result.message });
+    case 'category-not-found':
+      return apiError('CATEGORY_NOT_FOUND');
+    case 'account-not-found':
+      return apiError('ACCOUNT_NOT_FOUND');
+    case 'saved':
+      return NextResponse.json({ rule: result.rule }, { status });
+  }
+}
+
+export async function GET() {
+  try {
+    const rules = await listCategoryRules();
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Error listing category rules:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors du chargement des règles',
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, categoryRuleSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    return saveRuleResponse(await createCategoryRule(parsed.data), 201);
+  } catch (error) {
+    console.error('Error creating category rule:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la création de la règle',
+    });
+  }
+}
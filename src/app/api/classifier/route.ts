@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseJsonBody } from '@/lib/api-errors';
+import { getClassifierStatus, setClassifierAutoApply } from '@/lib/category-classifier';
+import { classifierSettingsSchema } from '@/lib/schemas';
+
+export async function GET() {
+  try {
+    const classifier = await getClassifierStatus();
+    return NextResponse.json({ classifier });
+  } catch (error) {
+    console.error('Error loading classifier:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors du chargement des suggestions',
+    });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, classifierSettingsSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const classifier = await setClassifierAutoApply(parsed.data.autoApply);
+    return NextResponse.json({ classifier });
+  } catch (error) {
+    console.error('Error updating classifier:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de l\'enregistrement du réglage',
+    });
+  }
+}
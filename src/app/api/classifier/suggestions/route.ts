@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { listCategorySuggestions } from '@/lib/category-classifier';
+
+/**
+ * Latest uncategorized transactions with their suggested categories
+ */
+export async function GET() {
+  try {
+    const result = await listCategorySuggestions();
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error listing category suggestions:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors du chargement des suggestions',
+    });
+  }
+}
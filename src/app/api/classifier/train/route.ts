@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { rebuildClassifier } from '@/lib/category-classifier';
+
+/**
+ * Retrains the classifier on all categorized transactions
+ */
+export async function POST() {
+  try {
+    const classifier = await rebuildClassifier();
+    return NextResponse.json({ classifier });
+  } catch (error) {
+    console.error('Error training classifier:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de l\'apprentissage des catégories',
+    });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseId, parseJsonBody } from '@/lib/api-errors';
+import { rollbackImportBatch } from '@/lib/import-batches';
+import { rollbackRequestSchema } from '@/lib/schemas';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const parsed = await parseJsonBody(request, rollbackRequestSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await rollbackImportBatch(id, { force: parsed.data.force });
+
+    switch (result.status) {
+      case 'not-found':
+        return apiError('BATCH_NOT_FOUND');
+      case 'already-rolled-back':
+        return apiError('BATCH_ALREADY_ROLLED_BACK');
+      case 'pending':
+        return apiError('BATCH_PENDING');
+      case 'running':
+        return apiError('BATCH_RUNNING');
+      case 'failed':
+        return apiError('BATCH_FAILED', { details: { errorMessage: result.errorMessage } });
+      case 'blocked':
+        return apiError('BATCH_HAS_CHANGES', {
+          details: {
+            categorizedCount: result.assessment.categorized.length,
+            editedCount: result.assessment.edited.length,
+          },
+        });
+      case 'rolled-back':
+        return NextResponse.json({ success: true, deleted: result.deleted });
+    }
+  } catch (error) {
+    console.error('Error rolling back import batch:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de l\'annulation de l\'import',
+    });
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { listImportBatches } from '@/lib/import-batches';
+
+export async function GET() {
+  try {
+    const batches = await listImportBatches();
+    return NextResponse.json({ batches });
+  } catch (error) {
+    console.error('Error fetching import batches:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors du chargement de l\'historique des imports',
+    });
+  }
+}
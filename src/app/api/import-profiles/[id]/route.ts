@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { apiError, parseId } from '@/lib/api-errors';
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const deleted = await prisma.importProfile.deleteMany({
+      where: { id },
+    });
+
+    if (deleted.count === 0) {
+      return apiError('PROFILE_NOT_FOUND');
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting import profile:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la suppression du profil d\'import',
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { prisma } from '@/lib/prisma';
+import { apiError, parseJsonBody } from '@/lib/api-errors';
+import { listImportProfiles, toImportProfile, toImportProfileData } from '@/lib/import-profiles';
+import { importProfileSchema } from '@/lib/schemas';
+
+export async function GET() {
+  try {
+    const profiles = await listImportProfiles();
+    return NextResponse.json({ profiles });
+  } catch (error) {
+    console.error('Error listing import profiles:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors du chargement des profils d\'import',
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, importProfileSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const created = await prisma.importProfile.create({
+      data: toImportProfileData(parsed.data),
+    });
+
+    return NextResponse.json({ profile: toImportProfile(created) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError && error.code === 'P2002') {
+      return apiError('PROFILE_NAME_TAKEN');
+    }
+
+    console.error('Error creating import profile:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de l\'enregistrement du profil d\'import',
+    });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { apiError, parseId } from '@/lib/api-errors';
+import { readPendingInboxFile } from '@/lib/inbox';
+
+/**
+ * Content of a pending file, to import it with the wizard
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const file = await readPendingInboxFile(id);
+    if (!file) {
+      return apiError('INBOX_FILE_NOT_FOUND');
+    }
+
+    return new Response(Buffer.from(file.bytes), {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+      },
+    });
+  } catch (error) {
+    console.error('Error reading inbox file:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la lecture du fichier',
+    });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseId, parseJsonBody } from '@/lib/api-errors';
+import { resolveInboxFile } from '@/lib/inbox';
+import { inboxResolveSchema } from '@/lib/schemas';
+
+/**
+ * Closes a pending file imported with the wizard, or dismisses it
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const parsed = await parseJsonBody(request, inboxResolveSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await resolveInboxFile(id, parsed.data);
+
+    switch (result) {
+      case 'not-found':
+        return apiError('INBOX_FILE_NOT_FOUND');
+      case 'not-pending':
+        return apiError('INBOX_FILE_NOT_PENDING');
+      case 'batch-not-found':
+        return apiError('BATCH_NOT_FOUND');
+      case 'resolved':
+        return NextResponse.json({ success: true });
+    }
+  } catch (error) {
+    console.error('Error resolving inbox file:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors du traitement du fichier',
+    });
+  }
+}
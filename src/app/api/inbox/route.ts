@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { getInboxDir, listInboxFiles } from '@/lib/inbox';
+
+export async function GET() {
+  try {
+    if (!getInboxDir()) {
+      return NextResponse.json({ enabled: false, files: [] });
+    }
+
+    const files = await listInboxFiles();
+    return NextResponse.json({ enabled: true, files });
+  } catch (error) {
+    console.error('Error fetching inbox files:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors du chargement du dossier d\'import',
+    });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseId, parseJsonBody } from '@/lib/api-errors';
+import { mergeMerchants } from '@/lib/merchants';
+import { mergeMerchantsSchema } from '@/lib/schemas';
+
+/**
+ * Merges another merchant into this one, e.g. two spellings of the same shop
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const parsed = await parseJsonBody(request, mergeMerchantsSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await mergeMerchants(id, parsed.data.sourceId);
+    switch (result.status) {
+      case 'not-found':
+        return apiError('MERCHANT_NOT_FOUND');
+      case 'source-not-found':
+        return apiError('MERCHANT_NOT_FOUND', { error: 'Marchand à fusionner introuvable' });
+      case 'merged':
+        return NextResponse.json({ merchant: result.merchant, movedCount: result.movedCount });
+    }
+  } catch (error) {
+    console.error('Error merging merchants:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la fusion des marchands',
+    });
+  }
+}
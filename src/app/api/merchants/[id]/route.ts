@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { apiError, parseId, parseJsonBody } from '@/lib/api-errors';
+import { deleteMerchant, updateMerchant } from '@/lib/merchants';
+import { merchantUpdateSchema } from '@/lib/schemas';
+
+/**
+ * Renames a merchant, sets its default category and/or replaces its aliases
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const parsed = await parseJsonBody(request, merchantUpdateSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await updateMerchant(id, parsed.data);
+    switch (result.status) {
+      case 'not-found':
+        return apiError('MERCHANT_NOT_FOUND');
+      case 'name-taken':
+        return apiError('MERCHANT_NAME_TAKEN', { details: { merchantId: result.conflict.id } });
+      case 'category-not-found':
+        return apiError('CATEGORY_NOT_FOUND');
+      case 'alias-taken':
+        return apiError('MERCHANT_ALIAS_TAKEN', {
+          details: { key: result.key, merchantId: result.merchantId },
+        });
+      case 'saved':
+        return NextResponse.json({ merchant: result.merchant });
+    }
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError && error.code === 'P2002') {
+      return apiError('MERCHANT_NAME_TAKEN');
+    }
+
+    console.error('Error updating merchant:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la modification du marchand',
+    });
+  }
+}
+
+/**
+ * Deletes a merchant, its transactions are kept without merchant
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    if (!(await deleteMerchant(id))) {
+      return apiError('MERCHANT_NOT_FOUND');
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting merchant:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la suppression du marchand',
+    });
+  }
+}
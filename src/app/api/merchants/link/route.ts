@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseJsonBody } from '@/lib/api-errors';
+import { linkTransactionMerchants } from '@/lib/merchants';
+import { linkMerchantsSchema } from '@/lib/schemas';
+
+/**
+ * Links transactions to their merchant, creating the missing merchants
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, linkMerchantsSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await linkTransactionMerchants(parsed.data);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error linking merchants:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la reconnaissance des marchands',
+    });
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { apiError } from '@/lib/api-errors';
+import { listMerchantSummaries } from '@/lib/merchants';
+
+export async function GET() {
+  try {
+    const merchants = await listMerchantSummaries();
+    return NextResponse.json({ merchants });
+  } catch (error) {
+    console.error('Error listing merchants:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors du chargement des marchands',
+    });
+  }
+}
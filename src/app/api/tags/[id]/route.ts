@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { apiError, parseId, parseJsonBody } from '@/lib/api-errors';
+import { deleteTag, updateTag } from '@/lib/tags';
+import { tagUpdateSchema } from '@/lib/schemas';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const parsed = await parseJsonBody(request, tagUpdateSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await updateTag(id, parsed.data);
+    switch (result.status) {
+      case 'not-found':
+        return apiError('TAG_NOT_FOUND');
+      case 'invalid-name':
+        return apiError('INVALID_PAYLOAD', { error: 'Le nom de l\'étiquette est vide' });
+      case 'name-taken':
+        return apiError('TAG_NAME_TAKEN', { details: { tagId: result.conflict.id } });
+      case 'saved':
+        return NextResponse.json({ tag: result.tag });
+    }
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError && error.code === 'P2002') {
+      return apiError('TAG_NAME_TAKEN');
+    }
+
+    console.error('Error updating tag:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la modification de l\'étiquette',
+    });
+  }
+}
+
+/**
+ * Deletes a tag, its transactions are kept
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    if (!(await deleteTag(id))) {
+      return apiError('TAG_NOT_FOUND');
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la suppression de l\'étiquette',
+    });
+  }
+}
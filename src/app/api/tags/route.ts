@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { apiError, parseJsonBody } from '@/lib/api-errors';
+import { createTag, listTagSummaries } from '@/lib/tags';
+import { tagSchema } from '@/lib/schemas';
+
+export async function GET() {
+  try {
+    const tags = await listTagSummaries();
+    return NextResponse.json({ tags });
+  } catch (error) {
+    console.error('Error listing tags:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors du chargement des étiquettes',
+    });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, tagSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await createTag(parsed.data);
+    if (result.status === 'invalid-name') {
+      return apiError('INVALID_PAYLOAD', { error: 'Le nom de l\'étiquette est vide' });
+    }
+    if (result.status === 'name-taken') {
+      return apiError('TAG_NAME_TAKEN', { details: { tagId: result.conflict.id } });
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    // Created meanwhile with the exact same name
+    if (error instanceof PrismaClientKnownRequestError && error.code === 'P2002') {
+      return apiError('TAG_NAME_TAKEN');
+    }
+
+    console.error('Error creating tag:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la création de l\'étiquette',
+    });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseId, parseJsonBody } from '@/lib/api-errors';
+import { setTransactionCategory } from '@/lib/category-classifier';
+import { transactionCategorySchema } from '@/lib/schemas';
+
+/**
+ * Sets the category of a transaction, the classifier learns from it
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const parsed = await parseJsonBody(request, transactionCategorySchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await setTransactionCategory(id, parsed.data.categoryId);
+    switch (result.status) {
+      case 'not-found':
+        return apiError('TRANSACTION_NOT_FOUND');
+      case 'category-not-found':
+        return apiError('CATEGORY_NOT_FOUND');
+      case 'saved':
+        return NextResponse.json({ success: true });
+    }
+  } catch (error) {
+    console.error('Error categorizing transaction:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la catégorisation de la transaction',
+    });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseId, parseJsonBody } from '@/lib/api-errors';
+import { getTransactionSplits, saveTransactionSplits } from '@/lib/transaction-splits';
+import { transactionSplitsSchema } from '@/lib/schemas';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const splits = await getTransactionSplits(id);
+    if (!splits) {
+      return apiError('TRANSACTION_NOT_FOUND');
+    }
+    return NextResponse.json({ splits });
+  } catch (error) {
+    console.error('Error loading transaction splits:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors du chargement de la ventilation',
+    });
+  }
+}
+
+/**
+ * Splits a transaction across categories, an empty list removes the split
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const parsed = await parseJsonBody(request, transactionSplitsSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await saveTransactionSplits(id, parsed.data.splits);
+    switch (result.status) {
+      case 'not-found':
+        return apiError('TRANSACTION_NOT_FOUND');
+      case 'invalid':
+        return apiError('SPLITS_INVALID', { error: result.message });
+      case 'category-not-found':
+        return apiError('CATEGORY_NOT_FOUND', { details: { categoryIds: result.categoryIds } });
+      case 'saved':
+        return NextResponse.json({ splits: result.splits });
+    }
+  } catch (error) {
+    console.error('Error saving transaction splits:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de l\'enregistrement de la ventilation',
+    });
+  }
+}
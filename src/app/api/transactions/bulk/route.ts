@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseJsonBody } from '@/lib/api-errors';
+import { runBulkEdit } from '@/lib/bulk-edits';
+import { bulkEditRequestSchema } from '@/lib/schemas';
+
+/**
+ * Sets or clears the category of, or tags, all the transactions matching a selection
+ * With dryRun, only counts them. Applying returns a token to undo the change.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, bulkEditRequestSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await runBulkEdit(parsed.data);
+    switch (result.status) {
+      case 'empty-selection':
+        return apiError('SELECTION_EMPTY');
+      case 'category-not-found':
+        return apiError('CATEGORY_NOT_FOUND');
+      case 'tag-not-found':
+        return apiError('TAG_NOT_FOUND');
+      case 'preview':
+        return NextResponse.json({ dryRun: true, ...result.summary });
+      case 'applied':
+        return NextResponse.json({ dryRun: false, ...result.summary, undoToken: result.token });
+    }
+  } catch (error) {
+    console.error('Error running bulk edit:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la modification groupée des transactions',
+    });
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseJsonBody } from '@/lib/api-errors';
+import { undoBulkEdit } from '@/lib/bulk-edits';
+import { bulkUndoRequestSchema } from '@/lib/schemas';
+
+/**
+ * Undoes a bulk edit with the token it returned
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, bulkUndoRequestSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await undoBulkEdit(parsed.data.token);
+    switch (result.status) {
+      case 'not-found':
+        return apiError('BULK_EDIT_NOT_FOUND');
+      case 'already-undone':
+        return apiError('BULK_EDIT_ALREADY_UNDONE');
+      case 'undone':
+        return NextResponse.json({
+          restoredCount: result.restoredCount,
+          skippedCount: result.skippedCount,
+        });
+    }
+  } catch (error) {
+    console.error('Error undoing bulk edit:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de l\'annulation de la modification groupée',
+    });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseJsonBody } from '@/lib/api-errors';
+import { findBatchByHash } from '@/lib/import-batches';
+import { duplicateCheckRequestSchema } from '@/lib/schemas';
+import { checkDuplicates } from '@/lib/transaction-import';
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, duplicateCheckRequestSchema, {
+      rowsKey: 'transactions',
+    });
+    if (!parsed.success) {
+      return parsed.response;
+    }
+    const { transactions, fileHash, accountId } = parsed.data;
+
+    // Classify rows without writing anything
+    const check = await checkDuplicates(transactions, undefined, { accountId });
+    const previousImport = fileHash ? await findBatchByHash(fileHash) : null;
+
+    return NextResponse.json({
+      statuses: check.statuses,
+      duplicateCount: check.duplicates.length,
+      suspiciousCount: check.suspicious.length,
+      previousImport,
+    });
+  } catch (error) {
+    console.error('Error checking duplicates:', error);
+    return apiError('DUPLICATE_CHECK_FAILED');
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseId } from '@/lib/api-errors';
+import { getImportJobProgress, runImportJob } from '@/lib/streaming-import';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const progress = await getImportJobProgress(id);
+    if (!progress) {
+      return apiError('BATCH_NOT_FOUND');
+    }
+
+    return NextResponse.json(progress);
+  } catch (error) {
+    console.error('Error fetching import job:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors du suivi de l\'importation',
+    });
+  }
+}
+
+/**
+ * Receives the raw CSV file and imports it while it uploads
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const id = parseId((await params).id);
+    if (id === null) {
+      return apiError('INVALID_ID');
+    }
+
+    const progress = await getImportJobProgress(id);
+    if (!progress) {
+      return apiError('BATCH_NOT_FOUND');
+    }
+    if (progress.status !== 'pending') {
+      return apiError('JOB_ALREADY_STARTED');
+    }
+    if (!request.body) {
+      return apiError('JOB_NO_FILE');
+    }
+
+    const summary = await runImportJob(id, request.body);
+
+    return NextResponse.json({
+      success: true,
+      count: summary.inserted,
+      ...summary,
+    });
+  } catch (error) {
+    // Rows already inserted were deleted by runImportJob
+    console.error('Error importing transactions:', error);
+    return apiError('IMPORT_FAILED', {
+      error: 'Erreur lors de l\'importation des transactions, aucune transaction n\'a été ajoutée',
+    });
+  }
+}
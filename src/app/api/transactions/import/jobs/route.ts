@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { apiError, parseJsonBody } from '@/lib/api-errors';
+import { importJobRequestSchema } from '@/lib/schemas';
+import { createImportJob } from '@/lib/streaming-import';
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, importJobRequestSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const id = await createImportJob(parsed.data);
+
+    return NextResponse.json({ id }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PrismaClientKnownRequestError && error.code === 'P2003') {
+      return apiError('ACCOUNT_NOT_FOUND');
+    }
+
+    console.error('Error creating import job:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de la préparation de l\'importation',
+    });
+  }
+}
@@ -1,38 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
-import { ValidatedTransaction } from '@/domain/csv-import';
+import { PrismaClientKnownRequestError } from '@prisma/client/runtime/library';
+import { apiError, parseJsonBody } from '@/lib/api-errors';
+import { findMissingCategoryIds } from '@/lib/categories';
+import { importRequestSchema } from '@/lib/schemas';
+import { importTransactions } from '@/lib/transaction-import';
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { transactions } = body as { transactions: ValidatedTransaction[] };
+    const parsed = await parseJsonBody(request, importRequestSchema, { rowsKey: 'transactions' });
+    if (!parsed.success) {
+      return parsed.response;
+    }
+    const { transactions, source } = parsed.data;
 
-    if (!Array.isArray(transactions) || transactions.length === 0) {
-      return NextResponse.json(
-        { error: 'Aucune transaction à importer' },
-        { status: 400 }
-      );
+    const missingCategoryIds = await findMissingCategoryIds(
+      transactions.flatMap((t) => (t.categoryId !== undefined ? [t.categoryId] : []))
+    );
+    if (missingCategoryIds.length > 0) {
+      return apiError('CATEGORY_NOT_FOUND', { details: { categoryIds: missingCategoryIds } });
     }
 
-    // Insert transactions in database
-    const created = await prisma.transaction.createMany({
-      data: transactions.map((t) => ({
-        date: t.date,
-        description: t.description,
-        amount: t.amount,
-        categoryId: null, // No category assigned by default
-      })),
+    // Insert transactions in database, skipping already imported ones
+    const summary = await importTransactions(transactions, {
+      ...source,
+      fileName: source?.fileName || 'Import sans nom',
     });
 
     return NextResponse.json({
       success: true,
-      count: created.count,
+      batchId: summary.batchId,
+      count: summary.inserted,
+      inserted: summary.inserted,
+      skipped: summary.skipped,
+      suspicious: summary.suspicious,
     });
   } catch (error) {
+    // Foreign key violation: the chosen account was deleted meanwhile
+    if (error instanceof PrismaClientKnownRequestError && error.code === 'P2003') {
+      return apiError('ACCOUNT_NOT_FOUND');
+    }
+
     console.error('Error importing transactions:', error);
-    return NextResponse.json(
-      { error: 'Erreur lors de l\'importation des transactions' },
-      { status: 500 }
-    );
+    return apiError('IMPORT_FAILED');
   }
 }
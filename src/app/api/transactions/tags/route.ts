@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, parseJsonBody } from '@/lib/api-errors';
+import { assignTags } from '@/lib/tags';
+import { transactionTagsSchema } from '@/lib/schemas';
+
+/**
+ * Adds and removes tags on a selection of transactions
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = await parseJsonBody(request, transactionTagsSchema);
+    if (!parsed.success) {
+      return parsed.response;
+    }
+
+    const result = await assignTags(parsed.data);
+    switch (result.status) {
+      case 'transaction-not-found':
+        return apiError('TRANSACTION_NOT_FOUND', {
+          details: { transactionIds: result.transactionIds },
+        });
+      case 'tag-not-found':
+        return apiError('TAG_NOT_FOUND', { details: { tagIds: result.tagIds } });
+      case 'saved':
+        return NextResponse.json({
+          addedCount: result.addedCount,
+          removedCount: result.removedCount,
+        });
+    }
+  } catch (error) {
+    console.error('Error assigning tags:', error);
+    return apiError('INTERNAL_ERROR', {
+      error: 'Erreur lors de l\'étiquetage des transactions',
+    });
+  }
+}
@@ -0,0 +1,384 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { ApiErrorBody } from '@/lib/api-errors';
+
+type BudgetAlert = 'on-track' | 'at-risk' | 'over-budget';
+
+interface Budget {
+  id: number;
+  categoryId: number;
+  categoryName: string;
+  amount: number;
+  rollover: boolean;
+  startDate: string;
+  status: {
+    carriedOver: number;
+    available: number;
+    spent: number;
+    remaining: number;
+    projected: number;
+    alert: BudgetAlert;
+  };
+}
+
+interface Category {
+  id: number;
+  name: string;
+}
+
+const ALERT_STYLES: Record<BudgetAlert, { label: string; className: string; bar: string }> = {
+  'on-track': {
+    label: 'Dans les clous',
+    className: 'bg-green-100 text-green-800',
+    bar: 'bg-green-500',
+  },
+  'at-risk': {
+    label: 'Dépassement prévu',
+    className: 'bg-orange-100 text-orange-800',
+    bar: 'bg-orange-500',
+  },
+  'over-budget': { label: 'Dépassé', className: 'bg-red-100 text-red-800', bar: 'bg-red-500' },
+};
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR' });
+}
+
+function currentMonth(): string {
+  const today = new Date();
+  return `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Sends a budget change, throwing the API message on failure
+ */
+async function saveBudget(url: string, method: 'POST' | 'PATCH' | 'DELETE', body?: object) {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    const data: ApiErrorBody = await response.json();
+    throw new Error(data.error || 'Erreur lors de l\'enregistrement du budget');
+  }
+}
+
+function BudgetForm({
+  categories,
+  month,
+  onCreated,
+}: {
+  categories: Category[];
+  month: string;
+  onCreated: () => void;
+}) {
+  const [categoryId, setCategoryId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [rollover, setRollover] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      await saveBudget('/api/budgets', 'POST', {
+        categoryId: Number(categoryId),
+        amount: Number(amount.replace(',', '.')),
+        rollover,
+        startDate: `${month}-01`,
+      });
+      setCategoryId('');
+      setAmount('');
+      setRollover(false);
+      setError(null);
+      onCreated();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+      <div className="flex flex-wrap items-center gap-4">
+        <select
+          aria-label="Catégorie"
+          value={categoryId}
+          onChange={(e) => setCategoryId(e.target.value)}
+          required
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        >
+          <option value="">Catégorie...</option>
+          {categories.map((category) => (
+            <option key={category.id} value={category.id}>
+              {category.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          inputMode="decimal"
+          aria-label="Montant mensuel"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="Montant par mois"
+          required
+          className="w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={rollover} onChange={(e) => setRollover(e.target.checked)} />
+          Reporter le reste sur le mois suivant
+        </label>
+        <button
+          type="submit"
+          disabled={saving || categoryId === '' || amount.trim() === ''}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Création...' : 'Ajouter le budget'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function BudgetRow({
+  budget,
+  onChanged,
+  onError,
+}: {
+  budget: Budget;
+  onChanged: () => void;
+  onError: (message: string) => void;
+}) {
+  const [amount, setAmount] = useState(String(budget.amount));
+  const [pending, setPending] = useState(false);
+  const { status } = budget;
+  const style = ALERT_STYLES[status.alert];
+  const usedPercent =
+    status.available > 0 ? Math.min(100, (status.spent / status.available) * 100) : 100;
+
+  const run = async (action: () => Promise<void>) => {
+    setPending(true);
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const saveAmount = () => {
+    const value = Number(amount.replace(',', '.'));
+    if (value !== budget.amount) {
+      run(() => saveBudget(`/api/budgets/${budget.id}`, 'PATCH', { amount: value }));
+    }
+  };
+
+  const remove = () => {
+    if (window.confirm(`Supprimer le budget de « ${budget.categoryName} » ?`)) {
+      run(() => saveBudget(`/api/budgets/${budget.id}`, 'DELETE'));
+    }
+  };
+
+  return (
+    <tr className="border-t">
+      <td className="px-4 py-2 font-medium">{budget.categoryName}</td>
+      <td className="px-4 py-2 text-right">
+        <input
+          type="text"
+          inputMode="decimal"
+          aria-label={`Budget mensuel de ${budget.categoryName}`}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          onBlur={saveAmount}
+          disabled={pending}
+          className="w-28 px-2 py-1 border border-gray-300 rounded-md text-right"
+        />
+      </td>
+      <td className="px-4 py-2 text-center">
+        <input
+          type="checkbox"
+          aria-label={`Reporter le reste de ${budget.categoryName}`}
+          checked={budget.rollover}
+          onChange={(e) =>
+            run(() =>
+              saveBudget(`/api/budgets/${budget.id}`, 'PATCH', { rollover: e.target.checked })
+            )
+          }
+          disabled={pending}
+        />
+      </td>
+      <td className="px-4 py-2 text-right whitespace-nowrap">
+        {status.carriedOver > 0 ? formatAmount(status.carriedOver) : '—'}
+      </td>
+      <td className="px-4 py-2 min-w-48">
+        <div className="flex justify-between text-xs text-gray-600 mb-1">
+          <span>{formatAmount(status.spent)}</span>
+          <span>sur {formatAmount(status.available)}</span>
+        </div>
+        <div className="h-2 bg-gray-200 rounded-full">
+          <div className={`h-2 rounded-full ${style.bar}`} style={{ width: `${usedPercent}%` }} />
+        </div>
+      </td>
+      <td className="px-4 py-2 text-right whitespace-nowrap">{formatAmount(status.projected)}</td>
+      <td
+        className={`px-4 py-2 text-right whitespace-nowrap ${
+          status.remaining < 0 ? 'text-red-600' : ''
+        }`}
+      >
+        {formatAmount(status.remaining)}
+      </td>
+      <td className="px-4 py-2">
+        <span className={`px-2 py-1 rounded-full text-xs whitespace-nowrap ${style.className}`}>
+          {style.label}
+        </span>
+      </td>
+      <td className="px-4 py-2 text-right">
+        <button
+          onClick={remove}
+          disabled={pending}
+          className="text-red-600 hover:underline disabled:opacity-50"
+        >
+          Supprimer
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+export default function BudgetsPage() {
+  const [month, setMonth] = useState(currentMonth);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadBudgets = useCallback(async () => {
+    try {
+      const responses = await Promise.all(
+        [`/api/budgets?month=${month}`, '/api/categories'].map((url) => fetch(url))
+      );
+      const [budgetsData, categoriesData] = await Promise.all(
+        responses.map((response) => response.json())
+      );
+      const failed = responses.findIndex((response) => !response.ok);
+      if (failed !== -1) {
+        throw new Error(
+          [budgetsData, categoriesData][failed].error || 'Erreur lors du chargement des budgets'
+        );
+      }
+      setBudgets(budgetsData.budgets);
+      setCategories(categoriesData.categories);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    loadBudgets();
+  }, [loadBudgets]);
+
+  const alerts = budgets.filter((budget) => budget.status.alert !== 'on-track');
+  const budgetedIds = new Set(budgets.map((budget) => budget.categoryId));
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-4xl font-bold text-gray-900">Budgets</h1>
+        <input
+          type="month"
+          aria-label="Mois"
+          value={month}
+          onChange={(e) => e.target.value && setMonth(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md"
+        />
+      </div>
+
+      {error && (
+        <div className="p-4 mb-8 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+
+      {alerts.length > 0 && (
+        <div className="p-4 mb-8 bg-orange-50 border border-orange-200 rounded-md">
+          <ul className="text-orange-900 text-sm space-y-1">
+            {alerts.map((budget) => (
+              <li key={budget.id}>
+                <span className="font-medium">{budget.categoryName}</span> :{' '}
+                {budget.status.alert === 'over-budget'
+                  ? `budget dépassé de ${formatAmount(-budget.status.remaining)}`
+                  : `${formatAmount(budget.status.projected)} prévus pour un budget de ${formatAmount(
+                      budget.status.available
+                    )}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+        <h2 className="text-xl font-semibold mb-4">Nouveau budget</h2>
+        <BudgetForm
+          categories={categories.filter((category) => !budgetedIds.has(category.id))}
+          month={month}
+          onCreated={loadBudgets}
+        />
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <p className="text-sm text-gray-600 mb-4">
+          Le budget d&apos;une catégorie couvre ses sous-catégories. Les dépenses du mois en cours
+          sont projetées à la fin du mois au rythme actuel. Avec le report, ce qui reste du budget
+          s&apos;ajoute au mois suivant ; un mois dépassé ne reporte rien.
+        </p>
+        {loading ? (
+          <p className="text-gray-600 text-sm">Chargement des budgets...</p>
+        ) : budgets.length === 0 ? (
+          <p className="text-gray-600 text-sm">Aucun budget pour ce mois</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left">Catégorie</th>
+                  <th className="px-4 py-2 text-right">Budget mensuel</th>
+                  <th className="px-4 py-2 text-center">Report</th>
+                  <th className="px-4 py-2 text-right">Reporté</th>
+                  <th className="px-4 py-2 text-left">Dépensé</th>
+                  <th className="px-4 py-2 text-right">Projection</th>
+                  <th className="px-4 py-2 text-right">Reste</th>
+                  <th className="px-4 py-2 text-left">État</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {budgets.map((budget) => (
+                  <BudgetRow
+                    key={`${budget.id}-${budget.amount}`}
+                    budget={budget}
+                    onChanged={loadBudgets}
+                    onError={setError}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,445 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { findCategoryNameConflict, pickCategoryColor } from '@/domain/categories';
+import { buildCategoryTree, flattenCategoryTree, getDescendantIds } from '@/domain/category-tree';
+import type { ApiErrorBody } from '@/lib/api-errors';
+
+interface Category {
+  id: number;
+  name: string;
+  color: string | null;
+  parentId: number | null;
+  transactionCount: number;
+  totalAmount: number;
+  lastTransactionDate: string | null;
+}
+
+const DEFAULT_COLOR = '#9E9E9E';
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR' });
+}
+
+/**
+ * Sends a category change, throwing the API message on failure
+ */
+async function saveCategory(
+  url: string,
+  method: 'POST' | 'PATCH',
+  body: { name?: string; color?: string; parentId?: number | null }
+): Promise<void> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const data: ApiErrorBody = await response.json();
+    throw new Error(data.error || 'Erreur lors de l\'enregistrement de la catégorie');
+  }
+}
+
+/**
+ * Options of a parent select, indented by depth
+ * @param excludedIds - The category itself and its subcategories, which cannot be its parent
+ */
+function ParentOptions({
+  categories,
+  excludedIds = [],
+}: {
+  categories: Category[];
+  excludedIds?: number[];
+}) {
+  return (
+    <>
+      <option value="">Aucune (premier niveau)</option>
+      {flattenCategoryTree(buildCategoryTree(categories))
+        .filter((node) => !excludedIds.includes(node.category.id))
+        .map((node) => (
+          <option key={node.category.id} value={node.category.id}>
+            {'\u00a0\u00a0'.repeat(node.depth)}
+            {node.category.name}
+          </option>
+        ))}
+    </>
+  );
+}
+
+function CategoryForm({ categories, onCreated }: { categories: Category[]; onCreated: () => void }) {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState<string | null>(null); // Next palette color until picked
+  const [parentId, setParentId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const conflict = name.trim() ? findCategoryNameConflict(categories, name) : null;
+  const shownColor = color ?? pickCategoryColor(categories);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      await saveCategory('/api/categories', 'POST', {
+        name,
+        color: shownColor,
+        parentId: parentId ? Number(parentId) : null,
+      });
+      setName('');
+      setColor(null);
+      setError(null);
+      onCreated();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+      <div className="flex flex-wrap items-center gap-4">
+        <input
+          type="color"
+          aria-label="Couleur"
+          value={shownColor}
+          onChange={(e) => setColor(e.target.value)}
+          className="h-10 w-12 border border-gray-300 rounded-md"
+        />
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Nom (ex : Alimentation)"
+          maxLength={50}
+          required
+          className="flex-1 min-w-48 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Dans
+          <select
+            value={parentId}
+            onChange={(e) => setParentId(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <ParentOptions categories={categories} />
+          </select>
+        </label>
+        <button
+          type="submit"
+          disabled={saving || name.trim() === '' || conflict !== null}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Création...' : 'Ajouter la catégorie'}
+        </button>
+      </div>
+      {conflict && (
+        <p className="text-sm text-orange-600">La catégorie « {conflict.name} » existe déjà</p>
+      )}
+    </form>
+  );
+}
+
+interface CategoryRowProps {
+  category: Category;
+  depth: number;
+  categories: Category[];
+  maxCount: number;
+  onChanged: () => void;
+  onError: (message: string) => void;
+}
+
+function CategoryRow({
+  category,
+  depth,
+  categories,
+  maxCount,
+  onChanged,
+  onError,
+}: CategoryRowProps) {
+  const [color, setColor] = useState(category.color ?? DEFAULT_COLOR);
+  const [editedName, setEditedName] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [reassignTo, setReassignTo] = useState('');
+  const [pending, setPending] = useState(false);
+
+  const conflict =
+    editedName !== null && editedName.trim()
+      ? findCategoryNameConflict(categories, editedName, category.id)
+      : null;
+
+  const run = async (action: () => Promise<void>) => {
+    setPending(true);
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  // The picker fires while dragging, the color is saved once chosen
+  const saveColor = () => {
+    if (color.toLowerCase() !== (category.color ?? DEFAULT_COLOR).toLowerCase()) {
+      run(() => saveCategory(`/api/categories/${category.id}`, 'PATCH', { color }));
+    }
+  };
+
+  const saveParent = (value: string) =>
+    run(() =>
+      saveCategory(`/api/categories/${category.id}`, 'PATCH', {
+        parentId: value ? Number(value) : null,
+      })
+    );
+
+  const saveName = () =>
+    run(async () => {
+      await saveCategory(`/api/categories/${category.id}`, 'PATCH', { name: editedName ?? '' });
+      setEditedName(null);
+    });
+
+  const deleteCategory = () =>
+    run(async () => {
+      const query = reassignTo ? `?reassignTo=${reassignTo}` : '';
+      const response = await fetch(`/api/categories/${category.id}${query}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data: ApiErrorBody = await response.json();
+        throw new Error(data.error);
+      }
+    });
+
+  return (
+    <tr className="border-t align-top">
+      <td className="px-4 py-2">
+        <input
+          type="color"
+          aria-label={`Couleur de ${category.name}`}
+          value={color}
+          onChange={(e) => setColor(e.target.value)}
+          onBlur={saveColor}
+          disabled={pending}
+          className="h-8 w-10 border border-gray-300 rounded-md"
+        />
+      </td>
+      <td className="px-4 py-2" style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>
+        {editedName === null ? (
+          <button
+            onClick={() => setEditedName(category.name)}
+            title="Renommer"
+            className="font-medium text-left hover:underline"
+          >
+            {category.name}
+          </button>
+        ) : (
+          <div className="space-y-1">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={editedName}
+                onChange={(e) => setEditedName(e.target.value)}
+                maxLength={50}
+                autoFocus
+                className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={saveName}
+                disabled={pending || editedName.trim() === '' || conflict !== null}
+                className="text-blue-700 hover:underline disabled:opacity-50"
+              >
+                Enregistrer
+              </button>
+              <button onClick={() => setEditedName(null)} className="text-gray-600 hover:underline">
+                Annuler
+              </button>
+            </div>
+            {conflict && (
+              <p className="text-xs text-orange-600">
+                La catégorie « {conflict.name} » existe déjà
+              </p>
+            )}
+          </div>
+        )}
+      </td>
+      <td className="px-4 py-2">
+        <select
+          aria-label={`Catégorie parente de ${category.name}`}
+          value={category.parentId ?? ''}
+          onChange={(e) => saveParent(e.target.value)}
+          disabled={pending}
+          className="px-2 py-1 border border-gray-300 rounded-md"
+        >
+          <ParentOptions
+            categories={categories}
+            excludedIds={[category.id, ...getDescendantIds(categories, category.id)]}
+          />
+        </select>
+      </td>
+      <td className="px-4 py-2 text-right">
+        <div>{category.transactionCount}</div>
+        <div className="h-1 mt-1 bg-gray-100 rounded">
+          <div
+            className="h-1 rounded"
+            style={{
+              width: `${maxCount > 0 ? (category.transactionCount / maxCount) * 100 : 0}%`,
+              backgroundColor: color,
+            }}
+          />
+        </div>
+      </td>
+      <td
+        className={`px-4 py-2 text-right whitespace-nowrap ${
+          category.totalAmount < 0 ? 'text-red-600' : ''
+        }`}
+      >
+        {formatAmount(category.totalAmount)}
+      </td>
+      <td className="px-4 py-2 whitespace-nowrap">
+        {category.lastTransactionDate
+          ? new Date(category.lastTransactionDate).toLocaleDateString('fr-FR')
+          : '—'}
+      </td>
+      <td className="px-4 py-2 text-right">
+        {!deleting ? (
+          <button onClick={() => setDeleting(true)} className="text-red-600 hover:underline">
+            Supprimer
+          </button>
+        ) : (
+          <div className="space-y-2 text-left">
+            {category.transactionCount > 0 && (
+              <label className="block text-xs text-gray-600">
+                Ses {category.transactionCount} transactions deviennent
+                <select
+                  value={reassignTo}
+                  onChange={(e) => setReassignTo(e.target.value)}
+                  className="block mt-1 px-2 py-1 border border-gray-300 rounded-md"
+                >
+                  <option value="">non catégorisées</option>
+                  {categories
+                    .filter((other) => other.id !== category.id)
+                    .map((other) => (
+                      <option key={other.id} value={other.id}>
+                        {other.name}
+                      </option>
+                    ))}
+                </select>
+              </label>
+            )}
+            <p className="text-xs text-gray-600">
+              Son budget éventuel suit ses transactions si la catégorie choisie n&apos;en a pas,
+              sinon il est supprimé
+            </p>
+            {categories.some((other) => other.parentId === category.id) && (
+              <p className="text-xs text-gray-600">Ses sous-catégories remontent d&apos;un niveau</p>
+            )}
+            <div className="flex gap-2 justify-end">
+              <button
+                onClick={deleteCategory}
+                disabled={pending}
+                className="text-red-600 hover:underline disabled:opacity-50"
+              >
+                Confirmer
+              </button>
+              <button onClick={() => setDeleting(false)} className="text-gray-600 hover:underline">
+                Annuler
+              </button>
+            </div>
+          </div>
+        )}
+      </td>
+    </tr>
+  );
+}
+
 export default function CategoriesPage() {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCategories = useCallback(async () => {
+    try {
+      const response = await fetch('/api/categories');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Erreur lors du chargement des catégories');
+      }
+      setCategories(data.categories);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCategories();
+  }, [loadCategories]);
+
+  const maxCount = Math.max(0, ...categories.map((category) => category.transactionCount));
+  const categorizedCount = categories.reduce((sum, category) => sum + category.transactionCount, 0);
+
   return (
     <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
-      <h1 className="text-4xl font-bold text-gray-900">Gestion des catégories</h1>
-      <p className="mt-4 text-lg text-gray-600">(à venir)</p>
+      <h1 className="text-4xl font-bold text-gray-900 mb-8">Gestion des catégories</h1>
+
+      {error && (
+        <div className="p-4 mb-8 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+        {loading ? (
+          <p className="text-gray-600 text-sm">Chargement des catégories...</p>
+        ) : categories.length === 0 ? (
+          <p className="text-gray-600 text-sm">Aucune catégorie pour le moment</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-4">
+              {categories.length} catégories, {categorizedCount} transactions catégorisées
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left">Couleur</th>
+                    <th className="px-4 py-2 text-left">Catégorie</th>
+                    <th className="px-4 py-2 text-left">Dans</th>
+                    <th className="px-4 py-2 text-right">Transactions</th>
+                    <th className="px-4 py-2 text-right">Total</th>
+                    <th className="px-4 py-2 text-left">Dernière opération</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {flattenCategoryTree(buildCategoryTree(categories)).map(({ category, depth }) => (
+                    <CategoryRow
+                      key={`${category.id}-${category.name}-${category.color}`}
+                      category={category}
+                      depth={depth}
+                      categories={categories}
+                      maxCount={maxCount}
+                      onChanged={loadCategories}
+                      onError={setError}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold mb-4">Nouvelle catégorie</h2>
+        <CategoryForm categories={categories} onCreated={loadCategories} />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,296 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { ApiErrorBody } from '@/lib/api-errors';
+
+interface Merchant {
+  id: number;
+  name: string;
+  categoryId: number | null;
+  aliases: string[];
+  transactionCount: number;
+  totalAmount: number;
+  lastTransactionDate: string | null;
+}
+
+interface Category {
+  id: number;
+  name: string;
+}
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR' });
+}
+
+/**
+ * Sends a request, throwing the API message on failure
+ */
+async function send(url: string, method: 'POST' | 'PATCH' | 'DELETE', body?: object) {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error((data as ApiErrorBody).error || 'Erreur lors de l\'enregistrement du marchand');
+  }
+  return data;
+}
+
+function MerchantRow({
+  merchant,
+  merchants,
+  categories,
+  onChanged,
+  onError,
+}: {
+  merchant: Merchant;
+  merchants: Merchant[];
+  categories: Category[];
+  onChanged: () => void;
+  onError: (message: string) => void;
+}) {
+  const [name, setName] = useState(merchant.name);
+  const [aliases, setAliases] = useState(merchant.aliases.join(', '));
+  const [pending, setPending] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setPending(true);
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const update = (changes: { name?: string; categoryId?: number | null; aliases?: string[] }) =>
+    run(() => send(`/api/merchants/${merchant.id}`, 'PATCH', changes));
+
+  const saveName = () => {
+    if (name.trim() && name.trim() !== merchant.name) {
+      update({ name: name.trim() });
+    }
+  };
+
+  const saveAliases = () => {
+    const list = aliases.split(',').map((alias) => alias.trim()).filter((alias) => alias !== '');
+    if (list.join(', ') !== merchant.aliases.join(', ')) {
+      update({ aliases: list });
+    }
+  };
+
+  const merge = (sourceId: string) => {
+    const source = merchants.find((other) => other.id === Number(sourceId));
+    if (source && window.confirm(`Fusionner « ${source.name} » dans « ${merchant.name} » ?`)) {
+      run(() => send(`/api/merchants/${merchant.id}/merge`, 'POST', { sourceId: source.id }));
+    }
+  };
+
+  const remove = () => {
+    if (window.confirm(`Supprimer le marchand « ${merchant.name} » ?`)) {
+      run(() => send(`/api/merchants/${merchant.id}`, 'DELETE'));
+    }
+  };
+
+  return (
+    <tr className="border-t align-top">
+      <td className="px-4 py-2">
+        <input
+          type="text"
+          aria-label={`Nom de ${merchant.name}`}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={saveName}
+          maxLength={100}
+          disabled={pending}
+          className="w-full px-2 py-1 border border-gray-300 rounded-md font-medium"
+        />
+      </td>
+      <td className="px-4 py-2">
+        <input
+          type="text"
+          aria-label={`Libellés reconnus pour ${merchant.name}`}
+          value={aliases}
+          onChange={(e) => setAliases(e.target.value)}
+          onBlur={saveAliases}
+          disabled={pending}
+          className="w-full px-2 py-1 border border-gray-300 rounded-md font-mono text-xs"
+        />
+      </td>
+      <td className="px-4 py-2">
+        <select
+          aria-label={`Catégorie par défaut de ${merchant.name}`}
+          value={merchant.categoryId ?? ''}
+          onChange={(e) => update({ categoryId: e.target.value ? Number(e.target.value) : null })}
+          disabled={pending}
+          className="px-2 py-1 border border-gray-300 rounded-md"
+        >
+          <option value="">Aucune</option>
+          {categories.map((category) => (
+            <option key={category.id} value={category.id}>
+              {category.name}
+            </option>
+          ))}
+        </select>
+      </td>
+      <td className="px-4 py-2 text-right">{merchant.transactionCount}</td>
+      <td
+        className={`px-4 py-2 text-right whitespace-nowrap ${
+          merchant.totalAmount < 0 ? 'text-red-600' : ''
+        }`}
+      >
+        {formatAmount(merchant.totalAmount)}
+      </td>
+      <td className="px-4 py-2 whitespace-nowrap">
+        {merchant.lastTransactionDate
+          ? new Date(merchant.lastTransactionDate).toLocaleDateString('fr-FR')
+          : '—'}
+      </td>
+      <td className="px-4 py-2 text-right whitespace-nowrap">
+        <select
+          aria-label={`Fusionner un marchand dans ${merchant.name}`}
+          value=""
+          onChange={(e) => merge(e.target.value)}
+          disabled={pending}
+          className="px-2 py-1 border border-gray-300 rounded-md mr-3"
+        >
+          <option value="">Fusionner...</option>
+          {merchants
+            .filter((other) => other.id !== merchant.id)
+            .map((other) => (
+              <option key={other.id} value={other.id}>
+                {other.name}
+              </option>
+            ))}
+        </select>
+        <button
+          onClick={remove}
+          disabled={pending}
+          className="text-red-600 hover:underline disabled:opacity-50"
+        >
+          Supprimer
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+export default function MerchantsPage() {
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [linking, setLinking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMerchants = useCallback(async () => {
+    try {
+      const responses = await Promise.all(['/api/merchants', '/api/categories'].map((url) => fetch(url)));
+      const [merchantsData, categoriesData] = await Promise.all(
+        responses.map((response) => response.json())
+      );
+      const failed = responses.findIndex((response) => !response.ok);
+      if (failed !== -1) {
+        throw new Error(
+          [merchantsData, categoriesData][failed].error || 'Erreur lors du chargement des marchands'
+        );
+      }
+      setMerchants(merchantsData.merchants);
+      setCategories(categoriesData.categories);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMerchants();
+  }, [loadMerchants]);
+
+  const link = async () => {
+    setLinking(true);
+
+    try {
+      const data = await send('/api/merchants/link', 'POST', {});
+      setMessage(`${data.linkedCount} transactions reliées à un marchand`);
+      await loadMerchants();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+      <div className="flex justify-between items-center mb-8">
+        <h1 className="text-4xl font-bold text-gray-900">Marchands</h1>
+        <button
+          onClick={link}
+          disabled={linking}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {linking ? 'Reconnaissance...' : 'Reconnaître les marchands'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 mb-8 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+      {message && <p className="mb-4 text-sm text-green-700">{message}</p>}
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <p className="text-sm text-gray-600 mb-4">
+          Les libellés bancaires sont nettoyés (type de paiement, numéro de carte, dates,
+          références) pour reconnaître le marchand : « CB CARREFOUR CITY 12/03 CARTE 4974XXXX »
+          devient « CARREFOUR CITY ». Un libellé reconnu vaut aussi pour ses variantes plus
+          longues. La catégorie par défaut s&apos;applique aux transactions importées que
+          n&apos;attrape aucune règle.
+        </p>
+        {loading ? (
+          <p className="text-gray-600 text-sm">Chargement des marchands...</p>
+        ) : merchants.length === 0 ? (
+          <p className="text-gray-600 text-sm">Aucun marchand pour le moment</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left">Marchand</th>
+                  <th className="px-4 py-2 text-left">Libellés reconnus</th>
+                  <th className="px-4 py-2 text-left">Catégorie par défaut</th>
+                  <th className="px-4 py-2 text-right">Transactions</th>
+                  <th className="px-4 py-2 text-right">Total</th>
+                  <th className="px-4 py-2 text-left">Dernière opération</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {merchants.map((merchant) => (
+                  <MerchantRow
+                    key={`${merchant.id}-${merchant.name}-${merchant.aliases.join()}`}
+                    merchant={merchant}
+                    merchants={merchants}
+                    categories={categories}
+                    onChanged={loadMerchants}
+                    onError={setError}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
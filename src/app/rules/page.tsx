@@ -0,0 +1,548 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  AmountSign,
+  CategoryRule,
+  DescriptionMatch,
+  RulePreview,
+  validateRuleConditions,
+} from '@/domain/category-rules';
+import type { ApiErrorBody } from '@/lib/api-errors';
+
+interface Rule extends CategoryRule {
+  categoryName: string;
+  accountName: string | null;
+}
+
+interface Option {
+  id: number;
+  name: string;
+}
+
+interface ApplyResult {
+  uncategorizedCount: number;
+  categorizedCount: number;
+  rules: RulePreview[];
+}
+
+type RuleFields = Omit<CategoryRule, 'id' | 'enabled'>;
+
+const WEEKDAYS = ['Dim', 'Lun', 'Mar', 'Mer', 'Jeu', 'Ven', 'Sam'];
+
+const MATCH_LABELS: Record<DescriptionMatch, string> = {
+  contains: 'contient',
+  'starts-with': 'commence par',
+  regex: 'correspond à',
+};
+
+const EMPTY_RULE: RuleFields = {
+  name: '',
+  categoryId: 0,
+  priority: 100,
+  descriptionMatch: 'contains',
+  descriptionPattern: '',
+  minAmount: null,
+  maxAmount: null,
+  sign: null,
+  accountId: null,
+  weekdays: [],
+};
+
+/**
+ * Sends a rule change, throwing the API message on failure
+ */
+async function saveRule(url: string, method: 'POST' | 'PATCH', body: object): Promise<void> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const data: ApiErrorBody = await response.json();
+    throw new Error(data.error || 'Erreur lors de l\'enregistrement de la règle');
+  }
+}
+
+/**
+ * Readable summary of the conditions of a rule
+ */
+function describeRule(rule: Rule): string {
+  const parts: string[] = [];
+  if (rule.descriptionMatch) {
+    parts.push(`libellé ${MATCH_LABELS[rule.descriptionMatch]} « ${rule.descriptionPattern} »`);
+  }
+  if (rule.sign) {
+    parts.push(rule.sign === 'debit' ? 'débit' : 'crédit');
+  }
+  if (rule.minAmount !== null && rule.maxAmount !== null) {
+    parts.push(`entre ${rule.minAmount} et ${rule.maxAmount} €`);
+  } else if (rule.minAmount !== null) {
+    parts.push(`au moins ${rule.minAmount} €`);
+  } else if (rule.maxAmount !== null) {
+    parts.push(`au plus ${rule.maxAmount} €`);
+  }
+  if (rule.accountName) {
+    parts.push(`compte ${rule.accountName}`);
+  }
+  if (rule.weekdays.length > 0) {
+    parts.push(rule.weekdays.map((day) => WEEKDAYS[day]).join(', '));
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Parses an amount typed with a comma or a dot, empty for no limit
+ */
+function parseAmount(value: string): number | null {
+  return value.trim() === '' ? null : Math.abs(Number(value.trim().replace(',', '.')));
+}
+
+interface RuleFormProps {
+  initial: RuleFields;
+  categories: Option[];
+  accounts: Option[];
+  submitLabel: string;
+  onSubmit: (fields: RuleFields) => Promise<void>;
+  onCancel?: () => void;
+}
+
+function RuleForm({ initial, categories, accounts, submitLabel, onSubmit, onCancel }: RuleFormProps) {
+  const [fields, setFields] = useState<RuleFields>(initial);
+  // Amounts are kept as typed, "12," is not a number yet
+  const [minAmount, setMinAmount] = useState(initial.minAmount?.toString() ?? '');
+  const [maxAmount, setMaxAmount] = useState(initial.maxAmount?.toString() ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const set = (changes: Partial<RuleFields>) => setFields((current) => ({ ...current, ...changes }));
+  const rule = { ...fields, minAmount: parseAmount(minAmount), maxAmount: parseAmount(maxAmount) };
+  const invalid =
+    Number.isNaN(rule.minAmount) || Number.isNaN(rule.maxAmount)
+      ? 'Montant invalide'
+      : validateRuleConditions(rule);
+
+  const toggleWeekday = (day: number) =>
+    set({
+      weekdays: fields.weekdays.includes(day)
+        ? fields.weekdays.filter((other) => other !== day)
+        : [...fields.weekdays, day],
+    });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      await onSubmit(rule);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    'px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 text-sm">
+      {error && <p className="text-red-600">{error}</p>}
+      <div className="flex flex-wrap gap-3">
+        <input
+          type="text"
+          value={fields.name}
+          onChange={(e) => set({ name: e.target.value })}
+          placeholder="Nom (ex : Courses Carrefour)"
+          maxLength={100}
+          required
+          className={`flex-1 min-w-48 ${inputClass}`}
+        />
+        <select
+          value={fields.categoryId || ''}
+          onChange={(e) => set({ categoryId: Number(e.target.value) })}
+          required
+          className={inputClass}
+        >
+          <option value="">Catégorie...</option>
+          {categories.map((category) => (
+            <option key={category.id} value={category.id}>
+              {category.name}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2">
+          Priorité
+          <input
+            type="number"
+            min={0}
+            max={10000}
+            value={fields.priority}
+            onChange={(e) => set({ priority: Number(e.target.value) })}
+            className={`w-24 ${inputClass}`}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span>Libellé</span>
+        <select
+          value={fields.descriptionMatch ?? ''}
+          onChange={(e) =>
+            set({ descriptionMatch: (e.target.value || null) as DescriptionMatch | null })
+          }
+          className={inputClass}
+        >
+          <option value="">indifférent</option>
+          {Object.entries(MATCH_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {fields.descriptionMatch && (
+          <input
+            type="text"
+            value={fields.descriptionPattern ?? ''}
+            onChange={(e) => set({ descriptionPattern: e.target.value })}
+            placeholder={fields.descriptionMatch === 'regex' ? '^CB CARREFOUR' : 'carrefour'}
+            maxLength={200}
+            className={`flex-1 min-w-48 ${inputClass}`}
+          />
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={fields.sign ?? ''}
+          onChange={(e) => set({ sign: (e.target.value || null) as AmountSign | null })}
+          className={inputClass}
+        >
+          <option value="">Débit ou crédit</option>
+          <option value="debit">Débit</option>
+          <option value="credit">Crédit</option>
+        </select>
+        <label className="flex items-center gap-2">
+          Montant de
+          <input
+            type="text"
+            inputMode="decimal"
+            value={minAmount}
+            onChange={(e) => setMinAmount(e.target.value)}
+            className={`w-24 ${inputClass}`}
+          />
+          à
+          <input
+            type="text"
+            inputMode="decimal"
+            value={maxAmount}
+            onChange={(e) => setMaxAmount(e.target.value)}
+            className={`w-24 ${inputClass}`}
+          />
+          €
+        </label>
+        <select
+          value={fields.accountId ?? ''}
+          onChange={(e) => set({ accountId: e.target.value ? Number(e.target.value) : null })}
+          className={inputClass}
+        >
+          <option value="">Tous les comptes</option>
+          {accounts.map((account) => (
+            <option key={account.id} value={account.id}>
+              {account.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span>Jours</span>
+        {WEEKDAYS.map((label, day) => (
+          <label key={day} className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={fields.weekdays.includes(day)}
+              onChange={() => toggleWeekday(day)}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      {invalid && <p className="text-orange-600">{invalid}</p>}
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={saving || invalid !== null || !fields.categoryId || fields.name.trim() === ''}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Enregistrement...' : submitLabel}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="text-gray-600 hover:underline">
+            Annuler
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+export default function RulesPage() {
+  const [rules, setRules] = useState<Rule[]>([]);
+  const [categories, setCategories] = useState<Option[]>([]);
+  const [accounts, setAccounts] = useState<Option[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formKey, setFormKey] = useState(0);
+  const [applying, setApplying] = useState(false);
+  const [result, setResult] = useState<(ApplyResult & { dryRun: boolean }) | null>(null);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const responses = await Promise.all(
+        ['/api/category-rules', '/api/categories', '/api/accounts'].map((url) => fetch(url))
+      );
+      const [rulesData, categoriesData, accountsData] = await Promise.all(
+        responses.map((response) => response.json())
+      );
+      const failed = responses.findIndex((response) => !response.ok);
+      if (failed !== -1) {
+        throw new Error(
+          [rulesData, categoriesData, accountsData][failed].error ||
+            'Erreur lors du chargement des règles'
+        );
+      }
+
+      setRules(rulesData.rules);
+      setCategories(categoriesData.categories);
+      setAccounts(accountsData.accounts);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  // Counts of a previous simulation no longer hold once rules change
+  const refresh = async () => {
+    setResult(null);
+    await loadRules();
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      await refresh();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    }
+  };
+
+  const deleteRule = (rule: Rule) => {
+    if (!window.confirm(`Supprimer la règle « ${rule.name} » ?`)) {
+      return;
+    }
+    run(async () => {
+      const response = await fetch(`/api/category-rules/${rule.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data: ApiErrorBody = await response.json();
+        throw new Error(data.error);
+      }
+    });
+  };
+
+  const applyRules = async (dryRun: boolean) => {
+    setApplying(true);
+
+    try {
+      const response = await fetch('/api/category-rules/apply', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ dryRun }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Erreur lors de l\'application des règles');
+      }
+      setResult({ ...data, dryRun });
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+      <h1 className="text-4xl font-bold text-gray-900 mb-8">Règles de catégorisation</h1>
+
+      {error && (
+        <div className="p-4 mb-8 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+        <p className="text-sm text-gray-600 mb-4">
+          Les règles catégorisent les transactions importées. La première règle qui correspond,
+          par ordre de priorité, l&apos;emporte.
+        </p>
+
+        {loading ? (
+          <p className="text-gray-600 text-sm">Chargement des règles...</p>
+        ) : rules.length === 0 ? (
+          <p className="text-gray-600 text-sm">Aucune règle pour le moment</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+              <button
+                onClick={() => applyRules(true)}
+                disabled={applying}
+                className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Simuler
+              </button>
+              <button
+                onClick={() => applyRules(false)}
+                disabled={applying}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Appliquer aux transactions non catégorisées
+              </button>
+              {result && (
+                <span className="text-sm text-gray-700">
+                  {result.dryRun
+                    ? `${result.categorizedCount} transactions sur ${result.uncategorizedCount} non catégorisées seraient catégorisées`
+                    : `${result.categorizedCount} transactions catégorisées`}
+                </span>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-right">Priorité</th>
+                    <th className="px-4 py-2 text-left">Règle</th>
+                    <th className="px-4 py-2 text-left">Catégorie</th>
+                    {result && <th className="px-4 py-2 text-right">Correspondances</th>}
+                    <th className="px-4 py-2 text-left">Active</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rules.map((rule) => {
+                    const preview = result?.rules.find(({ ruleId }) => ruleId === rule.id);
+
+                    return editingId === rule.id ? (
+                      <tr key={rule.id} className="border-t">
+                        <td colSpan={result ? 6 : 5} className="px-4 py-4">
+                          <RuleForm
+                            initial={rule}
+                            categories={categories}
+                            accounts={accounts}
+                            submitLabel="Enregistrer"
+                            onSubmit={async (fields) => {
+                              await saveRule(`/api/category-rules/${rule.id}`, 'PATCH', fields);
+                              setEditingId(null);
+                              await refresh();
+                            }}
+                            onCancel={() => setEditingId(null)}
+                          />
+                        </td>
+                      </tr>
+                    ) : (
+                      <tr key={rule.id} className={`border-t ${rule.enabled ? '' : 'text-gray-400'}`}>
+                        <td className="px-4 py-2 text-right">{rule.priority}</td>
+                        <td className="px-4 py-2">
+                          <div className="font-medium">{rule.name}</div>
+                          <div className="text-xs text-gray-500">{describeRule(rule)}</div>
+                        </td>
+                        <td className="px-4 py-2">{rule.categoryName}</td>
+                        {result && (
+                          <td className="px-4 py-2 text-right">
+                            {preview ? preview.appliedCount : '—'}
+                            {preview && preview.matchCount !== preview.appliedCount && (
+                              <span
+                                className="text-xs text-gray-500"
+                                title="Les autres sont prises par une règle prioritaire"
+                              >
+                                {' '}
+                                sur {preview.matchCount}
+                              </span>
+                            )}
+                          </td>
+                        )}
+                        <td className="px-4 py-2">
+                          <input
+                            type="checkbox"
+                            aria-label={`Activer ${rule.name}`}
+                            checked={rule.enabled}
+                            onChange={(e) =>
+                              run(() =>
+                                saveRule(`/api/category-rules/${rule.id}`, 'PATCH', {
+                                  enabled: e.target.checked,
+                                })
+                              )
+                            }
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-right whitespace-nowrap space-x-3">
+                          <button
+                            onClick={() => setEditingId(rule.id)}
+                            className="text-blue-700 hover:underline"
+                          >
+                            Modifier
+                          </button>
+                          <button
+                            onClick={() => deleteRule(rule)}
+                            className="text-red-600 hover:underline"
+                          >
+                            Supprimer
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold mb-4">Nouvelle règle</h2>
+        {categories.length === 0 && !loading ? (
+          <p className="text-gray-600 text-sm">Créez d&apos;abord une catégorie</p>
+        ) : (
+          <RuleForm
+            key={formKey}
+            initial={EMPTY_RULE}
+            categories={categories}
+            accounts={accounts}
+            submitLabel="Ajouter la règle"
+            onSubmit={async (fields) => {
+              await saveRule('/api/category-rules', 'POST', fields);
+              setFormKey((key) => key + 1);
+              await refresh();
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { pickCategoryColor } from '@/domain/categories';
+import { findTagNameConflict, normalizeTagName } from '@/domain/tags';
+import type { ApiErrorBody } from '@/lib/api-errors';
+
+interface Tag {
+  id: number;
+  name: string;
+  color: string | null;
+  spending: {
+    total: number;
+    average: number;
+    max: number;
+    count: number;
+  };
+}
+
+const DEFAULT_COLOR = '#9E9E9E';
+
+function formatAmount(amount: number): string {
+  return amount.toLocaleString('fr-FR', { style: 'currency', currency: 'EUR' });
+}
+
+/**
+ * Sends a tag change, throwing the API message on failure
+ */
+async function saveTag(
+  url: string,
+  method: 'POST' | 'PATCH',
+  body: { name?: string; color?: string }
+): Promise<void> {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const data: ApiErrorBody = await response.json();
+    throw new Error(data.error || 'Erreur lors de l\'enregistrement de l\'étiquette');
+  }
+}
+
+function TagForm({ tags, onCreated }: { tags: Tag[]; onCreated: () => void }) {
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const normalized = normalizeTagName(name);
+  const conflict = normalized ? findTagNameConflict(tags, normalized) : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      await saveTag('/api/tags', 'POST', { name, color: pickCategoryColor(tags) });
+      setName('');
+      setError(null);
+      onCreated();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+      <div className="flex flex-wrap items-center gap-4">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Nom (ex : vacances-2025)"
+          maxLength={50}
+          required
+          className="flex-1 min-w-48 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={saving || normalized === '' || conflict !== null}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Création...' : 'Ajouter l\'étiquette'}
+        </button>
+      </div>
+      {conflict ? (
+        <p className="text-sm text-orange-600">L&apos;étiquette « {conflict.name} » existe déjà</p>
+      ) : (
+        normalized !== '' &&
+        normalized !== name.trim() && (
+          <p className="text-sm text-gray-600">Sera enregistrée sous « {normalized} »</p>
+        )
+      )}
+    </form>
+  );
+}
+
+function TagRow({
+  tag,
+  tags,
+  onChanged,
+  onError,
+}: {
+  tag: Tag;
+  tags: Tag[];
+  onChanged: () => void;
+  onError: (message: string) => void;
+}) {
+  const [color, setColor] = useState(tag.color ?? DEFAULT_COLOR);
+  const [editedName, setEditedName] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const conflict =
+    editedName !== null && normalizeTagName(editedName)
+      ? findTagNameConflict(tags, editedName, tag.id)
+      : null;
+
+  const run = async (action: () => Promise<void>) => {
+    setPending(true);
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  // The picker fires while dragging, the color is saved once chosen
+  const saveColor = () => {
+    if (color.toLowerCase() !== (tag.color ?? DEFAULT_COLOR).toLowerCase()) {
+      run(() => saveTag(`/api/tags/${tag.id}`, 'PATCH', { color }));
+    }
+  };
+
+  const saveName = () =>
+    run(async () => {
+      await saveTag(`/api/tags/${tag.id}`, 'PATCH', { name: editedName ?? '' });
+      setEditedName(null);
+    });
+
+  const deleteTag = () => {
+    if (!window.confirm(`Supprimer l'étiquette « ${tag.name} » de ${tag.spending.count} transactions ?`)) {
+      return;
+    }
+    run(async () => {
+      const response = await fetch(`/api/tags/${tag.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data: ApiErrorBody = await response.json();
+        throw new Error(data.error);
+      }
+    });
+  };
+
+  return (
+    <tr className="border-t align-top">
+      <td className="px-4 py-2">
+        <input
+          type="color"
+          aria-label={`Couleur de ${tag.name}`}
+          value={color}
+          onChange={(e) => setColor(e.target.value)}
+          onBlur={saveColor}
+          disabled={pending}
+          className="h-8 w-10 border border-gray-300 rounded-md"
+        />
+      </td>
+      <td className="px-4 py-2">
+        {editedName === null ? (
+          <button
+            onClick={() => setEditedName(tag.name)}
+            title="Renommer"
+            className="font-medium text-left hover:underline"
+          >
+            #{tag.name}
+          </button>
+        ) : (
+          <div className="space-y-1">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={editedName}
+                onChange={(e) => setEditedName(e.target.value)}
+                maxLength={50}
+                autoFocus
+                className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={saveName}
+                disabled={pending || normalizeTagName(editedName) === '' || conflict !== null}
+                className="text-blue-700 hover:underline disabled:opacity-50"
+              >
+                Enregistrer
+              </button>
+              <button onClick={() => setEditedName(null)} className="text-gray-600 hover:underline">
+                Annuler
+              </button>
+            </div>
+            {conflict && (
+              <p className="text-xs text-orange-600">
+                L&apos;étiquette « {conflict.name} » existe déjà
+              </p>
+            )}
+          </div>
+        )}
+      </td>
+      <td className="px-4 py-2 text-right">{tag.spending.count}</td>
+      <td className="px-4 py-2 text-right whitespace-nowrap">{formatAmount(tag.spending.total)}</td>
+      <td className="px-4 py-2 text-right whitespace-nowrap">
+        {formatAmount(tag.spending.average)}
+      </td>
+      <td className="px-4 py-2 text-right whitespace-nowrap">{formatAmount(tag.spending.max)}</td>
+      <td className="px-4 py-2 text-right">
+        <button
+          onClick={deleteTag}
+          disabled={pending}
+          className="text-red-600 hover:underline disabled:opacity-50"
+        >
+          Supprimer
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+export default function TagsPage() {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTags = useCallback(async () => {
+    try {
+      const response = await fetch('/api/tags');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Erreur lors du chargement des étiquettes');
+      }
+      setTags(data.tags);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+      <h1 className="text-4xl font-bold text-gray-900 mb-8">Étiquettes</h1>
+
+      {error && (
+        <div className="p-4 mb-8 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+        <p className="text-sm text-gray-600 mb-4">
+          Les étiquettes regroupent des transactions de toutes catégories (un voyage, des frais
+          remboursables...). Une transaction compte dans chacune de ses étiquettes.
+        </p>
+        {loading ? (
+          <p className="text-gray-600 text-sm">Chargement des étiquettes...</p>
+        ) : tags.length === 0 ? (
+          <p className="text-gray-600 text-sm">Aucune étiquette pour le moment</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left">Couleur</th>
+                  <th className="px-4 py-2 text-left">Étiquette</th>
+                  <th className="px-4 py-2 text-right">Transactions</th>
+                  <th className="px-4 py-2 text-right">Total</th>
+                  <th className="px-4 py-2 text-right">Moyenne</th>
+                  <th className="px-4 py-2 text-right">Maximum</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {tags.map((tag) => (
+                  <TagRow
+                    key={`${tag.id}-${tag.name}-${tag.color}`}
+                    tag={tag}
+                    tags={tags}
+                    onChanged={loadTags}
+                    onError={setError}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold mb-4">Nouvelle étiquette</h2>
+        <TagForm tags={tags} onCreated={loadTags} />
+      </div>
+    </div>
+  );
+}
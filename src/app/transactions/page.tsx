@@ -1,23 +1,62 @@
 'use client';
 
+import { CategorySuggestions } from '@/components/CategorySuggestions';
 import { CSVImport } from '@/components/CSVImport';
-import { useState } from 'react';
+import { ImportHistory } from '@/components/ImportHistory';
+import { ImportInbox } from '@/components/ImportInbox';
+import type { ImportResult } from '@/hooks/useCSVImport';
+import { useCallback, useState } from 'react';
 
 export default function TransactionsPage() {
   const [showImport, setShowImport] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
+  // Pending file of the import inbox opened in the wizard
+  const [inboxFile, setInboxFile] = useState<{ id: number; file: File } | null>(null);
+
+  const refreshHistory = useCallback(() => {
+    setHistoryKey((key) => key + 1);
+  }, []);
+
+  const handleImported = useCallback(
+    async (result: ImportResult) => {
+      if (inboxFile) {
+        await fetch(`/api/inbox/${inboxFile.id}/resolve`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ importBatchId: result.batchId }),
+        }).catch((error) => {
+          console.error('Error resolving inbox file:', error);
+        });
+        setInboxFile(null);
+      }
+      refreshHistory();
+    },
+    [inboxFile, refreshHistory]
+  );
 
   const handleImportComplete = () => {
     setShowImport(false);
+    setInboxFile(null);
     // TODO: Refresh transactions list
   };
 
+  const openInboxFile = (id: number, file: File) => {
+    setInboxFile({ id, file });
+    setShowImport(true);
+  };
+
   return (
     <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
       <div className="mb-8">
         <div className="flex justify-between items-center">
           <h1 className="text-4xl font-bold text-gray-900">Gestion des dépenses</h1>
           <button
-            onClick={() => setShowImport(!showImport)}
+            onClick={() => {
+              setShowImport(!showImport);
+              setInboxFile(null);
+            }}
             className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
           >
             {showImport ? 'Annuler' : 'Importer CSV'}
@@ -27,7 +66,11 @@ export default function TransactionsPage() {
 
       {showImport && (
         <div className="bg-white rounded-lg shadow-md p-6 mb-8">
-          <CSVImport onComplete={handleImportComplete} />
+          <CSVImport
+            initialFile={inboxFile?.file}
+            onComplete={handleImportComplete}
+            onImported={handleImported}
+          />
         </div>
       )}
 
@@ -35,6 +78,21 @@ export default function TransactionsPage() {
         <h2 className="text-xl font-semibold mb-4">Liste des transactions</h2>
         <p className="text-gray-600">(Liste des transactions à venir)</p>
       </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+        <h2 className="text-xl font-semibold mb-4">À catégoriser</h2>
+        <CategorySuggestions refreshKey={historyKey} />
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+        <h2 className="text-xl font-semibold mb-4">Dossier d&apos;import</h2>
+        <ImportInbox refreshKey={historyKey} onOpenFile={openInboxFile} />
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6 mt-8">
+        <h2 className="text-xl font-semibold mb-4">Historique des imports</h2>
+        <ImportHistory refreshKey={historyKey} />
+      </div>
     </div>
   );
 }
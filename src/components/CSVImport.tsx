@@ -1,8 +1,43 @@
 'use client';
 
-import { useCSVImport } from '@/hooks/useCSVImport';
-import { ColumnMapping } from '@/domain/csv-import';
-import { useState } from 'react';
+import { ImportAccount, ImportResult, useCSVImport } from '@/hooks/useCSVImport';
+import {
+  ColumnMapping,
+  DateFormat,
+  DecimalSeparator,
+  InvalidRow,
+  SignConvention,
+  ValidatedTransaction,
+  isSplitAmountMapping,
+} from '@/domain/csv-import';
+import { DATE_FORMATS, parseDateWithFormat } from '@/domain/date-parser';
+import {
+  CSV_DELIMITERS,
+  CSV_ENCODINGS,
+  CSV_QUOTE_CHARS,
+  CSVFormat,
+} from '@/domain/csv-format';
+import { DuplicateStatus } from '@/domain/duplicates';
+import { ReconciliationResult, reconcileBalances } from '@/domain/reconciliation';
+import { RowEdit, toRowEdit, validateRowEdit } from '@/domain/import-preview';
+import { Category } from '@/domain/types';
+import { DataBlock } from '@/domain/data-block';
+import Link from 'next/link';
+import { useEffect, useMemo, useState } from 'react';
+
+const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  auto: 'Automatique',
+  'YYYY-MM-DD': 'AAAA-MM-JJ',
+  'DD/MM/YYYY': 'JJ/MM/AAAA',
+  'MM/DD/YYYY': 'MM/JJ/AAAA (américain)',
+  'DD/MM/YY': 'JJ/MM/AA',
+  'MM/DD/YY': 'MM/JJ/AA (américain)',
+  'DD.MM.YYYY': 'JJ.MM.AAAA',
+  'DD.MM.YY': 'JJ.MM.AA',
+  'DD-MM-YYYY': 'JJ-MM-AAAA',
+  'DD-MM-YY': 'JJ-MM-AA',
+  'D MMMM YYYY': 'J mois AAAA (3 mars 2025)',
+};
 
 interface ColumnMappingFormProps {
   headers: string[];
@@ -15,18 +50,72 @@ function ColumnMappingForm({ headers, onSubmit, currentMapping }: ColumnMappingF
   const [descriptionColumn, setDescriptionColumn] = useState<number>(
     currentMapping?.descriptionColumn ?? 1
   );
+  const splitMapping =
+    currentMapping && isSplitAmountMapping(currentMapping) ? currentMapping : null;
+  const [amountMode, setAmountMode] = useState<'single' | 'split'>(
+    splitMapping ? 'split' : 'single'
+  );
   const [amountColumn, setAmountColumn] = useState<number>(
-    currentMapping?.amountColumn ?? 2
+    currentMapping && !isSplitAmountMapping(currentMapping) ? currentMapping.amountColumn : 2
+  );
+  const [debitColumn, setDebitColumn] = useState<number>(splitMapping?.debitColumn ?? 2);
+  const [creditColumn, setCreditColumn] = useState<number>(splitMapping?.creditColumn ?? 3);
+  // Suggest a "Solde" column when the export has one
+  const [balanceColumn, setBalanceColumn] = useState<number | null>(() => {
+    if (currentMapping) {
+      return currentMapping.balanceColumn ?? null;
+    }
+    const suggested = headers.findIndex((header) => /solde|balance/i.test(header));
+    return suggested === -1 ? null : suggested;
+  });
+  const [dateFormat, setDateFormat] = useState<DateFormat>(currentMapping?.dateFormat ?? 'auto');
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator | 'auto'>(
+    currentMapping?.decimalSeparator ?? 'auto'
+  );
+  const [signConvention, setSignConvention] = useState<SignConvention>(
+    currentMapping?.signConvention ?? 'signed'
   );
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit({ dateColumn, descriptionColumn, amountColumn });
+    const options = {
+      dateFormat,
+      decimalSeparator: decimalSeparator === 'auto' ? undefined : decimalSeparator,
+      signConvention,
+      ...(balanceColumn !== null && { balanceColumn }),
+    };
+    onSubmit(
+      amountMode === 'split'
+        ? { dateColumn, descriptionColumn, debitColumn, creditColumn, ...options }
+        : { dateColumn, descriptionColumn, amountColumn, ...options }
+    );
   };
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      {/* Amount Mode */}
+      <div className="flex gap-6 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="amountMode"
+            checked={amountMode === 'single'}
+            onChange={() => setAmountMode('single')}
+          />
+          Une colonne Montant
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            name="amountMode"
+            checked={amountMode === 'split'}
+            onChange={() => setAmountMode('split')}
+          />
+          Colonnes Débit et Crédit séparées
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         {/* Date Column */}
         <div>
           <label htmlFor="dateColumn" className="block text-sm font-medium mb-1">
@@ -66,16 +155,78 @@ function ColumnMappingForm({ headers, onSubmit, currentMapping }: ColumnMappingF
         </div>
 
         {/* Amount Column */}
+        {amountMode === 'single' && (
+          <div>
+            <label htmlFor="amountColumn" className="block text-sm font-medium mb-1">
+              Colonne Montant
+            </label>
+            <select
+              id="amountColumn"
+              value={amountColumn}
+              onChange={(e) => setAmountColumn(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {headers.map((header, index) => (
+                <option key={index} value={index}>
+                  {header || `Colonne ${index + 1}`}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Debit and Credit Columns */}
+        {amountMode === 'split' && (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor="debitColumn" className="block text-sm font-medium mb-1">
+                Colonne Débit
+              </label>
+              <select
+                id="debitColumn"
+                value={debitColumn}
+                onChange={(e) => setDebitColumn(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {headers.map((header, index) => (
+                  <option key={index} value={index}>
+                    {header || `Colonne ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="creditColumn" className="block text-sm font-medium mb-1">
+                Colonne Crédit
+              </label>
+              <select
+                id="creditColumn"
+                value={creditColumn}
+                onChange={(e) => setCreditColumn(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {headers.map((header, index) => (
+                  <option key={index} value={index}>
+                    {header || `Colonne ${index + 1}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        {/* Balance Column */}
         <div>
-          <label htmlFor="amountColumn" className="block text-sm font-medium mb-1">
-            Colonne Montant
+          <label htmlFor="balanceColumn" className="block text-sm font-medium mb-1">
+            Colonne Solde (facultatif)
           </label>
           <select
-            id="amountColumn"
-            value={amountColumn}
-            onChange={(e) => setAmountColumn(Number(e.target.value))}
+            id="balanceColumn"
+            value={balanceColumn ?? ''}
+            onChange={(e) => setBalanceColumn(e.target.value === '' ? null : Number(e.target.value))}
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
           >
+            <option value="">Aucune</option>
             {headers.map((header, index) => (
               <option key={index} value={index}>
                 {header || `Colonne ${index + 1}`}
@@ -85,6 +236,61 @@ function ColumnMappingForm({ headers, onSubmit, currentMapping }: ColumnMappingF
         </div>
       </div>
 
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* Date Format */}
+        <div>
+          <label htmlFor="dateFormat" className="block text-sm font-medium mb-1">
+            Format de date
+          </label>
+          <select
+            id="dateFormat"
+            value={dateFormat}
+            onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {(['auto', ...DATE_FORMATS] as DateFormat[]).map((format) => (
+              <option key={format} value={format}>
+                {DATE_FORMAT_LABELS[format]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {/* Decimal Separator */}
+        <div>
+          <label htmlFor="decimalSeparator" className="block text-sm font-medium mb-1">
+            Séparateur décimal
+          </label>
+          <select
+            id="decimalSeparator"
+            value={decimalSeparator}
+            onChange={(e) => setDecimalSeparator(e.target.value as DecimalSeparator | 'auto')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="auto">Automatique</option>
+            <option value=".">Point (12.50)</option>
+            <option value=",">Virgule (12,50)</option>
+          </select>
+        </div>
+
+        {/* Sign Convention */}
+        <div>
+          <label htmlFor="signConvention" className="block text-sm font-medium mb-1">
+            Signe des montants
+          </label>
+          <select
+            id="signConvention"
+            value={signConvention}
+            disabled={amountMode === 'split'}
+            onChange={(e) => setSignConvention(e.target.value as SignConvention)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="signed">Dépenses négatives</option>
+            <option value="inverted">Dépenses positives</option>
+          </select>
+        </div>
+      </div>
+
       <button
         type="submit"
         className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
@@ -95,8 +301,525 @@ function ColumnMappingForm({ headers, onSubmit, currentMapping }: ColumnMappingF
   );
 }
 
-export function CSVImport({ onComplete }: { onComplete?: () => void }) {
+function SaveProfileForm({ onSave }: { onSave: (name: string) => Promise<void> }) {
+  const [name, setName] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) {
+      await onSave(name.trim());
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2 items-end">
+      <div className="flex-1">
+        <label htmlFor="profileName" className="block text-sm font-medium mb-1">
+          Enregistrer ce format pour les prochains imports
+        </label>
+        <input
+          id="profileName"
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Nom du profil (ex : Compte joint)"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      <button
+        type="submit"
+        disabled={!name.trim()}
+        className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors disabled:text-gray-400 disabled:cursor-not-allowed"
+      >
+        Enregistrer
+      </button>
+    </form>
+  );
+}
+
+function DuplicateStatusBadge({ status }: { status?: DuplicateStatus }) {
+  if (status === 'duplicate') {
+    return (
+      <span className="px-2 py-0.5 rounded text-xs bg-orange-100 text-orange-800">
+        Doublon (ignoré)
+      </span>
+    );
+  }
+
+  if (status === 'suspicious') {
+    return (
+      <span className="px-2 py-0.5 rounded text-xs bg-yellow-100 text-yellow-800">
+        Doublon suspect
+      </span>
+    );
+  }
+
+  if (status === 'new') {
+    return (
+      <span className="px-2 py-0.5 rounded text-xs bg-green-100 text-green-800">Nouvelle</span>
+    );
+  }
+
+  return <span className="text-xs text-gray-400">Vérification...</span>;
+}
+
+const ENCODING_LABELS: Record<CSVFormat['encoding'], string> = {
+  'utf-8': 'UTF-8',
+  'windows-1252': 'Windows-1252 / ISO-8859-1',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+};
+
+const DELIMITER_LABELS: Record<CSVFormat['delimiter'], string> = {
+  ';': 'Point-virgule (;)',
+  ',': 'Virgule (,)',
+  '\t': 'Tabulation',
+  '|': 'Barre verticale (|)',
+};
+
+const QUOTE_CHAR_LABELS: Record<CSVFormat['quoteChar'], string> = {
+  '"': 'Guillemets doubles (")',
+  "'": "Apostrophes (')",
+};
+
+interface CSVFormatFormProps {
+  format: CSVFormat;
+  overrides: Partial<CSVFormat>;
+  onChange: (overrides: Partial<CSVFormat>) => void;
+}
+
+/**
+ * Detected encoding, delimiter and quote character, each of which can be forced
+ */
+function CSVFormatForm({ format, overrides, onChange }: CSVFormatFormProps) {
+  const fields = [
+    { key: 'encoding', label: 'Encodage', options: CSV_ENCODINGS, labels: ENCODING_LABELS },
+    { key: 'delimiter', label: 'Séparateur', options: CSV_DELIMITERS, labels: DELIMITER_LABELS },
+    {
+      key: 'quoteChar',
+      label: 'Délimiteur de texte',
+      options: CSV_QUOTE_CHARS,
+      labels: QUOTE_CHAR_LABELS,
+    },
+  ] as const;
+
+  const handleChange = (key: keyof CSVFormat, value: string) => {
+    const next: Partial<CSVFormat> = { ...overrides };
+    if (value === 'auto') {
+      delete next[key];
+    } else {
+      Object.assign(next, { [key]: value });
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 p-3 bg-gray-50 border rounded-md">
+      {fields.map(({ key, label, options, labels }) => (
+        <div key={key}>
+          <label htmlFor={`csv-${key}`} className="block text-sm font-medium mb-1">
+            {label}
+          </label>
+          <select
+            id={`csv-${key}`}
+            value={overrides[key] ?? 'auto'}
+            onChange={(e) => handleChange(key, e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="auto">
+              Détecté : {(labels as Record<string, string>)[format[key]]}
+            </option>
+            {options.map((option) => (
+              <option key={option} value={option}>
+                {(labels as Record<string, string>)[option]}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface DataBlockFormProps {
+  rows: string[][];
+  dataBlock: DataBlock;
+  onChange: (dataBlock: DataBlock) => void;
+}
+
+/**
+ * Detected header line and last transaction line, with the ignored lines
+ * Line numbers are shown from 1 as in a spreadsheet
+ */
+function DataBlockForm({ rows, dataBlock, onChange }: DataBlockFormProps) {
+  const [headerLine, setHeaderLine] = useState(String(dataBlock.headerRowIndex + 1));
+  const [lastLine, setLastLine] = useState(String(dataBlock.endRowIndex));
+
+  // Follow a new detection (other file or format)
+  useEffect(() => {
+    setHeaderLine(String(dataBlock.headerRowIndex + 1));
+    setLastLine(String(dataBlock.endRowIndex));
+  }, [dataBlock]);
+
+  const header = Number.parseInt(headerLine, 10);
+  const last = Number.parseInt(lastLine, 10);
+  const valid = header >= 1 && last > header && last <= rows.length;
+  const changed = header !== dataBlock.headerRowIndex + 1 || last !== dataBlock.endRowIndex;
+
+  const preamble = rows.slice(0, dataBlock.headerRowIndex);
+  const footer = rows.slice(dataBlock.endRowIndex);
+
+  const inputClass =
+    'w-20 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="p-3 bg-gray-50 border rounded-md text-sm space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="data-block-header">Ligne d&apos;en-tête</label>
+        <input
+          id="data-block-header"
+          type="number"
+          min={1}
+          value={headerLine}
+          onChange={(e) => setHeaderLine(e.target.value)}
+          className={inputClass}
+        />
+        <label htmlFor="data-block-last">Dernière ligne de données</label>
+        <input
+          id="data-block-last"
+          type="number"
+          min={1}
+          max={rows.length}
+          value={lastLine}
+          onChange={(e) => setLastLine(e.target.value)}
+          className={inputClass}
+        />
+        <span className="text-gray-500">sur {rows.length} lignes</span>
+        <button
+          onClick={() => onChange({ headerRowIndex: header - 1, endRowIndex: last })}
+          disabled={!valid || !changed}
+          className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Appliquer
+        </button>
+      </div>
+      {(preamble.length > 0 || footer.length > 0) && (
+        <details>
+          <summary className="cursor-pointer text-gray-600">
+            Lignes ignorées : {preamble.length} avant l&apos;en-tête, {footer.length} après les
+            données
+          </summary>
+          <ul className="mt-2 font-mono text-xs text-gray-600 space-y-1">
+            {preamble.map((row, index) => (
+              <li key={`preamble-${index}`}>
+                {index + 1}. {row.join(' | ')}
+              </li>
+            ))}
+            {footer.map((row, index) => (
+              <li key={`footer-${index}`}>
+                {dataBlock.endRowIndex + index + 1}. {row.join(' | ')}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
+
+// Valid rows shown at first, then added by "Afficher plus"
+const PREVIEW_PAGE_SIZE = 50;
+const INVALID_ROWS_SHOWN = 10;
+
+interface PreviewRowProps {
+  transaction: ValidatedTransaction;
+  status?: DuplicateStatus;
+  excluded: boolean;
+  categoryId: number | null;
+  categories: Category[];
+  disabled: boolean;
+  onToggle: () => void;
+  onCategoryChange: (categoryId: number | null) => void;
+}
+
+function PreviewRow({
+  transaction,
+  status,
+  excluded,
+  categoryId,
+  categories,
+  disabled,
+  onToggle,
+  onCategoryChange,
+}: PreviewRowProps) {
+  return (
+    <tr className={`hover:bg-gray-50 ${excluded ? 'text-gray-400' : ''}`}>
+      <td className="px-4 py-2">
+        <input
+          type="checkbox"
+          aria-label="Importer cette transaction"
+          checked={!excluded}
+          disabled={disabled || status === 'duplicate'}
+          onChange={onToggle}
+        />
+      </td>
+      <td className="px-4 py-2">{transaction.date.toLocaleDateString('fr-FR')}</td>
+      <td className="px-4 py-2">
+        {transaction.description}
+        {transaction.counterpartyIban && (
+          <div className="text-xs text-gray-500">{transaction.counterpartyIban}</div>
+        )}
+      </td>
+      <td className="px-4 py-2 text-right whitespace-nowrap">
+        {transaction.amount.toFixed(2)} €
+      </td>
+      <td className="px-4 py-2">
+        <select
+          aria-label="Catégorie"
+          value={categoryId ?? ''}
+          disabled={disabled || excluded || categories.length === 0}
+          onChange={(e) => onCategoryChange(e.target.value === '' ? null : Number(e.target.value))}
+          className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Non catégorisée</option>
+          {categories.map((category) => (
+            <option key={category.id} value={category.id}>
+              {category.name}
+            </option>
+          ))}
+        </select>
+      </td>
+      <td className="px-4 py-2">
+        <DuplicateStatusBadge status={status} />
+      </td>
+    </tr>
+  );
+}
+
+interface InvalidRowEditorProps {
+  invalid: InvalidRow;
+  mapping: ColumnMapping | null;
+  onFix: (rowIndex: number, edit: RowEdit) => void;
+}
+
+/**
+ * Inline correction of an invalid row, validated as the user types
+ */
+function InvalidRowEditor({ invalid, mapping, onFix }: InvalidRowEditorProps) {
+  const [edit, setEdit] = useState<RowEdit>(() => toRowEdit(invalid, mapping));
+  const validation = validateRowEdit(edit, mapping);
+  const datePlaceholder =
+    mapping?.dateFormat && mapping.dateFormat !== 'auto'
+      ? DATE_FORMAT_LABELS[mapping.dateFormat]
+      : 'Date';
+
+  const inputClass =
+    'px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-1">
+      <div className="text-red-600">
+        <span className="font-medium">Ligne {invalid.rowIndex + 1}:</span> {invalid.error}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          aria-label="Date"
+          value={edit.date}
+          placeholder={datePlaceholder}
+          onChange={(e) => setEdit({ ...edit, date: e.target.value })}
+          className={`${inputClass} w-32`}
+        />
+        <input
+          type="text"
+          aria-label="Description"
+          value={edit.description}
+          placeholder="Description"
+          onChange={(e) => setEdit({ ...edit, description: e.target.value })}
+          className={`${inputClass} flex-1 min-w-48`}
+        />
+        <input
+          type="text"
+          aria-label="Montant"
+          inputMode="decimal"
+          value={edit.amount}
+          placeholder="Montant (-12,50)"
+          onChange={(e) => setEdit({ ...edit, amount: e.target.value })}
+          className={`${inputClass} w-32 text-right`}
+        />
+        <button
+          onClick={() => onFix(invalid.rowIndex, edit)}
+          disabled={!validation.success}
+          className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          Corriger
+        </button>
+        <span className={validation.success ? 'text-green-600' : 'text-gray-500'}>
+          {validation.success ? 'Ligne valide' : validation.error}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function formatEuros(amount: number): string {
+  return `${amount.toFixed(2)} €`;
+}
+
+/**
+ * Running balance recomputed from the amounts against the "Solde" column
+ */
+function ReconciliationPanel({
+  reconciliation,
+  transactions,
+}: {
+  reconciliation: ReconciliationResult;
+  transactions: ValidatedTransaction[];
+}) {
+  const { issues, openingBalance, closingBalance, checkedCount } = reconciliation;
+  const dateOf = (index: number) => transactions[index].date.toLocaleDateString('fr-FR');
+
+  if (reconciliation.reconciled) {
+    return (
+      <div className="p-3 bg-green-50 border border-green-200 rounded-md text-sm text-green-800">
+        Soldes cohérents : {formatEuros(openingBalance)} au départ, {formatEuros(closingBalance)}{' '}
+        à la fin ({checkedCount} soldes vérifiés)
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-3 bg-orange-50 border border-orange-200 rounded-md text-sm text-orange-800 space-y-2">
+      <p className="font-medium">
+        Le solde recalculé ne correspond pas au solde du relevé ({issues.length} écart
+        {issues.length > 1 ? 's' : ''})
+      </p>
+      <ul className="list-disc pl-5 space-y-1">
+        {issues.slice(0, 10).map((issue) => (
+          <li key={issue.index}>
+            {issue.kind === 'duplicate-row' ? (
+              <>
+                {dateOf(issue.index)} : « {transactions[issue.index].description} » semble en
+                double, le solde n&apos;a pas bougé
+              </>
+            ) : (
+              <>
+                Entre le {dateOf(issue.previousIndex)} et le {dateOf(issue.index)} : écart de{' '}
+                {formatEuros(issue.difference)}, des opérations semblent manquer
+              </>
+            )}{' '}
+            (attendu {formatEuros(issue.expectedBalance)}, relevé {formatEuros(issue.statedBalance)})
+          </li>
+        ))}
+      </ul>
+      {issues.length > 10 && (
+        <p className="text-gray-500 italic">... et {issues.length - 10} autres</p>
+      )}
+    </div>
+  );
+}
+
+interface AccountSelectProps {
+  accounts: ImportAccount[];
+  accountId: number | null;
+  onChange: (accountId: number | null) => void;
+}
+
+/**
+ * Account the imported transactions are attached to
+ */
+function AccountSelect({ accounts, accountId, onChange }: AccountSelectProps) {
+  return (
+    <div className="flex items-center gap-3 p-3 bg-gray-50 border rounded-md text-sm">
+      <label htmlFor="import-account" className="font-medium">
+        Compte
+      </label>
+      <select
+        id="import-account"
+        value={accountId ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">Aucun compte</option>
+        {accounts.map((account) => (
+          <option key={account.id} value={account.id}>
+            {account.name}
+            {account.ibanMask && ` (${account.ibanMask})`}
+          </option>
+        ))}
+      </select>
+      {accounts.length === 0 && (
+        <Link href="/accounts" className="text-blue-600 hover:underline">
+          Créer un compte
+        </Link>
+      )}
+    </div>
+  );
+}
+
+interface DateFormatChoiceProps {
+  candidates: DateFormat[];
+  values: string[];
+  onChoose: (format: DateFormat) => void;
+}
+
+function DateFormatChoice({ candidates, values, onChoose }: DateFormatChoiceProps) {
+  // Show a value that the candidate formats read differently
+  const readings = (value: string) =>
+    candidates.map((format) =>
+      format === 'auto' ? null : parseDateWithFormat(value, format)?.getTime()
+    );
+  const example =
+    values.find((value) => new Set(readings(value)).size > 1) ?? values.find(Boolean) ?? '';
+
+  return (
+    <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-md space-y-3">
+      <p className="text-sm text-yellow-800">
+        Le format des dates est ambigu : comment faut-il lire « {example} » ?
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {candidates.map((format) => {
+          const date = format === 'auto' ? null : parseDateWithFormat(example, format);
+          return (
+            <button
+              key={format}
+              onClick={() => onChoose(format)}
+              className="px-3 py-2 text-sm bg-white border border-yellow-300 rounded-md hover:bg-yellow-100"
+            >
+              {DATE_FORMAT_LABELS[format]}
+              {date &&
+                ` : ${date.toLocaleDateString('fr-FR', { timeZone: 'UTC', dateStyle: 'long' })}`}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export function CSVImport({
+  initialFile,
+  onComplete,
+  onImported,
+}: {
+  initialFile?: File; // Opened right away, e.g. a pending file of the import inbox
+  onComplete?: () => void;
+  onImported?: (result: ImportResult) => void; // Called once the transactions are saved
+}) {
   const [state, actions] = useCSVImport();
+  const { selectFile } = actions;
+
+  useEffect(() => {
+    if (initialFile) {
+      selectFile(initialFile);
+    }
+  }, [initialFile, selectFile]);
+
+  useEffect(() => {
+    if (state.step === 'complete' && state.importResult) {
+      onImported?.(state.importResult);
+    }
+  }, [state.step, state.importResult, onImported]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -110,6 +833,22 @@ export function CSVImport({ onComplete }: { onComplete?: () => void }) {
     actions.parseData();
   };
 
+  const dateColumn = state.columnMapping?.dateColumn ?? 0;
+  const dateColumnValues = state.rawData.map((row) => row[dateColumn] ?? '');
+
+  const reconciliation = useMemo(
+    () => (state.parseResult ? reconcileBalances(state.parseResult.valid) : null),
+    [state.parseResult]
+  );
+
+  const [visibleCount, setVisibleCount] = useState(PREVIEW_PAGE_SIZE);
+  const excluded = state.selection.excluded;
+  const duplicateCount = state.duplicateCheck?.duplicateCount ?? 0;
+  const importableCount = (state.parseResult?.valid ?? []).filter(
+    (_, index) =>
+      !excluded.includes(index) && state.duplicateCheck?.statuses[index] !== 'duplicate'
+  ).length;
+
   const handleConfirmImport = async () => {
     await actions.confirmImport();
     if (state.step === 'complete' && onComplete) {
@@ -123,7 +862,7 @@ export function CSVImport({ onComplete }: { onComplete?: () => void }) {
       <div>
         <h2 className="text-2xl font-bold mb-2">Importer des transactions</h2>
         <p className="text-gray-600">
-          Importez vos transactions depuis un fichier CSV
+          Importez vos transactions depuis un fichier CSV ou un relevé OFX/QFX ou CAMT.053
         </p>
       </div>
 
@@ -139,7 +878,7 @@ export function CSVImport({ onComplete }: { onComplete?: () => void }) {
         <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
           <input
             type="file"
-            accept=".csv"
+            accept=".csv,.ofx,.qfx,.xml"
             onChange={handleFileChange}
             className="hidden"
             id="csv-file-input"
@@ -162,7 +901,7 @@ export function CSVImport({ onComplete }: { onComplete?: () => void }) {
               />
             </svg>
             <span className="text-sm text-gray-600">
-              Cliquez pour sélectionner un fichier CSV
+              Cliquez pour sélectionner un fichier CSV, OFX, QFX ou CAMT (XML)
             </span>
             <span className="text-xs text-gray-400 mt-1">
               ou glissez-déposez le fichier ici
@@ -180,6 +919,25 @@ export function CSVImport({ onComplete }: { onComplete?: () => void }) {
               Indiquez quelle colonne correspond à quelle information
             </p>
           </div>
+          {state.csvFormat && (
+            <CSVFormatForm
+              format={state.csvFormat}
+              overrides={state.csvFormatOverrides}
+              onChange={actions.setCSVFormat}
+            />
+          )}
+          <DataBlockForm
+            rows={state.rows}
+            dataBlock={state.dataBlock}
+            onChange={actions.setDataBlock}
+          />
+          {state.dateFormatCandidates.length > 0 && (
+            <DateFormatChoice
+              candidates={state.dateFormatCandidates}
+              values={dateColumnValues}
+              onChoose={actions.chooseDateFormat}
+            />
+          )}
           <ColumnMappingForm
             headers={state.headers}
             onSubmit={handleMappingSubmit}
@@ -202,62 +960,210 @@ export function CSVImport({ onComplete }: { onComplete?: () => void }) {
                   {state.parseResult.invalid.length} lignes invalides
                 </span>
               )}
+              {duplicateCount > 0 && (
+                <span className="text-orange-600 font-medium">
+                  {duplicateCount} doublons ignorés
+                </span>
+              )}
+              {state.duplicateCheck && state.duplicateCheck.suspiciousCount > 0 && (
+                <span className="text-yellow-600 font-medium">
+                  {state.duplicateCheck.suspiciousCount} doublons suspects
+                </span>
+              )}
             </div>
           </div>
 
-          {/* Valid Transactions Preview */}
+          <AccountSelect
+            accounts={state.accounts}
+            accountId={state.accountId}
+            onChange={actions.setAccount}
+          />
+
+          {/* Large file: only the first rows were read */}
+          {state.streaming && (
+            <div className="p-3 bg-blue-50 border border-blue-200 rounded-md text-sm text-blue-800">
+              Fichier volumineux : l&apos;aperçu porte sur les premières lignes, le fichier
+              complet sera analysé par le serveur pendant l&apos;import.
+            </div>
+          )}
+
+          {/* Same file imported before */}
+          {state.duplicateCheck?.previousImport && (
+            <div className="p-3 bg-orange-50 border border-orange-200 rounded-md text-sm text-orange-800">
+              Ce fichier a déjà été importé le{' '}
+              {new Date(state.duplicateCheck.previousImport.createdAt).toLocaleDateString('fr-FR')}{' '}
+              ({state.duplicateCheck.previousImport.fileName}). Les transactions déjà présentes
+              seront ignorées.
+            </div>
+          )}
+
+          {/* File format, in case the detection went wrong */}
+          {state.sourceFormat === 'csv' && state.csvFormat && (
+            <details className="text-sm">
+              <summary className="cursor-pointer text-gray-600">
+                Encodage et séparateur du fichier
+              </summary>
+              <div className="mt-2">
+                <CSVFormatForm
+                  format={state.csvFormat}
+                  overrides={state.csvFormatOverrides}
+                  onChange={actions.setCSVFormat}
+                />
+              </div>
+            </details>
+          )}
+
+          {/* Lines around the transactions, in case the detection went wrong */}
+          {state.sourceFormat === 'csv' && (
+            <details className="text-sm" open={state.dataBlock.headerRowIndex > 0}>
+              <summary className="cursor-pointer text-gray-600">
+                En-tête ligne {state.dataBlock.headerRowIndex + 1}, données jusqu&apos;à la ligne{' '}
+                {state.dataBlock.endRowIndex}
+              </summary>
+              <div className="mt-2">
+                <DataBlockForm
+                  rows={state.rows}
+                  dataBlock={state.dataBlock}
+                  onChange={actions.setDataBlock}
+                />
+              </div>
+            </details>
+          )}
+
+          {/* Import Profile */}
+          {state.sourceFormat !== 'csv' ? (
+            <div className="p-3 bg-blue-50 border border-blue-200 rounded-md text-sm text-blue-800">
+              Relevé {state.sourceFormat === 'ofx' ? 'OFX' : 'CAMT'} : les colonnes sont reconnues
+              automatiquement
+            </div>
+          ) : state.matchedProfile ? (
+            <div className="flex items-center justify-between p-3 bg-blue-50 border border-blue-200 rounded-md text-sm">
+              <span className="text-blue-800">
+                Format reconnu : <span className="font-medium">{state.matchedProfile.name}</span>
+              </span>
+              <button onClick={actions.editMapping} className="text-blue-700 hover:underline">
+                Modifier le mapping
+              </button>
+            </div>
+          ) : (
+            <SaveProfileForm onSave={actions.saveProfile} />
+          )}
+
+          {/* Stated balances */}
+          {reconciliation && (
+            <ReconciliationPanel
+              reconciliation={reconciliation}
+              transactions={state.parseResult.valid}
+            />
+          )}
+
+          {/* Valid Transactions: exclude rows or pick their category */}
           {state.parseResult.valid.length > 0 && (
             <div className="border rounded-lg overflow-hidden">
               <div className="bg-gray-50 px-4 py-2 border-b">
                 <h4 className="font-medium text-sm">
-                  Transactions valides (aperçu des 5 premières)
+                  Transactions valides ({state.parseResult.valid.length})
                 </h4>
+                {state.streaming && (
+                  <p className="text-xs text-gray-500">
+                    Fichier volumineux : les lignes ne peuvent pas être modifiées avant l&apos;import
+                  </p>
+                )}
               </div>
               <div className="overflow-x-auto">
                 <table className="w-full text-sm">
                   <thead className="bg-gray-50">
                     <tr>
+                      <th className="px-4 py-2 text-left">Importer</th>
                       <th className="px-4 py-2 text-left">Date</th>
                       <th className="px-4 py-2 text-left">Description</th>
                       <th className="px-4 py-2 text-right">Montant</th>
+                      <th className="px-4 py-2 text-left">Catégorie</th>
+                      <th className="px-4 py-2 text-left">Statut</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y">
-                    {state.parseResult.valid.slice(0, 5).map((transaction, index) => (
-                      <tr key={index} className="hover:bg-gray-50">
-                        <td className="px-4 py-2">
-                          {transaction.date.toLocaleDateString('fr-FR')}
-                        </td>
-                        <td className="px-4 py-2">{transaction.description}</td>
-                        <td className="px-4 py-2 text-right">
-                          {transaction.amount.toFixed(2)} €
-                        </td>
-                      </tr>
+                    {state.parseResult.valid.slice(0, visibleCount).map((transaction, index) => (
+                      <PreviewRow
+                        key={index}
+                        transaction={transaction}
+                        status={state.duplicateCheck?.statuses[index]}
+                        excluded={excluded.includes(index)}
+                        categoryId={state.selection.categories[index] ?? null}
+                        categories={state.categories}
+                        disabled={state.streaming}
+                        onToggle={() => actions.toggleRow(index)}
+                        onCategoryChange={(categoryId) => actions.setRowCategory(index, categoryId)}
+                      />
                     ))}
                   </tbody>
                 </table>
               </div>
+              {state.parseResult.valid.length > visibleCount && (
+                <button
+                  onClick={() => setVisibleCount(visibleCount + PREVIEW_PAGE_SIZE)}
+                  className="w-full px-4 py-2 text-sm text-blue-700 hover:bg-gray-50 border-t"
+                >
+                  Afficher plus ({state.parseResult.valid.length - visibleCount} restantes)
+                </button>
+              )}
             </div>
           )}
 
-          {/* Invalid Rows */}
-          {state.parseResult.invalid.length > 0 && (
+          {/* Duplicate Rows */}
+          {duplicateCount > 0 && state.duplicateCheck && (
             <details className="border rounded-lg overflow-hidden">
+              <summary className="bg-orange-50 px-4 py-2 cursor-pointer hover:bg-orange-100">
+                <span className="font-medium text-sm">
+                  Doublons déjà importés, ils seront ignorés ({duplicateCount})
+                </span>
+              </summary>
+              <div className="p-4 space-y-2 text-sm">
+                {state.parseResult.valid
+                  .filter((_, index) => state.duplicateCheck?.statuses[index] === 'duplicate')
+                  .slice(0, 10)
+                  .map((transaction, index) => (
+                    <div key={index} className="text-orange-700">
+                      {transaction.date.toLocaleDateString('fr-FR')} — {transaction.description} —{' '}
+                      {transaction.amount.toFixed(2)} €
+                    </div>
+                  ))}
+                {duplicateCount > 10 && (
+                  <p className="text-gray-500 italic">
+                    ... et {duplicateCount - 10} autres
+                  </p>
+                )}
+              </div>
+            </details>
+          )}
+
+          {/* Invalid Rows: fix them inline */}
+          {state.parseResult.invalid.length > 0 && (
+            <details className="border rounded-lg overflow-hidden" open={!state.streaming}>
               <summary className="bg-red-50 px-4 py-2 cursor-pointer hover:bg-red-100">
                 <span className="font-medium text-sm">
                   Lignes invalides ({state.parseResult.invalid.length})
                 </span>
               </summary>
-              <div className="p-4 space-y-2 text-sm">
-                {state.parseResult.invalid.slice(0, 10).map((invalid) => (
-                  <div key={invalid.rowIndex} className="text-red-600">
-                    <span className="font-medium">Ligne {invalid.rowIndex + 1}:</span>{' '}
-                    {invalid.error}
-                  </div>
-                ))}
-                {state.parseResult.invalid.length > 10 && (
+              <div className="p-4 space-y-3 text-sm">
+                {state.parseResult.invalid.slice(0, INVALID_ROWS_SHOWN).map((invalid) =>
+                  state.streaming ? (
+                    <div key={invalid.rowIndex} className="text-red-600">
+                      <span className="font-medium">Ligne {invalid.rowIndex + 1}:</span>{' '}
+                      {invalid.error}
+                    </div>
+                  ) : (
+                    <InvalidRowEditor
+                      key={invalid.rowIndex}
+                      invalid={invalid}
+                      mapping={state.sourceFormat === 'csv' ? state.columnMapping : null}
+                      onFix={actions.fixRow}
+                    />
+                  )
+                )}
+                {state.parseResult.invalid.length > INVALID_ROWS_SHOWN && (
                   <p className="text-gray-500 italic">
-                    ... et {state.parseResult.invalid.length - 10} autres
+                    ... et {state.parseResult.invalid.length - INVALID_ROWS_SHOWN} autres
                   </p>
                 )}
               </div>
@@ -274,10 +1180,10 @@ export function CSVImport({ onComplete }: { onComplete?: () => void }) {
             </button>
             <button
               onClick={handleConfirmImport}
-              disabled={state.parseResult.valid.length === 0}
+              disabled={!state.streaming && importableCount === 0}
               className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
             >
-              Importer {state.parseResult.valid.length} transaction(s)
+              {state.streaming ? 'Importer le fichier' : `Importer ${importableCount} transaction(s)`}
             </button>
           </div>
         </div>
@@ -288,6 +1194,27 @@ export function CSVImport({ onComplete }: { onComplete?: () => void }) {
         <div className="text-center py-8">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
           <p className="text-gray-600">Importation en cours...</p>
+          {state.progress && (
+            <div className="max-w-md mx-auto mt-4 space-y-2">
+              {state.progress.totalBytes ? (
+                <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-blue-600 transition-all"
+                    style={{
+                      width: `${Math.min(
+                        100,
+                        (state.progress.processedBytes / state.progress.totalBytes) * 100
+                      )}%`,
+                    }}
+                  />
+                </div>
+              ) : null}
+              <p className="text-sm text-gray-500">
+                {state.progress.rowCount} lignes traitées, {state.progress.insertedCount}{' '}
+                transaction(s) ajoutées
+              </p>
+            </div>
+          )}
         </div>
       )}
 
@@ -314,8 +1241,20 @@ export function CSVImport({ onComplete }: { onComplete?: () => void }) {
               Import réussi !
             </h3>
             <p className="text-gray-600">
-              {state.parseResult.valid.length} transaction(s) ont été importées
+              {state.importResult?.inserted ?? state.parseResult.valid.length} transaction(s) ont été
+              importées
             </p>
+            {state.importResult && state.importResult.skipped > 0 && (
+              <p className="text-sm text-orange-600">
+                {state.importResult.skipped} doublon(s) ignoré(s)
+              </p>
+            )}
+            {state.importResult && state.importResult.suspicious > 0 && (
+              <p className="text-sm text-yellow-600">
+                {state.importResult.suspicious} transaction(s) ressemblent à des transactions
+                existantes, vérifiez-les
+              </p>
+            )}
           </div>
           <button
             onClick={actions.reset}
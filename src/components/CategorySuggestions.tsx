@@ -0,0 +1,273 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { TransactionSplitEditor } from '@/components/TransactionSplitEditor';
+import type { ApiErrorBody } from '@/lib/api-errors';
+
+interface Suggestion {
+  categoryId: number;
+  categoryName: string;
+  confidence: number;
+}
+
+interface UncategorizedTransaction {
+  id: number;
+  date: string;
+  description: string;
+  amount: number;
+  suggestions: Suggestion[];
+}
+
+interface ClassifierStatus {
+  autoApply: boolean;
+  exampleCount: number;
+  categoryCount: number;
+}
+
+interface Category {
+  id: number;
+  name: string;
+}
+
+/**
+ * Sends a request, throwing the API message on failure
+ */
+async function send(url: string, method: 'POST' | 'PUT' | 'PATCH', body?: object) {
+  const response = await fetch(url, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body ?? {}),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error((data as ApiErrorBody).error || 'Erreur lors de l\'enregistrement');
+  }
+  return data;
+}
+
+/**
+ * Uncategorized transactions with the categories learned from past ones
+ * Accepting or correcting a suggestion teaches the classifier right away.
+ */
+export function CategorySuggestions({ refreshKey = 0 }: { refreshKey?: number }) {
+  const [transactions, setTransactions] = useState<UncategorizedTransaction[]>([]);
+  const [uncategorizedCount, setUncategorizedCount] = useState(0);
+  const [status, setStatus] = useState<ClassifierStatus | null>(null);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<number | null>(null);
+  const [training, setTraining] = useState(false);
+  const [splittingId, setSplittingId] = useState<number | null>(null);
+
+  const loadSuggestions = useCallback(async () => {
+    try {
+      const responses = await Promise.all(
+        ['/api/classifier/suggestions', '/api/classifier', '/api/categories'].map((url) =>
+          fetch(url)
+        )
+      );
+      const [suggestionsData, classifierData, categoriesData] = await Promise.all(
+        responses.map((response) => response.json())
+      );
+      const failed = responses.findIndex((response) => !response.ok);
+      if (failed !== -1) {
+        throw new Error(
+          [suggestionsData, classifierData, categoriesData][failed].error ||
+            'Erreur lors du chargement des suggestions'
+        );
+      }
+
+      setTransactions(suggestionsData.transactions);
+      setUncategorizedCount(suggestionsData.uncategorizedCount);
+      setStatus(classifierData.classifier);
+      setCategories(categoriesData.categories);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSuggestions();
+  }, [loadSuggestions, refreshKey]);
+
+  const categorize = async (transactionId: number, categoryId: number) => {
+    setPendingId(transactionId);
+
+    try {
+      await send(`/api/transactions/${transactionId}/category`, 'PUT', { categoryId });
+      await loadSuggestions();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const setAutoApply = async (autoApply: boolean) => {
+    try {
+      const data = await send('/api/classifier', 'PATCH', { autoApply });
+      setStatus(data.classifier);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    }
+  };
+
+  const retrain = async () => {
+    setTraining(true);
+
+    try {
+      await send('/api/classifier/train', 'POST');
+      await loadSuggestions();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setTraining(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-gray-600 text-sm">Chargement des suggestions...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+
+      {status && (
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+          <span>
+            Appris sur {status.exampleCount} transactions de {status.categoryCount} catégories
+          </span>
+          <button
+            onClick={retrain}
+            disabled={training}
+            className="text-blue-700 hover:underline disabled:opacity-50"
+          >
+            {training ? 'Apprentissage...' : 'Réapprendre'}
+          </button>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={status.autoApply}
+              onChange={(e) => setAutoApply(e.target.checked)}
+            />
+            Catégoriser à l&apos;import quand la suggestion est sûre
+          </label>
+        </div>
+      )}
+
+      {transactions.length === 0 ? (
+        <p className="text-gray-600 text-sm">Toutes les transactions sont catégorisées</p>
+      ) : (
+        <>
+          {uncategorizedCount > transactions.length && (
+            <p className="text-sm text-gray-600">
+              {transactions.length} plus récentes sur {uncategorizedCount} transactions non
+              catégorisées
+            </p>
+          )}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left">Date</th>
+                  <th className="px-4 py-2 text-left">Libellé</th>
+                  <th className="px-4 py-2 text-right">Montant</th>
+                  <th className="px-4 py-2 text-left">Suggestions</th>
+                  <th className="px-4 py-2 text-left">Autre catégorie</th>
+                </tr>
+              </thead>
+              <tbody>
+                {transactions.map((transaction) => (
+                  <Fragment key={transaction.id}>
+                    <tr className="border-t">
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        {new Date(transaction.date).toLocaleDateString('fr-FR')}
+                      </td>
+                      <td className="px-4 py-2">{transaction.description}</td>
+                      <td
+                        className={`px-4 py-2 text-right whitespace-nowrap ${
+                          transaction.amount < 0 ? 'text-red-600' : 'text-green-600'
+                        }`}
+                      >
+                        {transaction.amount.toFixed(2)} €
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="flex flex-wrap gap-2">
+                          {transaction.suggestions.length === 0 && (
+                            <span className="text-gray-400">—</span>
+                          )}
+                          {transaction.suggestions.map((suggestion) => (
+                            <button
+                              key={suggestion.categoryId}
+                              onClick={() => categorize(transaction.id, suggestion.categoryId)}
+                              disabled={pendingId === transaction.id}
+                              title="Accepter"
+                              className="px-2 py-1 border border-gray-300 rounded-md hover:bg-blue-50 disabled:opacity-50"
+                            >
+                              {suggestion.categoryName}{' '}
+                              <span className="text-xs text-gray-500">
+                                {Math.round(suggestion.confidence * 100)} %
+                              </span>
+                            </button>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2">
+                        <select
+                          value=""
+                          onChange={(e) => categorize(transaction.id, Number(e.target.value))}
+                          disabled={pendingId === transaction.id}
+                          className="px-2 py-1 border border-gray-300 rounded-md"
+                        >
+                          <option value="">Choisir...</option>
+                          {categories.map((category) => (
+                            <option key={category.id} value={category.id}>
+                              {category.name}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => setSplittingId(transaction.id)}
+                          disabled={pendingId === transaction.id}
+                          className="ml-3 text-blue-700 hover:underline disabled:opacity-50"
+                        >
+                          Ventiler
+                        </button>
+                      </td>
+                    </tr>
+                    {splittingId === transaction.id && (
+                      <tr>
+                        <td colSpan={5} className="px-4 pb-4">
+                          <TransactionSplitEditor
+                            transaction={transaction}
+                            categories={categories}
+                            onSaved={() => {
+                              setSplittingId(null);
+                              loadSuggestions();
+                            }}
+                            onCancel={() => setSplittingId(null)}
+                          />
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
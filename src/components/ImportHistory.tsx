@@ -0,0 +1,179 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { ApiErrorBody } from '@/lib/api-errors';
+
+interface ImportBatch {
+  id: number;
+  fileName: string;
+  sourceFormat: string;
+  profileName: string | null;
+  accountName: string | null;
+  rowCount: number;
+  insertedCount: number;
+  skippedCount: number;
+  suspiciousCount: number;
+  invalidCount: number;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  errorMessage: string | null;
+  rolledBackAt: string | null;
+  createdAt: string;
+  remainingCount: number;
+}
+
+export function ImportHistory({
+  refreshKey = 0,
+  onRollback,
+}: {
+  refreshKey?: number;
+  onRollback?: () => void;
+}) {
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<number | null>(null);
+
+  const loadBatches = useCallback(async () => {
+    try {
+      const response = await fetch('/api/import-batches');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Erreur lors du chargement de l\'historique');
+      }
+      setBatches(data.batches);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBatches();
+  }, [loadBatches, refreshKey]);
+
+  const rollback = async (batch: ImportBatch, force = false): Promise<void> => {
+    setPendingId(batch.id);
+
+    try {
+      const response = await fetch(`/api/import-batches/${batch.id}/rollback`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ force }),
+      });
+      const data = await response.json();
+
+      if (!force && (data as ApiErrorBody).code === 'BATCH_HAS_CHANGES') {
+        const { error, details } = data as ApiErrorBody;
+        const confirmed = window.confirm(
+          `${error} (${details?.categorizedCount} catégorisées, ${details?.editedCount} modifiées).\n` +
+            'Annuler l\'import quand même ? Ces modifications seront perdues.'
+        );
+        if (confirmed) {
+          await rollback(batch, true);
+        }
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Erreur lors de l\'annulation de l\'import');
+      }
+
+      await loadBatches();
+      onRollback?.();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleRollback = (batch: ImportBatch) => {
+    const confirmed = window.confirm(
+      `Supprimer les ${batch.remainingCount} transactions importées depuis « ${batch.fileName} » ?`
+    );
+    if (confirmed) {
+      rollback(batch);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-gray-600 text-sm">Chargement de l&apos;historique...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+
+      {batches.length === 0 ? (
+        <p className="text-gray-600 text-sm">Aucun import pour le moment</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left">Date</th>
+                <th className="px-4 py-2 text-left">Fichier</th>
+                <th className="px-4 py-2 text-right">Importées</th>
+                <th className="px-4 py-2 text-right">Ignorées</th>
+                <th className="px-4 py-2 text-right">Invalides</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {batches.map((batch) => (
+                <tr key={batch.id} className="border-t">
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    {new Date(batch.createdAt).toLocaleString('fr-FR')}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div>{batch.fileName}</div>
+                    <div className="text-xs text-gray-500">
+                      {batch.profileName ?? batch.sourceFormat.toUpperCase()}
+                      {batch.accountName && ` · ${batch.accountName}`}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2 text-right">{batch.insertedCount}</td>
+                  <td className="px-4 py-2 text-right">{batch.skippedCount}</td>
+                  <td className="px-4 py-2 text-right">{batch.invalidCount}</td>
+                  <td className="px-4 py-2 text-right">
+                    {batch.status === 'failed' ? (
+                      <span className="text-xs text-red-600" title={batch.errorMessage ?? undefined}>
+                        Échec, aucune transaction ajoutée
+                      </span>
+                    ) : batch.status === 'pending' ? (
+                      <span className="text-xs text-gray-500">En attente du fichier...</span>
+                    ) : batch.status === 'running' ? (
+                      <span className="text-xs text-gray-500">En cours...</span>
+                    ) : batch.rolledBackAt ? (
+                      <span className="text-xs text-gray-500">
+                        Annulé le {new Date(batch.rolledBackAt).toLocaleDateString('fr-FR')}
+                      </span>
+                    ) : (
+                      batch.remainingCount > 0 && (
+                        <button
+                          onClick={() => handleRollback(batch)}
+                          disabled={pendingId === batch.id}
+                          className="text-red-600 hover:underline disabled:opacity-50"
+                        >
+                          {pendingId === batch.id ? 'Annulation...' : 'Annuler l\'import'}
+                        </button>
+                      )
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+
+interface InboxFile {
+  id: number;
+  fileName: string;
+  path: string;
+  status: 'pending' | 'imported' | 'skipped' | 'failed';
+  profileName: string | null;
+  accountName: string | null;
+  importBatchId: number | null;
+  insertedCount: number | null;
+  errorMessage: string | null;
+  createdAt: string;
+  processedAt: string | null;
+}
+
+const STATUS_LABELS: Record<InboxFile['status'], { label: string; className: string }> = {
+  pending: { label: 'À importer', className: 'text-orange-600' },
+  imported: { label: 'Importé', className: 'text-green-600' },
+  skipped: { label: 'Déjà importé', className: 'text-gray-500' },
+  failed: { label: 'Échec', className: 'text-red-600' },
+};
+
+/**
+ * Files picked up from the import inbox folder
+ * Pending files, whose format was not recognized, are opened in the wizard.
+ */
+export function ImportInbox({
+  refreshKey = 0,
+  onOpenFile,
+}: {
+  refreshKey?: number;
+  onOpenFile: (inboxFileId: number, file: File) => void;
+}) {
+  const [enabled, setEnabled] = useState(false);
+  const [files, setFiles] = useState<InboxFile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<number | null>(null);
+
+  const loadFiles = useCallback(async () => {
+    try {
+      const response = await fetch('/api/inbox');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Erreur lors du chargement du dossier d\'import');
+      }
+      setEnabled(data.enabled);
+      setFiles(data.files);
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFiles();
+  }, [loadFiles, refreshKey]);
+
+  const openFile = async (inboxFile: InboxFile) => {
+    setPendingId(inboxFile.id);
+
+    try {
+      const response = await fetch(`/api/inbox/${inboxFile.id}/file`);
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Erreur lors de la lecture du fichier');
+      }
+
+      const file = new File([await response.blob()], inboxFile.fileName);
+      onOpenFile(inboxFile.id, file);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const dismissFile = async (inboxFile: InboxFile) => {
+    if (!window.confirm(`Ignorer « ${inboxFile.fileName} » ? Il sera déplacé dans failed/.`)) {
+      return;
+    }
+    setPendingId(inboxFile.id);
+
+    try {
+      const response = await fetch(`/api/inbox/${inboxFile.id}/resolve`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Erreur lors du traitement du fichier');
+      }
+
+      await loadFiles();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-gray-600 text-sm">Chargement du dossier d&apos;import...</p>;
+  }
+
+  if (!enabled) {
+    return (
+      <p className="text-gray-600 text-sm">
+        Définissez IMPORT_INBOX_DIR pour importer automatiquement les relevés déposés dans un
+        dossier.
+      </p>
+    );
+  }
+
+  const pending = files.filter((file) => file.status === 'pending');
+  const processed = files.filter((file) => file.status !== 'pending');
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-red-800 text-sm">{error}</p>
+        </div>
+      )}
+
+      {pending.length > 0 && (
+        <div className="p-3 bg-orange-50 border border-orange-200 rounded-md text-sm space-y-2">
+          <p className="text-orange-800">
+            Format non reconnu : indiquez les colonnes de ces fichiers une première fois.
+          </p>
+          <ul className="space-y-1">
+            {pending.map((file) => (
+              <li key={file.id} className="flex items-center gap-3">
+                <span className="flex-1">{file.path}</span>
+                <button
+                  onClick={() => openFile(file)}
+                  disabled={pendingId === file.id}
+                  className="text-blue-700 hover:underline disabled:opacity-50"
+                >
+                  Importer
+                </button>
+                <button
+                  onClick={() => dismissFile(file)}
+                  disabled={pendingId === file.id}
+                  className="text-gray-600 hover:underline disabled:opacity-50"
+                >
+                  Ignorer
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {processed.length === 0 ? (
+        <p className="text-gray-600 text-sm">Aucun fichier traité pour le moment</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left">Date</th>
+                <th className="px-4 py-2 text-left">Fichier</th>
+                <th className="px-4 py-2 text-left">Statut</th>
+                <th className="px-4 py-2 text-right">Importées</th>
+              </tr>
+            </thead>
+            <tbody>
+              {processed.map((file) => (
+                <tr key={file.id} className="border-t">
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    {new Date(file.processedAt ?? file.createdAt).toLocaleString('fr-FR')}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div>{file.fileName}</div>
+                    <div className="text-xs text-gray-500">
+                      {file.path}
+                      {file.profileName && ` · ${file.profileName}`}
+                      {file.accountName && ` · ${file.accountName}`}
+                    </div>
+                  </td>
+                  <td className="px-4 py-2">
+                    <span className={STATUS_LABELS[file.status].className}>
+                      {STATUS_LABELS[file.status].label}
+                    </span>
+                    {file.errorMessage && (
+                      <div className="text-xs text-gray-500">{file.errorMessage}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-right">{file.insertedCount ?? ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,12 @@ export default function Navigation() {
   const links = [
     { href: "/", label: "Accueil" },
     { href: "/transactions", label: "Dépenses" },
+    { href: "/accounts", label: "Comptes" },
     { href: "/categories", label: "Catégories" },
+    { href: "/rules", label: "Règles" },
+    { href: "/tags", label: "Étiquettes" },
+    { href: "/merchants", label: "Marchands" },
+    { href: "/budgets", label: "Budgets" },
   ];
 
   return (
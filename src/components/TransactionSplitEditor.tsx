@@ -0,0 +1,171 @@
+'use client';
+
+import { useState } from 'react';
+import { getRemainingAmount, validateSplits } from '@/domain/splits';
+import type { ApiErrorBody } from '@/lib/api-errors';
+
+interface SplitLine {
+  amount: string; // As typed, without sign: lines take the sign of the transaction
+  categoryId: string;
+  note: string;
+}
+
+interface Category {
+  id: number;
+  name: string;
+}
+
+/**
+ * Parses an amount typed with a comma or a dot
+ */
+function parseLineAmount(value: string): number {
+  return value.trim() === '' ? 0 : Math.abs(Number(value.trim().replace(',', '.')));
+}
+
+/**
+ * Splits a transaction into lines with their own amount and category
+ * The lines must sum to the amount of the transaction.
+ */
+export function TransactionSplitEditor({
+  transaction,
+  categories,
+  onSaved,
+  onCancel,
+}: {
+  transaction: { id: number; amount: number };
+  categories: Category[];
+  onSaved: () => void;
+  onCancel: () => void;
+}) {
+  const sign = transaction.amount < 0 ? -1 : 1;
+  const [lines, setLines] = useState<SplitLine[]>([
+    { amount: Math.abs(transaction.amount).toFixed(2), categoryId: '', note: '' },
+    { amount: '', categoryId: '', note: '' },
+  ]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const splits = lines.map((line) => ({
+    amount: sign * parseLineAmount(line.amount),
+    categoryId: line.categoryId ? Number(line.categoryId) : null,
+    note: line.note.trim() || null,
+  }));
+  const invalidAmount = splits.some((split) => Number.isNaN(split.amount));
+  const remaining = invalidAmount ? 0 : getRemainingAmount(transaction.amount, splits);
+  const invalid = invalidAmount
+    ? 'Montant invalide'
+    : validateSplits(transaction.amount, splits);
+
+  const updateLine = (index: number, changes: Partial<SplitLine>) =>
+    setLines((current) =>
+      current.map((line, other) => (other === index ? { ...line, ...changes } : line))
+    );
+
+  const save = async () => {
+    setSaving(true);
+
+    try {
+      const response = await fetch(`/api/transactions/${transaction.id}/splits`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ splits }),
+      });
+      if (!response.ok) {
+        const data: ApiErrorBody = await response.json();
+        throw new Error(data.error || 'Erreur lors de l\'enregistrement de la ventilation');
+      }
+      onSaved();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erreur inconnue');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2 p-3 bg-gray-50 border border-gray-200 rounded-md text-sm">
+      {error && <p className="text-red-600">{error}</p>}
+      {lines.map((line, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            inputMode="decimal"
+            aria-label={`Montant de la ligne ${index + 1}`}
+            value={line.amount}
+            onChange={(e) => updateLine(index, { amount: e.target.value })}
+            className="w-24 px-2 py-1 border border-gray-300 rounded-md text-right"
+          />
+          <span>€</span>
+          <select
+            aria-label={`Catégorie de la ligne ${index + 1}`}
+            value={line.categoryId}
+            onChange={(e) => updateLine(index, { categoryId: e.target.value })}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+          >
+            <option value="">Non catégorisé</option>
+            {categories.map((category) => (
+              <option key={category.id} value={category.id}>
+                {category.name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            aria-label={`Note de la ligne ${index + 1}`}
+            value={line.note}
+            onChange={(e) => updateLine(index, { note: e.target.value })}
+            placeholder="Note"
+            maxLength={100}
+            className="flex-1 min-w-32 px-2 py-1 border border-gray-300 rounded-md"
+          />
+          {lines.length > 2 && (
+            <button
+              onClick={() => setLines(lines.filter((_, other) => other !== index))}
+              className="text-gray-600 hover:underline"
+            >
+              Retirer
+            </button>
+          )}
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          onClick={() =>
+            setLines([
+              ...lines,
+              {
+                amount: remaining !== 0 ? Math.abs(remaining).toFixed(2) : '',
+                categoryId: '',
+                note: '',
+              },
+            ])
+          }
+          disabled={lines.length >= 20}
+          className="text-blue-700 hover:underline disabled:opacity-50"
+        >
+          Ajouter une ligne
+        </button>
+        <span className={remaining === 0 ? 'text-gray-600' : 'text-orange-600'}>
+          Reste à répartir : {Math.abs(remaining).toFixed(2)} €
+        </span>
+      </div>
+
+      {invalid && remaining === 0 && <p className="text-orange-600">{invalid}</p>}
+      <div className="flex gap-3">
+        <button
+          onClick={save}
+          disabled={saving || invalid !== null}
+          className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Enregistrement...' : 'Ventiler'}
+        </button>
+        <button onClick={onCancel} className="text-gray-600 hover:underline">
+          Annuler
+        </button>
+      </div>
+    </div>
+  );
+}
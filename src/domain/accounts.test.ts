@@ -0,0 +1,50 @@
+/**
+ * Tests for Bank Account Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { maskIban, matchAccount, normalizeAccountNumber } from './accounts';
+
+describe('normalizeAccountNumber', () => {
+  it('should remove spaces and dashes and uppercase', () => {
+    expect(normalizeAccountNumber('fr76 3000-6000 0112')).toBe('FR76300060000112');
+  });
+});
+
+describe('maskIban', () => {
+  it('should keep the country code, check digits and last characters', () => {
+    expect(maskIban('FR76 3000 6000 0112 3456 7890 189')).toBe('FR76 **** 0189');
+  });
+
+  it('should keep short account numbers as is', () => {
+    expect(maskIban('1234 5678')).toBe('12345678');
+  });
+});
+
+describe('matchAccount', () => {
+  const accounts = [
+    { id: 1, ibanMask: 'FR76 **** 0189' },
+    { id: 2, ibanMask: 'FR14 **** 4521' },
+    { id: 3, ibanMask: null },
+  ];
+
+  it('should match the end of an IBAN', () => {
+    expect(matchAccount(accounts, 'FR7630006000011234567890189')?.id).toBe(1);
+  });
+
+  it('should match an OFX account number', () => {
+    expect(matchAccount(accounts, '00012344521')?.id).toBe(2);
+  });
+
+  it('should return null without a match', () => {
+    expect(matchAccount(accounts, '99999999')).toBeNull();
+    expect(matchAccount(accounts, undefined)).toBeNull();
+    expect(matchAccount(accounts, '189')).toBeNull();
+  });
+
+  it('should return null when several accounts match', () => {
+    const twins = [...accounts, { id: 4, ibanMask: 'FR50 **** 0189' }];
+
+    expect(matchAccount(twins, 'FR7630006000011234567890189')).toBeNull();
+  });
+});
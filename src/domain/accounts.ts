@@ -0,0 +1,59 @@
+/**
+ * Bank Account Functions
+ *
+ * Pure functions masking IBANs and matching imported statements to the
+ * accounts they belong to
+ */
+
+import { Account } from './types';
+
+// Characters kept visible at each end of a masked IBAN
+const VISIBLE_PREFIX = 4;
+const VISIBLE_SUFFIX = 4;
+
+/**
+ * Removes spaces and uppercases an IBAN or account number
+ */
+export function normalizeAccountNumber(value: string): string {
+  return value.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Masks an IBAN, keeping the country code, check digits and last characters
+ * e.g. FR76 3000 6000 0112 3456 7890 189 -> FR76 **** 0189
+ * Only the mask is stored, never the full IBAN
+ */
+export function maskIban(iban: string): string {
+  const normalized = normalizeAccountNumber(iban);
+  if (normalized.length <= VISIBLE_PREFIX + VISIBLE_SUFFIX) {
+    return normalized;
+  }
+  return `${normalized.slice(0, VISIBLE_PREFIX)} **** ${normalized.slice(-VISIBLE_SUFFIX)}`;
+}
+
+/**
+ * Finds the account an imported statement belongs to
+ * The account number (OFX) or IBAN (CAMT) of the statement is compared with
+ * the visible end of each account's IBAN mask
+ *
+ * @param accounts - Known accounts
+ * @param accountNumber - Account number or IBAN read from the file
+ * @returns The only matching account, or null when none or several match
+ */
+export function matchAccount<T extends Pick<Account, 'ibanMask'>>(
+  accounts: T[],
+  accountNumber: string | null | undefined
+): T | null {
+  if (!accountNumber) {
+    return null;
+  }
+  const suffix = normalizeAccountNumber(accountNumber).slice(-VISIBLE_SUFFIX);
+  if (suffix.length < VISIBLE_SUFFIX) {
+    return null;
+  }
+
+  const matches = accounts.filter(
+    account => account.ibanMask && normalizeAccountNumber(account.ibanMask).endsWith(suffix)
+  );
+  return matches.length === 1 ? matches[0] : null;
+}
@@ -0,0 +1,113 @@
+/**
+ * Tests for Amount Parsing Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseAmount } from './amount-parser';
+
+const valueOf = (input: string, separator?: '.' | ',') => {
+  const result = parseAmount(input, separator);
+  return result.success ? result.value : result.error;
+};
+
+describe('parseAmount', () => {
+  describe('decimal separators', () => {
+    it('should parse dot and comma decimals', () => {
+      expect(valueOf('45.50')).toBe(45.5);
+      expect(valueOf('12,5')).toBe(12.5);
+      expect(valueOf('-20,00')).toBe(-20);
+    });
+
+    it('should parse integers', () => {
+      expect(valueOf('100')).toBe(100);
+      expect(valueOf('0')).toBe(0);
+    });
+
+    it('should parse a leading decimal separator', () => {
+      expect(valueOf(',50')).toBe(0.5);
+    });
+  });
+
+  describe('thousands separators', () => {
+    it('should handle spaces, no-break and narrow no-break spaces', () => {
+      expect(valueOf('-1 234,56')).toBe(-1234.56);
+      expect(valueOf('1\u00a0234,56')).toBe(1234.56);
+      expect(valueOf('1\u202f234\u202f567,00')).toBe(1234567);
+    });
+
+    it('should handle dots and commas when both are present', () => {
+      expect(valueOf('1.234,56')).toBe(1234.56);
+      expect(valueOf('1,234.56')).toBe(1234.56);
+      expect(valueOf('1.234.567,89')).toBe(1234567.89);
+    });
+
+    it('should handle apostrophes', () => {
+      expect(valueOf("1'234.50")).toBe(1234.5);
+    });
+
+    it('should treat a repeated separator as thousands', () => {
+      expect(valueOf('1.234.567')).toBe(1234567);
+    });
+  });
+
+  describe('currency and signs', () => {
+    it('should strip currency symbols and codes', () => {
+      expect(valueOf('1.234,56 €')).toBe(1234.56);
+      expect(valueOf('€12.50')).toBe(12.5);
+      expect(valueOf('12,50 EUR')).toBe(12.5);
+    });
+
+    it('should handle trailing minus and unicode minus', () => {
+      expect(valueOf('12,50-')).toBe(-12.5);
+      expect(valueOf('\u221212,50')).toBe(-12.5);
+      expect(valueOf('+12,50')).toBe(12.5);
+    });
+
+    it('should handle accounting parentheses', () => {
+      expect(valueOf('(12.50)')).toBe(-12.5);
+      expect(valueOf('(1 234,56 €)')).toBe(-1234.56);
+    });
+  });
+
+  describe('ambiguity and errors', () => {
+    it('should reject a single separator followed by three digits', () => {
+      const result = parseAmount('1.234');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('Ambiguous amount');
+      }
+    });
+
+    it('should resolve ambiguity with a decimal separator hint', () => {
+      expect(valueOf('1.234', ',')).toBe(1234);
+      expect(valueOf('1.234', '.')).toBe(1.234);
+      expect(valueOf('1,234', ',')).toBe(1.234);
+    });
+
+    it('should reject values contradicting the hint', () => {
+      expect(parseAmount('1,234.56', ',').success).toBe(false);
+      expect(parseAmount('12,50', '.').success).toBe(false);
+    });
+
+    it('should reject misplaced thousands separators', () => {
+      expect(parseAmount('12 34,50').success).toBe(false);
+      expect(parseAmount('1.23.456').success).toBe(false);
+    });
+
+    it('should reject several decimal separators', () => {
+      expect(parseAmount('1,2,3', ',').success).toBe(false);
+    });
+
+    it('should reject empty and non-numeric values', () => {
+      expect(valueOf('')).toContain('amount');
+      expect(valueOf('   ')).toContain('amount');
+      expect(valueOf('not-a-number')).toContain('amount');
+      expect(valueOf('12abc')).toContain('amount');
+    });
+
+    it('should reject two negative signs', () => {
+      expect(parseAmount('(-12,50)').success).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Amount Parsing Functions
+ *
+ * Pure functions for reading amounts as written in bank exports
+ * (French comma decimals, thousands separators, currency symbols,
+ * trailing minus, accounting parentheses)
+ */
+
+import type { DecimalSeparator } from './csv-import';
+
+export type AmountParseResult =
+  | { success: true; value: number }
+  | { success: false; error: string };
+
+// Spaces used as thousands separators: regular, no-break, narrow no-break, thin
+const SPACE_SEPARATORS = /[ \u00a0\u202f\u2009]/g;
+
+const CURRENCY_MARKERS = /[€$£¥]|\b(?:EUR|USD|GBP|CHF)\b/gi;
+
+/**
+ * Check whether an integer part is correctly grouped by thousands
+ * e.g. "1.234.567" with separator "."
+ */
+function isGroupedByThousands(integerPart: string, separator: string): boolean {
+  return integerPart
+    .split(separator)
+    .every((group, index) => (index === 0 ? /^\d{1,3}$/.test(group) : /^\d{3}$/.test(group)));
+}
+
+/**
+ * Split the number body into integer and decimal parts
+ * Returns an error message when separators are inconsistent or ambiguous
+ */
+function splitNumber(
+  body: string,
+  decimalSeparator: DecimalSeparator | undefined,
+  original: string
+): { integerPart: string; decimalPart: string } | { error: string } {
+  const lastDot = body.lastIndexOf('.');
+  const lastComma = body.lastIndexOf(',');
+  const dotCount = body.split('.').length - 1;
+  const commaCount = body.split(',').length - 1;
+
+  let decimalMark: string | null = null;
+
+  if (dotCount > 0 && commaCount > 0) {
+    // Both present: the last one is the decimal mark
+    decimalMark = lastDot > lastComma ? '.' : ',';
+    if (decimalSeparator && decimalSeparator !== decimalMark) {
+      return {
+        error: `Invalid amount format: "${original}" does not use "${decimalSeparator}" as decimal separator`,
+      };
+    }
+  } else if (dotCount + commaCount > 0) {
+    const mark = dotCount > 0 ? '.' : ',';
+    const count = dotCount + commaCount;
+    const digitsAfter = body.length - body.lastIndexOf(mark) - 1;
+
+    if (decimalSeparator) {
+      decimalMark = mark === decimalSeparator ? mark : null;
+    } else if (count > 1) {
+      decimalMark = null; // Repeated mark can only group thousands
+    } else if (digitsAfter !== 3) {
+      decimalMark = mark;
+    } else {
+      return {
+        error: `Ambiguous amount "${original}": "${mark}" may be a decimal or a thousands separator`,
+      };
+    }
+
+    if (decimalMark && count > 1) {
+      return { error: `Invalid amount format: "${original}" has several decimal separators` };
+    }
+  }
+
+  const decimalIndex = decimalMark ? body.lastIndexOf(decimalMark) : -1;
+  const integerPart = decimalIndex === -1 ? body : body.slice(0, decimalIndex);
+  const decimalPart = decimalIndex === -1 ? '' : body.slice(decimalIndex + 1);
+
+  if (!/^\d*$/.test(decimalPart)) {
+    return { error: `Invalid amount format: "${original}"` };
+  }
+
+  const thousandsMark = [...new Set(integerPart.replace(/\d/g, ''))];
+  if (thousandsMark.length > 1) {
+    return { error: `Invalid amount format: "${original}" mixes thousands separators` };
+  }
+  if (thousandsMark.length === 1 && !isGroupedByThousands(integerPart, thousandsMark[0])) {
+    return { error: `Invalid amount format: "${original}" has misplaced thousands separators` };
+  }
+
+  return { integerPart: integerPart.replace(/\D/g, ''), decimalPart };
+}
+
+/**
+ * Parse an amount string
+ * Without a decimal separator hint, a single separator followed by exactly
+ * three digits ("1.234", "1,234") is ambiguous and rejected rather than misread.
+ *
+ * @param input - Raw amount, e.g. "-1 234,56", "1.234,56 €", "12,50-", "(12.50)"
+ * @param decimalSeparator - Expected decimal separator, detected when undefined
+ * @returns Parsed value or a precise error
+ */
+export function parseAmount(
+  input: string,
+  decimalSeparator?: DecimalSeparator
+): AmountParseResult {
+  const original = input.trim();
+  if (original === '') {
+    return { success: false, error: 'Invalid amount format: amount is empty' };
+  }
+
+  let text = original.replace(CURRENCY_MARKERS, '').trim();
+  let negative = false;
+
+  // Accounting notation: (12,50)
+  const parenthesized = text.match(/^\((.*)\)$/);
+  if (parenthesized) {
+    negative = true;
+    text = parenthesized[1].trim();
+  }
+
+  // Leading or trailing sign, including the unicode minus
+  const leading = text.match(/^([+\-\u2212])\s*(.+)$/);
+  const trailing = leading ? null : text.match(/^(.+?)\s*([+\-\u2212])$/);
+  const sign = leading?.[1] ?? trailing?.[2];
+  if (sign) {
+    text = leading?.[2] ?? trailing?.[1] ?? '';
+    if (sign !== '+') {
+      if (negative) {
+        return {
+          success: false,
+          error: `Invalid amount format: "${original}" has two negative signs`,
+        };
+      }
+      negative = true;
+    }
+  }
+
+  const body = text.replace(SPACE_SEPARATORS, ' ').replace(/'/g, ' ').trim();
+  if (!/^\d[\d., ]*$/.test(body) && !/^[.,]\d+$/.test(body)) {
+    return { success: false, error: `Invalid amount format: "${original}"` };
+  }
+
+  // Spaces and apostrophes only ever group thousands
+  if (body.includes(' ')) {
+    const [integerWithSpaces] = body.split(/[.,]/);
+    if (!isGroupedByThousands(integerWithSpaces, ' ')) {
+      return {
+        success: false,
+        error: `Invalid amount format: "${original}" has misplaced thousands separators`,
+      };
+    }
+  }
+
+  const parts = splitNumber(body.replace(/ /g, ''), decimalSeparator, original);
+  if ('error' in parts) {
+    return { success: false, error: parts.error };
+  }
+
+  const value = parseFloat(`${parts.integerPart || '0'}.${parts.decimalPart || '0'}`);
+  return { success: true, value: negative ? -value : value };
+}
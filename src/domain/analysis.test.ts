@@ -192,6 +192,101 @@ describe('calculateParetoAnalysis', () => {
   });
 });
 
+describe('calculateParetoAnalysis with subcategories', () => {
+  const categories: Category[] = [
+    { id: 1, name: 'Alimentation' },
+    { id: 2, name: 'Courses', parentId: 1 },
+    { id: 3, name: 'Restaurants', parentId: 1 },
+    { id: 4, name: 'Transport' },
+  ];
+  const transactions: Transaction[] = [
+    { id: 1, date: new Date('2024-01-01'), description: 'Carrefour', amount: -300, categoryId: 2 },
+    { id: 2, date: new Date('2024-01-02'), description: 'Pizzeria', amount: -200, categoryId: 3 },
+    { id: 3, date: new Date('2024-01-03'), description: 'Essence', amount: -400, categoryId: 4 },
+    { id: 4, date: new Date('2024-01-04'), description: 'Marché', amount: -100, categoryId: 1 },
+  ];
+
+  it('should analyze leaf categories by default', () => {
+    const result = calculateParetoAnalysis(transactions, categories);
+
+    expect(result.categories.map(cat => cat.categoryId)).toEqual([4, 2, 3, 1]);
+  });
+
+  it('should roll subcategories up to their parent', () => {
+    const result = calculateParetoAnalysis(transactions, categories, { depth: 0 });
+
+    expect(result.categories).toHaveLength(2);
+    expect(result.categories[0]).toMatchObject({
+      categoryId: 1,
+      categoryName: 'Alimentation',
+      totalAmount: 600,
+      transactionCount: 3,
+      percentage: 60,
+    });
+    expect(result.paretoCategories.map(cat => cat.categoryId)).toEqual([1, 4]);
+  });
+
+  it('should expose the tree to drill down into a parent', () => {
+    const { tree } = calculateParetoAnalysis(transactions, categories, { depth: 0 });
+
+    expect(tree.map(node => [node.categoryId, node.totalAmount])).toEqual([
+      [1, 600],
+      [4, 400],
+    ]);
+    expect(tree[0].children.map(node => [node.categoryName, node.totalAmount, node.depth])).toEqual([
+      ['Courses', 300, 1],
+      ['Restaurants', 200, 1],
+    ]);
+  });
+
+  it('should leave out categories without transactions and keep uncategorized ones', () => {
+    const { tree } = calculateParetoAnalysis(
+      [
+        { id: 1, date: new Date('2024-01-01'), description: 'Carrefour', amount: -30, categoryId: 2 },
+        { id: 2, date: new Date('2024-01-02'), description: 'Retrait', amount: -20, categoryId: null },
+      ],
+      categories
+    );
+
+    expect(tree.map(node => node.categoryName)).toEqual(['Alimentation', 'Non catégorisé']);
+    expect(tree[0].children.map(node => node.categoryName)).toEqual(['Courses']);
+  });
+});
+
+describe('calculateParetoAnalysis with split transactions', () => {
+  it('should count each line in its category', () => {
+    const categories: Category[] = [
+      { id: 1, name: 'Alimentation' },
+      { id: 2, name: 'Maison' },
+      { id: 3, name: 'Vêtements' },
+    ];
+    const transactions: Transaction[] = [
+      {
+        id: 1,
+        date: new Date('2024-01-01'),
+        description: 'Hypermarché',
+        amount: -100,
+        categoryId: null,
+        splits: [
+          { amount: -60, categoryId: 1 },
+          { amount: -40, categoryId: 3 },
+        ],
+      },
+      { id: 2, date: new Date('2024-01-02'), description: 'Ampoules', amount: -30, categoryId: 2 },
+    ];
+
+    const result = calculateParetoAnalysis(transactions, categories);
+
+    expect(result.totalSpending).toBe(130);
+    expect(result.categories.map(cat => [cat.categoryId, cat.totalAmount])).toEqual([
+      [1, 60],
+      [3, 40],
+      [2, 30],
+    ]);
+    expect(result.tree.some(node => node.categoryId === 0)).toBe(false);
+  });
+});
+
 describe('getParetoCount', () => {
   it('should return the number of Pareto categories', () => {
     const mockAnalysis = {
@@ -201,6 +296,7 @@ describe('getParetoCount', () => {
       ],
       totalSpending: 1000,
       paretoThreshold: 800,
+      tree: [],
     };
 
     expect(getParetoCount(mockAnalysis)).toBe(1);
@@ -212,6 +308,7 @@ describe('getParetoCount', () => {
       paretoCategories: [],
       totalSpending: 0,
       paretoThreshold: 0,
+      tree: [],
     };
 
     expect(getParetoCount(mockAnalysis)).toBe(0);
@@ -227,6 +324,7 @@ describe('isParetoCategory', () => {
     ],
     totalSpending: 1000,
     paretoThreshold: 800,
+    tree: [],
   };
 
   it('should return true for categories in Pareto group', () => {
@@ -5,7 +5,65 @@
  * Pure functions with no side effects or external dependencies
  */
 
-import { Transaction, Category, CategorySpending, ParetoAnalysisResult } from './types';
+import {
+  Transaction,
+  Category,
+  CategorySpending,
+  CategorySpendingNode,
+  ParetoAnalysisResult,
+} from './types';
+import { buildCategoryTree, CategoryTreeNode, rollUpTransactions } from './category-tree';
+import { expandSplits } from './splits';
+
+export interface ParetoOptions {
+  depth?: number; // Roll subcategories up to this depth (0 = top level), leaves when omitted
+}
+
+/**
+ * Spending of each category including its subcategories, as a tree
+ * Branches without any transaction are left out. Uncategorized transactions
+ * form a top-level node with ID 0.
+ */
+function buildSpendingTree(
+  transactions: Transaction[],
+  categories: Category[],
+  totalSpending: number
+): CategorySpendingNode[] {
+  const own = new Map<number, { total: number; count: number }>();
+  for (const transaction of transactions) {
+    const categoryId = transaction.categoryId ?? 0;
+    const existing = own.get(categoryId) ?? { total: 0, count: 0 };
+    own.set(categoryId, {
+      total: existing.total + Math.abs(transaction.amount),
+      count: existing.count + 1,
+    });
+  }
+
+  const toNode = (node: CategoryTreeNode): CategorySpendingNode => {
+    const children = node.children
+      .map(toNode)
+      .filter(child => child.transactionCount > 0)
+      .sort((a, b) => b.totalAmount - a.totalAmount);
+    const self = own.get(node.category.id) ?? { total: 0, count: 0 };
+    const totalAmount = children.reduce((sum, child) => sum + child.totalAmount, self.total);
+
+    return {
+      categoryId: node.category.id,
+      categoryName: node.category.name,
+      depth: node.depth,
+      totalAmount,
+      transactionCount: children.reduce((sum, child) => sum + child.transactionCount, self.count),
+      percentage: totalSpending > 0 ? (totalAmount / totalSpending) * 100 : 0,
+      children,
+    };
+  };
+
+  const uncategorized = { id: 0, name: 'Non catégorisé' };
+  return buildCategoryTree([...categories.filter(cat => cat.id !== 0), uncategorized])
+    .map(toNode)
+    .filter(node => node.transactionCount > 0)
+    .sort((a, b) => b.totalAmount - a.totalAmount);
+}
 
 /**
  * Calculate Pareto analysis for transactions grouped by category
@@ -13,11 +71,13 @@ import { Transaction, Category, CategorySpending, ParetoAnalysisResult } from '.
  *
  * @param transactions - Array of transactions to analyze
  * @param categories - Array of available categories
+ * @param options - Depth of the hierarchy to group categories at
  * @returns Pareto analysis result with sorted categories and 80/20 breakdown
  */
 export function calculateParetoAnalysis(
   transactions: Transaction[],
-  categories: Category[]
+  categories: Category[],
+  options: ParetoOptions = {}
 ): ParetoAnalysisResult {
   // Handle edge cases
   if (transactions.length === 0) {
@@ -26,16 +86,22 @@ export function calculateParetoAnalysis(
       paretoCategories: [],
       totalSpending: 0,
       paretoThreshold: 0,
+      tree: [],
     };
   }
 
+  // Split transactions count in the category of each line
+  const lines = expandSplits(transactions);
+  const analyzed =
+    options.depth === undefined ? lines : rollUpTransactions(lines, categories, options.depth);
+
   // Create a map for quick category lookup
   const categoryMap = new Map(categories.map(cat => [cat.id, cat.name]));
 
   // Group transactions by category and calculate totals
   const categoryTotals = new Map<number, { total: number; count: number }>();
 
-  for (const transaction of transactions) {
+  for (const transaction of analyzed) {
     const categoryId = transaction.categoryId ?? 0; // Use 0 for uncategorized
     const existing = categoryTotals.get(categoryId) ?? { total: 0, count: 0 };
 
@@ -91,6 +157,7 @@ export function calculateParetoAnalysis(
     paretoCategories,
     totalSpending,
     paretoThreshold,
+    tree: buildSpendingTree(lines, categories, totalSpending),
   };
 }
 
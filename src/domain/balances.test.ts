@@ -0,0 +1,85 @@
+/**
+ * Tests for Account Balance Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateAccountBalance,
+  calculateBalancesByAccount,
+  calculateRunningBalances,
+} from './balances';
+import { Account, Transaction } from './types';
+
+const checking: Account = { id: 1, name: 'Compte courant', currency: 'EUR', openingBalance: 1000 };
+const savings: Account = { id: 2, name: 'Livret A', currency: 'EUR', openingBalance: 5000 };
+
+const transactions: Transaction[] = [
+  { id: 3, date: new Date('2025-01-10'), description: 'Loyer', amount: -750, categoryId: 1, accountId: 1 },
+  { id: 1, date: new Date('2025-01-02'), description: 'Salaire', amount: 2100.1, categoryId: null, accountId: 1 },
+  { id: 2, date: new Date('2025-01-02'), description: 'Boulangerie', amount: -0.2, categoryId: 2, accountId: 1 },
+  { id: 4, date: new Date('2025-01-15'), description: 'Virement', amount: 200, categoryId: null, accountId: 2 },
+  { id: 5, date: new Date('2025-01-20'), description: 'Sans compte', amount: -30, categoryId: null, accountId: null },
+];
+
+describe('calculateRunningBalances', () => {
+  it('should compute the balance after each transaction in chronological order', () => {
+    const result = calculateRunningBalances(
+      transactions.filter(t => t.accountId === 1),
+      checking.openingBalance
+    );
+
+    expect(result.map(r => r.transaction.id)).toEqual([1, 2, 3]);
+    expect(result.map(r => r.balance)).toEqual([3100.1, 3099.9, 2349.9]);
+  });
+
+  it('should start from zero by default', () => {
+    const result = calculateRunningBalances([transactions[3]]);
+
+    expect(result[0].balance).toBe(200);
+  });
+
+  it('should handle empty arrays', () => {
+    expect(calculateRunningBalances([], 100)).toEqual([]);
+  });
+});
+
+describe('calculateAccountBalance', () => {
+  it('should add the account transactions to the opening balance', () => {
+    const result = calculateAccountBalance(checking, transactions);
+
+    expect(result).toEqual({
+      accountId: 1,
+      accountName: 'Compte courant',
+      currency: 'EUR',
+      openingBalance: 1000,
+      balance: 2349.9,
+      transactionCount: 3,
+      lastTransactionDate: new Date('2025-01-10'),
+    });
+  });
+
+  it('should ignore transactions after the reference date', () => {
+    const result = calculateAccountBalance(checking, transactions, new Date('2025-01-05'));
+
+    expect(result.balance).toBe(3099.9);
+    expect(result.transactionCount).toBe(2);
+  });
+
+  it('should return the opening balance without transactions', () => {
+    const result = calculateAccountBalance(checking, []);
+
+    expect(result.balance).toBe(1000);
+    expect(result.lastTransactionDate).toBeNull();
+  });
+});
+
+describe('calculateBalancesByAccount', () => {
+  it('should compute one balance per account', () => {
+    const result = calculateBalancesByAccount([checking, savings], transactions);
+
+    expect(result.map(b => [b.accountId, b.balance])).toEqual([
+      [1, 2349.9],
+      [2, 5200],
+    ]);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Account Balance Functions
+ *
+ * Pure functions computing running and current balances of bank accounts
+ * from their opening balance and transactions
+ */
+
+import { Account, Transaction } from './types';
+
+export interface RunningBalance<T extends Transaction = Transaction> {
+  transaction: T;
+  balance: number; // Balance right after the transaction
+}
+
+export interface AccountBalance {
+  accountId: number;
+  accountName: string;
+  currency: string;
+  openingBalance: number;
+  balance: number; // Current balance
+  transactionCount: number;
+  lastTransactionDate: Date | null;
+}
+
+/**
+ * Rounds an amount to cents, avoiding floating point drift in long sums
+ */
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Sorts transactions chronologically, by ID within the same day
+ */
+function sortChronologically<T extends Transaction>(transactions: T[]): T[] {
+  return [...transactions].sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime() || a.id - b.id
+  );
+}
+
+/**
+ * Computes the balance after each transaction of an account
+ *
+ * @param transactions - Transactions of a single account
+ * @param openingBalance - Balance before the first transaction
+ * @returns Transactions in chronological order with their running balance
+ */
+export function calculateRunningBalances<T extends Transaction>(
+  transactions: T[],
+  openingBalance: number = 0
+): RunningBalance<T>[] {
+  let balance = openingBalance;
+  return sortChronologically(transactions).map(transaction => {
+    balance = roundCents(balance + transaction.amount);
+    return { transaction, balance };
+  });
+}
+
+/**
+ * Computes the current balance of an account
+ *
+ * @param account - Account with its opening balance
+ * @param transactions - Transactions of all accounts, only the account's ones are used
+ * @param asOf - Ignore transactions after this date (defaults to all)
+ * @returns Balance of the account
+ */
+export function calculateAccountBalance(
+  account: Account,
+  transactions: Transaction[],
+  asOf?: Date
+): AccountBalance {
+  const accountTransactions = transactions.filter(
+    t => t.accountId === account.id && (!asOf || new Date(t.date) <= asOf)
+  );
+  const total = accountTransactions.reduce((sum, t) => sum + t.amount, 0);
+  const lastTransactionDate = accountTransactions.reduce<Date | null>((latest, t) => {
+    const date = new Date(t.date);
+    return latest && latest >= date ? latest : date;
+  }, null);
+
+  return {
+    accountId: account.id,
+    accountName: account.name,
+    currency: account.currency,
+    openingBalance: account.openingBalance,
+    balance: roundCents(account.openingBalance + total),
+    transactionCount: accountTransactions.length,
+    lastTransactionDate,
+  };
+}
+
+/**
+ * Computes the current balance of every account
+ *
+ * @param accounts - Accounts to compute
+ * @param transactions - Transactions of all accounts
+ * @param asOf - Ignore transactions after this date (defaults to all)
+ * @returns One balance per account, in the order of accounts
+ */
+export function calculateBalancesByAccount(
+  accounts: Account[],
+  transactions: Transaction[],
+  asOf?: Date
+): AccountBalance[] {
+  return accounts.map(account => calculateAccountBalance(account, transactions, asOf));
+}
@@ -0,0 +1,182 @@
+/**
+ * Tests for Budget Functions
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  calculateBudgetStatuses,
+  calculateMonthlySpending,
+  getMonthProgress,
+  projectMonthEnd,
+} from './budgets';
+import { Budget, Category, Transaction } from './types';
+
+const categories: Category[] = [
+  { id: 1, name: 'Alimentation' },
+  { id: 2, name: 'Courses', parentId: 1 },
+  { id: 3, name: 'Restaurants', parentId: 1 },
+  { id: 4, name: 'Loisirs' },
+];
+
+const transactions: Transaction[] = [
+  { id: 1, date: new Date('2025-01-08'), description: 'CARREFOUR', amount: -150, categoryId: 2 },
+  { id: 2, date: new Date('2025-01-20'), description: 'PIZZERIA', amount: -50, categoryId: 3 },
+  { id: 3, date: new Date('2025-02-03'), description: 'LECLERC', amount: -260, categoryId: 2 },
+  { id: 4, date: new Date('2025-03-04'), description: 'CARREFOUR', amount: -90, categoryId: 2 },
+  { id: 5, date: new Date('2025-03-06'), description: 'REMBOURSEMENT', amount: 30, categoryId: 2 },
+  {
+    id: 6,
+    date: new Date('2025-03-09'),
+    description: 'HYPER U',
+    amount: -100,
+    categoryId: null,
+    splits: [
+      { amount: -70, categoryId: 2 },
+      { amount: -30, categoryId: 4 },
+    ],
+  },
+];
+
+const food: Budget = {
+  categoryId: 1,
+  amount: 200,
+  rollover: false,
+  startDate: new Date('2025-01-01'),
+};
+
+describe('getMonthProgress', () => {
+  it('should count the elapsed days of the current month', () => {
+    expect(getMonthProgress(3, 2025, new Date(Date.UTC(2025, 3, 15)))).toBe(0.5);
+    expect(getMonthProgress(1, 2025, new Date(Date.UTC(2025, 1, 28)))).toBe(1);
+  });
+
+  it('should treat other months as finished or not started', () => {
+    expect(getMonthProgress(2, 2025, new Date(Date.UTC(2025, 3, 15)))).toBe(1);
+    expect(getMonthProgress(4, 2025, new Date(Date.UTC(2025, 3, 15)))).toBe(0);
+  });
+
+  it('should read the day in UTC, as transaction dates are stored', () => {
+    expect(getMonthProgress(3, 2025, new Date('2025-04-30T23:30:00Z'))).toBe(1);
+    expect(getMonthProgress(4, 2025, new Date('2025-04-30T23:30:00Z'))).toBe(0);
+  });
+});
+
+describe('projectMonthEnd', () => {
+  it('should extrapolate the spending pace', () => {
+    expect(projectMonthEnd(120, 0.4)).toBe(300);
+    expect(projectMonthEnd(120, 1)).toBe(120);
+    expect(projectMonthEnd(0, 0)).toBe(0);
+  });
+});
+
+describe('calculateMonthlySpending', () => {
+  it('should include subcategories and split lines', () => {
+    const spending = calculateMonthlySpending(transactions, categories, 2, 2025);
+
+    expect(spending(1)).toBe(160);
+    expect(spending(2)).toBe(160);
+    expect(spending(4)).toBe(30);
+  });
+
+  it('should return 0 for a category without expenses', () => {
+    expect(calculateMonthlySpending(transactions, categories, 2, 2025)(3)).toBe(0);
+  });
+});
+
+describe('calculateBudgetStatuses', () => {
+  it('should compare a finished month with its budget', () => {
+    const [status] = calculateBudgetStatuses(
+      transactions,
+      [food],
+      categories,
+      0,
+      2025,
+      new Date(Date.UTC(2025, 5, 1))
+    );
+
+    expect(status).toEqual({
+      categoryId: 1,
+      budgeted: 200,
+      carriedOver: 0,
+      available: 200,
+      spent: 200,
+      remaining: 0,
+      projected: 200,
+      alert: 'on-track',
+    });
+  });
+
+  it('should flag an overspent budget', () => {
+    const [status] = calculateBudgetStatuses(transactions, [food], categories, 1, 2025);
+
+    expect(status.remaining).toBe(-60);
+    expect(status.alert).toBe('over-budget');
+  });
+
+  it('should warn when the pace would exceed the budget', () => {
+    const [status] = calculateBudgetStatuses(
+      transactions,
+      [food],
+      categories,
+      2,
+      2025,
+      new Date(Date.UTC(2025, 2, 10))
+    );
+
+    expect(status.spent).toBe(160);
+    expect(status.projected).toBe(496);
+    expect(status.alert).toBe('at-risk');
+  });
+
+  it('should carry over unspent amounts, never overspending', () => {
+    const budget: Budget = { ...food, amount: 250, rollover: true };
+
+    const [february, march] = [1, 2].map(month => {
+      const today = new Date(Date.UTC(2025, 5, 1));
+      return calculateBudgetStatuses(transactions, [budget], categories, month, 2025, today)[0];
+    });
+
+    expect(february.carriedOver).toBe(50);
+    expect(february.available).toBe(300);
+    expect(march.carriedOver).toBe(40);
+    expect(march.remaining).toBe(130);
+  });
+
+  it('should reset the carry over after an overspent month', () => {
+    const budget: Budget = { ...food, rollover: true };
+
+    const [status] = calculateBudgetStatuses(transactions, [budget], categories, 2, 2025);
+
+    expect(status.carriedOver).toBe(0);
+  });
+
+  it('should leave out budgets starting after the month', () => {
+    const later: Budget = { ...food, categoryId: 4, startDate: new Date('2025-03-01') };
+
+    const statuses = calculateBudgetStatuses(transactions, [food, later], categories, 1, 2025);
+
+    expect(statuses.map(status => status.categoryId)).toEqual([1]);
+  });
+
+  it('should count a transaction on the 1st in its month west of UTC', () => {
+    vi.stubEnv('TZ', 'America/New_York');
+    try {
+      const firstOfMonth: Transaction = {
+        id: 7,
+        date: new Date('2025-04-01'),
+        description: 'CARREFOUR',
+        amount: -40,
+        categoryId: 2,
+      };
+      const budget: Budget = { ...food, startDate: new Date('2025-04-01') };
+
+      const [march] = calculateBudgetStatuses([firstOfMonth], [food], categories, 2, 2025);
+      const [april] = calculateBudgetStatuses([firstOfMonth], [budget], categories, 3, 2025);
+
+      expect(march.spent).toBe(0);
+      expect(april.spent).toBe(40);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Budget Functions
+ *
+ * Pure functions comparing the spending of categories with their monthly
+ * budget, e.g. "Courses: 320 € spent of 400 € on the 15th, 640 € projected"
+ */
+
+import { getDescendantIds } from './category-tree';
+import { filterByMonth } from './filters';
+import { calculateStatsByCategory } from './statistics';
+import { Budget, Category, Transaction } from './types';
+
+/**
+ * on-track: projected within the budget
+ * at-risk: the spending pace would exceed the budget by the end of the month
+ * over-budget: the budget is already exceeded
+ */
+export type BudgetAlert = 'on-track' | 'at-risk' | 'over-budget';
+
+export interface BudgetStatus {
+  categoryId: number;
+  budgeted: number; // Monthly amount of the budget
+  carriedOver: number; // Unspent amount of the previous months, with rollover
+  available: number; // budgeted + carriedOver
+  spent: number; // Expenses of the month, subcategories included
+  remaining: number; // available - spent, negative when overspent
+  projected: number; // Expenses expected at the end of the month at the current pace
+  alert: BudgetAlert;
+}
+
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Index of a month counted from year 0, to compare and step through months
+ */
+function monthIndex(month: number, year: number): number {
+  return year * 12 + month;
+}
+
+/**
+ * Month of the start of a budget, stored at UTC midnight like transaction dates
+ */
+function startIndex(budget: Budget): number {
+  return monthIndex(budget.startDate.getUTCMonth(), budget.startDate.getUTCFullYear());
+}
+
+/**
+ * Part of a month elapsed at a date, the current day counting as elapsed
+ *
+ * @param month - Month (0-11, where 0 = January)
+ * @param year - Year
+ * @param referenceDate - Now, whose day is read in UTC like transaction dates
+ * @returns 1 for a past month, 0 for a future month
+ */
+export function getMonthProgress(month: number, year: number, referenceDate: Date): number {
+  const target = monthIndex(month, year);
+  const current = monthIndex(referenceDate.getUTCMonth(), referenceDate.getUTCFullYear());
+  if (target !== current) {
+    return target < current ? 1 : 0;
+  }
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return referenceDate.getUTCDate() / daysInMonth;
+}
+
+/**
+ * Projects the spending of a month to its end at the current pace
+ * Spending of a finished month is final; nothing is projected before it starts.
+ */
+export function projectMonthEnd(spent: number, progress: number): number {
+  return progress > 0 ? roundCents(spent / progress) : spent;
+}
+
+/**
+ * Calculates the expenses of a month by category, each category including
+ * its subcategories
+ * Credits such as refunds are left out. Split transactions count once per
+ * line, in the category of the line.
+ *
+ * @returns Function giving the expenses of a category, 0 when it has none
+ */
+export function calculateMonthlySpending(
+  transactions: Transaction[],
+  categories: Category[],
+  month: number,
+  year: number
+): (categoryId: number) => number {
+  const expenses = filterByMonth(transactions, month, year).filter(t => t.amount < 0);
+  const statsByCategory = calculateStatsByCategory(expenses);
+
+  return categoryId =>
+    roundCents(
+      [categoryId, ...getDescendantIds(categories, categoryId)].reduce(
+        (sum, id) => sum + (statsByCategory.get(id)?.total ?? 0),
+        0
+      )
+    );
+}
+
+/**
+ * Compares each budget with the spending of a month
+ * With rollover, what was left of the budget each previous month since its
+ * start carries over; an overspent month carries nothing over, it does not
+ * reduce the following ones. Budgets starting after the month are left out.
+ *
+ * @param transactions - Transactions of the month, and of the previous ones for rollover
+ * @param budgets - Budgets to check
+ * @param categories - All categories, to include subcategories
+ * @param month - Month (0-11, where 0 = January)
+ * @param year - Year
+ * @param referenceDate - Today, for the projection of the current month
+ * @returns Status of each budget, in the order of the budgets
+ */
+export function calculateBudgetStatuses(
+  transactions: Transaction[],
+  budgets: Budget[],
+  categories: Category[],
+  month: number,
+  year: number,
+  referenceDate: Date = new Date()
+): BudgetStatus[] {
+  const target = monthIndex(month, year);
+  const spendingByMonth = new Map<number, (categoryId: number) => number>();
+  const spendingOf = (index: number, categoryId: number): number => {
+    let spending = spendingByMonth.get(index);
+    if (!spending) {
+      spending = calculateMonthlySpending(
+        transactions,
+        categories,
+        index % 12,
+        Math.floor(index / 12)
+      );
+      spendingByMonth.set(index, spending);
+    }
+    return spending(categoryId);
+  };
+  const progress = getMonthProgress(month, year, referenceDate);
+
+  return budgets
+    .filter(budget => startIndex(budget) <= target)
+    .map(budget => {
+      let carriedOver = 0;
+      if (budget.rollover) {
+        for (let index = startIndex(budget); index < target; index++) {
+          const left = carriedOver + budget.amount - spendingOf(index, budget.categoryId);
+          carriedOver = Math.max(0, left);
+        }
+      }
+
+      const available = roundCents(budget.amount + carriedOver);
+      const spent = spendingOf(target, budget.categoryId);
+      const projected = projectMonthEnd(spent, progress);
+      const alert: BudgetAlert =
+        spent > available ? 'over-budget' : projected > available ? 'at-risk' : 'on-track';
+
+      return {
+        categoryId: budget.categoryId,
+        budgeted: budget.amount,
+        carriedOver: roundCents(carriedOver),
+        available,
+        spent,
+        remaining: roundCents(available - spent),
+        projected,
+        alert,
+      };
+    });
+}
@@ -0,0 +1,155 @@
+/**
+ * Tests for Bulk Edit Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isEmptySelection,
+  planBulkEdit,
+  planUndo,
+  selectTransactions,
+} from './bulk-edits';
+import { Transaction } from './types';
+
+const transactions: Transaction[] = [
+  { id: 1, date: new Date('2024-12-30'), description: 'AMAZON EU SARL', amount: -45, categoryId: null },
+  { id: 2, date: new Date('2025-02-10'), description: 'CB AMAZON PAYMENTS', amount: -15, categoryId: null },
+  { id: 3, date: new Date('2025-03-05'), description: 'Amazon Prime', amount: -69.9, categoryId: null, accountId: 2 },
+  { id: 4, date: new Date('2025-04-01'), description: 'AMAZON MKTP', amount: -120, categoryId: 7, tagIds: [3] },
+  { id: 5, date: new Date('2025-05-20'), description: 'CARREFOUR', amount: -80, categoryId: null },
+  {
+    id: 6,
+    date: new Date('2025-06-12'),
+    description: 'AMAZON MKTP',
+    amount: -60,
+    categoryId: null,
+    splits: [
+      { amount: -35, categoryId: null },
+      { amount: -25, categoryId: 7 },
+    ],
+  },
+];
+
+const amazon2025 = {
+  from: new Date('2025-01-01'),
+  to: new Date('2025-12-31'),
+  categoryIds: [null],
+  minAmount: 20,
+  search: 'amazon',
+};
+
+describe('isEmptySelection', () => {
+  it('should detect a selection without criteria', () => {
+    expect(isEmptySelection({})).toBe(true);
+    expect(isEmptySelection({ search: '  ', accountIds: [], tagIds: [] })).toBe(true);
+  });
+
+  it('should accept any criterion', () => {
+    expect(isEmptySelection({ categoryIds: [null] })).toBe(false);
+    expect(isEmptySelection({ to: new Date('2025-01-01') })).toBe(false);
+    expect(isEmptySelection({ minAmount: 0 })).toBe(false);
+  });
+});
+
+describe('selectTransactions', () => {
+  it('should combine all the criteria', () => {
+    expect(selectTransactions(transactions, amazon2025).map(t => t.id)).toEqual([3, 6]);
+  });
+
+  it('should return whole split transactions when one of their lines matches', () => {
+    const [split] = selectTransactions(transactions, { categoryIds: [7], maxAmount: 30 });
+
+    expect(split.id).toBe(6);
+    expect(split.amount).toBe(-60);
+    expect(split.splits).toHaveLength(2);
+  });
+
+  it('should accept open date ranges', () => {
+    expect(
+      selectTransactions(transactions, { to: new Date('2025-02-10') }).map(t => t.id)
+    ).toEqual([1, 2]);
+    expect(
+      selectTransactions(transactions, { from: new Date('2025-05-01') }).map(t => t.id)
+    ).toEqual([5, 6]);
+  });
+
+  it('should restrict to accounts and tags', () => {
+    expect(selectTransactions(transactions, { accountIds: [2] }).map(t => t.id)).toEqual([3]);
+    expect(selectTransactions(transactions, { tagIds: [3] }).map(t => t.id)).toEqual([4]);
+    expect(
+      selectTransactions(
+        transactions.map(t => ({ ...t, merchantId: t.id === 5 ? 2 : null })),
+        { merchantIds: [2] }
+      ).map(t => t.id)
+    ).toEqual([5]);
+  });
+});
+
+describe('planBulkEdit', () => {
+  it('should plan setting a category with the previous ones', () => {
+    const plan = planBulkEdit(transactions, { search: 'amazon', from: new Date('2025-01-01') }, {
+      type: 'set-category',
+      categoryId: 7,
+    });
+
+    expect(plan.matchedCount).toBe(4);
+    expect(plan.changes).toEqual([
+      { transactionId: 2, categoryId: null },
+      { transactionId: 3, categoryId: null },
+    ]);
+    expect(plan.skippedSplitCount).toBe(1);
+  });
+
+  it('should plan clearing categories', () => {
+    const plan = planBulkEdit(transactions, { search: 'mktp' }, { type: 'clear-category' });
+
+    expect(plan.changes).toEqual([{ transactionId: 4, categoryId: 7 }]);
+  });
+
+  it('should tag split transactions and skip already tagged ones', () => {
+    const plan = planBulkEdit(transactions, { search: 'mktp' }, { type: 'add-tag', tagId: 3 });
+
+    expect(plan.changes.map(change => change.transactionId)).toEqual([6]);
+    expect(plan.skippedSplitCount).toBe(0);
+  });
+});
+
+describe('planUndo', () => {
+  const changes = [
+    { transactionId: 2, categoryId: null },
+    { transactionId: 3, categoryId: null },
+    { transactionId: 5, categoryId: 4 },
+  ];
+
+  it('should restore transactions still in the state set by the edit', () => {
+    const current: Transaction[] = [
+      { ...transactions[1], categoryId: 7 },
+      { ...transactions[2], categoryId: 9 }, // Recategorized since
+    ];
+
+    const plan = planUndo({ type: 'set-category', categoryId: 7 }, changes, current);
+
+    expect(plan.restore).toEqual([{ transactionId: 2, categoryId: null }]);
+    expect(plan.skippedCount).toBe(2);
+  });
+
+  it('should leave transactions split since the edit', () => {
+    const current: Transaction[] = [{ ...transactions[5], id: 5 }];
+
+    const plan = planUndo({ type: 'clear-category' }, changes, current);
+
+    expect(plan.restore).toEqual([]);
+  });
+
+  it('should remove tags still present', () => {
+    const current: Transaction[] = [
+      { ...transactions[1], tagIds: [3] },
+      { ...transactions[2], tagIds: [] },
+    ];
+
+    const plan = planUndo({ type: 'add-tag', tagId: 3 }, changes, current);
+
+    expect(plan.restore.map(change => change.transactionId)).toEqual([2]);
+    expect(plan.skippedCount).toBe(2);
+  });
+});
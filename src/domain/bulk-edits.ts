@@ -0,0 +1,207 @@
+/**
+ * Bulk Edit Functions
+ *
+ * Pure functions selecting transactions with serializable criteria, e.g.
+ * "uncategorized AMAZON transactions over 20 € in 2025", and planning the
+ * change of all of them at once and its undo
+ */
+
+import {
+  composeFilters,
+  filterByAccounts,
+  filterByAmountRange,
+  filterByCategories,
+  filterByDateRange,
+  filterByMerchants,
+  filterByTags,
+  searchByDescription,
+} from './filters';
+import { isSplit } from './splits';
+import { Transaction } from './types';
+
+/**
+ * Criteria of a selection, all optional and combined with AND
+ */
+export interface TransactionSelection {
+  from?: Date; // Inclusive
+  to?: Date; // Inclusive
+  categoryIds?: (number | null)[]; // null for uncategorized
+  minAmount?: number; // Bounds of the absolute amount
+  maxAmount?: number;
+  search?: string; // Part of the description, case ignored
+  accountIds?: (number | null)[];
+  tagIds?: number[];
+  tagMatch?: 'any' | 'all';
+  merchantIds?: number[];
+}
+
+export type BulkAction =
+  | { type: 'set-category'; categoryId: number }
+  | { type: 'clear-category' }
+  | { type: 'add-tag'; tagId: number };
+
+/**
+ * Transaction changed by a bulk edit, with what undoing it restores
+ */
+export interface BulkChange {
+  transactionId: number;
+  categoryId: number | null; // Category before the edit
+}
+
+export interface BulkEditPlan {
+  matchedCount: number; // Transactions matching the selection
+  changes: BulkChange[]; // Matching transactions the action changes
+  skippedSplitCount: number; // Split transactions, categorized line by line
+}
+
+export interface UndoPlan {
+  restore: BulkChange[];
+  skippedCount: number; // Transactions changed again since the edit, left as they are
+}
+
+/**
+ * Tells whether a selection has no criteria, i.e. would match every transaction
+ */
+export function isEmptySelection(selection: TransactionSelection): boolean {
+  return (
+    selection.from === undefined &&
+    selection.to === undefined &&
+    selection.categoryIds === undefined &&
+    selection.minAmount === undefined &&
+    selection.maxAmount === undefined &&
+    (selection.search ?? '').trim() === '' &&
+    (selection.accountIds ?? []).length === 0 &&
+    (selection.tagIds ?? []).length === 0 &&
+    (selection.merchantIds ?? []).length === 0
+  );
+}
+
+/**
+ * Converts the criteria of a selection to filters for composeFilters
+ */
+export function buildSelectionFilters(
+  selection: TransactionSelection
+): Array<(txs: Transaction[]) => Transaction[]> {
+  const filters: Array<(txs: Transaction[]) => Transaction[]> = [];
+
+  if (selection.accountIds !== undefined) {
+    const accountIds = selection.accountIds;
+    filters.push(txs => filterByAccounts(txs, accountIds));
+  }
+  if (selection.from !== undefined || selection.to !== undefined) {
+    const from = selection.from ?? new Date(-8.64e15);
+    const to = selection.to ?? new Date(8.64e15);
+    filters.push(txs => filterByDateRange(txs, from, to));
+  }
+  if (selection.categoryIds !== undefined) {
+    const categoryIds = selection.categoryIds;
+    filters.push(txs => filterByCategories(txs, categoryIds));
+  }
+  if (selection.minAmount !== undefined || selection.maxAmount !== undefined) {
+    const minAmount = selection.minAmount ?? 0;
+    const maxAmount = selection.maxAmount ?? Infinity;
+    filters.push(txs => filterByAmountRange(txs, minAmount, maxAmount));
+  }
+  if (selection.search !== undefined) {
+    const search = selection.search;
+    filters.push(txs => searchByDescription(txs, search));
+  }
+  if (selection.tagIds !== undefined) {
+    const tagIds = selection.tagIds;
+    filters.push(txs => filterByTags(txs, tagIds, selection.tagMatch));
+  }
+  if (selection.merchantIds !== undefined) {
+    const merchantIds = selection.merchantIds;
+    filters.push(txs => filterByMerchants(txs, merchantIds));
+  }
+  return filters;
+}
+
+/**
+ * Finds the transactions matching a selection
+ * Category and amount criteria apply to the lines of split transactions, as
+ * in the filters: a split transaction is selected when one of its lines matches.
+ *
+ * @returns Whole matching transactions, in their original order
+ */
+export function selectTransactions<T extends Transaction>(
+  transactions: T[],
+  selection: TransactionSelection
+): T[] {
+  const matching = composeFilters(transactions, buildSelectionFilters(selection));
+  const ids = new Set(matching.map(transaction => transaction.id));
+  return transactions.filter(transaction => ids.has(transaction.id));
+}
+
+/**
+ * Lists the transactions a bulk action would change
+ * Transactions already in the wanted state are left out. Split transactions
+ * keep the categories of their lines: category actions skip them.
+ *
+ * @param transactions - Candidate transactions, with their tags for tag actions
+ * @param selection - Criteria of the transactions to change
+ * @param action - Change to make
+ */
+export function planBulkEdit(
+  transactions: Transaction[],
+  selection: TransactionSelection,
+  action: BulkAction
+): BulkEditPlan {
+  const selected = selectTransactions(transactions, selection);
+  const split = action.type === 'add-tag' ? [] : selected.filter(isSplit);
+  const candidates = selected.filter(transaction => !split.includes(transaction));
+
+  const changed = candidates.filter(transaction => {
+    switch (action.type) {
+      case 'set-category':
+        return transaction.categoryId !== action.categoryId;
+      case 'clear-category':
+        return transaction.categoryId !== null;
+      case 'add-tag':
+        return !(transaction.tagIds ?? []).includes(action.tagId);
+    }
+  });
+
+  return {
+    matchedCount: selected.length,
+    changes: changed.map(transaction => ({
+      transactionId: transaction.id,
+      categoryId: transaction.categoryId,
+    })),
+    skippedSplitCount: split.length,
+  };
+}
+
+/**
+ * Lists the changes of a bulk edit that can be undone
+ * A transaction whose category was changed again since the edit, or that was
+ * split, keeps its current state rather than losing that later work.
+ *
+ * @param action - Action of the edit
+ * @param changes - Changes recorded by the edit
+ * @param current - Current state of the changed transactions, deleted ones missing
+ */
+export function planUndo(
+  action: BulkAction,
+  changes: BulkChange[],
+  current: Transaction[]
+): UndoPlan {
+  const byId = new Map(current.map(transaction => [transaction.id, transaction]));
+
+  const restore = changes.filter(change => {
+    const transaction = byId.get(change.transactionId);
+    if (!transaction) {
+      return false;
+    }
+    switch (action.type) {
+      case 'set-category':
+        return !isSplit(transaction) && transaction.categoryId === action.categoryId;
+      case 'clear-category':
+        return !isSplit(transaction) && transaction.categoryId === null;
+      case 'add-tag':
+        return (transaction.tagIds ?? []).includes(action.tagId);
+    }
+  });
+
+  return { restore, skippedCount: changes.length - restore.length };
+}
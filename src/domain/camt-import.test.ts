@@ -0,0 +1,172 @@
+/**
+ * Tests for CAMT Import Domain Logic
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isCAMTContent, parseCAMTToTransactions } from './camt-import';
+
+const camt053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>MSG1</MsgId></GrpHdr>
+    <Stmt>
+      <Id>STMT1</Id>
+      <Acct>
+        <Id><IBAN>FR7630004000031234567890143</IBAN></Id>
+        <Ccy>EUR</Ccy>
+        <Ownr><Nm>SARL DUPONT</Nm></Ownr>
+      </Acct>
+      <Ntry>
+        <Amt Ccy="EUR">45.30</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-03-18</Dt></BookgDt>
+        <ValDt><Dt>2025-03-17</Dt></ValDt>
+        <AcctSvcrRef>REF001</AcctSvcrRef>
+        <NtryDtls>
+          <TxDtls>
+            <RltdPties>
+              <Dbtr><Nm>SARL DUPONT</Nm></Dbtr>
+              <Cdtr><Nm>EDF</Nm></Cdtr>
+              <CdtrAcct><Id><IBAN>FR7612345000019876543210987</IBAN></Id></CdtrAcct>
+            </RltdPties>
+            <RmtInf>
+              <Ustrd>FACTURE 2025-03</Ustrd>
+              <Ustrd>CLIENT 42</Ustrd>
+            </RmtInf>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">2100.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><DtTm>2025-03-17T09:30:00+01:00</DtTm></BookgDt>
+        <ValDt><Dt>2025-03-17</Dt></ValDt>
+        <NtryDtls>
+          <TxDtls>
+            <Refs><AcctSvcrRef>REF002</AcctSvcrRef></Refs>
+            <RltdPties>
+              <Dbtr><Pty><Nm>CLIENT SA</Nm></Pty></Dbtr>
+              <DbtrAcct><Id><IBAN>DE89370400440532013000</IBAN></Id></DbtrAcct>
+            </RltdPties>
+          </TxDtls>
+        </NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">12.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-03-16</Dt></BookgDt>
+        <AddtlNtryInf>FRAIS BANCAIRES</AddtlNtryInf>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+const camt052 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.052.001.02">
+  <BkToCstmrAcctRpt>
+    <Rpt>
+      <Acct><Id><Othr><Id>12345678</Id></Othr></Id></Acct>
+      <Ntry>
+        <Amt Ccy="EUR">10.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2025-03-20</Dt></BookgDt>
+        <AddtlNtryInf>CB EN ATTENTE</AddtlNtryInf>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">abc</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-03-19</Dt></BookgDt>
+        <AddtlNtryInf>MONTANT INVALIDE</AddtlNtryInf>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">5.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-02-30</Dt></BookgDt>
+        <AddtlNtryInf>DATE INVALIDE</AddtlNtryInf>
+      </Ntry>
+    </Rpt>
+  </BkToCstmrAcctRpt>
+</Document>`;
+
+describe('isCAMTContent', () => {
+  it('should recognize camt.053 and camt.052 documents', () => {
+    expect(isCAMTContent(camt053)).toBe(true);
+    expect(isCAMTContent(camt052)).toBe(true);
+  });
+
+  it('should not recognize other XML documents', () => {
+    expect(isCAMTContent('<?xml version="1.0"?><OFX></OFX>')).toBe(false);
+  });
+});
+
+describe('parseCAMTToTransactions', () => {
+  it('should sign amounts from the credit/debit indicator', () => {
+    const result = parseCAMTToTransactions(camt053);
+
+    expect(result.valid.map(t => t.amount)).toEqual([-45.3, 2100, -12]);
+  });
+
+  it('should build the description from counterparty and remittance info', () => {
+    const result = parseCAMTToTransactions(camt053);
+
+    expect(result.valid[0].description).toBe('EDF - FACTURE 2025-03 CLIENT 42');
+    expect(result.valid[1].description).toBe('CLIENT SA');
+    expect(result.valid[2].description).toBe('FRAIS BANCAIRES');
+  });
+
+  it('should preserve rich statement fields', () => {
+    const result = parseCAMTToTransactions(camt053);
+
+    expect(result.valid[0]).toEqual({
+      date: new Date(Date.UTC(2025, 2, 18)),
+      description: 'EDF - FACTURE 2025-03 CLIENT 42',
+      amount: -45.3,
+      externalId: 'REF001',
+      accountNumber: 'FR7630004000031234567890143',
+      valueDate: new Date(Date.UTC(2025, 2, 17)),
+      counterpartyName: 'EDF',
+      counterpartyIban: 'FR7612345000019876543210987',
+      remittanceInfo: 'FACTURE 2025-03 CLIENT 42',
+    });
+  });
+
+  it('should use the debtor as counterparty of a credit', () => {
+    const result = parseCAMTToTransactions(camt053);
+
+    expect(result.valid[1].counterpartyName).toBe('CLIENT SA');
+    expect(result.valid[1].counterpartyIban).toBe('DE89370400440532013000');
+    expect(result.valid[1].externalId).toBe('REF002');
+    expect(result.valid[1].date).toEqual(new Date(Date.UTC(2025, 2, 17)));
+  });
+
+  it('should report the statement accounts', () => {
+    expect(parseCAMTToTransactions(camt053).accounts).toEqual([
+      { accountId: 'FR7630004000031234567890143', currency: 'EUR', ownerName: 'SARL DUPONT' },
+    ]);
+    expect(parseCAMTToTransactions(camt052).accounts[0].accountId).toBe('12345678');
+  });
+
+  it('should report pending, malformed and impossible entries as invalid', () => {
+    const result = parseCAMTToTransactions(camt052);
+
+    expect(result.valid).toEqual([]);
+    expect(result.invalid.map(row => row.rowIndex)).toEqual([0, 1, 2]);
+    expect(result.invalid[0].error).toContain('booked');
+    expect(result.invalid[1].error).toContain('amount');
+    expect(result.invalid[2].error).toContain('date');
+  });
+
+  it('should return empty results for a document without statements', () => {
+    expect(parseCAMTToTransactions('<Document></Document>')).toEqual({
+      valid: [],
+      invalid: [],
+      accounts: [],
+    });
+  });
+});
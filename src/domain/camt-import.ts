@@ -0,0 +1,187 @@
+/**
+ * CAMT Import Domain Logic
+ *
+ * Pure functions for parsing ISO 20022 bank statements (camt.053) and
+ * account reports (camt.052) into the same shape as CSV imports
+ */
+
+import { InvalidRow, ParseResult, ValidatedTransaction } from './csv-import';
+import { parseDateWithFormat } from './date-parser';
+import { findAll, findChild, getText, MarkupNode, parseMarkup } from './markup';
+
+export interface CAMTAccount {
+  accountId: string; // IBAN, or proprietary identifier
+  currency?: string;
+  ownerName?: string;
+}
+
+export interface CAMTParseResult extends ParseResult {
+  accounts: CAMTAccount[];
+}
+
+/**
+ * Checks whether a file content looks like a camt.052 or camt.053 document
+ */
+export function isCAMTContent(content: string): boolean {
+  const start = content.slice(0, 2000);
+  return /camt\.05[23]/i.test(start) || /<(\w+:)?BkToCstmr(Stmt|AcctRpt)>/.test(start);
+}
+
+/**
+ * Parses an ISO date or date-time, keeping only the calendar day as a UTC date
+ */
+function parseISODay(value: string | undefined): Date | null {
+  return value ? parseDateWithFormat(value, 'YYYY-MM-DD') : null;
+}
+
+/**
+ * Reads the raw value of a date element holding either <Dt> or <DtTm>
+ */
+function readRawDate(node: MarkupNode | undefined): string | undefined {
+  if (!node) {
+    return undefined;
+  }
+  return getText(node, 'Dt') ?? getText(node, 'DtTm');
+}
+
+/**
+ * Reads an account identifier (IBAN or other identification)
+ */
+function readAccountId(account: MarkupNode | undefined): string | undefined {
+  if (!account) {
+    return undefined;
+  }
+  return getText(account, 'Id', 'IBAN') ?? getText(account, 'Id', 'Othr', 'Id');
+}
+
+/**
+ * Reads a party name, from <Nm> directly or <Pty><Nm> (camt.053.001.08+)
+ */
+function readPartyName(party: MarkupNode | undefined): string | undefined {
+  if (!party) {
+    return undefined;
+  }
+  return getText(party, 'Nm') ?? getText(party, 'Pty', 'Nm');
+}
+
+/**
+ * Reads the entry status (<Sts>BOOK</Sts> or <Sts><Cd>BOOK</Cd></Sts>)
+ */
+function readStatus(entry: MarkupNode): string | undefined {
+  const status = findChild(entry, 'Sts');
+  if (!status) {
+    return undefined;
+  }
+  return status.text || getText(status, 'Cd');
+}
+
+/**
+ * Builds the description from counterparty and remittance information
+ */
+function buildDescription(parts: (string | undefined)[]): string {
+  return parts
+    .map(part => part?.trim())
+    .filter((part): part is string => Boolean(part))
+    .join(' - ');
+}
+
+/**
+ * Parses a camt.052/053 document into valid and invalid transactions
+ * The sign comes from CdtDbtInd, the counterparty is the creditor of a
+ * debit and the debtor of a credit. Pending entries are reported as invalid.
+ * Row indices count Ntry elements in document order.
+ */
+export function parseCAMTToTransactions(content: string): CAMTParseResult {
+  const document = parseMarkup(content);
+  const statements = [...findAll(document, 'Stmt'), ...findAll(document, 'Rpt')];
+
+  const valid: ValidatedTransaction[] = [];
+  const invalid: InvalidRow[] = [];
+  const accounts: CAMTAccount[] = [];
+  let rowIndex = 0;
+
+  for (const statement of statements) {
+    const accountNode = findChild(statement, 'Acct');
+    const account: CAMTAccount = {
+      accountId: readAccountId(accountNode) ?? '',
+      currency: accountNode && getText(accountNode, 'Ccy'),
+      ownerName: accountNode && readPartyName(findChild(accountNode, 'Ownr')),
+    };
+    accounts.push(account);
+
+    for (const entry of findAll(statement, 'Ntry')) {
+      const index = rowIndex++;
+      const details = findAll(entry, 'TxDtls')[0];
+      const indicator = getText(entry, 'CdtDbtInd') ?? '';
+      const rawAmount = getText(entry, 'Amt') ?? '';
+      const bookingDate = readRawDate(findChild(entry, 'BookgDt'));
+
+      const isDebit = indicator === 'DBIT';
+      const parties = details && findChild(details, 'RltdPties');
+      const counterpartyName = parties
+        ? readPartyName(findChild(parties, isDebit ? 'Cdtr' : 'Dbtr'))
+        : undefined;
+      const counterpartyIban = parties
+        ? readAccountId(findChild(parties, isDebit ? 'CdtrAcct' : 'DbtrAcct'))
+        : undefined;
+      const remittance = details && findChild(details, 'RmtInf');
+      const remittanceInfo = remittance
+        ? findAll(remittance, 'Ustrd')
+            .map(node => node.text.trim())
+            .join(' ')
+            .trim() || getText(remittance, 'Strd', 'CdtrRefInf', 'Ref')
+        : undefined;
+      const additionalInfo = getText(entry, 'AddtlNtryInf');
+
+      const row = [
+        bookingDate ?? '',
+        counterpartyName ?? '',
+        remittanceInfo ?? additionalInfo ?? '',
+        indicator,
+        rawAmount,
+      ];
+
+      const status = readStatus(entry);
+      if (status && status !== 'BOOK') {
+        invalid.push({ rowIndex: index, row, error: 'Entry is not booked yet' });
+        continue;
+      }
+
+      const date = parseISODay(bookingDate);
+      if (!date) {
+        invalid.push({ rowIndex: index, row, error: 'Invalid date format' });
+        continue;
+      }
+
+      const description =
+        buildDescription([counterpartyName, remittanceInfo]) || additionalInfo?.trim() || '';
+      if (description === '') {
+        invalid.push({ rowIndex: index, row, error: 'Description cannot be empty' });
+        continue;
+      }
+
+      const amount = /^\d+(\.\d+)?$/.test(rawAmount.trim()) ? parseFloat(rawAmount) : NaN;
+      if (isNaN(amount) || (indicator !== 'DBIT' && indicator !== 'CRDT')) {
+        invalid.push({ rowIndex: index, row, error: 'Invalid amount format' });
+        continue;
+      }
+
+      valid.push({
+        date,
+        description,
+        amount: isDebit ? -amount : amount,
+        externalId:
+          getText(entry, 'AcctSvcrRef') ??
+          (details && getText(details, 'Refs', 'AcctSvcrRef')) ??
+          getText(entry, 'NtryRef'),
+        accountNumber: account.accountId || undefined,
+        valueDate: parseISODay(readRawDate(findChild(entry, 'ValDt'))) ?? undefined,
+        counterpartyName,
+        counterpartyIban,
+        remittanceInfo: remittanceInfo || undefined,
+      });
+    }
+  }
+
+  return { valid, invalid, accounts };
+}
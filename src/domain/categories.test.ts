@@ -0,0 +1,55 @@
+/**
+ * Tests for Category Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CATEGORY_COLORS,
+  findCategoryNameConflict,
+  normalizeCategoryName,
+  pickCategoryColor,
+} from './categories';
+
+describe('normalizeCategoryName', () => {
+  it('should ignore case, accents and extra spaces', () => {
+    expect(normalizeCategoryName('  Santé   et  Bien-être ')).toBe('sante et bien-etre');
+  });
+});
+
+describe('findCategoryNameConflict', () => {
+  const categories = [
+    { id: 1, name: 'Alimentation' },
+    { id: 2, name: 'Santé' },
+  ];
+
+  it('should find a category with the same normalized name', () => {
+    expect(findCategoryNameConflict(categories, 'sante')).toEqual({ id: 2, name: 'Santé' });
+  });
+
+  it('should return null for a new name', () => {
+    expect(findCategoryNameConflict(categories, 'Transport')).toBeNull();
+  });
+
+  it('should let a renamed category keep its own name', () => {
+    expect(findCategoryNameConflict(categories, 'ALIMENTATION', 1)).toBeNull();
+    expect(findCategoryNameConflict(categories, 'ALIMENTATION', 2)).toEqual({
+      id: 1,
+      name: 'Alimentation',
+    });
+  });
+});
+
+describe('pickCategoryColor', () => {
+  it('should pick the first unused color', () => {
+    expect(pickCategoryColor([])).toBe(CATEGORY_COLORS[0]);
+    expect(pickCategoryColor([{ color: CATEGORY_COLORS[0].toLowerCase() }, { color: null }])).toBe(
+      CATEGORY_COLORS[1]
+    );
+  });
+
+  it('should cycle through the palette when every color is used', () => {
+    const categories = CATEGORY_COLORS.map(color => ({ color }));
+    expect(pickCategoryColor(categories)).toBe(CATEGORY_COLORS[0]);
+    expect(pickCategoryColor([...categories, { color: null }])).toBe(CATEGORY_COLORS[1]);
+  });
+});
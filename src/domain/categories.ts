@@ -0,0 +1,66 @@
+/**
+ * Category Functions
+ *
+ * Pure functions validating category names and picking default colors
+ */
+
+import { Category } from './types';
+
+// Colors offered to new categories, in order
+export const CATEGORY_COLORS = [
+  '#4CAF50',
+  '#2196F3',
+  '#FF9800',
+  '#9C27B0',
+  '#F44336',
+  '#00BCD4',
+  '#795548',
+  '#607D8B',
+  '#E91E63',
+  '#CDDC39',
+];
+
+/**
+ * Normalizes a category name for comparison: case, accents and spacing
+ * are ignored, so that "Santé" and "sante " are the same category
+ */
+export function normalizeCategoryName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Finds an existing category with the same name
+ *
+ * @param categories - Existing categories
+ * @param name - Name of the category being created or renamed
+ * @param excludeId - Category being renamed, which may keep its name
+ * @returns Conflicting category, or null
+ */
+export function findCategoryNameConflict<T extends Pick<Category, 'id' | 'name'>>(
+  categories: T[],
+  name: string,
+  excludeId?: number
+): T | null {
+  const normalized = normalizeCategoryName(name);
+  return (
+    categories.find(
+      category => category.id !== excludeId && normalizeCategoryName(category.name) === normalized
+    ) ?? null
+  );
+}
+
+/**
+ * Picks the first palette color not used yet, cycling when all are taken
+ */
+export function pickCategoryColor(categories: Pick<Category, 'color'>[]): string {
+  const used = new Set(categories.map(category => category.color?.toUpperCase()));
+  return (
+    CATEGORY_COLORS.find(color => !used.has(color)) ??
+    CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length]
+  );
+}
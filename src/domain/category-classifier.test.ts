@@ -0,0 +1,138 @@
+/**
+ * Tests for Category Classifier Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createClassifierModel,
+  extractFeatures,
+  isConfidentSuggestion,
+  suggestCategories,
+  trainClassifier,
+  TrainingExample,
+  untrainClassifier,
+} from './category-classifier';
+
+const GROCERIES = 1;
+const TRANSPORT = 2;
+const SALARY = 3;
+
+const examples: TrainingExample[] = [
+  { description: 'CB CARREFOUR MARKET 12/03', amount: -45.2, categoryId: GROCERIES },
+  { description: 'CB CARREFOUR CITY 15/03', amount: -12.5, categoryId: GROCERIES },
+  { description: 'CB LIDL 0423', amount: -38.9, categoryId: GROCERIES },
+  { description: 'CB LIDL 0512', amount: -22.1, categoryId: GROCERIES },
+  { description: 'CB SNCF INTERNET', amount: -89, categoryId: TRANSPORT },
+  { description: 'CB RATP NAVIGO', amount: -86.4, categoryId: TRANSPORT },
+  { description: 'CB SNCF CONNECT', amount: -35, categoryId: TRANSPORT },
+  { description: 'VIR SALAIRE ACME', amount: 2500, categoryId: SALARY },
+];
+
+const model = trainClassifier(createClassifierModel(), examples);
+
+describe('extractFeatures', () => {
+  it('should keep normalized words and the amount range', () => {
+    expect(extractFeatures({ description: 'CB Café du Marché 12/03', amount: -4.5 })).toEqual([
+      'cb',
+      'cafe',
+      'du',
+      'marche',
+      '#debit',
+      '#amount0',
+    ]);
+  });
+
+  it('should drop numbers, one letter words and repeated words', () => {
+    expect(extractFeatures({ description: 'PRLV A SFR SFR 0612345678', amount: 2000 })).toEqual([
+      'prlv',
+      'sfr',
+      '#credit',
+      '#amount5',
+    ]);
+  });
+});
+
+describe('trainClassifier', () => {
+  it('should count documents and features by category', () => {
+    expect(model.documentCount).toBe(8);
+    expect(model.categories[GROCERIES].documentCount).toBe(4);
+    expect(model.categories[GROCERIES].features.carrefour).toBe(2);
+    expect(model.categories[GROCERIES].features.cb).toBe(4);
+  });
+
+  it('should leave the given model unchanged', () => {
+    const empty = createClassifierModel();
+    trainClassifier(empty, examples);
+
+    expect(empty).toEqual(createClassifierModel());
+  });
+
+  it('should be incremental', () => {
+    const incremental = trainClassifier(
+      trainClassifier(createClassifierModel(), examples.slice(0, 3)),
+      examples.slice(3)
+    );
+
+    expect(incremental).toEqual(model);
+  });
+});
+
+describe('untrainClassifier', () => {
+  it('should undo training', () => {
+    const last = examples[examples.length - 1];
+    const trained = trainClassifier(createClassifierModel(), examples.slice(0, -1));
+
+    expect(untrainClassifier(model, [last])).toEqual(trained);
+  });
+
+  it('should ignore examples of categories never learned', () => {
+    const forgotten = untrainClassifier(model, [
+      { description: 'CB FNAC', amount: -20, categoryId: 99 },
+    ]);
+
+    expect(forgotten).toEqual(model);
+  });
+});
+
+describe('suggestCategories', () => {
+  it('should rank the category of similar transactions first', () => {
+    const suggestions = suggestCategories(model, { description: 'CB LIDL 0601', amount: -31 });
+
+    expect(suggestions[0].categoryId).toBe(GROCERIES);
+    expect(suggestions[0].confidence).toBeGreaterThan(0.5);
+  });
+
+  it('should return probabilities summing to 1 by decreasing confidence', () => {
+    const suggestions = suggestCategories(model, { description: 'CB SNCF', amount: -50 });
+    const total = suggestions.reduce((sum, suggestion) => sum + suggestion.confidence, 0);
+
+    expect(suggestions.map(suggestion => suggestion.categoryId)).toEqual([
+      TRANSPORT,
+      GROCERIES,
+      SALARY,
+    ]);
+    expect(total).toBeCloseTo(1);
+  });
+
+  it('should limit the number of suggestions', () => {
+    expect(suggestCategories(model, { description: 'CB SNCF', amount: -50 }, 1)).toHaveLength(1);
+  });
+
+  it('should not suggest without any known word', () => {
+    expect(suggestCategories(model, { description: 'CHQ 1234567', amount: -40 })).toEqual([]);
+    expect(
+      suggestCategories(createClassifierModel(), { description: 'CB LIDL', amount: -40 })
+    ).toEqual([]);
+  });
+});
+
+describe('isConfidentSuggestion', () => {
+  it('should require a high confidence', () => {
+    expect(isConfidentSuggestion(model, { categoryId: GROCERIES, confidence: 0.95 })).toBe(true);
+    expect(isConfidentSuggestion(model, { categoryId: GROCERIES, confidence: 0.6 })).toBe(false);
+  });
+
+  it('should require a few examples of the category', () => {
+    expect(isConfidentSuggestion(model, { categoryId: SALARY, confidence: 0.99 })).toBe(false);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Category Classifier Functions
+ *
+ * Pure functions for a naive Bayes classifier learning from categorized
+ * transactions, to suggest a category for the merchants no rule covers
+ */
+
+import { normalizeDescription } from './duplicates';
+
+export interface ClassifierSubject {
+  description: string;
+  amount: number;
+}
+
+export interface TrainingExample extends ClassifierSubject {
+  categoryId: number;
+}
+
+export interface CategoryStats {
+  documentCount: number; // Transactions learned for the category
+  featureCount: number; // Sum of the feature counts
+  features: Record<string, number>;
+}
+
+/**
+ * Counts learned so far, serializable as JSON
+ */
+export interface ClassifierModel {
+  documentCount: number;
+  categories: Record<string, CategoryStats>; // By category ID
+}
+
+export interface CategorySuggestion {
+  categoryId: number;
+  confidence: number; // Probability between 0 and 1
+}
+
+// Upper bounds of the absolute amount buckets, a last bucket holds larger amounts
+const AMOUNT_BUCKETS = [10, 50, 100, 500, 1000];
+
+// Suggestions applied without review at import
+export const AUTO_APPLY_CONFIDENCE = 0.9;
+const AUTO_APPLY_MIN_EXAMPLES = 3;
+
+/**
+ * Features of a transaction: the words of its description and its amount range
+ * Numbers are dropped, they are mostly dates and card or reference numbers.
+ */
+export function extractFeatures(subject: ClassifierSubject): string[] {
+  const words = normalizeDescription(subject.description)
+    .split(' ')
+    .filter(word => word.length >= 2 && !/^\d+$/.test(word));
+
+  const amount = Math.abs(subject.amount);
+  const bucket = AMOUNT_BUCKETS.findIndex(limit => amount < limit);
+  return [
+    ...new Set(words),
+    `#${subject.amount < 0 ? 'debit' : 'credit'}`,
+    `#amount${bucket === -1 ? AMOUNT_BUCKETS.length : bucket}`,
+  ];
+}
+
+export function createClassifierModel(): ClassifierModel {
+  return { documentCount: 0, categories: {} };
+}
+
+/**
+ * Adds (weight 1) or removes (weight -1) examples from a copy of the model
+ */
+function addExamples(
+  model: ClassifierModel,
+  examples: TrainingExample[],
+  weight: 1 | -1
+): ClassifierModel {
+  const result: ClassifierModel = {
+    documentCount: model.documentCount,
+    categories: Object.fromEntries(
+      Object.entries(model.categories).map(([id, stats]) => [
+        id,
+        { ...stats, features: { ...stats.features } },
+      ])
+    ),
+  };
+
+  examples.forEach(example => {
+    const key = String(example.categoryId);
+    const stats = result.categories[key] ?? { documentCount: 0, featureCount: 0, features: {} };
+    if (weight < 0 && stats.documentCount === 0) {
+      return; // Never learned, e.g. model rebuilt after the category was set
+    }
+
+    const features = extractFeatures(example);
+    stats.documentCount += weight;
+    stats.featureCount += weight * features.length;
+    features.forEach(feature => {
+      const count = (stats.features[feature] ?? 0) + weight;
+      if (count > 0) {
+        stats.features[feature] = count;
+      } else {
+        delete stats.features[feature];
+      }
+    });
+    result.documentCount += weight;
+
+    if (stats.documentCount > 0) {
+      result.categories[key] = stats;
+    } else {
+      delete result.categories[key];
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Learns categorized transactions
+ * @returns New model, the given one is left unchanged
+ */
+export function trainClassifier(
+  model: ClassifierModel,
+  examples: TrainingExample[]
+): ClassifierModel {
+  return addExamples(model, examples, 1);
+}
+
+/**
+ * Forgets transactions learned before, e.g. when their category is corrected
+ * @returns New model, the given one is left unchanged
+ */
+export function untrainClassifier(
+  model: ClassifierModel,
+  examples: TrainingExample[]
+): ClassifierModel {
+  return addExamples(model, examples, -1);
+}
+
+/**
+ * Builds the scoring function of a model, computing its vocabulary once
+ * Without any description word seen during training, nothing is suggested:
+ * the amount alone says little about the category.
+ *
+ * @param model - Trained model
+ * @returns Function ranking the categories of a transaction by decreasing confidence
+ */
+export function createCategorySuggester(
+  model: ClassifierModel
+): (subject: ClassifierSubject, limit?: number) => CategorySuggestion[] {
+  const categories = Object.entries(model.categories);
+  const vocabulary = new Set(categories.flatMap(([, stats]) => Object.keys(stats.features)));
+
+  return (subject, limit = 3) => {
+    const features = extractFeatures(subject).filter(feature => vocabulary.has(feature));
+    if (!features.some(feature => !feature.startsWith('#'))) {
+      return [];
+    }
+
+    // Log probabilities with Laplace smoothing
+    const scores = categories.map(([id, stats]) => {
+      const prior = Math.log(stats.documentCount / model.documentCount);
+      const likelihood = features.reduce(
+        (sum, feature) =>
+          sum +
+          Math.log(((stats.features[feature] ?? 0) + 1) / (stats.featureCount + vocabulary.size)),
+        0
+      );
+      return { categoryId: Number(id), score: prior + likelihood };
+    });
+
+    // Softmax, shifted by the best score to avoid underflow
+    const best = Math.max(...scores.map(({ score }) => score));
+    const total = scores.reduce((sum, { score }) => sum + Math.exp(score - best), 0);
+    return scores
+      .map(({ categoryId, score }) => ({ categoryId, confidence: Math.exp(score - best) / total }))
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, limit);
+  };
+}
+
+/**
+ * Ranks the categories of a single transaction by probability
+ * @returns Suggestions by decreasing confidence
+ */
+export function suggestCategories(
+  model: ClassifierModel,
+  subject: ClassifierSubject,
+  limit = 3
+): CategorySuggestion[] {
+  return createCategorySuggester(model)(subject, limit);
+}
+
+/**
+ * Tells whether a suggestion is reliable enough to be applied without review
+ * The category must have been learned from a few transactions.
+ */
+export function isConfidentSuggestion(
+  model: ClassifierModel,
+  suggestion: CategorySuggestion
+): boolean {
+  const stats = model.categories[String(suggestion.categoryId)];
+  return (
+    suggestion.confidence >= AUTO_APPLY_CONFIDENCE &&
+    stats !== undefined &&
+    stats.documentCount >= AUTO_APPLY_MIN_EXAMPLES
+  );
+}
@@ -0,0 +1,183 @@
+/**
+ * Tests for Categorization Rule Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CategoryRule,
+  categorizeTransactions,
+  createRuleMatcher,
+  previewRules,
+  RuleConditions,
+  sortRules,
+  validateRuleConditions,
+} from './category-rules';
+
+const noConditions: RuleConditions = {
+  descriptionMatch: null,
+  descriptionPattern: null,
+  minAmount: null,
+  maxAmount: null,
+  sign: null,
+  accountId: null,
+  weekdays: [],
+};
+
+function rule(id: number, overrides: Partial<CategoryRule>): CategoryRule {
+  return {
+    ...noConditions,
+    id,
+    name: `Règle ${id}`,
+    categoryId: id * 10,
+    priority: 100,
+    enabled: true,
+    ...overrides,
+  };
+}
+
+// 2025-03-03 is a Monday
+const groceries = {
+  date: new Date('2025-03-03'),
+  description: 'CB CARREFOUR MARKET 02/03',
+  amount: -54.2,
+  accountId: 1,
+};
+const salary = {
+  date: new Date('2025-03-01'),
+  description: 'VIR SEPA SALAIRE MARS',
+  amount: 2100,
+  accountId: 1,
+};
+
+describe('validateRuleConditions', () => {
+  it('should accept a rule with a description pattern', () => {
+    expect(
+      validateRuleConditions({
+        ...noConditions,
+        descriptionMatch: 'contains',
+        descriptionPattern: 'carrefour',
+      })
+    ).toBeNull();
+  });
+
+  it('should require at least one condition', () => {
+    expect(validateRuleConditions(noConditions)).toBe(
+      'Une règle doit avoir au moins une condition'
+    );
+  });
+
+  it('should require a pattern when matching the description', () => {
+    expect(
+      validateRuleConditions({ ...noConditions, descriptionMatch: 'contains', descriptionPattern: ' ' })
+    ).not.toBeNull();
+  });
+
+  it('should reject invalid regular expressions and inverted ranges', () => {
+    expect(
+      validateRuleConditions({ ...noConditions, descriptionMatch: 'regex', descriptionPattern: '(' })
+    ).toBe('Expression régulière invalide');
+    expect(validateRuleConditions({ ...noConditions, minAmount: 50, maxAmount: 10 })).toBe(
+      'Le montant minimum dépasse le montant maximum'
+    );
+  });
+});
+
+describe('createRuleMatcher', () => {
+  it('should match descriptions ignoring case, accents and punctuation', () => {
+    const matches = createRuleMatcher({
+      ...noConditions,
+      descriptionMatch: 'contains',
+      descriptionPattern: 'Carrefour-Market',
+    });
+    expect(matches(groceries)).toBe(true);
+    expect(matches(salary)).toBe(false);
+  });
+
+  it('should match the start of the description', () => {
+    const matches = createRuleMatcher({
+      ...noConditions,
+      descriptionMatch: 'starts-with',
+      descriptionPattern: 'vir sepa',
+    });
+    expect(matches(salary)).toBe(true);
+    expect(matches(groceries)).toBe(false);
+  });
+
+  it('should match regular expressions on the raw description', () => {
+    const matches = createRuleMatcher({
+      ...noConditions,
+      descriptionMatch: 'regex',
+      descriptionPattern: '^cb .* \\d{2}/\\d{2}$',
+    });
+    expect(matches(groceries)).toBe(true);
+    expect(matches(salary)).toBe(false);
+  });
+
+  it('should never match with an invalid regular expression', () => {
+    const matches = createRuleMatcher({
+      ...noConditions,
+      descriptionMatch: 'regex',
+      descriptionPattern: '(',
+    });
+    expect(matches(groceries)).toBe(false);
+  });
+
+  it('should compare the absolute amount with the range and check the sign', () => {
+    const range = createRuleMatcher({ ...noConditions, minAmount: 50, maxAmount: 100 });
+    expect(range(groceries)).toBe(true);
+    expect(range(salary)).toBe(false);
+
+    expect(createRuleMatcher({ ...noConditions, sign: 'debit' })(groceries)).toBe(true);
+    expect(createRuleMatcher({ ...noConditions, sign: 'credit' })(groceries)).toBe(false);
+  });
+
+  it('should check the account and the weekday', () => {
+    expect(createRuleMatcher({ ...noConditions, accountId: 1 })(groceries)).toBe(true);
+    expect(createRuleMatcher({ ...noConditions, accountId: 2 })(groceries)).toBe(false);
+    expect(createRuleMatcher({ ...noConditions, weekdays: [1, 2] })(groceries)).toBe(true);
+    expect(createRuleMatcher({ ...noConditions, weekdays: [1, 2] })(salary)).toBe(false);
+  });
+});
+
+describe('sortRules', () => {
+  it('should keep enabled rules by priority, then by id', () => {
+    const rules = [
+      rule(1, { priority: 20 }),
+      rule(2, { priority: 10 }),
+      rule(3, { priority: 10, enabled: false }),
+      rule(4, { priority: 20 }),
+    ];
+    expect(sortRules(rules).map(r => r.id)).toEqual([2, 1, 4]);
+  });
+});
+
+describe('categorizeTransactions', () => {
+  it('should assign the category of the first matching rule', () => {
+    const rules = [
+      rule(1, { priority: 20, sign: 'debit' }),
+      rule(2, { priority: 10, descriptionMatch: 'contains', descriptionPattern: 'carrefour' }),
+    ];
+
+    expect(categorizeTransactions([groceries, salary], rules)).toEqual([
+      { ruleId: 2, categoryId: 20 },
+      null,
+    ]);
+  });
+});
+
+describe('previewRules', () => {
+  it('should count matches and the transactions each rule would categorize', () => {
+    const rules = [
+      rule(1, { priority: 20, sign: 'debit' }),
+      rule(2, { priority: 10, descriptionMatch: 'contains', descriptionPattern: 'carrefour' }),
+      rule(3, { priority: 30, sign: 'credit' }),
+    ];
+    const transactions = [groceries, { ...groceries, description: 'PRLV EDF' }, salary];
+
+    expect(previewRules(transactions, rules)).toEqual([
+      { ruleId: 2, matchCount: 1, appliedCount: 1 },
+      { ruleId: 1, matchCount: 2, appliedCount: 1 },
+      { ruleId: 3, matchCount: 1, appliedCount: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Categorization Rule Functions
+ *
+ * Pure functions matching transactions against user-defined rules, so that
+ * recurring lines (groceries, rent, salary...) are categorized on import
+ */
+
+import { normalizeDescription } from './duplicates';
+
+export type DescriptionMatch = 'contains' | 'starts-with' | 'regex';
+export type AmountSign = 'debit' | 'credit';
+
+/**
+ * Conditions of a rule, all of which must hold; null means any value
+ */
+export interface RuleConditions {
+  descriptionMatch: DescriptionMatch | null;
+  descriptionPattern: string | null;
+  minAmount: number | null; // Compared with the absolute amount
+  maxAmount: number | null;
+  sign: AmountSign | null;
+  accountId: number | null;
+  weekdays: number[]; // 0 = Sunday ... 6 = Saturday, empty for any day
+}
+
+export interface CategoryRule extends RuleConditions {
+  id: number;
+  name: string;
+  categoryId: number;
+  priority: number; // Lower runs first
+  enabled: boolean;
+}
+
+export interface RuleSubject {
+  date: Date;
+  description: string;
+  amount: number;
+  accountId?: number | null;
+}
+
+export interface RuleAssignment {
+  ruleId: number;
+  categoryId: number;
+}
+
+export interface RulePreview {
+  ruleId: number;
+  matchCount: number; // Transactions matching the rule
+  appliedCount: number; // Of which not already taken by a rule with a higher priority
+}
+
+/**
+ * Checks that a pattern compiles as a regular expression
+ */
+export function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks that the conditions of a rule are consistent
+ * @returns Error message for the user, or null when valid
+ */
+export function validateRuleConditions(conditions: RuleConditions): string | null {
+  const pattern = conditions.descriptionPattern?.trim() ?? '';
+  if (conditions.descriptionMatch && pattern === '') {
+    return 'Indiquez le texte à rechercher dans le libellé';
+  }
+  if (conditions.descriptionMatch === 'regex' && !isValidRegex(pattern)) {
+    return 'Expression régulière invalide';
+  }
+  if (
+    conditions.minAmount !== null &&
+    conditions.maxAmount !== null &&
+    conditions.minAmount > conditions.maxAmount
+  ) {
+    return 'Le montant minimum dépasse le montant maximum';
+  }
+
+  const hasCondition =
+    conditions.descriptionMatch !== null ||
+    conditions.minAmount !== null ||
+    conditions.maxAmount !== null ||
+    conditions.sign !== null ||
+    conditions.accountId !== null ||
+    conditions.weekdays.length > 0;
+  return hasCondition ? null : 'Une règle doit avoir au moins une condition';
+}
+
+/**
+ * Builds the test of a rule, compiling its pattern once
+ * Contains and starts-with ignore case, accents and punctuation; regular
+ * expressions run on the raw description, ignoring case.
+ * An invalid regular expression matches nothing.
+ */
+export function createRuleMatcher(rule: RuleConditions): (transaction: RuleSubject) => boolean {
+  let matchDescription: (description: string) => boolean = () => true;
+  const pattern = rule.descriptionPattern ?? '';
+  if (rule.descriptionMatch === 'regex') {
+    const regex = isValidRegex(pattern) ? new RegExp(pattern, 'i') : null;
+    matchDescription = description => regex !== null && regex.test(description);
+  } else if (rule.descriptionMatch) {
+    const normalized = normalizeDescription(pattern);
+    matchDescription =
+      rule.descriptionMatch === 'contains'
+        ? description => normalizeDescription(description).includes(normalized)
+        : description => normalizeDescription(description).startsWith(normalized);
+  }
+
+  return transaction => {
+    const amount = Math.abs(transaction.amount);
+    return (
+      (rule.sign === null ||
+        (rule.sign === 'debit' ? transaction.amount < 0 : transaction.amount > 0)) &&
+      (rule.minAmount === null || amount >= rule.minAmount) &&
+      (rule.maxAmount === null || amount <= rule.maxAmount) &&
+      (rule.accountId === null || transaction.accountId === rule.accountId) &&
+      (rule.weekdays.length === 0 ||
+        rule.weekdays.includes(new Date(transaction.date).getUTCDay())) &&
+      matchDescription(transaction.description)
+    );
+  };
+}
+
+/**
+ * Enabled rules in the order they are tried: by priority, then by creation
+ */
+export function sortRules<T extends CategoryRule>(rules: T[]): T[] {
+  return rules.filter(rule => rule.enabled).sort((a, b) => a.priority - b.priority || a.id - b.id);
+}
+
+/**
+ * Finds the category of each transaction: the one of the first matching rule
+ *
+ * @param transactions - Transactions to categorize
+ * @param rules - All rules, disabled ones are skipped
+ * @returns Assignment for each transaction, null when no rule matches
+ */
+export function categorizeTransactions(
+  transactions: RuleSubject[],
+  rules: CategoryRule[]
+): (RuleAssignment | null)[] {
+  const matchers = sortRules(rules).map(rule => ({ rule, matches: createRuleMatcher(rule) }));
+
+  return transactions.map(transaction => {
+    const match = matchers.find(({ matches }) => matches(transaction));
+    return match ? { ruleId: match.rule.id, categoryId: match.rule.categoryId } : null;
+  });
+}
+
+/**
+ * Counts the transactions each rule would categorize, without changing anything
+ *
+ * @param transactions - Transactions the rules would be applied to
+ * @param rules - All rules, in any order
+ * @returns Counts for each enabled rule, in the order rules are tried
+ */
+export function previewRules(transactions: RuleSubject[], rules: CategoryRule[]): RulePreview[] {
+  const sorted = sortRules(rules);
+  const matchers = sorted.map(rule => createRuleMatcher(rule));
+  const previews = sorted.map(rule => ({ ruleId: rule.id, matchCount: 0, appliedCount: 0 }));
+
+  transactions.forEach(transaction => {
+    let applied = false;
+    matchers.forEach((matches, index) => {
+      if (matches(transaction)) {
+        previews[index].matchCount++;
+        if (!applied) {
+          previews[index].appliedCount++;
+          applied = true;
+        }
+      }
+    });
+  });
+
+  return previews;
+}
@@ -0,0 +1,129 @@
+/**
+ * Tests for Category Tree Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildCategoryTree,
+  createCategoryRollUp,
+  flattenCategoryTree,
+  formatCategoryPath,
+  getAncestorIds,
+  getDescendantIds,
+  rollUpTransactions,
+  wouldCreateCycle,
+} from './category-tree';
+import { Category } from './types';
+
+const categories: Category[] = [
+  { id: 1, name: 'Alimentation', parentId: null },
+  { id: 2, name: 'Restaurants', parentId: 1 },
+  { id: 3, name: 'Courses', parentId: 1 },
+  { id: 4, name: 'Bio', parentId: 3 },
+  { id: 5, name: 'Transport' },
+];
+
+describe('getAncestorIds', () => {
+  it('should list ancestors from the parent up', () => {
+    expect(getAncestorIds(categories, 4)).toEqual([3, 1]);
+    expect(getAncestorIds(categories, 5)).toEqual([]);
+  });
+
+  it('should stop on cycles and ignore missing parents', () => {
+    const broken: Category[] = [
+      { id: 1, name: 'A', parentId: 2 },
+      { id: 2, name: 'B', parentId: 1 },
+      { id: 3, name: 'C', parentId: 99 },
+    ];
+
+    expect(getAncestorIds(broken, 1)).toEqual([2]);
+    expect(getAncestorIds(broken, 3)).toEqual([]);
+  });
+});
+
+describe('getDescendantIds', () => {
+  it('should list children and their children', () => {
+    expect(getDescendantIds(categories, 1)).toEqual([2, 3, 4]);
+    expect(getDescendantIds(categories, 4)).toEqual([]);
+  });
+});
+
+describe('wouldCreateCycle', () => {
+  it('should reject moving a category under itself or a descendant', () => {
+    expect(wouldCreateCycle(categories, 1, 1)).toBe(true);
+    expect(wouldCreateCycle(categories, 1, 4)).toBe(true);
+    expect(wouldCreateCycle(categories, 4, 5)).toBe(false);
+  });
+});
+
+describe('formatCategoryPath', () => {
+  it('should join the names from the top level', () => {
+    expect(formatCategoryPath(categories, 4)).toBe('Alimentation > Courses > Bio');
+    expect(formatCategoryPath(categories, 5, ' / ')).toBe('Transport');
+  });
+});
+
+describe('buildCategoryTree', () => {
+  it('should nest children sorted by name', () => {
+    const tree = buildCategoryTree(categories);
+
+    expect(tree.map(node => node.category.name)).toEqual(['Alimentation', 'Transport']);
+    expect(tree[0].children.map(node => node.category.name)).toEqual(['Courses', 'Restaurants']);
+    expect(tree[0].children[0].children[0]).toMatchObject({ depth: 2, category: { name: 'Bio' } });
+  });
+
+  it('should list the tree depth first', () => {
+    const names = flattenCategoryTree(buildCategoryTree(categories)).map(
+      node => node.category.name
+    );
+
+    expect(names).toEqual(['Alimentation', 'Courses', 'Bio', 'Restaurants', 'Transport']);
+  });
+
+  it('should keep categories caught in a cycle', () => {
+    const tree = buildCategoryTree([
+      { id: 1, name: 'A', parentId: 2 },
+      { id: 2, name: 'B', parentId: 1 },
+    ]);
+
+    expect(flattenCategoryTree(tree)).toHaveLength(2);
+  });
+});
+
+describe('createCategoryRollUp', () => {
+  it('should map categories to their ancestor at the depth', () => {
+    const toTopLevel = createCategoryRollUp(categories, 0);
+    const toSecondLevel = createCategoryRollUp(categories, 1);
+
+    expect(toTopLevel(4)).toBe(1);
+    expect(toTopLevel(5)).toBe(5);
+    expect(toSecondLevel(4)).toBe(3);
+    expect(toSecondLevel(2)).toBe(2);
+    expect(toSecondLevel(1)).toBe(1);
+  });
+
+  it('should keep uncategorized and unknown categories', () => {
+    const rollUp = createCategoryRollUp(categories, 0);
+
+    expect(rollUp(null)).toBeNull();
+    expect(rollUp(42)).toBe(42);
+  });
+});
+
+describe('rollUpTransactions', () => {
+  it('should move transactions to the ancestor category', () => {
+    const rolled = rollUpTransactions(
+      [
+        { id: 1, categoryId: 4 },
+        { id: 2, categoryId: null },
+      ],
+      categories,
+      0
+    );
+
+    expect(rolled).toEqual([
+      { id: 1, categoryId: 1 },
+      { id: 2, categoryId: null },
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Category Tree Functions
+ *
+ * Pure functions for parent/child categories (e.g. Alimentation > Courses),
+ * to group spending at any depth of the hierarchy
+ */
+
+import { Category } from './types';
+
+export interface CategoryTreeNode<T extends Category = Category> {
+  category: T;
+  depth: number; // 0 for a top-level category
+  children: CategoryTreeNode<T>[];
+}
+
+/**
+ * Parent of each category, ignoring parents that do not exist
+ */
+function getParents(categories: Category[]): Map<number, number | null> {
+  const ids = new Set(categories.map(category => category.id));
+  return new Map(
+    categories.map(category => [
+      category.id,
+      category.parentId != null && ids.has(category.parentId) ? category.parentId : null,
+    ])
+  );
+}
+
+/**
+ * IDs of the ancestors of a category, from its parent up to the top level
+ * Stops on a cycle, which the API prevents but stored data could contain.
+ */
+export function getAncestorIds(categories: Category[], categoryId: number): number[] {
+  const parents = getParents(categories);
+  const ancestors: number[] = [];
+  let parentId = parents.get(categoryId) ?? null;
+
+  while (parentId !== null && parentId !== categoryId && !ancestors.includes(parentId)) {
+    ancestors.push(parentId);
+    parentId = parents.get(parentId) ?? null;
+  }
+  return ancestors;
+}
+
+/**
+ * IDs of the children of a category, their children, and so on
+ */
+export function getDescendantIds(categories: Category[], categoryId: number): number[] {
+  const parents = getParents(categories);
+  const descendants: number[] = [];
+  const pending = [categoryId];
+
+  while (pending.length > 0) {
+    const parentId = pending.shift();
+    categories
+      .filter(category => parents.get(category.id) === parentId)
+      .forEach(category => {
+        if (category.id !== categoryId && !descendants.includes(category.id)) {
+          descendants.push(category.id);
+          pending.push(category.id);
+        }
+      });
+  }
+  return descendants;
+}
+
+/**
+ * Checks whether moving a category under a parent would make it its own ancestor
+ */
+export function wouldCreateCycle(
+  categories: Category[],
+  categoryId: number,
+  parentId: number
+): boolean {
+  return parentId === categoryId || getAncestorIds(categories, parentId).includes(categoryId);
+}
+
+/**
+ * Full name of a category, e.g. "Alimentation > Courses"
+ */
+export function formatCategoryPath(
+  categories: Category[],
+  categoryId: number,
+  separator = ' > '
+): string {
+  const names = new Map(categories.map(category => [category.id, category.name]));
+  return [...getAncestorIds(categories, categoryId).reverse(), categoryId]
+    .map(id => names.get(id) ?? '')
+    .join(separator);
+}
+
+/**
+ * Builds the hierarchy, siblings sorted by name
+ * Categories caught in a cycle are shown at the top level.
+ */
+export function buildCategoryTree<T extends Category>(categories: T[]): CategoryTreeNode<T>[] {
+  const parents = getParents(categories);
+  const visited = new Set<number>();
+  const sorted = [...categories].sort((a, b) => a.name.localeCompare(b.name, 'fr'));
+
+  const buildNode = (category: T, depth: number): CategoryTreeNode<T> => {
+    visited.add(category.id);
+    return {
+      category,
+      depth,
+      children: sorted
+        .filter(child => parents.get(child.id) === category.id && !visited.has(child.id))
+        .map(child => buildNode(child, depth + 1)),
+    };
+  };
+
+  const roots = sorted
+    .filter(category => parents.get(category.id) === null)
+    .map(category => buildNode(category, 0));
+  sorted.forEach(category => {
+    if (!visited.has(category.id)) {
+      roots.push(buildNode(category, 0));
+    }
+  });
+  return roots;
+}
+
+/**
+ * Lists the nodes of a tree depth first, e.g. for indented options
+ */
+export function flattenCategoryTree<T extends Category>(
+  tree: CategoryTreeNode<T>[]
+): CategoryTreeNode<T>[] {
+  return tree.flatMap(node => [node, ...flattenCategoryTree(node.children)]);
+}
+
+/**
+ * Builds the mapping of categories to their ancestor at a depth
+ * Categories no deeper than the depth keep their own ID.
+ *
+ * @param categories - All categories
+ * @param depth - Depth to roll up to, 0 for top-level categories
+ * @returns Function giving the category to count a transaction in, null stays null
+ */
+export function createCategoryRollUp(
+  categories: Category[],
+  depth: number
+): (categoryId: number | null) => number | null {
+  const targets = new Map(
+    categories.map(category => {
+      const path = [...getAncestorIds(categories, category.id).reverse(), category.id];
+      return [category.id, path[Math.min(Math.max(depth, 0), path.length - 1)]];
+    })
+  );
+  return categoryId => (categoryId === null ? null : targets.get(categoryId) ?? categoryId);
+}
+
+/**
+ * Moves transactions to the ancestor of their category at a depth
+ */
+export function rollUpTransactions<T extends { categoryId: number | null }>(
+  transactions: T[],
+  categories: Category[],
+  depth: number
+): T[] {
+  const rollUp = createCategoryRollUp(categories, depth);
+  return transactions.map(transaction => ({
+    ...transaction,
+    categoryId: rollUp(transaction.categoryId),
+  }));
+}
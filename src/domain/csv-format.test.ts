@@ -0,0 +1,110 @@
+/**
+ * Tests for CSV Format Detection Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isValidUTF8,
+  detectEncoding,
+  decodeBytes,
+  detectDelimiter,
+  detectQuoteChar,
+  detectCSVFormat,
+} from './csv-format';
+
+const utf8 = (text: string) => new TextEncoder().encode(text);
+const latin1 = (text: string) => Uint8Array.from(text, char => char.charCodeAt(0));
+
+describe('isValidUTF8', () => {
+  it('should accept UTF-8 text', () => {
+    expect(isValidUTF8(utf8('PRLV SEPA ÉLECTRICITÉ'))).toBe(true);
+  });
+
+  it('should reject Latin-1 accented bytes', () => {
+    expect(isValidUTF8(latin1('PRLV SEPA ÉLECTRICITÉ'))).toBe(false);
+  });
+
+  it('should accept a sequence cut at the end of a sample', () => {
+    const bytes = utf8('Café');
+    expect(isValidUTF8(bytes.slice(0, bytes.length - 1))).toBe(true);
+  });
+});
+
+describe('detectEncoding', () => {
+  it('should use byte order marks', () => {
+    expect(detectEncoding(Uint8Array.of(0xef, 0xbb, 0xbf, 0x41))).toBe('utf-8');
+    expect(detectEncoding(Uint8Array.of(0xff, 0xfe, 0x41, 0x00))).toBe('utf-16le');
+    expect(detectEncoding(Uint8Array.of(0xfe, 0xff, 0x00, 0x41))).toBe('utf-16be');
+  });
+
+  it('should detect UTF-8 without BOM', () => {
+    expect(detectEncoding(utf8('Date;Libellé;Montant'))).toBe('utf-8');
+  });
+
+  it('should fall back to Windows-1252', () => {
+    expect(detectEncoding(latin1('Date;Libellé;Montant'))).toBe('windows-1252');
+  });
+});
+
+describe('decodeBytes', () => {
+  it('should decode Windows-1252 without mojibake', () => {
+    expect(decodeBytes(Uint8Array.of(0xc9, 0x80), 'windows-1252')).toBe('É€');
+  });
+
+  it('should drop the UTF-8 BOM', () => {
+    expect(decodeBytes(Uint8Array.of(0xef, 0xbb, 0xbf, 0x41), 'utf-8')).toBe('A');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('should detect semicolons', () => {
+    expect(detectDelimiter('Date;Libellé;Montant\n12/03/2025;CB, CARREFOUR;-12,50\n')).toBe(';');
+  });
+
+  it('should detect commas and tabs', () => {
+    expect(detectDelimiter('Date,Description,Amount\n2025-03-12,Coffee,-2.5\n')).toBe(',');
+    expect(detectDelimiter('Date\tDescription\tAmount\n2025-03-12\tCoffee\t-2.5\n')).toBe('\t');
+  });
+
+  it('should ignore delimiters inside quoted fields', () => {
+    const text = 'Date,Description,Amount\n"12/03/2025","A; B; C","-1"\n"13/03/2025","D; E; F","-2"\n';
+    expect(detectDelimiter(text)).toBe(',');
+  });
+
+  it('should not be misled by a preamble', () => {
+    const text = [
+      'Téléchargement du 15/03/2025',
+      'Compte courant, n° 123',
+      'Date;Libellé;Débit;Crédit',
+      '12/03/2025;CB CARREFOUR;12,50;',
+      '13/03/2025;VIR SALAIRE;;2000,00',
+    ].join('\n');
+    expect(detectDelimiter(text)).toBe(';');
+  });
+});
+
+describe('detectQuoteChar', () => {
+  it('should default to double quotes', () => {
+    expect(detectQuoteChar('a;b\n1;2\n', ';')).toBe('"');
+  });
+
+  it('should detect single quotes', () => {
+    expect(detectQuoteChar("'Date';'Libellé'\n'12/03/2025';'CB'\n", ';')).toBe("'");
+  });
+});
+
+describe('detectCSVFormat', () => {
+  it('should detect and decode a French bank export', () => {
+    const result = detectCSVFormat(latin1('Date;Libellé;Montant\n12/03/2025;PRLV SEPA ÉLECTRICITÉ;-45,30\n'));
+
+    expect(result.format).toEqual({ encoding: 'windows-1252', delimiter: ';', quoteChar: '"' });
+    expect(result.text).toContain('ÉLECTRICITÉ');
+  });
+
+  it('should apply overrides', () => {
+    const result = detectCSVFormat(utf8('a;b,c\n'), { encoding: 'windows-1252', delimiter: ',' });
+
+    expect(result.format.encoding).toBe('windows-1252');
+    expect(result.format.delimiter).toBe(',');
+  });
+});
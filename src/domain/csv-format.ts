@@ -0,0 +1,202 @@
+/**
+ * CSV Format Detection
+ *
+ * Pure functions detecting the character encoding, delimiter and quote
+ * character of a CSV file, so that Windows-1252 exports with semicolons
+ * are read without mojibake
+ */
+
+export type CSVEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export type CSVDelimiter = ';' | ',' | '\t' | '|';
+
+export type CSVQuoteChar = '"' | "'";
+
+export interface CSVFormat {
+  encoding: CSVEncoding;
+  delimiter: CSVDelimiter;
+  quoteChar: CSVQuoteChar;
+}
+
+export interface DecodedCSV {
+  format: CSVFormat;
+  text: string;
+}
+
+export const CSV_ENCODINGS: CSVEncoding[] = ['utf-8', 'windows-1252', 'utf-16le', 'utf-16be'];
+export const CSV_DELIMITERS: CSVDelimiter[] = [';', ',', '\t', '|'];
+export const CSV_QUOTE_CHARS: CSVQuoteChar[] = ['"', "'"];
+
+// Lines inspected to detect the delimiter and quote character
+const SAMPLE_LINES = 30;
+
+/**
+ * Checks whether bytes are valid UTF-8
+ * A multi-byte sequence cut at the very end is accepted, so that the first
+ * bytes of a large file can be checked on their own
+ */
+export function isValidUTF8(bytes: Uint8Array): boolean {
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    let length: number;
+    if (byte < 0x80) {
+      length = 1;
+    } else if (byte >= 0xc2 && byte <= 0xdf) {
+      length = 2;
+    } else if (byte >= 0xe0 && byte <= 0xef) {
+      length = 3;
+    } else if (byte >= 0xf0 && byte <= 0xf4) {
+      length = 4;
+    } else {
+      return false;
+    }
+
+    for (let j = 1; j < length; j++) {
+      if (i + j >= bytes.length) {
+        return true; // Truncated sample
+      }
+      if ((bytes[i + j] & 0xc0) !== 0x80) {
+        return false;
+      }
+    }
+    i += length;
+  }
+  return true;
+}
+
+/**
+ * Detects the encoding of a file from its first bytes
+ * BOM first, then UTF-8 validity. Anything else is read as Windows-1252,
+ * the superset of ISO-8859-1 used by French bank exports.
+ */
+export function detectEncoding(bytes: Uint8Array): CSVEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return 'utf-8';
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return 'utf-16be';
+  }
+  return isValidUTF8(bytes) ? 'utf-8' : 'windows-1252';
+}
+
+// Windows-1252 characters of bytes 0x80-0x9F (undefined bytes kept as is)
+const WINDOWS_1252_HIGH =
+  '\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f' +
+  '\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178';
+
+/**
+ * Decodes bytes, dropping the byte order mark
+ * Windows-1252 is mapped by hand: some runtimes decode it as plain ISO-8859-1
+ */
+export function decodeBytes(bytes: Uint8Array, encoding: CSVEncoding): string {
+  if (encoding !== 'windows-1252') {
+    return new TextDecoder(encoding).decode(bytes);
+  }
+
+  let text = '';
+  for (const byte of bytes) {
+    text +=
+      byte >= 0x80 && byte <= 0x9f
+        ? WINDOWS_1252_HIGH[byte - 0x80]
+        : String.fromCharCode(byte);
+  }
+  return text;
+}
+
+/**
+ * Counts delimiter occurrences outside quoted fields
+ */
+function countOutsideQuotes(line: string, delimiter: string, quoteChar: string): number {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === quoteChar) {
+      quoted = !quoted;
+    } else if (char === delimiter && !quoted) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Returns the first non-empty lines of a text
+ */
+function sampleLines(text: string): string[] {
+  return text
+    .split(/\r\n|\n|\r/)
+    .filter(line => line.trim() !== '')
+    .slice(0, SAMPLE_LINES);
+}
+
+/**
+ * Detects the quote character: the one opening fields most often
+ */
+export function detectQuoteChar(text: string, delimiter: CSVDelimiter): CSVQuoteChar {
+  const lines = sampleLines(text);
+  const opening = (quoteChar: string) =>
+    lines.reduce(
+      (total, line) =>
+        total + line.split(delimiter).filter(field => field.trim().startsWith(quoteChar)).length,
+      0
+    );
+
+  return opening("'") > opening('"') ? "'" : '"';
+}
+
+/**
+ * Detects the delimiter of a CSV text
+ * The delimiter is the candidate splitting the most lines into the same
+ * number of fields; preamble lines with a different count weigh less.
+ */
+export function detectDelimiter(text: string, quoteChar: CSVQuoteChar = '"'): CSVDelimiter {
+  const lines = sampleLines(text);
+  let best: { delimiter: CSVDelimiter; score: number } = { delimiter: ',', score: 0 };
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = lines
+      .map(line => countOutsideQuotes(line, delimiter, quoteChar))
+      .filter(count => count > 0);
+    if (counts.length === 0) {
+      continue;
+    }
+
+    // Most frequent field count, and how many lines share it
+    const frequencies = new Map<number, number>();
+    counts.forEach(count => frequencies.set(count, (frequencies.get(count) ?? 0) + 1));
+    const [modeCount, modeLines] = [...frequencies.entries()].sort(
+      (a, b) => b[1] - a[1] || b[0] - a[0]
+    )[0];
+
+    const score = modeLines * 1000 + modeCount;
+    if (score > best.score) {
+      best = { delimiter, score };
+    }
+  }
+
+  return best.delimiter;
+}
+
+/**
+ * Detects the format of a CSV file and decodes it
+ * Overridden settings are used as is and the others are detected with them
+ *
+ * @param bytes - File content, or its first bytes for large files
+ * @param overrides - Settings chosen by the user or stored in an import profile
+ * @returns Format and decoded text
+ */
+export function detectCSVFormat(
+  bytes: Uint8Array,
+  overrides: Partial<CSVFormat> = {}
+): DecodedCSV {
+  const encoding = overrides.encoding ?? detectEncoding(bytes);
+  const text = decodeBytes(bytes, encoding);
+  const delimiter = overrides.delimiter ?? detectDelimiter(text, overrides.quoteChar);
+  const quoteChar = overrides.quoteChar ?? detectQuoteChar(text, delimiter);
+
+  return { format: { encoding, delimiter, quoteChar }, text };
+}
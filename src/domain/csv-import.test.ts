@@ -4,6 +4,7 @@ import {
   mapColumnsToTransaction,
   validateTransactionRow,
   parseCSVToTransactions,
+  resolveMappingDateFormat,
   ColumnMapping,
 } from './csv-import';
 
@@ -33,6 +34,24 @@ describe('CSV Import Logic', () => {
 
   describe('mapColumnsToTransaction', () => {
     describe('happy path', () => {
+      it('should map the optional balance column', () => {
+        const row = ['2025-01-15', 'Groceries', '-45.50', '954.50'];
+        const mapping: ColumnMapping = {
+          dateColumn: 0,
+          descriptionColumn: 1,
+          amountColumn: 2,
+          balanceColumn: 3,
+        };
+
+        expect(mapColumnsToTransaction(row, mapping)?.balance).toBe('954.50');
+        expect(mapColumnsToTransaction(row.slice(0, 3), mapping)).toEqual({
+          date: '2025-01-15',
+          description: 'Groceries',
+          amount: '-45.50',
+          balance: '',
+        });
+      });
+
       it('should map columns to transaction fields correctly', () => {
         const row = ['2025-01-15', 'Groceries', '45.50'];
         const mapping: ColumnMapping = {
@@ -85,6 +104,40 @@ describe('CSV Import Logic', () => {
       });
     });
 
+    describe('split debit/credit mapping', () => {
+      it('should map debit and credit columns', () => {
+        const row = ['15/01/2025', 'CB LIDL', '12,50', ''];
+        const mapping: ColumnMapping = {
+          dateColumn: 0,
+          descriptionColumn: 1,
+          debitColumn: 2,
+          creditColumn: 3,
+        };
+
+        const result = mapColumnsToTransaction(row, mapping);
+
+        expect(result).toEqual({
+          date: '15/01/2025',
+          description: 'CB LIDL',
+          amount: '',
+          debit: '12,50',
+          credit: '',
+        });
+      });
+
+      it('should return null if credit column is out of bounds', () => {
+        const row = ['15/01/2025', 'CB LIDL', '12,50'];
+        const mapping: ColumnMapping = {
+          dateColumn: 0,
+          descriptionColumn: 1,
+          debitColumn: 2,
+          creditColumn: 3,
+        };
+
+        expect(mapColumnsToTransaction(row, mapping)).toBeNull();
+      });
+    });
+
     describe('edge cases', () => {
       it('should return null if row is too short', () => {
         const row = ['2025-01-15'];
@@ -187,9 +240,9 @@ describe('CSV Import Logic', () => {
 
         expect(result.success).toBe(true);
         if (result.success) {
-          expect(result.data.date.getDate()).toBe(15);
-          expect(result.data.date.getMonth()).toBe(0); // January
-          expect(result.data.date.getFullYear()).toBe(2025);
+          expect(result.data.date.getUTCDate()).toBe(15);
+          expect(result.data.date.getUTCMonth()).toBe(0); // January
+          expect(result.data.date.getUTCFullYear()).toBe(2025);
         }
       });
 
@@ -281,6 +334,124 @@ describe('CSV Import Logic', () => {
     });
   });
 
+  describe('validateTransactionRow with parse options', () => {
+    it('should parse comma decimals with thousands separators', () => {
+      const mapped = { date: '15/01/2025', description: 'Loyer', amount: '-1 234,56' };
+
+      const result = validateTransactionRow(mapped, { decimalSeparator: ',' });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.amount).toBe(-1234.56);
+      }
+    });
+
+    it('should invert amounts with inverted sign convention', () => {
+      const mapped = { date: '2025-01-15', description: 'CB', amount: '45.50' };
+
+      const result = validateTransactionRow(mapped, { signConvention: 'inverted' });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.amount).toBe(-45.5);
+      }
+    });
+
+    it('should reject ISO dates when DD/MM/YYYY is required', () => {
+      const mapped = { date: '2025-01-15', description: 'Test', amount: '10' };
+
+      const result = validateTransactionRow(mapped, { dateFormat: 'DD/MM/YYYY' });
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should use debit and credit columns when present', () => {
+      const debit = validateTransactionRow(
+        { date: '2025-01-15', description: 'CB', amount: '', debit: '12.5', credit: '' }
+      );
+      const credit = validateTransactionRow(
+        { date: '2025-01-15', description: 'VIR', amount: '', debit: '', credit: '100' }
+      );
+      const none = validateTransactionRow(
+        { date: '2025-01-15', description: 'X', amount: '', debit: '', credit: '' }
+      );
+
+      expect(debit.success && debit.data.amount).toBe(-12.5);
+      expect(credit.success && credit.data.amount).toBe(100);
+      expect(none.success).toBe(false);
+    });
+    it('should parse the stated balance without applying the sign convention', () => {
+      const mapped = { date: '2025-01-15', description: 'CB', amount: '45,50', balance: '1 204,50' };
+
+      const result = validateTransactionRow(mapped, { signConvention: 'inverted' });
+
+      expect(result.success && result.data.balance).toBe(1204.5);
+    });
+
+    it('should drop an unreadable balance instead of rejecting the row', () => {
+      const mapped = { date: '2025-01-15', description: 'CB', amount: '-10', balance: 'n/a' };
+
+      const result = validateTransactionRow(mapped);
+
+      expect(result.success).toBe(true);
+      expect(result.success && result.data.balance).toBeUndefined();
+    });
+  });
+
+  describe('validateTransactionRow with locale-aware amounts', () => {
+    it('should parse French formatted amounts', () => {
+      const result = validateTransactionRow({
+        date: '2025-01-15',
+        description: 'Loyer',
+        amount: '1.234,56 €',
+      });
+
+      expect(result.success && result.data.amount).toBe(1234.56);
+    });
+
+    it('should no longer truncate comma decimals', () => {
+      const result = validateTransactionRow({ date: '2025-01-15', description: 'X', amount: '12,5' });
+
+      expect(result.success && result.data.amount).toBe(12.5);
+    });
+
+    it('should reject ambiguous amounts with a precise reason', () => {
+      const result = validateTransactionRow({ date: '2025-01-15', description: 'X', amount: '1.234' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('Ambiguous amount');
+      }
+    });
+
+    it('should accept a zero in the unused debit/credit column', () => {
+      const result = validateTransactionRow({
+        date: '2025-01-15',
+        description: 'CB',
+        amount: '',
+        debit: '12,50',
+        credit: '0,00',
+      });
+
+      expect(result.success && result.data.amount).toBe(-12.5);
+    });
+
+    it('should reject rows with both debit and credit filled', () => {
+      const result = validateTransactionRow({
+        date: '2025-01-15',
+        description: 'CB',
+        amount: '',
+        debit: '12,50',
+        credit: '3,00',
+      });
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toContain('both debit and credit');
+      }
+    });
+  });
+
   describe('parseCSVToTransactions', () => {
     describe('happy path', () => {
       it('should parse complete CSV data', () => {
@@ -376,6 +547,58 @@ describe('CSV Import Logic', () => {
         expect(result.invalid[0].rowIndex).toBe(0);
         expect(result.invalid[1].rowIndex).toBe(1);
       });
+
+      it('should offset row numbers of a chunk', () => {
+        const rows = [['2025-01-15', 'Valid', '45.50'], ['invalid-date', 'Test', '45.50']];
+        const mapping: ColumnMapping = {
+          dateColumn: 0,
+          descriptionColumn: 1,
+          amountColumn: 2,
+        };
+
+        const result = parseCSVToTransactions(rows, mapping, 500);
+
+        expect(result.invalid[0].rowIndex).toBe(501);
+      });
+    });
+
+    describe('resolveMappingDateFormat', () => {
+      const mapping: ColumnMapping = { dateColumn: 0, descriptionColumn: 1, amountColumn: 2 };
+
+      it('should record the format inferred from the whole column', () => {
+        const rows = [
+          ['03/04/2025', 'A', '1'],
+          ['25/04/2025', 'B', '2'],
+        ];
+
+        const result = resolveMappingDateFormat(rows, mapping);
+
+        expect(result.mapping.dateFormat).toBe('DD/MM/YYYY');
+        const parsed = parseCSVToTransactions(rows, result.mapping);
+        expect(parsed.valid[0].date.toISOString()).toBe('2025-04-03T00:00:00.000Z');
+      });
+
+      it('should leave the format unset when the column is ambiguous', () => {
+        const rows = [
+          ['03/04/2025', 'A', '1'],
+          ['05/04/2025', 'B', '2'],
+        ];
+
+        const result = resolveMappingDateFormat(rows, mapping);
+
+        expect(result.mapping.dateFormat).toBeUndefined();
+        expect(result.inference?.ambiguous).toBe(true);
+        expect(result.inference?.candidates).toEqual(['DD/MM/YYYY', 'MM/DD/YYYY']);
+      });
+
+      it('should keep an explicit format', () => {
+        const rows = [['03/04/2025', 'A', '1']];
+
+        const result = resolveMappingDateFormat(rows, { ...mapping, dateFormat: 'MM/DD/YYYY' });
+
+        expect(result.mapping.dateFormat).toBe('MM/DD/YYYY');
+        expect(result.inference).toBeNull();
+      });
     });
   });
 });
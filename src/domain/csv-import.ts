@@ -4,29 +4,74 @@
  * Pure functions for parsing CSV files and mapping columns to transactions.
  */
 
-export interface ColumnMapping {
+import { AmountParseResult, parseAmount } from './amount-parser';
+import { DateFormat, DateFormatInference, inferDateFormat, parseDate } from './date-parser';
+
+export type { DateFormat } from './date-parser';
+
+export type DecimalSeparator = '.' | ',';
+
+/**
+ * How amounts are signed in the file
+ * - signed: negative amounts are expenses
+ * - inverted: positive amounts are expenses (some card statements)
+ */
+export type SignConvention = 'signed' | 'inverted';
+
+export interface ParseOptions {
+  dateFormat?: DateFormat;
+  decimalSeparator?: DecimalSeparator;
+  signConvention?: SignConvention;
+}
+
+/**
+ * Mapping with a single signed amount column
+ */
+export interface SingleAmountColumnMapping extends ParseOptions {
   dateColumn: number;
   descriptionColumn: number;
   amountColumn: number;
+  balanceColumn?: number; // Balance stated by the bank after each row ("Solde")
+}
+
+/**
+ * Mapping with separate debit and credit columns, as most French banks export
+ */
+export interface SplitAmountColumnMapping extends ParseOptions {
+  dateColumn: number;
+  descriptionColumn: number;
+  debitColumn: number;
+  creditColumn: number;
+  balanceColumn?: number; // Balance stated by the bank after each row ("Solde")
 }
 
+export type ColumnMapping = SingleAmountColumnMapping | SplitAmountColumnMapping;
+
 export interface MappedRow {
   date: string;
   description: string;
   amount: string;
+  debit?: string;
+  credit?: string;
+  balance?: string;
 }
 
 export interface ValidatedTransaction {
   date: Date;
   description: string;
   amount: number;
+  externalId?: string; // Bank-issued identifier (e.g. OFX FITID)
+  accountNumber?: string; // Account the statement belongs to, when known
+  valueDate?: Date;
+  counterpartyName?: string;
+  counterpartyIban?: string;
+  remittanceInfo?: string;
+  balance?: number; // Stated balance after the transaction, used for reconciliation
 }
 
-export interface ValidationResult {
-  success: boolean;
-  data?: ValidatedTransaction;
-  error?: string;
-}
+export type ValidationResult =
+  | { success: true; data: ValidatedTransaction }
+  | { success: false; error: string };
 
 export interface InvalidRow {
   rowIndex: number;
@@ -46,6 +91,15 @@ export function detectColumnHeaders(firstRow: string[]): string[] {
   return firstRow.map(header => header.trim());
 }
 
+/**
+ * Checks whether a mapping uses separate debit and credit columns
+ */
+export function isSplitAmountMapping(
+  mapping: ColumnMapping
+): mapping is SplitAmountColumnMapping {
+  return 'debitColumn' in mapping && 'creditColumn' in mapping;
+}
+
 /**
  * Maps a CSV row to transaction fields based on column mapping
  * Returns null if the row cannot be mapped (e.g., too short)
@@ -54,55 +108,96 @@ export function mapColumnsToTransaction(
   row: string[],
   mapping: ColumnMapping
 ): MappedRow | null {
-  const { dateColumn, descriptionColumn, amountColumn } = mapping;
+  const { dateColumn, descriptionColumn } = mapping;
+  const amountColumns = isSplitAmountMapping(mapping)
+    ? [mapping.debitColumn, mapping.creditColumn]
+    : [mapping.amountColumn];
 
   // Check if all required columns exist in the row
-  const maxIndex = Math.max(dateColumn, descriptionColumn, amountColumn);
+  const maxIndex = Math.max(dateColumn, descriptionColumn, ...amountColumns);
   if (row.length <= maxIndex) {
     return null;
   }
 
+  // The balance is optional: a missing cell only disables reconciliation
+  const balance =
+    mapping.balanceColumn !== undefined ? { balance: row[mapping.balanceColumn] ?? '' } : {};
+
+  if (isSplitAmountMapping(mapping)) {
+    return {
+      date: row[dateColumn],
+      description: row[descriptionColumn],
+      amount: '',
+      debit: row[mapping.debitColumn],
+      credit: row[mapping.creditColumn],
+      ...balance,
+    };
+  }
+
   return {
     date: row[dateColumn],
     description: row[descriptionColumn],
-    amount: row[amountColumn],
+    amount: row[mapping.amountColumn],
+    ...balance,
   };
 }
 
 /**
- * Parses a date string supporting multiple formats
+ * Computes the signed amount of a mapped row
+ * With debit/credit columns, exactly one of them must hold a non-zero amount
  */
-function parseDate(dateString: string): Date | null {
-  const trimmed = dateString.trim();
+function resolveAmount(mapped: MappedRow, options: ParseOptions): AmountParseResult {
+  const { decimalSeparator, signConvention = 'signed' } = options;
 
-  // Try ISO format first (YYYY-MM-DD or full ISO)
-  let date = new Date(trimmed);
-  if (!isNaN(date.getTime())) {
-    return date;
-  }
+  if (mapped.debit !== undefined || mapped.credit !== undefined) {
+    const debit = (mapped.debit ?? '').trim();
+    const credit = (mapped.credit ?? '').trim();
+    const debitResult = debit === '' ? null : parseAmount(debit, decimalSeparator);
+    const creditResult = credit === '' ? null : parseAmount(credit, decimalSeparator);
 
-  // Try DD/MM/YYYY format
-  const ddmmyyyyRegex = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
-  const match = trimmed.match(ddmmyyyyRegex);
-  if (match) {
-    const day = parseInt(match[1], 10);
-    const month = parseInt(match[2], 10) - 1; // Months are 0-indexed
-    const year = parseInt(match[3], 10);
-    date = new Date(year, month, day);
-    if (!isNaN(date.getTime())) {
-      return date;
+    if (debitResult && !debitResult.success) {
+      return debitResult;
+    }
+    if (creditResult && !creditResult.success) {
+      return creditResult;
     }
+
+    // Some banks write 0,00 in the unused column
+    const debitValue = debitResult?.success ? Math.abs(debitResult.value) : 0;
+    const creditValue = creditResult?.success ? Math.abs(creditResult.value) : 0;
+
+    if (debitValue !== 0 && creditValue !== 0) {
+      return {
+        success: false,
+        error: 'Invalid amount format: both debit and credit columns are filled',
+      };
+    }
+    if (!debitResult && !creditResult) {
+      return {
+        success: false,
+        error: 'Invalid amount format: debit and credit columns are both empty',
+      };
+    }
+
+    return { success: true, value: debitValue !== 0 ? -debitValue : creditValue };
   }
 
-  return null;
+  const result = parseAmount(mapped.amount, decimalSeparator);
+  if (result.success && signConvention === 'inverted') {
+    return { success: true, value: -result.value };
+  }
+  return result;
 }
 
 /**
  * Validates and transforms a mapped row into a transaction
  */
-export function validateTransactionRow(mapped: MappedRow): ValidationResult {
+export function validateTransactionRow(
+  mapped: MappedRow,
+  options: ParseOptions = {}
+): ValidationResult {
   // Validate date
-  const date = parseDate(mapped.date);
+  const date = parseDate(mapped.date, options.dateFormat);
   if (!date) {
     return {
       success: false,
@@ -120,13 +215,17 @@ export function validateTransactionRow(mapped: MappedRow): ValidationResult {
   }
 
   // Validate amount
-  const amount = parseFloat(mapped.amount);
-  if (isNaN(amount)) {
-    return {
-      success: false,
-      error: 'Invalid amount format',
-    };
+  const amountResult = resolveAmount(mapped, options);
+  if (!amountResult.success) {
+    return amountResult;
   }
+  const amount = amountResult.value;
+
+  // An unreadable balance is dropped rather than rejecting the row
+  const balanceResult =
+    mapped.balance && mapped.balance.trim() !== ''
+      ? parseAmount(mapped.balance, options.decimalSeparator)
+      : null;
 
   return {
     success: true,
@@ -134,16 +233,19 @@ export function validateTransactionRow(mapped: MappedRow): ValidationResult {
       date,
       description,
       amount,
+      ...(balanceResult?.success && { balance: balanceResult.value }),
     },
   };
 }
 
 /**
  * Parses CSV rows into valid and invalid transactions
+ * startIndex offsets reported row indices when rows are parsed chunk by chunk
  */
 export function parseCSVToTransactions(
   rows: string[][],
-  mapping: ColumnMapping
+  mapping: ColumnMapping,
+  startIndex = 0
 ): ParseResult {
   const valid: ValidatedTransaction[] = [];
   const invalid: InvalidRow[] = [];
@@ -153,7 +255,7 @@ export function parseCSVToTransactions(
     const mapped = mapColumnsToTransaction(row, mapping);
     if (!mapped) {
       invalid.push({
-        rowIndex: index,
+        rowIndex: startIndex + index,
         row,
         error: 'Could not map columns (row too short)',
       });
@@ -161,17 +263,53 @@ export function parseCSVToTransactions(
     }
 
     // Validate the mapped row
-    const validation = validateTransactionRow(mapped);
-    if (validation.success && validation.data) {
+    const validation = validateTransactionRow(mapped, mapping);
+    if (validation.success) {
       valid.push(validation.data);
     } else {
       invalid.push({
-        rowIndex: index,
+        rowIndex: startIndex + index,
         row,
-        error: validation.error || 'Validation failed',
+        error: validation.error,
       });
     }
   });
 
   return { valid, invalid };
 }
+
+/**
+ * Infers the date format of the mapped date column over all rows
+ * Rows too short to hold the column are ignored
+ */
+export function inferMappingDateFormat(
+  rows: string[][],
+  mapping: ColumnMapping
+): DateFormatInference {
+  return inferDateFormat(
+    rows
+      .map(row => row[mapping.dateColumn])
+      .filter((value): value is string => value !== undefined)
+  );
+}
+
+/**
+ * Returns the mapping with its date format fixed from the data
+ * An explicit format is kept; 'auto' is replaced by the inferred format
+ * unless the column is ambiguous, in which case the user has to choose.
+ */
+export function resolveMappingDateFormat<T extends ColumnMapping>(
+  rows: string[][],
+  mapping: T
+): { mapping: T; inference: DateFormatInference | null } {
+  if (mapping.dateFormat && mapping.dateFormat !== 'auto') {
+    return { mapping, inference: null };
+  }
+
+  const inference = inferMappingDateFormat(rows, mapping);
+  if (!inference.format) {
+    return { mapping, inference };
+  }
+
+  return { mapping: { ...mapping, dateFormat: inference.format }, inference };
+}
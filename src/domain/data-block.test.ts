@@ -0,0 +1,103 @@
+/**
+ * Tests for Data Block Detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createFooterFilter, detectDataBlock, isTransactionRow } from './data-block';
+
+const creditAgricole = [
+  ['Téléchargement du 03/02/2025'],
+  ['M. DUPONT JEAN'],
+  ['Compte de dépôt n° 12345678901'],
+  ['Solde au 31/01/2025', '1 234,56 €'],
+  ['Liste des opérations du 01/01/2025 au 31/01/2025'],
+  ['Date', 'Libellé', 'Débit euros', 'Crédit euros', ''],
+  ['02/01/2025', 'CB CARREFOUR', '45,20', '', ''],
+  ['05/01/2025', 'VIR SALAIRE', '', '2 100,00', ''],
+  ['07/01/2025', 'PRLV EDF', '62,00', '', ''],
+  ['Total des opérations', '', '107,20', '2 100,00', ''],
+  ['Solde au 31/01/2025', '3 227,36'],
+];
+
+describe('isTransactionRow', () => {
+  it('should require a date and an amount in different cells', () => {
+    expect(isTransactionRow(['02/01/2025', 'CB', '-45,20'])).toBe(true);
+    expect(isTransactionRow(['Total', '', '107,20'])).toBe(false);
+    expect(isTransactionRow(['Date', 'Libellé', 'Montant'])).toBe(false);
+    expect(isTransactionRow(['02/01/2025', 'CB'])).toBe(false);
+  });
+});
+
+describe('detectDataBlock', () => {
+  it('should skip the preamble and the footer', () => {
+    expect(detectDataBlock(creditAgricole)).toEqual({ headerRowIndex: 5, endRowIndex: 9 });
+  });
+
+  it('should keep the first row as header for plain files', () => {
+    const rows = [
+      ['Date', 'Description', 'Amount'],
+      ['2025-01-15', 'Groceries', '-45.50'],
+      ['2025-01-16', 'Salary', '2000'],
+    ];
+
+    expect(detectDataBlock(rows)).toEqual({ headerRowIndex: 0, endRowIndex: 3 });
+  });
+
+  it('should keep rows of the same width inside the block', () => {
+    const rows = [
+      ['Date', 'Libellé', 'Montant'],
+      ['02/01/2025', 'CB', '-45,20'],
+      ['32/01/2025', 'Date invalide', '-1,00'],
+      ['03/01/2025', 'CB', '-12,00'],
+    ];
+
+    expect(detectDataBlock(rows)).toEqual({ headerRowIndex: 0, endRowIndex: 4 });
+  });
+
+  it('should only detect the end when the header is known', () => {
+    expect(detectDataBlock(creditAgricole, 5)).toEqual({ headerRowIndex: 5, endRowIndex: 9 });
+  });
+
+  it('should fall back to the first row without transactions', () => {
+    const rows = [['a', 'b'], ['c', 'd']];
+
+    expect(detectDataBlock(rows)).toEqual({ headerRowIndex: 0, endRowIndex: 2 });
+  });
+});
+
+describe('createFooterFilter', () => {
+  const stream = (rows: string[][], width: number) => {
+    const filter = createFooterFilter(width);
+    return [...rows.flatMap(row => filter.push(row)), ...filter.end()];
+  };
+
+  it('should leave out the totals and balance after the data', () => {
+    expect(stream(creditAgricole.slice(6), 5)).toEqual(creditAgricole.slice(6, 9));
+  });
+
+  it('should leave out a final balance that parses as a transaction', () => {
+    const rows = [
+      ['02/01/2025', 'CB CARREFOUR', '-45,20'],
+      ['03/01/2025', 'CB', '-12,00'],
+      ['31/01/2025', 'Solde final', '1 234,56'],
+    ];
+
+    expect(stream(rows, 3)).toEqual(rows.slice(0, 2));
+  });
+
+  it('should keep invalid rows followed by transactions', () => {
+    const rows = [
+      ['02/01/2025', 'CB', '-45,20'],
+      ['32/01/2025', 'Date invalide', '-1,00'],
+      ['03/01/2025', 'CB', '-12,00'],
+    ];
+
+    expect(stream(rows, 3)).toEqual(rows);
+  });
+
+  it('should keep everything when no row looks like a transaction', () => {
+    const rows = [['a', 'b'], ['c', 'd']];
+
+    expect(stream(rows, 2)).toEqual(rows);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Data Block Detection
+ *
+ * Pure functions locating the header row and the transaction rows of a bank
+ * export, skipping preamble lines (account holder, IBAN, period...) before
+ * the header and totals after the data
+ */
+
+import { parseAmount } from './amount-parser';
+import { parseDate } from './date-parser';
+
+/**
+ * Boundaries of the data in the rows of a file
+ * Transactions are rows.slice(headerRowIndex + 1, endRowIndex)
+ */
+export interface DataBlock {
+  headerRowIndex: number;
+  endRowIndex: number; // Exclusive, rows from here on are footer
+}
+
+/**
+ * Checks whether a cell holds a date
+ */
+function isDateLike(cell: string): boolean {
+  return cell.trim() !== '' && parseDate(cell.trim()) !== null;
+}
+
+/**
+ * Checks whether a cell holds an amount, with either decimal separator
+ */
+function isAmountLike(cell: string): boolean {
+  const value = cell.trim();
+  return (
+    /\d/.test(value) && (parseAmount(value, ',').success || parseAmount(value, '.').success)
+  );
+}
+
+/**
+ * Checks whether a row looks like a transaction: a date and an amount in
+ * two different cells
+ */
+export function isTransactionRow(row: string[]): boolean {
+  const dateIndex = row.findIndex(isDateLike);
+  return dateIndex !== -1 && row.some((cell, index) => index !== dateIndex && isAmountLike(cell));
+}
+
+/**
+ * Checks whether a row can be a header row: several cells, none of them a date
+ */
+function isHeaderLike(row: string[]): boolean {
+  const filled = row.filter(cell => cell.trim() !== '');
+  return filled.length >= 2 && !filled.some(isDateLike);
+}
+
+/**
+ * Most frequent value of a list
+ */
+function mode(values: number[]): number {
+  const frequencies = new Map<number, number>();
+  values.forEach(value => frequencies.set(value, (frequencies.get(value) ?? 0) + 1));
+  return [...frequencies.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0][0];
+}
+
+/**
+ * Locates the header row and the data rows of a file
+ * Transaction rows are rows with a date and an amount sharing the most common
+ * column count. The longest run of them is the data block: rows of the same
+ * width inside it are kept (they will show up as invalid rows), the header
+ * is the closest header-like row above it.
+ *
+ * @param rows - All rows of the file
+ * @param headerRowIndex - Known header row (e.g. from an import profile), only the end is detected
+ * @returns Detected boundaries; the first row as header when nothing looks like transactions
+ */
+export function detectDataBlock(rows: string[][], headerRowIndex?: number): DataBlock {
+  const from = headerRowIndex !== undefined ? headerRowIndex + 1 : 0;
+  const transactionRows = rows
+    .map((row, index) => ({ index, width: row.length }))
+    .filter(({ index }) => index >= from && isTransactionRow(rows[index]));
+
+  if (transactionRows.length === 0) {
+    return { headerRowIndex: headerRowIndex ?? 0, endRowIndex: rows.length };
+  }
+
+  // Runs of transaction rows, broken by rows of another width
+  const width = mode(transactionRows.map(row => row.width));
+  type Run = { start: number; end: number; count: number };
+  let best: Run | null = null;
+  let current: Run | null = null;
+  for (let index = from; index < rows.length; index++) {
+    if (rows[index].length !== width) {
+      current = null;
+      continue;
+    }
+    if (!isTransactionRow(rows[index])) {
+      continue;
+    }
+
+    const run: Run = current
+      ? { start: current.start, end: index, count: current.count + 1 }
+      : { start: index, end: index, count: 1 };
+    if (!best || run.count > best.count) {
+      best = run;
+    }
+    current = run;
+  }
+
+  // Rows of another width only: keep everything after the first transaction
+  const start = best?.start ?? transactionRows[0].index;
+  const end = (best?.end ?? transactionRows[transactionRows.length - 1].index) + 1;
+
+  if (headerRowIndex !== undefined) {
+    return { headerRowIndex, endRowIndex: end };
+  }
+
+  let header = start - 1;
+  while (header >= 0 && !isHeaderLike(rows[header])) {
+    header--;
+  }
+
+  return { headerRowIndex: header >= 0 ? header : Math.max(start - 1, 0), endRowIndex: end };
+}
+
+// Balance and total lines, e.g. "Solde final" or "Total des opérations"
+const FOOTER_LABEL = /^(solde|total des)\b/i;
+
+// Longest footer held back, more non-transaction rows in a row are data
+const MAX_FOOTER_ROWS = 20;
+
+/**
+ * Splits the rows of a file read as a stream between data and footer
+ */
+export interface FooterFilter {
+  push: (row: string[]) => string[][]; // Rows confirmed as data
+  end: () => string[][]; // Rows still held that are data after all
+}
+
+/**
+ * Leaves out the footer of a file whose end is not known yet
+ * The streamed counterpart of the end found by detectDataBlock: rows that
+ * do not look like transactions of the header width, or that are balance
+ * or total lines, are held back until a transaction row follows them. The
+ * ones still held at the end of the file are the footer. When no row looks
+ * like a transaction, nothing is left out.
+ *
+ * @param width - Column count of the header row
+ */
+export function createFooterFilter(width: number): FooterFilter {
+  let held: string[][] = [];
+  let seenTransaction = false;
+
+  return {
+    push: row => {
+      const isData =
+        row.length === width &&
+        isTransactionRow(row) &&
+        !row.some(cell => FOOTER_LABEL.test(cell.trim()));
+      held.push(row);
+      if (!isData && held.length <= MAX_FOOTER_ROWS) {
+        return [];
+      }
+      if (isData) {
+        seenTransaction = true;
+      }
+      const rows = held;
+      held = [];
+      return rows;
+    },
+    end: () => (seenTransaction ? [] : held),
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Tests for Date Parsing Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseDate, parseDateWithFormat, inferDateFormat } from './date-parser';
+
+const iso = (date: Date | null) => date?.toISOString().slice(0, 10);
+
+describe('parseDateWithFormat', () => {
+  it('should read day-first and month-first dates', () => {
+    expect(iso(parseDateWithFormat('03/04/2025', 'DD/MM/YYYY'))).toBe('2025-04-03');
+    expect(iso(parseDateWithFormat('03/04/2025', 'MM/DD/YYYY'))).toBe('2025-03-04');
+  });
+
+  it('should read dotted and dashed dates', () => {
+    expect(iso(parseDateWithFormat('15.01.2025', 'DD.MM.YYYY'))).toBe('2025-01-15');
+    expect(iso(parseDateWithFormat('15-01-25', 'DD-MM-YY'))).toBe('2025-01-15');
+  });
+
+  it('should expand two-digit years around 1970', () => {
+    expect(iso(parseDateWithFormat('15/01/69', 'DD/MM/YY'))).toBe('2069-01-15');
+    expect(iso(parseDateWithFormat('15/01/98', 'DD/MM/YY'))).toBe('1998-01-15');
+  });
+
+  it('should read French month names and abbreviations', () => {
+    expect(iso(parseDateWithFormat('3 mars 2025', 'D MMMM YYYY'))).toBe('2025-03-03');
+    expect(iso(parseDateWithFormat('1er février 2025', 'D MMMM YYYY'))).toBe('2025-02-01');
+    expect(iso(parseDateWithFormat('12-déc.-2024', 'D MMMM YYYY'))).toBe('2024-12-12');
+    expect(iso(parseDateWithFormat('7 AOÛT 25', 'D MMMM YYYY'))).toBe('2025-08-07');
+  });
+
+  it('should keep only the calendar day of ISO date-times', () => {
+    expect(iso(parseDateWithFormat('2025-01-15T23:30:00-05:00', 'YYYY-MM-DD'))).toBe('2025-01-15');
+  });
+
+  it('should return midnight UTC', () => {
+    expect(parseDateWithFormat('15/01/2025', 'DD/MM/YYYY')?.toISOString()).toBe(
+      '2025-01-15T00:00:00.000Z'
+    );
+  });
+
+  it('should reject impossible dates and unknown months', () => {
+    expect(parseDateWithFormat('31/02/2025', 'DD/MM/YYYY')).toBeNull();
+    expect(parseDateWithFormat('15/13/2025', 'DD/MM/YYYY')).toBeNull();
+    expect(parseDateWithFormat('3 brumaire 2025', 'D MMMM YYYY')).toBeNull();
+  });
+
+  it('should reject values in another format', () => {
+    expect(parseDateWithFormat('2025-01-15', 'DD/MM/YYYY')).toBeNull();
+    expect(parseDateWithFormat('15/01/2025', 'DD/MM/YY')).toBeNull();
+  });
+});
+
+describe('parseDate', () => {
+  it('should prefer the day-first reading in auto mode', () => {
+    expect(iso(parseDate('03/04/2025'))).toBe('2025-04-03');
+  });
+
+  it('should fall back to month-first when day-first is impossible', () => {
+    expect(iso(parseDate('04/25/2025'))).toBe('2025-04-25');
+  });
+
+  it('should return null for unreadable values', () => {
+    expect(parseDate('not-a-date')).toBeNull();
+    expect(parseDate('')).toBeNull();
+  });
+});
+
+describe('inferDateFormat', () => {
+  it('should reject formats contradicted by any row', () => {
+    const result = inferDateFormat(['03/04/2025', '05/04/2025', '13/04/2025']);
+
+    expect(result.candidates).toEqual(['DD/MM/YYYY']);
+    expect(result.format).toBe('DD/MM/YYYY');
+    expect(result.ambiguous).toBe(false);
+  });
+
+  it('should detect month-first columns', () => {
+    const result = inferDateFormat(['03/04/2025', '12/31/2024']);
+
+    expect(result.format).toBe('MM/DD/YYYY');
+  });
+
+  it('should flag a column that fits several readings', () => {
+    const result = inferDateFormat(['03/04/2025', '05/06/2025']);
+
+    expect(result.ambiguous).toBe(true);
+    expect(result.format).toBeNull();
+    expect(result.candidates).toEqual(['DD/MM/YYYY', 'MM/DD/YYYY']);
+  });
+
+  it('should not flag ambiguity when every reading gives the same dates', () => {
+    const result = inferDateFormat(['01/01/2025', '02/02/2025']);
+
+    expect(result.ambiguous).toBe(false);
+    expect(result.format).toBe('DD/MM/YYYY');
+  });
+
+  it('should ignore empty values', () => {
+    expect(inferDateFormat(['', '2025-01-15', '  ']).format).toBe('YYYY-MM-DD');
+  });
+
+  it('should return no format when nothing fits', () => {
+    expect(inferDateFormat(['15/01/2025', '2025-01-16'])).toEqual({
+      format: null,
+      candidates: [],
+      ambiguous: false,
+    });
+    expect(inferDateFormat([]).format).toBeNull();
+  });
+});
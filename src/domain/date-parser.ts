@@ -0,0 +1,197 @@
+/**
+ * Date Parsing Functions
+ *
+ * Pure functions for reading dates in the formats found in bank exports
+ * and inferring the format of a whole column, so that 03/04/2025 is never
+ * silently read as March 4th
+ */
+
+export type DateFormat =
+  | 'auto'
+  | 'YYYY-MM-DD'
+  | 'DD/MM/YYYY'
+  | 'MM/DD/YYYY'
+  | 'DD/MM/YY'
+  | 'MM/DD/YY'
+  | 'DD.MM.YYYY'
+  | 'DD.MM.YY'
+  | 'DD-MM-YYYY'
+  | 'DD-MM-YY'
+  | 'D MMMM YYYY';
+
+export interface DateFormatInference {
+  format: DateFormat | null; // Format to use, null if none fits or ambiguous
+  candidates: DateFormat[]; // Formats compatible with every value
+  ambiguous: boolean; // True when candidates disagree on at least one value
+}
+
+type DatePart = 'day' | 'month' | 'year';
+
+interface FormatDefinition {
+  pattern: RegExp;
+  parts: [DatePart, DatePart, DatePart];
+}
+
+/**
+ * Supported formats, by priority (French formats before US ones)
+ */
+const FORMAT_DEFINITIONS: Record<Exclude<DateFormat, 'auto'>, FormatDefinition> = {
+  'YYYY-MM-DD': { pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/, parts: ['year', 'month', 'day'] },
+  'DD/MM/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, parts: ['day', 'month', 'year'] },
+  'MM/DD/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, parts: ['month', 'day', 'year'] },
+  'DD/MM/YY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{2})$/, parts: ['day', 'month', 'year'] },
+  'MM/DD/YY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{2})$/, parts: ['month', 'day', 'year'] },
+  'DD.MM.YYYY': { pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/, parts: ['day', 'month', 'year'] },
+  'DD.MM.YY': { pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{2})$/, parts: ['day', 'month', 'year'] },
+  'DD-MM-YYYY': { pattern: /^(\d{1,2})-(\d{1,2})-(\d{4})$/, parts: ['day', 'month', 'year'] },
+  'DD-MM-YY': { pattern: /^(\d{1,2})-(\d{1,2})-(\d{2})$/, parts: ['day', 'month', 'year'] },
+  'D MMMM YYYY': {
+    pattern: /^(\d{1,2})(?:er)?[\s\-/]+([a-z\u00c0-\u017f\u0300-\u036f]+\.?)[\s\-/]+(\d{2}|\d{4})$/i,
+    parts: ['day', 'month', 'year'],
+  },
+};
+
+export const DATE_FORMATS = Object.keys(FORMAT_DEFINITIONS) as Exclude<DateFormat, 'auto'>[];
+
+/**
+ * French month names and their usual abbreviations (accents stripped)
+ */
+const FRENCH_MONTHS: Record<string, number> = {
+  janvier: 1, janv: 1, jan: 1,
+  fevrier: 2, fevr: 2, fev: 2,
+  mars: 3, mar: 3,
+  avril: 4, avr: 4,
+  mai: 5,
+  juin: 6,
+  juillet: 7, juil: 7,
+  aout: 8,
+  septembre: 9, sept: 9, sep: 9,
+  octobre: 10, oct: 10,
+  novembre: 11, nov: 11,
+  decembre: 12, dec: 12,
+};
+
+/**
+ * Convert a month name or number to a month number (1-12)
+ */
+function toMonthNumber(value: string): number {
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+
+  const name = value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\.$/, '');
+  return FRENCH_MONTHS[name] ?? NaN;
+}
+
+/**
+ * Expand a two-digit year (00-69 -> 2000s, 70-99 -> 1900s)
+ */
+function toFullYear(value: string): number {
+  const year = parseInt(value, 10);
+  if (value.length !== 2) {
+    return year;
+  }
+  return year < 70 ? 2000 + year : 1900 + year;
+}
+
+/**
+ * Parse a date with an explicit format
+ * The result is midnight UTC of the calendar day, whatever the local timezone
+ *
+ * @param value - Raw date string
+ * @param format - Expected format (not 'auto')
+ * @returns Date, or null if the value doesn't fit the format or is impossible
+ */
+export function parseDateWithFormat(
+  value: string,
+  format: Exclude<DateFormat, 'auto'>
+): Date | null {
+  const { pattern, parts } = FORMAT_DEFINITIONS[format];
+  const match = value.trim().match(pattern);
+  if (!match) {
+    return null;
+  }
+
+  const values: Record<DatePart, string> = { day: '', month: '', year: '' };
+  parts.forEach((part, index) => {
+    values[part] = match[index + 1];
+  });
+
+  const year = toFullYear(values.year);
+  const month = toMonthNumber(values.month) - 1;
+  const day = parseInt(values.day, 10);
+
+  if (isNaN(month) || month < 0 || month > 11) {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month, day));
+
+  // Reject impossible dates such as 31/02/2025
+  if (date.getUTCMonth() !== month || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Parse a date, detecting its format when 'auto'
+ * In auto mode the first matching format by priority wins, so an ambiguous
+ * value like 03/04/2025 is read the French way (3 April)
+ *
+ * @param value - Raw date string
+ * @param format - Expected format, or 'auto'
+ * @returns Date at midnight UTC, or null
+ */
+export function parseDate(value: string, format: DateFormat = 'auto'): Date | null {
+  if (format !== 'auto') {
+    return parseDateWithFormat(value, format);
+  }
+
+  for (const candidate of DATE_FORMATS) {
+    const date = parseDateWithFormat(value, candidate);
+    if (date) {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Infer the date format of a whole column
+ * A format is a candidate only if every non-empty value parses with it
+ * (so a single day > 12 rules out MM/DD). The column is ambiguous when
+ * several candidates read at least one value differently.
+ *
+ * @param values - Raw values of the date column
+ * @returns Inferred format and remaining candidates
+ */
+export function inferDateFormat(values: string[]): DateFormatInference {
+  const nonEmpty = values.map(value => value.trim()).filter(value => value !== '');
+
+  const candidates = DATE_FORMATS.filter(
+    format =>
+      nonEmpty.length > 0 && nonEmpty.every(value => parseDateWithFormat(value, format) !== null)
+  );
+
+  if (candidates.length === 0) {
+    return { format: null, candidates, ambiguous: false };
+  }
+
+  const [first, ...others] = candidates;
+  const ambiguous = others.some(format =>
+    nonEmpty.some(
+      value =>
+        parseDateWithFormat(value, format)?.getTime() !==
+        parseDateWithFormat(value, first)?.getTime()
+    )
+  );
+
+  return { format: ambiguous ? null : first, candidates, ambiguous };
+}
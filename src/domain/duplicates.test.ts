@@ -0,0 +1,169 @@
+/**
+ * Tests for Duplicate Detection Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeDescription,
+  getTransactionKey,
+  fingerprintTransactions,
+  areDescriptionsSimilar,
+  detectDuplicates,
+  FingerprintSource,
+} from './duplicates';
+
+const tx = (date: string, description: string, amount: number): FingerprintSource => ({
+  date: new Date(date),
+  description,
+  amount,
+});
+
+describe('normalizeDescription', () => {
+  it('should lowercase, strip accents and punctuation', () => {
+    expect(normalizeDescription('  PRLV SEPA Électricité-EDF  ')).toBe('prlv sepa electricite edf');
+  });
+
+  it('should collapse repeated whitespace', () => {
+    expect(normalizeDescription('CB   CARREFOUR\tCITY')).toBe('cb carrefour city');
+  });
+});
+
+describe('getTransactionKey', () => {
+  it('should combine day, normalized description and amount in cents', () => {
+    const key = getTransactionKey(tx('2025-03-12', 'CB Carrefour', -12.5));
+    expect(key).toBe('2025-03-12|cb carrefour|-1250');
+  });
+
+  it('should ignore floating point noise in amounts', () => {
+    const a = getTransactionKey(tx('2025-03-12', 'Test', 0.1 + 0.2));
+    const b = getTransactionKey(tx('2025-03-12', 'Test', 0.3));
+    expect(a).toBe(b);
+  });
+});
+
+describe('fingerprintTransactions', () => {
+  it('should give identical rows increasing occurrence indices', () => {
+    const result = fingerprintTransactions([
+      tx('2025-03-12', 'Café', -2),
+      tx('2025-03-12', 'Café', -2),
+      tx('2025-03-13', 'Café', -2),
+    ]);
+
+    expect(result[0]).toMatch(/#0$/);
+    expect(result[1]).toMatch(/#1$/);
+    expect(result[2]).toMatch(/#0$/);
+    expect(new Set(result).size).toBe(3);
+  });
+
+  it('should return empty array for no transactions', () => {
+    expect(fingerprintTransactions([])).toEqual([]);
+  });
+});
+
+describe('areDescriptionsSimilar', () => {
+  it('should match when one description contains the other', () => {
+    expect(areDescriptionsSimilar('CB CARREFOUR', 'CB CARREFOUR CITY 12/03')).toBe(true);
+  });
+
+  it('should match when most words are shared', () => {
+    expect(areDescriptionsSimilar('PRLV FREE MOBILE', 'PRLV SEPA FREE MOBILE')).toBe(true);
+  });
+
+  it('should not match unrelated descriptions', () => {
+    expect(areDescriptionsSimilar('Boulangerie', 'Pharmacie du centre')).toBe(false);
+  });
+
+  it('should not match empty descriptions', () => {
+    expect(areDescriptionsSimilar('', 'Test')).toBe(false);
+  });
+});
+
+describe('detectDuplicates', () => {
+  it('should mark rows already present as duplicates', () => {
+    const existing = [tx('2025-03-12', 'CB Carrefour', -45.3)];
+    const incoming = [tx('2025-03-12', 'cb carrefour', -45.3), tx('2025-03-14', 'Loyer', -800)];
+
+    const result = detectDuplicates(incoming, existing);
+
+    expect(result.statuses).toEqual(['duplicate', 'new']);
+    expect(result.duplicates).toEqual([incoming[0]]);
+    expect(result.newTransactions).toEqual([incoming[1]]);
+  });
+
+  it('should keep legitimate same-day duplicates beyond existing occurrences', () => {
+    const existing = [tx('2025-03-12', 'Café', -2)];
+    const incoming = [tx('2025-03-12', 'Café', -2), tx('2025-03-12', 'Café', -2)];
+
+    const result = detectDuplicates(incoming, existing);
+
+    expect(result.statuses[0]).toBe('duplicate');
+    expect(result.statuses[1]).not.toBe('duplicate');
+    expect(result.newTransactions.length).toBe(1);
+  });
+
+  it('should flag near-duplicates as suspicious but still import them', () => {
+    const existing = [tx('2025-03-12', 'CB CARREFOUR', -45.3)];
+    const incoming = [tx('2025-03-13', 'CB CARREFOUR CITY', -45.3)];
+
+    const result = detectDuplicates(incoming, existing);
+
+    expect(result.statuses).toEqual(['suspicious']);
+    expect(result.suspicious).toEqual(incoming);
+    expect(result.newTransactions).toEqual(incoming);
+  });
+
+  it('should not flag rows outside the day window', () => {
+    const existing = [tx('2025-03-01', 'CB CARREFOUR', -45.3)];
+    const incoming = [tx('2025-03-13', 'CB CARREFOUR', -45.3)];
+
+    const result = detectDuplicates(incoming, existing);
+
+    expect(result.statuses).toEqual(['new']);
+  });
+
+  it('should respect a custom day window', () => {
+    const existing = [tx('2025-03-01', 'CB CARREFOUR', -45.3)];
+    const incoming = [tx('2025-03-13', 'CB CARREFOUR', -45.3)];
+
+    const result = detectDuplicates(incoming, existing, { suspiciousDayWindow: 15 });
+
+    expect(result.statuses).toEqual(['suspicious']);
+  });
+
+  it('should match rows by bank identifier even if the description changed', () => {
+    const existing = [{ ...tx('2025-03-12', 'CB CARREFOUR', -45.3), externalId: 'FIT1' }];
+    const incoming = [{ ...tx('2025-03-12', 'CARREFOUR CITY PARIS', -45.3), externalId: 'FIT1' }];
+
+    const result = detectDuplicates(incoming, existing);
+
+    expect(result.statuses).toEqual(['duplicate']);
+  });
+
+  it('should keep identical rows with different bank identifiers', () => {
+    const existing = [{ ...tx('2025-03-12', 'Café', -2), externalId: 'FIT1' }];
+    const incoming = [{ ...tx('2025-03-12', 'Café', -2), externalId: 'FIT2' }];
+
+    const result = detectDuplicates(incoming, existing);
+
+    expect(result.statuses).toEqual(['suspicious']);
+  });
+
+  it('should match identified rows against rows imported without identifier', () => {
+    const existing = [tx('2025-03-12', 'Café', -2)];
+    const incoming = [{ ...tx('2025-03-12', 'Café', -2), externalId: 'FIT1' }];
+
+    const result = detectDuplicates(incoming, existing);
+
+    expect(result.statuses).toEqual(['duplicate']);
+  });
+
+  it('should treat everything as new when nothing exists', () => {
+    const incoming = [tx('2025-03-12', 'A', -1), tx('2025-03-12', 'B', -2)];
+
+    const result = detectDuplicates(incoming, []);
+
+    expect(result.statuses).toEqual(['new', 'new']);
+    expect(result.duplicates).toEqual([]);
+    expect(result.suspicious).toEqual([]);
+  });
+});
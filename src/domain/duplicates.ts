@@ -0,0 +1,198 @@
+/**
+ * Duplicate Detection Functions
+ *
+ * Pure functions for fingerprinting imported transactions and detecting
+ * rows that already exist, so that re-importing an overlapping bank export
+ * never doubles transactions
+ */
+
+/**
+ * Minimal shape needed to fingerprint a transaction
+ */
+export interface FingerprintSource {
+  date: Date;
+  description: string;
+  amount: number;
+  externalId?: string | null; // Bank-issued identifier, when the format has one
+}
+
+export type DuplicateStatus = 'new' | 'duplicate' | 'suspicious';
+
+export interface DuplicateCheckResult<T extends FingerprintSource> {
+  newTransactions: T[]; // Rows to insert (includes suspicious ones)
+  duplicates: T[]; // Rows already present, skipped on import
+  suspicious: T[]; // Rows inserted but resembling an existing one
+  statuses: DuplicateStatus[]; // Status of each incoming row, by index
+}
+
+export interface DuplicateCheckOptions {
+  suspiciousDayWindow: number; // Max days between two near-duplicates
+}
+
+const DEFAULT_OPTIONS: DuplicateCheckOptions = {
+  suspiciousDayWindow: 3,
+};
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Normalize a description for comparison
+ * Lowercases, strips accents and punctuation, and collapses whitespace
+ *
+ * @param description - Raw transaction description
+ * @returns Normalized description
+ */
+export function normalizeDescription(description: string): string {
+  return description
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Build the identity key of a transaction (date + description + amount)
+ * Two legitimate same-day purchases share the same key
+ *
+ * @param transaction - Transaction to identify
+ * @returns Key without occurrence index
+ */
+export function getTransactionKey(transaction: FingerprintSource): string {
+  const day = new Date(transaction.date).toISOString().slice(0, 10);
+  const cents = Math.round(transaction.amount * 100);
+  return `${day}|${normalizeDescription(transaction.description)}|${cents}`;
+}
+
+/**
+ * Compute fingerprints for a list of transactions
+ * Identical rows get an increasing occurrence index so that legitimate
+ * same-day duplicates (e.g. two identical coffees) stay distinct
+ *
+ * @param transactions - Transactions in their original order
+ * @returns Fingerprints aligned with the input array
+ */
+export function fingerprintTransactions(transactions: FingerprintSource[]): string[] {
+  const occurrences = new Map<string, number>();
+
+  return transactions.map(transaction => {
+    const key = getTransactionKey(transaction);
+    const index = occurrences.get(key) ?? 0;
+    occurrences.set(key, index + 1);
+    return `${key}#${index}`;
+  });
+}
+
+/**
+ * Check whether two descriptions likely refer to the same operation
+ * True when one contains the other or when they share most of their words
+ *
+ * @param a - First description
+ * @param b - Second description
+ * @returns True if descriptions are similar
+ */
+export function areDescriptionsSimilar(a: string, b: string): boolean {
+  const normalizedA = normalizeDescription(a);
+  const normalizedB = normalizeDescription(b);
+
+  if (normalizedA === '' || normalizedB === '') {
+    return false;
+  }
+
+  if (normalizedA.includes(normalizedB) || normalizedB.includes(normalizedA)) {
+    return true;
+  }
+
+  const tokensA = new Set(normalizedA.split(' '));
+  const tokensB = new Set(normalizedB.split(' '));
+  const common = [...tokensA].filter(token => tokensB.has(token)).length;
+  const union = new Set([...tokensA, ...tokensB]).size;
+
+  return common / union >= 0.5;
+}
+
+/**
+ * Check whether two transactions are near-duplicates
+ * Same amount, close dates and similar descriptions
+ */
+function isNearDuplicate(
+  a: FingerprintSource,
+  b: FingerprintSource,
+  dayWindow: number
+): boolean {
+  if (Math.round(a.amount * 100) !== Math.round(b.amount * 100)) {
+    return false;
+  }
+
+  const daysApart =
+    Math.abs(new Date(a.date).getTime() - new Date(b.date).getTime()) / MS_PER_DAY;
+  if (daysApart > dayWindow) {
+    return false;
+  }
+
+  return areDescriptionsSimilar(a.description, b.description);
+}
+
+/**
+ * Classify incoming transactions against existing ones
+ *
+ * - duplicate: same fingerprint (or same bank identifier) as an existing row,
+ *   skipped on import
+ * - suspicious: no exact match but resembles an existing row, still imported
+ * - new: no resemblance at all
+ *
+ * When both rows carry a bank identifier, the identifier alone decides:
+ * two identical same-day rows with different identifiers are distinct.
+ *
+ * @param incoming - Transactions about to be imported
+ * @param existing - Transactions already stored (covering the incoming dates)
+ * @param options - Near-duplicate detection settings
+ * @returns Classification of every incoming transaction
+ */
+export function detectDuplicates<T extends FingerprintSource>(
+  incoming: T[],
+  existing: FingerprintSource[],
+  options: DuplicateCheckOptions = DEFAULT_OPTIONS
+): DuplicateCheckResult<T> {
+  const existingFingerprints = new Set(fingerprintTransactions(existing));
+  const existingIds = new Set(existing.map(t => t.externalId).filter(Boolean));
+  const fingerprintsWithoutId = new Set(
+    fingerprintTransactions(existing.filter(t => !t.externalId))
+  );
+  const incomingFingerprints = fingerprintTransactions(incoming);
+
+  const isDuplicate = (transaction: T, index: number): boolean => {
+    if (transaction.externalId) {
+      return (
+        existingIds.has(transaction.externalId) ||
+        fingerprintsWithoutId.has(incomingFingerprints[index])
+      );
+    }
+    return existingFingerprints.has(incomingFingerprints[index]);
+  };
+
+  const newTransactions: T[] = [];
+  const duplicates: T[] = [];
+  const suspicious: T[] = [];
+
+  const statuses = incoming.map((transaction, index): DuplicateStatus => {
+    if (isDuplicate(transaction, index)) {
+      duplicates.push(transaction);
+      return 'duplicate';
+    }
+
+    newTransactions.push(transaction);
+
+    const resemblesExisting = existing.some(other =>
+      isNearDuplicate(transaction, other, options.suspiciousDayWindow)
+    );
+    if (resemblesExisting) {
+      suspicious.push(transaction);
+      return 'suspicious';
+    }
+
+    return 'new';
+  });
+
+  return { newTransactions, duplicates, suspicious, statuses };
+}
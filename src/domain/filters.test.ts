@@ -2,11 +2,17 @@
  * Tests for Transaction Filtering Functions
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import {
   filterByDateRange,
   filterByCategory,
   filterByCategories,
+  filterByAccount,
+  filterByAccounts,
+  filterByTag,
+  filterByTags,
+  filterUntagged,
+  filterByMerchants,
   filterByMinAmount,
   filterByMaxAmount,
   filterByAmountRange,
@@ -115,6 +121,148 @@ describe('filterByCategories', () => {
   });
 });
 
+describe('category filters on split transactions', () => {
+  const receipt: Transaction = {
+    id: 10,
+    date: new Date('2024-01-20'),
+    description: 'Hypermarché',
+    amount: -100,
+    categoryId: null,
+    splits: [
+      { amount: -70, categoryId: 1 },
+      { amount: -20, categoryId: 2 },
+      { amount: -10, categoryId: null },
+    ],
+  };
+
+  it('should keep only the matching lines', () => {
+    const result = filterByCategory([receipt], 2);
+
+    expect(result).toEqual([
+      { id: 10, date: receipt.date, description: 'Hypermarché', amount: -20, categoryId: 2 },
+    ]);
+  });
+
+  it('should match any of the categories line by line', () => {
+    expect(filterByCategories([receipt], [1, 2]).map(t => t.amount)).toEqual([-70, -20]);
+  });
+
+  it('should tell categorized and uncategorized lines apart', () => {
+    expect(filterCategorized([receipt])).toHaveLength(2);
+    expect(filterUncategorized([receipt]).map(t => t.amount)).toEqual([-10]);
+  });
+});
+
+describe('filterByAccount', () => {
+  const accountTransactions: Transaction[] = mockTransactions.map(t => ({
+    ...t,
+    accountId: t.id <= 3 ? 1 : t.id === 6 ? null : 2,
+  }));
+
+  it('should filter transactions by account', () => {
+    const result = filterByAccount(accountTransactions, 1);
+
+    expect(result.map(t => t.id)).toEqual([1, 2, 3]);
+  });
+
+  it('should filter transactions without account', () => {
+    const result = filterByAccount(accountTransactions, null);
+
+    expect(result.map(t => t.id)).toEqual([6]);
+  });
+
+  it('should treat a missing account as no account', () => {
+    const result = filterByAccount(mockTransactions, null);
+
+    expect(result).toHaveLength(mockTransactions.length);
+  });
+});
+
+describe('filterByAccounts', () => {
+  const accountTransactions: Transaction[] = mockTransactions.map(t => ({
+    ...t,
+    accountId: t.id <= 3 ? 1 : t.id === 6 ? null : 2,
+  }));
+
+  it('should filter transactions by multiple accounts', () => {
+    const result = filterByAccounts(accountTransactions, [2, null]);
+
+    expect(result.map(t => t.id)).toEqual([4, 5, 6]);
+  });
+
+  it('should return all transactions for an empty selection', () => {
+    const result = filterByAccounts(accountTransactions, []);
+
+    expect(result).toEqual(accountTransactions);
+  });
+});
+
+const taggedTransactions: Transaction[] = mockTransactions.map(t => ({
+  ...t,
+  tagIds: t.id === 1 ? [10, 20] : t.id === 2 ? [10] : t.id === 3 ? [20] : [],
+}));
+
+describe('filterByTag', () => {
+  it('should filter transactions having the tag', () => {
+    expect(filterByTag(taggedTransactions, 10).map(t => t.id)).toEqual([1, 2]);
+  });
+
+  it('should treat missing tags as no tags', () => {
+    expect(filterByTag(mockTransactions, 10)).toEqual([]);
+  });
+});
+
+describe('filterByTags', () => {
+  it('should keep transactions having any of the tags by default', () => {
+    expect(filterByTags(taggedTransactions, [10, 20]).map(t => t.id)).toEqual([1, 2, 3]);
+  });
+
+  it('should keep transactions having all the tags', () => {
+    expect(filterByTags(taggedTransactions, [10, 20], 'all').map(t => t.id)).toEqual([1]);
+  });
+
+  it('should return all transactions for an empty selection', () => {
+    expect(filterByTags(taggedTransactions, [])).toEqual(taggedTransactions);
+  });
+});
+
+describe('filterUntagged', () => {
+  it('should keep transactions without tags', () => {
+    expect(filterUntagged(taggedTransactions).map(t => t.id)).toEqual([4, 5, 6]);
+  });
+
+  it('should keep split lines tagged like their transaction', () => {
+    const split: Transaction = {
+      ...taggedTransactions[0],
+      categoryId: null,
+      splits: [
+        { amount: 100, categoryId: 1 },
+        { amount: 50, categoryId: 2 },
+      ],
+    };
+
+    const lines = filterByCategory([split], 2);
+
+    expect(filterByTag(lines, 20).map(t => t.amount)).toEqual([50]);
+    expect(filterUntagged(lines)).toEqual([]);
+  });
+});
+
+describe('filterByMerchants', () => {
+  const merchantTransactions: Transaction[] = mockTransactions.map(t => ({
+    ...t,
+    merchantId: t.id <= 2 ? 7 : t.id === 3 ? 8 : null,
+  }));
+
+  it('should filter transactions of any of the merchants', () => {
+    expect(filterByMerchants(merchantTransactions, [7, 8]).map(t => t.id)).toEqual([1, 2, 3]);
+  });
+
+  it('should filter transactions without merchant with null', () => {
+    expect(filterByMerchants(merchantTransactions, [null]).map(t => t.id)).toEqual([4, 5, 6]);
+  });
+});
+
 describe('filterByMinAmount', () => {
   it('should filter transactions above minimum amount', () => {
     const result = filterByMinAmount(mockTransactions, 100);
@@ -347,6 +495,16 @@ describe('filterByMonth', () => {
 
     expect(result.length).toBe(2);
   });
+
+  it('should keep a transaction on the 1st in its month west of UTC', () => {
+    vi.stubEnv('TZ', 'America/New_York');
+    try {
+      expect(filterByMonth(mockTransactions, 2, 2024).map(t => t.id)).toEqual([5, 6]);
+      expect(filterByMonth(mockTransactions, 1, 2024).map(t => t.id)).toEqual([3, 4]);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
 });
 
 describe('filterLastNDays', () => {
@@ -418,4 +576,29 @@ describe('composeFilters', () => {
     expect(result.length).toBe(3);
     expect(result[0].id).toBe(1); // Oldest first (2024-01-15)
   });
+
+  it('should combine account and category filters', () => {
+    const accountTransactions: Transaction[] = mockTransactions.map(t => ({
+      ...t,
+      accountId: t.id % 2 === 0 ? 2 : 1,
+    }));
+
+    const result = composeFilters(accountTransactions, [
+      (txs) => filterByAccounts(txs, [1]),
+      (txs) => filterCategorized(txs),
+      (txs) => sortByAmount(txs, 'desc'),
+    ]);
+
+    // Account 1 = odd IDs, categorized = 1 and 3
+    expect(result.map(t => t.id)).toEqual([1, 3]);
+  });
+
+  it('should combine tag and category filters', () => {
+    const result = composeFilters(taggedTransactions, [
+      (txs) => filterByTag(txs, 20),
+      (txs) => filterByCategory(txs, 1),
+    ]);
+
+    expect(result.map(t => t.id)).toEqual([1, 3]);
+  });
 });
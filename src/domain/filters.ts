@@ -6,6 +6,7 @@
  */
 
 import { Transaction } from './types';
+import { expandSplits } from './splits';
 
 /**
  * Filter transactions by date range (inclusive)
@@ -28,16 +29,18 @@ export function filterByDateRange(
 
 /**
  * Filter transactions by single category
+ * Category filters work on split lines: a split transaction is replaced by its
+ * lines, of which only the matching ones are kept.
  *
  * @param transactions - Array of transactions to filter
  * @param categoryId - Category ID to filter by (null for uncategorized)
- * @returns Filtered transactions matching the category
+ * @returns Filtered transactions and split lines matching the category
  */
 export function filterByCategory(
   transactions: Transaction[],
   categoryId: number | null
 ): Transaction[] {
-  return transactions.filter(t => t.categoryId === categoryId);
+  return expandSplits(transactions).filter(t => t.categoryId === categoryId);
 }
 
 /**
@@ -45,13 +48,105 @@ export function filterByCategory(
  *
  * @param transactions - Array of transactions to filter
  * @param categoryIds - Array of category IDs to include
- * @returns Filtered transactions matching any of the categories
+ * @returns Filtered transactions and split lines matching any of the categories
  */
 export function filterByCategories(
   transactions: Transaction[],
   categoryIds: (number | null)[]
 ): Transaction[] {
-  return transactions.filter(t => categoryIds.includes(t.categoryId));
+  return expandSplits(transactions).filter(t => categoryIds.includes(t.categoryId));
+}
+
+/**
+ * Filter transactions by single account
+ *
+ * @param transactions - Array of transactions to filter
+ * @param accountId - Account ID to filter by (null for transactions without account)
+ * @returns Filtered transactions of the account
+ */
+export function filterByAccount(
+  transactions: Transaction[],
+  accountId: number | null
+): Transaction[] {
+  return transactions.filter(t => (t.accountId ?? null) === accountId);
+}
+
+/**
+ * Filter transactions by multiple accounts
+ * An empty selection means all accounts, as in account pickers
+ *
+ * @param transactions - Array of transactions to filter
+ * @param accountIds - Array of account IDs to include
+ * @returns Filtered transactions belonging to any of the accounts
+ */
+export function filterByAccounts(
+  transactions: Transaction[],
+  accountIds: (number | null)[]
+): Transaction[] {
+  if (accountIds.length === 0) {
+    return transactions;
+  }
+  return transactions.filter(t => accountIds.includes(t.accountId ?? null));
+}
+
+/**
+ * Filter transactions by single tag
+ *
+ * @param transactions - Array of transactions to filter
+ * @param tagId - Tag ID to filter by
+ * @returns Filtered transactions having the tag
+ */
+export function filterByTag(transactions: Transaction[], tagId: number): Transaction[] {
+  return transactions.filter(t => (t.tagIds ?? []).includes(tagId));
+}
+
+/**
+ * Filter transactions by multiple tags
+ * An empty selection means all transactions, as in tag pickers
+ *
+ * @param transactions - Array of transactions to filter
+ * @param tagIds - Array of tag IDs to look for
+ * @param match - 'any' to keep transactions having one of the tags, 'all' for all of them
+ * @returns Filtered transactions having the tags
+ */
+export function filterByTags(
+  transactions: Transaction[],
+  tagIds: number[],
+  match: 'any' | 'all' = 'any'
+): Transaction[] {
+  if (tagIds.length === 0) {
+    return transactions;
+  }
+  return transactions.filter(t => {
+    const transactionTagIds = t.tagIds ?? [];
+    return match === 'all'
+      ? tagIds.every(tagId => transactionTagIds.includes(tagId))
+      : tagIds.some(tagId => transactionTagIds.includes(tagId));
+  });
+}
+
+/**
+ * Filter transactions without any tag
+ *
+ * @param transactions - Array of transactions to filter
+ * @returns Transactions without tags
+ */
+export function filterUntagged(transactions: Transaction[]): Transaction[] {
+  return transactions.filter(t => (t.tagIds ?? []).length === 0);
+}
+
+/**
+ * Filter transactions by merchants
+ *
+ * @param transactions - Array of transactions to filter
+ * @param merchantIds - Array of merchant IDs to include (null for unrecognized merchants)
+ * @returns Filtered transactions of any of the merchants
+ */
+export function filterByMerchants(
+  transactions: Transaction[],
+  merchantIds: (number | null)[]
+): Transaction[] {
+  return transactions.filter(t => merchantIds.includes(t.merchantId ?? null));
 }
 
 /**
@@ -127,20 +222,20 @@ export function searchByDescription(
  * Filter uncategorized transactions only
  *
  * @param transactions - Array of transactions to filter
- * @returns Transactions without a category assigned
+ * @returns Transactions and split lines without a category assigned
  */
 export function filterUncategorized(transactions: Transaction[]): Transaction[] {
-  return transactions.filter(t => t.categoryId === null);
+  return expandSplits(transactions).filter(t => t.categoryId === null);
 }
 
 /**
  * Filter categorized transactions only
  *
  * @param transactions - Array of transactions to filter
- * @returns Transactions with a category assigned
+ * @returns Transactions and split lines with a category assigned
  */
 export function filterCategorized(transactions: Transaction[]): Transaction[] {
-  return transactions.filter(t => t.categoryId !== null);
+  return expandSplits(transactions).filter(t => t.categoryId !== null);
 }
 
 /**
@@ -204,6 +299,9 @@ export function filterCurrentMonth(
 
 /**
  * Get transactions from a specific month
+ * Transaction dates are days stored at UTC midnight, so the month is read in
+ * UTC: in local time a transaction on the 1st falls in the previous month
+ * west of UTC.
  *
  * @param transactions - Array of transactions to filter
  * @param month - Month (0-11, where 0 = January)
@@ -218,8 +316,8 @@ export function filterByMonth(
   return transactions.filter(t => {
     const transactionDate = new Date(t.date);
     return (
-      transactionDate.getMonth() === month &&
-      transactionDate.getFullYear() === year
+      transactionDate.getUTCMonth() === month &&
+      transactionDate.getUTCFullYear() === year
     );
   });
 }
@@ -0,0 +1,63 @@
+/**
+ * Tests for Import Batch Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { assessRollback, isEditedSinceImport, BatchTransaction } from './import-batches';
+
+const row = (id: number, overrides: Partial<BatchTransaction> = {}): BatchTransaction => ({
+  id,
+  categoryId: null,
+  editedAt: null,
+  ...overrides,
+});
+
+describe('isEditedSinceImport', () => {
+  it('should treat transactions never edited by the user as untouched', () => {
+    expect(isEditedSinceImport(row(1))).toBe(false);
+  });
+
+  it('should detect edits by the user', () => {
+    expect(isEditedSinceImport(row(1, { editedAt: new Date('2025-03-13T08:00:00Z') }))).toBe(
+      true
+    );
+  });
+});
+
+describe('assessRollback', () => {
+  it('should allow rolling back untouched batches', () => {
+    const result = assessRollback([row(1), row(2)]);
+
+    expect(result).toEqual({ total: 2, categorized: [], edited: [], safe: true });
+  });
+
+  it('should report categorized and edited transactions', () => {
+    const later = new Date('2025-03-20T08:00:00Z');
+    const result = assessRollback([
+      row(1),
+      row(2, { categoryId: 3, editedAt: later }),
+      row(3, { editedAt: later }),
+    ]);
+
+    expect(result.safe).toBe(false);
+    expect(result.categorized).toEqual([2]);
+    expect(result.edited).toEqual([2, 3]);
+  });
+
+  it('should ignore categories set on import', () => {
+    const result = assessRollback([row(1, { categoryId: 3 })]);
+
+    expect(result).toEqual({ total: 1, categorized: [], edited: [], safe: true });
+  });
+
+  it('should allow rolling back a batch only linked to merchants since the import', () => {
+    // Linking updates the rows without the user editing them
+    const linked = { ...row(1), merchantId: 4, updatedAt: new Date('2025-03-20T08:00:00Z') };
+
+    expect(assessRollback([linked, row(2, { categoryId: 3 })]).safe).toBe(true);
+  });
+
+  it('should treat an empty batch as safe', () => {
+    expect(assessRollback([]).safe).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Import Batch Domain Logic
+ *
+ * Pure functions deciding whether an import can be rolled back safely
+ */
+
+/**
+ * Transaction of a batch, as needed to detect changes made after the import
+ */
+export interface BatchTransaction {
+  id: number;
+  categoryId: number | null;
+  editedAt: Date | null; // Set by changes made by the user, not by rules or system relinking
+}
+
+export interface RollbackAssessment {
+  total: number;
+  categorized: number[]; // Ids of transactions given a category since the import
+  edited: number[]; // Ids of transactions modified since the import
+  safe: boolean; // True when rolling back loses no user work
+}
+
+/**
+ * Checks whether the user modified a transaction after it was inserted
+ * updatedAt is not enough: linking transactions to merchants also changes it.
+ */
+export function isEditedSinceImport(transaction: BatchTransaction): boolean {
+  return transaction.editedAt !== null;
+}
+
+/**
+ * Lists the transactions of a batch that carry user work
+ * Categories set on import (in the preview or by rules) are not user work
+ * lost by a rollback, only the ones given since are
+ *
+ * @param transactions - Transactions still linked to the batch
+ * @returns Categorized and edited transaction ids
+ */
+export function assessRollback(transactions: BatchTransaction[]): RollbackAssessment {
+  const categorized = transactions
+    .filter(t => t.categoryId !== null && isEditedSinceImport(t))
+    .map(t => t.id);
+  const edited = transactions.filter(isEditedSinceImport).map(t => t.id);
+
+  return {
+    total: transactions.length,
+    categorized,
+    edited,
+    safe: categorized.length === 0 && edited.length === 0,
+  };
+}
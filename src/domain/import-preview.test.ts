@@ -0,0 +1,141 @@
+/**
+ * Tests for Import Preview Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_SELECTION,
+  fixInvalidRow,
+  selectTransactions,
+  setRowCategory,
+  toRowEdit,
+  toggleExcluded,
+  validateRowEdit,
+} from './import-preview';
+import { ColumnMapping, ParseResult, ValidatedTransaction } from './csv-import';
+
+const row = (day: number, description: string, amount: number): ValidatedTransaction => ({
+  date: new Date(Date.UTC(2025, 0, day)),
+  description,
+  amount,
+});
+
+const singleMapping: ColumnMapping = {
+  dateColumn: 0,
+  descriptionColumn: 1,
+  amountColumn: 2,
+  dateFormat: 'DD/MM/YYYY',
+  decimalSeparator: ',',
+};
+
+const splitMapping: ColumnMapping = {
+  dateColumn: 0,
+  descriptionColumn: 1,
+  debitColumn: 2,
+  creditColumn: 3,
+  dateFormat: 'DD/MM/YYYY',
+  decimalSeparator: ',',
+};
+
+describe('toRowEdit', () => {
+  it('should prefill the mapped columns', () => {
+    const edit = toRowEdit({ rowIndex: 0, row: ['32/01/2025', 'CB', '-12,50'], error: '' }, singleMapping);
+
+    expect(edit).toEqual({ date: '32/01/2025', description: 'CB', amount: '-12,50' });
+  });
+
+  it('should merge debit and credit into a signed amount', () => {
+    const debit = toRowEdit({ rowIndex: 0, row: ['15/01/2025', 'CB', '12,50', ''], error: '' }, splitMapping);
+    const credit = toRowEdit({ rowIndex: 0, row: ['15/01/2025', 'VIR', '0,00', '100'], error: '' }, splitMapping);
+
+    expect(debit.amount).toBe('-12,50');
+    expect(credit.amount).toBe('100');
+  });
+
+  it('should start from the first fields without mapping', () => {
+    const edit = toRowEdit({ rowIndex: 0, row: ['2025-01-15', 'EDF', 'x'], error: '' }, null);
+
+    expect(edit).toEqual({ date: '2025-01-15', description: 'EDF', amount: '' });
+  });
+});
+
+describe('validateRowEdit', () => {
+  it('should validate with the parse options of the file', () => {
+    const result = validateRowEdit(
+      { date: '31/01/2025', description: 'CB', amount: '-1 234,50' },
+      singleMapping
+    );
+
+    expect(result.success && result.data.amount).toBe(-1234.5);
+  });
+
+  it('should not apply the sign convention to merged debit and credit amounts', () => {
+    const result = validateRowEdit(
+      { date: '31/01/2025', description: 'CB', amount: '-12,50' },
+      { ...splitMapping, signConvention: 'inverted' }
+    );
+
+    expect(result.success && result.data.amount).toBe(-12.5);
+  });
+
+  it('should report the remaining error', () => {
+    const result = validateRowEdit({ date: '32/01/2025', description: 'CB', amount: '1' }, singleMapping);
+
+    expect(result).toEqual({ success: false, error: 'Invalid date format' });
+  });
+});
+
+describe('fixInvalidRow', () => {
+  // File rows: 0 valid, 1 invalid, 2 valid, 3 invalid, 4 valid
+  const result: ParseResult = {
+    valid: [row(1, 'A', -1), row(3, 'C', -3), row(5, 'E', -5)],
+    invalid: [
+      { rowIndex: 1, row: [], error: 'Invalid date format' },
+      { rowIndex: 3, row: [], error: 'Invalid amount format' },
+    ],
+  };
+
+  it('should insert the fixed row at its position in the file', () => {
+    const fixed = fixInvalidRow(result, EMPTY_SELECTION, 3, row(4, 'D', -4));
+
+    expect(fixed.result.valid.map(t => t.description)).toEqual(['A', 'C', 'D', 'E']);
+    expect(fixed.result.invalid.map(r => r.rowIndex)).toEqual([1]);
+  });
+
+  it('should shift the selection after the inserted row', () => {
+    const selection = { excluded: [0, 2], categories: { 1: 7, 2: 8 } };
+
+    const fixed = fixInvalidRow(result, selection, 1, row(2, 'B', -2));
+
+    expect(fixed.result.valid.map(t => t.description)).toEqual(['A', 'B', 'C', 'E']);
+    expect(fixed.selection).toEqual({ excluded: [0, 3], categories: { 2: 7, 3: 8 } });
+  });
+});
+
+describe('selection', () => {
+  const valid = [row(1, 'A', -1), row(2, 'B', -2), row(3, 'C', -3)];
+
+  it('should toggle excluded rows', () => {
+    const excluded = toggleExcluded(EMPTY_SELECTION, 1);
+
+    expect(excluded.excluded).toEqual([1]);
+    expect(toggleExcluded(excluded, 1).excluded).toEqual([]);
+  });
+
+  it('should set and clear row categories', () => {
+    const selection = setRowCategory(EMPTY_SELECTION, 2, 5);
+
+    expect(selection.categories).toEqual({ 2: 5 });
+    expect(setRowCategory(selection, 2, null).categories).toEqual({});
+  });
+
+  it('should select rows to import with their category', () => {
+    const selection = { excluded: [1], categories: { 2: 5 } };
+
+    const result = selectTransactions(valid, selection);
+
+    expect(result.map(t => t.description)).toEqual(['A', 'C']);
+    expect(result[1].categoryId).toBe(5);
+    expect(result[0]).not.toHaveProperty('categoryId');
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Import Preview Functions
+ *
+ * Pure functions behind the editable import preview: fixing invalid rows,
+ * excluding rows and assigning categories before the transactions are saved
+ */
+
+import {
+  ColumnMapping,
+  InvalidRow,
+  ParseOptions,
+  ParseResult,
+  ValidatedTransaction,
+  ValidationResult,
+  isSplitAmountMapping,
+  mapColumnsToTransaction,
+  validateTransactionRow,
+} from './csv-import';
+
+/**
+ * Fields of an invalid row the user can correct
+ * The amount is signed, debit and credit columns are merged
+ */
+export interface RowEdit {
+  date: string;
+  description: string;
+  amount: string;
+}
+
+/**
+ * Choices made on valid rows, by index in ParseResult.valid
+ */
+export interface PreviewSelection {
+  excluded: number[];
+  categories: Record<number, number>;
+}
+
+export type PreviewTransaction = ValidatedTransaction & { categoryId?: number };
+
+export const EMPTY_SELECTION: PreviewSelection = { excluded: [], categories: {} };
+
+/**
+ * Prefills the edit form of an invalid row with its raw values
+ * Without mapping (OFX, CAMT) the row starts with the date and description
+ */
+export function toRowEdit(invalid: InvalidRow, mapping: ColumnMapping | null): RowEdit {
+  const mapped = mapping ? mapColumnsToTransaction(invalid.row, mapping) : null;
+  if (!mapped) {
+    return { date: invalid.row[0] ?? '', description: invalid.row[1] ?? '', amount: '' };
+  }
+
+  if (mapping && isSplitAmountMapping(mapping)) {
+    const debit = (mapped.debit ?? '').trim().replace(/^-/, '');
+    const credit = (mapped.credit ?? '').trim();
+    return {
+      date: mapped.date,
+      description: mapped.description,
+      amount: debit !== '' && !/^0+([.,]0+)?$/.test(debit) ? `-${debit}` : credit,
+    };
+  }
+
+  return { date: mapped.date, description: mapped.description, amount: mapped.amount };
+}
+
+/**
+ * Validates an edited row with the parse options of the file
+ * Merged debit/credit amounts are already signed
+ */
+export function validateRowEdit(edit: RowEdit, mapping: ColumnMapping | null): ValidationResult {
+  const options: ParseOptions =
+    mapping && !isSplitAmountMapping(mapping)
+      ? mapping
+      : { dateFormat: mapping?.dateFormat, decimalSeparator: mapping?.decimalSeparator };
+
+  return validateTransactionRow(edit, options);
+}
+
+/**
+ * Moves a fixed row from the invalid rows to the valid ones, at its position
+ * in the file so that balances and duplicate occurrences keep their order.
+ * Selection indices after it are shifted accordingly.
+ *
+ * @param result - Current parse result
+ * @param selection - Current selection
+ * @param rowIndex - Index of the fixed row in the file
+ * @param transaction - Validated row
+ */
+export function fixInvalidRow(
+  result: ParseResult,
+  selection: PreviewSelection,
+  rowIndex: number,
+  transaction: ValidatedTransaction
+): { result: ParseResult; selection: PreviewSelection } {
+  // Every row of the file is either valid or invalid
+  const invalidBefore = result.invalid.filter(row => row.rowIndex < rowIndex).length;
+  const position = Math.min(rowIndex - invalidBefore, result.valid.length);
+  const shift = (index: number) => (index >= position ? index + 1 : index);
+
+  return {
+    result: {
+      ...result,
+      valid: [...result.valid.slice(0, position), transaction, ...result.valid.slice(position)],
+      invalid: result.invalid.filter(row => row.rowIndex !== rowIndex),
+    },
+    selection: {
+      excluded: selection.excluded.map(shift),
+      categories: Object.fromEntries(
+        Object.entries(selection.categories).map(([index, categoryId]) => [
+          shift(Number(index)),
+          categoryId,
+        ])
+      ),
+    },
+  };
+}
+
+/**
+ * Toggles the exclusion of a valid row
+ */
+export function toggleExcluded(selection: PreviewSelection, index: number): PreviewSelection {
+  return {
+    ...selection,
+    excluded: selection.excluded.includes(index)
+      ? selection.excluded.filter(excludedIndex => excludedIndex !== index)
+      : [...selection.excluded, index],
+  };
+}
+
+/**
+ * Assigns a category to a valid row, or removes it with null
+ */
+export function setRowCategory(
+  selection: PreviewSelection,
+  index: number,
+  categoryId: number | null
+): PreviewSelection {
+  const categories = { ...selection.categories };
+  if (categoryId === null) {
+    delete categories[index];
+  } else {
+    categories[index] = categoryId;
+  }
+  return { ...selection, categories };
+}
+
+/**
+ * Returns the valid rows to import, without excluded rows and with their category
+ */
+export function selectTransactions(
+  valid: ValidatedTransaction[],
+  selection: PreviewSelection
+): PreviewTransaction[] {
+  return valid
+    .map((transaction, index) =>
+      selection.categories[index] !== undefined
+        ? { ...transaction, categoryId: selection.categories[index] }
+        : transaction
+    )
+    .filter((_, index) => !selection.excluded.includes(index));
+}
@@ -0,0 +1,136 @@
+/**
+ * Tests for Import Profile Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BUILT_IN_PROFILES,
+  normalizeHeader,
+  matchesProfileHeaders,
+  matchImportProfile,
+  ImportProfile,
+} from './import-profiles';
+import { parseCSVToTransactions } from './csv-import';
+
+const savedProfile: ImportProfile = {
+  id: 1,
+  name: 'Mon compte joint',
+  headers: ['Date', 'Libellé', 'Montant(EUROS)'],
+  mapping: { dateColumn: 0, descriptionColumn: 1, amountColumn: 2 },
+  skipRows: 0,
+};
+
+describe('normalizeHeader', () => {
+  it('should ignore case, accents and punctuation', () => {
+    expect(normalizeHeader(' Débit  euros ')).toBe('debit euros');
+    expect(normalizeHeader("Date de l'opération")).toBe('date de l operation');
+    expect(normalizeHeader('Montant(EUROS)')).toBe('montant euros');
+  });
+});
+
+describe('matchesProfileHeaders', () => {
+  it('should match headers regardless of accents and case', () => {
+    expect(matchesProfileHeaders(['DATE', 'Libelle', 'montant (euros)'], savedProfile)).toBe(true);
+  });
+
+  it('should ignore trailing empty cells', () => {
+    expect(matchesProfileHeaders(['Date', 'Libellé', 'Montant(EUROS)', '', ''], savedProfile)).toBe(
+      true
+    );
+  });
+
+  it('should not match a different column count', () => {
+    expect(matchesProfileHeaders(['Date', 'Libellé'], savedProfile)).toBe(false);
+    expect(
+      matchesProfileHeaders(['Date', 'Libellé', 'Montant(EUROS)', 'Montant(FRANCS)'], savedProfile)
+    ).toBe(false);
+  });
+
+  it('should not match a data row', () => {
+    expect(matchesProfileHeaders(['15/01/2025', 'CB LIDL', '-12,50'], savedProfile)).toBe(false);
+  });
+});
+
+describe('matchImportProfile', () => {
+  it('should match the header row at the expected position', () => {
+    const rows = [
+      ['Date', 'Libellé', 'Montant(EUROS)'],
+      ['15/01/2025', 'CB LIDL', '-12,50'],
+    ];
+
+    const result = matchImportProfile(rows, [savedProfile]);
+
+    expect(result?.profile).toBe(savedProfile);
+    expect(result?.headerRowIndex).toBe(0);
+  });
+
+  it('should find the header row after a preamble of unexpected length', () => {
+    const rows = [
+      ['Numéro Compte', '0123456X020'],
+      ['Type', 'CCP'],
+      ['Compte tenu en', 'euros'],
+      ['Date', 'Libellé', 'Montant(EUROS)'],
+      ['15/01/2025', 'CB LIDL', '-12,50'],
+    ];
+
+    const result = matchImportProfile(rows, [savedProfile]);
+
+    expect(result?.headerRowIndex).toBe(3);
+  });
+
+  it('should prefer earlier profiles', () => {
+    const rows = [['Date', 'Libellé', 'Montant(EUROS)']];
+
+    const result = matchImportProfile(rows, [savedProfile, ...BUILT_IN_PROFILES]);
+
+    expect(result?.profile.name).toBe('Mon compte joint');
+  });
+
+  it('should return null when no profile matches', () => {
+    const rows = [['Foo', 'Bar', 'Baz']];
+
+    expect(matchImportProfile(rows, BUILT_IN_PROFILES)).toBeNull();
+  });
+
+  it('should return null for an empty file', () => {
+    expect(matchImportProfile([], BUILT_IN_PROFILES)).toBeNull();
+  });
+});
+
+describe('BUILT_IN_PROFILES', () => {
+  it('should recognize and parse a Crédit Agricole export', () => {
+    const rows = [
+      ['Téléchargement du 20/03/2025'],
+      ['M. DUPONT JEAN'],
+      ['Compte de Dépôt carte n° 12345678901'],
+      ['Solde au 20/03/2025 1 234,56 €'],
+      ['Liste des opérations du compte entre le 01/03/2025 et le 20/03/2025'],
+      ['Date', 'Libellé', 'Débit euros', 'Crédit euros', ''],
+      ['18/03/2025', 'CARTE X1234 CARREFOUR', '45,30', '', ''],
+      ['17/03/2025', 'VIREMENT SALAIRE', '', '2 100,00', ''],
+    ];
+
+    const match = matchImportProfile(rows, BUILT_IN_PROFILES);
+    expect(match?.profile.name).toBe('Crédit Agricole');
+
+    const result = parseCSVToTransactions(
+      rows.slice((match?.headerRowIndex ?? 0) + 1),
+      match!.profile.mapping
+    );
+
+    expect(result.invalid).toEqual([]);
+    expect(result.valid.map(t => t.amount)).toEqual([-45.3, 2100]);
+  });
+
+  it('should recognize a Boursorama export', () => {
+    const rows = [BUILT_IN_PROFILES.find(p => p.name === 'Boursorama')!.headers];
+
+    expect(matchImportProfile(rows, BUILT_IN_PROFILES)?.profile.name).toBe('Boursorama');
+  });
+
+  it('should have distinct header rows', () => {
+    const signatures = BUILT_IN_PROFILES.map(p => p.headers.map(normalizeHeader).join('|'));
+
+    expect(new Set(signatures).size).toBe(BUILT_IN_PROFILES.length);
+  });
+});
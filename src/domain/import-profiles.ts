@@ -0,0 +1,208 @@
+/**
+ * Import Profile Functions
+ *
+ * Pure functions for recognizing a known bank export from its header row,
+ * so that the column mapping doesn't have to be picked again every month
+ */
+
+import { ColumnMapping, detectColumnHeaders } from './csv-import';
+import { CSVFormat } from './csv-format';
+
+export interface ImportProfile {
+  id?: number; // Undefined for built-in profiles
+  name: string;
+  headers: string[]; // Expected header row of the export
+  mapping: ColumnMapping; // Includes date format, decimal separator and sign convention
+  skipRows: number; // Lines before the header row (account holder, IBAN, period...)
+  csvFormat?: Partial<CSVFormat>; // Missing settings are detected from the file
+  builtIn?: boolean;
+}
+
+export interface ProfileMatch {
+  profile: ImportProfile;
+  headerRowIndex: number;
+}
+
+// How many leading rows are scanned when looking for a known header row
+const MAX_HEADER_SCAN_ROWS = 20;
+
+/**
+ * Built-in profiles for the CSV exports of the major French banks
+ */
+export const BUILT_IN_PROFILES: ImportProfile[] = [
+  {
+    name: 'Crédit Agricole',
+    headers: ['Date', 'Libellé', 'Débit euros', 'Crédit euros'],
+    mapping: {
+      dateColumn: 0,
+      descriptionColumn: 1,
+      debitColumn: 2,
+      creditColumn: 3,
+      dateFormat: 'DD/MM/YYYY',
+      decimalSeparator: ',',
+      signConvention: 'signed',
+    },
+    skipRows: 10,
+    builtIn: true,
+  },
+  {
+    name: 'BNP Paribas',
+    headers: [
+      'Date operation',
+      'Libelle court',
+      'Type operation',
+      'Libelle operation',
+      'Montant operation',
+    ],
+    mapping: {
+      dateColumn: 0,
+      descriptionColumn: 3,
+      amountColumn: 4,
+      dateFormat: 'DD/MM/YYYY',
+      decimalSeparator: ',',
+      signConvention: 'signed',
+    },
+    skipRows: 1,
+    builtIn: true,
+  },
+  {
+    name: 'Société Générale',
+    headers: [
+      "Date de l'opération",
+      'Libellé',
+      "Détail de l'écriture",
+      "Montant de l'opération",
+      'Devise',
+    ],
+    mapping: {
+      dateColumn: 0,
+      descriptionColumn: 2,
+      amountColumn: 3,
+      dateFormat: 'DD/MM/YYYY',
+      decimalSeparator: ',',
+      signConvention: 'signed',
+    },
+    skipRows: 2,
+    builtIn: true,
+  },
+  {
+    name: 'Boursorama',
+    headers: [
+      'dateOp',
+      'dateVal',
+      'label',
+      'category',
+      'categoryParent',
+      'supplierFound',
+      'amount',
+      'comment',
+      'accountNum',
+      'accountLabel',
+      'accountbalance',
+    ],
+    mapping: {
+      dateColumn: 0,
+      descriptionColumn: 2,
+      amountColumn: 6,
+      balanceColumn: 10,
+      dateFormat: 'YYYY-MM-DD',
+      decimalSeparator: ',',
+      signConvention: 'signed',
+    },
+    skipRows: 0,
+    builtIn: true,
+  },
+  {
+    name: 'La Banque Postale',
+    headers: ['Date', 'Libellé', 'Montant(EUROS)'],
+    mapping: {
+      dateColumn: 0,
+      descriptionColumn: 1,
+      amountColumn: 2,
+      dateFormat: 'DD/MM/YYYY',
+      decimalSeparator: ',',
+      signConvention: 'signed',
+    },
+    skipRows: 6,
+    builtIn: true,
+  },
+];
+
+/**
+ * Normalize a header cell for comparison
+ * Case, accents, punctuation and spacing differences are ignored
+ *
+ * @param header - Raw header cell
+ * @returns Normalized header
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Normalize a whole header row, dropping trailing empty cells
+ * (many exports end every line with a delimiter)
+ */
+function normalizeHeaderRow(row: string[]): string[] {
+  const normalized = detectColumnHeaders(row).map(normalizeHeader);
+  while (normalized.length > 0 && normalized[normalized.length - 1] === '') {
+    normalized.pop();
+  }
+  return normalized;
+}
+
+/**
+ * Check whether a row is the header row of a profile
+ *
+ * @param row - CSV row
+ * @param profile - Profile to test
+ * @returns True if the row matches the profile headers
+ */
+export function matchesProfileHeaders(row: string[], profile: ImportProfile): boolean {
+  const actual = normalizeHeaderRow(row);
+  const expected = normalizeHeaderRow(profile.headers);
+
+  return (
+    expected.length > 0 &&
+    actual.length === expected.length &&
+    actual.every((header, index) => header === expected[index])
+  );
+}
+
+/**
+ * Find the profile matching a parsed file
+ * The row at the profile's skipRows position is tried first, then the
+ * leading rows are scanned since preamble length may vary between exports.
+ * Profiles are tried in order, so saved profiles should come before built-ins.
+ *
+ * @param rows - All rows of the file
+ * @param profiles - Candidate profiles, by priority
+ * @returns Matched profile and index of its header row, or null
+ */
+export function matchImportProfile(
+  rows: string[][],
+  profiles: ImportProfile[]
+): ProfileMatch | null {
+  for (const profile of profiles) {
+    const expectedRow = rows[profile.skipRows];
+    if (expectedRow && matchesProfileHeaders(expectedRow, profile)) {
+      return { profile, headerRowIndex: profile.skipRows };
+    }
+  }
+
+  const scanLimit = Math.min(rows.length, MAX_HEADER_SCAN_ROWS);
+  for (const profile of profiles) {
+    for (let index = 0; index < scanLimit; index++) {
+      if (matchesProfileHeaders(rows[index], profile)) {
+        return { profile, headerRowIndex: index };
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,128 @@
+/**
+ * Tests for Markup Parsing Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseMarkup,
+  findChild,
+  findAll,
+  getText,
+  detectMarkupEncoding,
+  decodeMarkup,
+} from './markup';
+
+/**
+ * Encodes ASCII text with Latin-1 bytes for the given code points (é = 0xe9)
+ */
+function latin1(text: string): Uint8Array {
+  return Uint8Array.from(text, char => char.charCodeAt(0));
+}
+
+describe('parseMarkup', () => {
+  it('should parse nested XML elements', () => {
+    const root = parseMarkup('<?xml version="1.0"?><A><B>1</B><B>2</B><C><D>x</D></C></A>');
+
+    const a = findChild(root, 'A')!;
+    expect(a.children.map(child => child.name)).toEqual(['B', 'B', 'C']);
+    expect(getText(a, 'C', 'D')).toBe('x');
+  });
+
+  it('should implicitly close SGML leaf elements', () => {
+    const root = parseMarkup(`
+      <STMTTRN>
+        <TRNTYPE>DEBIT
+        <TRNAMT>-12.50
+        <NAME>CB LIDL
+      </STMTTRN>
+    `);
+
+    const entry = findChild(root, 'STMTTRN')!;
+    expect(entry.children.map(child => child.name)).toEqual(['TRNTYPE', 'TRNAMT', 'NAME']);
+    expect(getText(entry, 'TRNAMT')).toBe('-12.50');
+  });
+
+  it('should skip the OFX header, comments and processing instructions', () => {
+    const root = parseMarkup('OFXHEADER:100\nDATA:OFXSGML\n<!-- note --><OFX><X>1</X></OFX>');
+
+    expect(root.children.map(child => child.name)).toEqual(['OFX']);
+  });
+
+  it('should strip namespace prefixes and ignore attributes', () => {
+    const root = parseMarkup('<ns:Doc xmlns:ns="urn:x"><ns:Amt Ccy="EUR">10.00</ns:Amt></ns:Doc>');
+
+    expect(getText(root, 'Doc', 'Amt')).toBe('10.00');
+  });
+
+  it('should decode entities and CDATA sections', () => {
+    const root = parseMarkup('<A><B>Dupont &amp; Fils &#233;</B><C><![CDATA[a < b]]></C></A>');
+
+    expect(getText(root, 'A', 'B')).toBe('Dupont & Fils é');
+    expect(getText(root, 'A', 'C')).toBe('a < b');
+  });
+
+  it('should keep character references beyond Unicode as is', () => {
+    const root = parseMarkup('<A><B>x &#x110000; &#99999999999; &#x1F600;</B></A>');
+
+    expect(getText(root, 'A', 'B')).toBe('x &#x110000; &#99999999999; 😀');
+  });
+
+  it('should handle self-closing elements', () => {
+    const root = parseMarkup('<A><B/><C>1</C></A>');
+
+    expect(findChild(root, 'A')!.children.map(child => child.name)).toEqual(['B', 'C']);
+  });
+
+  it('should return an empty root for empty input', () => {
+    expect(parseMarkup('').children).toEqual([]);
+  });
+});
+
+describe('findAll', () => {
+  it('should find descendants at any depth in document order', () => {
+    const root = parseMarkup('<A><T>1</T><B><T>2</T></B><T>3</T></A>');
+
+    expect(findAll(root, 'T').map(node => node.text)).toEqual(['1', '2', '3']);
+  });
+});
+
+describe('getText', () => {
+  it('should return undefined for a missing path', () => {
+    const root = parseMarkup('<A><B>1</B></A>');
+
+    expect(getText(root, 'A', 'X')).toBeUndefined();
+  });
+});
+
+describe('detectMarkupEncoding', () => {
+  it('should read the charset of an OFX 1.x header', () => {
+    const bytes = latin1(
+      'OFXHEADER:100\nENCODING:USASCII\nCHARSET:1252\n<OFX><NAME>CAF\u00c9</NAME></OFX>'
+    );
+
+    expect(detectMarkupEncoding(bytes)).toBe('windows-1252');
+    expect(getText(parseMarkup(decodeMarkup(bytes)), 'OFX', 'NAME')).toBe('CAFÉ');
+  });
+
+  it('should read the encoding of the XML prolog', () => {
+    const bytes = latin1(
+      '<?xml version="1.0" encoding="ISO-8859-1"?><Doc><Ustrd>Soci\u00e9t\u00e9</Ustrd></Doc>'
+    );
+
+    expect(detectMarkupEncoding(bytes)).toBe('windows-1252');
+    expect(getText(parseMarkup(decodeMarkup(bytes)), 'Doc', 'Ustrd')).toBe('Société');
+  });
+
+  it('should fall back to the ENCODING line when CHARSET is NONE', () => {
+    const bytes = new TextEncoder().encode(
+      'OFXHEADER:100\nENCODING:UTF-8\nCHARSET:NONE\n<OFX>é</OFX>'
+    );
+
+    expect(detectMarkupEncoding(bytes)).toBe('utf-8');
+  });
+
+  it('should detect undeclared encodings from the bytes', () => {
+    expect(detectMarkupEncoding(new TextEncoder().encode('<Doc>é</Doc>'))).toBe('utf-8');
+    expect(detectMarkupEncoding(latin1('<Doc>\u00e9</Doc>'))).toBe('windows-1252');
+  });
+});
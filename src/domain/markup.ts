@@ -0,0 +1,214 @@
+/**
+ * Markup Parsing Functions
+ *
+ * Minimal tolerant parser for the XML and SGML documents produced by banks
+ * (OFX 1.x leaves its leaf elements unclosed, OFX 2.x and CAMT are XML)
+ */
+
+import { CSVEncoding, decodeBytes, detectEncoding } from './csv-format';
+
+export interface MarkupNode {
+  name: string; // Tag name without namespace prefix
+  text: string; // Decoded text content (leaf elements only)
+  children: MarkupNode[];
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+// Highest Unicode code point
+const MAX_CODE_POINT = 0x10ffff;
+
+/**
+ * Decode XML entities in a text node
+ * Unknown entities and out of range character references are kept as is.
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#')) {
+      const codePoint =
+        code[1] === 'x' || code[1] === 'X'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return codePoint <= MAX_CODE_POINT ? String.fromCodePoint(codePoint) : entity;
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Bytes searched for an encoding declaration
+const DECLARATION_BYTES = 1024;
+
+/**
+ * Map a declared character set to a supported encoding
+ * OFX 1.x declares Windows-1252 as "1252"
+ */
+function toEncoding(charset: string): CSVEncoding | null {
+  const name = charset.toLowerCase();
+  if (['1252', 'windows-1252', 'cp1252', 'iso-8859-1', 'iso-8859-15', 'latin1'].includes(name)) {
+    return 'windows-1252';
+  }
+  if (name === 'utf-8' || name === 'utf8') {
+    return 'utf-8';
+  }
+  return null;
+}
+
+/**
+ * Detect the encoding of an OFX or XML document
+ * The `CHARSET:`/`ENCODING:` lines of an OFX 1.x header or the encoding of
+ * the XML prolog come first; undeclared files are detected like CSV files.
+ *
+ * @param bytes - Raw file content
+ * @returns Encoding to decode the file with
+ */
+export function detectMarkupEncoding(bytes: Uint8Array): CSVEncoding {
+  // Declarations are ASCII, whatever the encoding of the rest
+  const header = String.fromCharCode(...bytes.subarray(0, DECLARATION_BYTES));
+  const declarations = [
+    /<\?xml[^>]*\bencoding\s*=\s*["']([^"']+)["']/i,
+    /^\s*CHARSET:\s*(\S+)/m, // NONE when ENCODING says it all
+    /^\s*ENCODING:\s*(\S+)/m, // USASCII next to CHARSET:1252
+  ];
+  for (const declaration of declarations) {
+    const charset = header.match(declaration)?.[1];
+    const encoding = charset && toEncoding(charset);
+    if (encoding) {
+      return encoding;
+    }
+  }
+
+  return detectEncoding(bytes);
+}
+
+/**
+ * Decode an OFX or XML document with its declared encoding
+ */
+export function decodeMarkup(bytes: Uint8Array): string {
+  return decodeBytes(bytes, detectMarkupEncoding(bytes));
+}
+
+/**
+ * Remove a namespace prefix (e.g. "ns2:Ntry" -> "Ntry")
+ */
+function localName(tagName: string): string {
+  const separator = tagName.indexOf(':');
+  return separator === -1 ? tagName : tagName.slice(separator + 1);
+}
+
+/**
+ * Parse an XML or SGML document into a tree
+ * Headers, processing instructions, comments and attributes are ignored.
+ * An element holding text is implicitly closed by the next tag, which is
+ * how SGML leaf elements like `<TRNAMT>-12.50` are ended.
+ *
+ * @param source - Document content
+ * @returns Root node (unnamed) containing the top-level elements
+ */
+export function parseMarkup(source: string): MarkupNode {
+  const root: MarkupNode = { name: '', text: '', children: [] };
+  const stack: MarkupNode[] = [root];
+
+  const content = source
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) =>
+      data.replace(/&/g, '&amp;').replace(/</g, '&lt;')
+    )
+    .replace(/<[?!][\s\S]*?>/g, '');
+
+  const tokenRegex = /<(\/?)([^\s>/]+)[^>]*?(\/?)>|([^<]+)/g;
+  let token: RegExpExecArray | null;
+
+  while ((token = tokenRegex.exec(content)) !== null) {
+    const [, closing, tagName, selfClosing, text] = token;
+    const current = stack[stack.length - 1];
+
+    if (text !== undefined) {
+      // Text before the first element is the OFX 1.x header, skip it
+      const trimmed = text.trim();
+      if (trimmed !== '' && current !== root) {
+        current.text += decodeEntities(trimmed);
+      }
+      continue;
+    }
+
+    const name = localName(tagName);
+
+    if (closing) {
+      // Pop up to the matching element, ignore stray closing tags
+      const index = stack.map(node => node.name).lastIndexOf(name);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    // A leaf element holding text cannot contain other elements
+    if (current !== root && current.text !== '' && current.children.length === 0) {
+      stack.pop();
+    }
+
+    const node: MarkupNode = { name, text: '', children: [] };
+    stack[stack.length - 1].children.push(node);
+
+    if (!selfClosing) {
+      stack.push(node);
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Find the first direct child with the given name
+ *
+ * @param node - Parent node
+ * @param name - Child tag name
+ * @returns Child node or undefined
+ */
+export function findChild(node: MarkupNode, name: string): MarkupNode | undefined {
+  return node.children.find(child => child.name === name);
+}
+
+/**
+ * Find all descendants with the given name (depth-first, document order)
+ *
+ * @param node - Node to search
+ * @param name - Tag name
+ * @returns Matching descendants
+ */
+export function findAll(node: MarkupNode, name: string): MarkupNode[] {
+  const result: MarkupNode[] = [];
+
+  for (const child of node.children) {
+    if (child.name === name) {
+      result.push(child);
+    }
+    result.push(...findAll(child, name));
+  }
+
+  return result;
+}
+
+/**
+ * Get the text of the node found by following a path of child names
+ *
+ * @param node - Starting node
+ * @param path - Child names to follow
+ * @returns Text content, or undefined if the path does not exist
+ */
+export function getText(node: MarkupNode, ...path: string[]): string | undefined {
+  let current: MarkupNode | undefined = node;
+
+  for (const name of path) {
+    current = current && findChild(current, name);
+  }
+
+  return current?.text;
+}
@@ -0,0 +1,120 @@
+/**
+ * Tests for Merchant Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createMerchantMatcher,
+  formatMerchantName,
+  normalizeMerchantKey,
+  planMerchantLinks,
+} from './merchants';
+
+describe('normalizeMerchantKey', () => {
+  it('should strip card payment prefixes, dates and card numbers', () => {
+    expect(normalizeMerchantKey('CB CARREFOUR CITY 12/03 CARTE 4974XXXX')).toBe('CARREFOUR CITY');
+    expect(normalizeMerchantKey('PAIEMENT PAR CARTE X4974 Carrefour City 15.03.25')).toBe(
+      'CARREFOUR CITY'
+    );
+  });
+
+  it('should cut direct debit references', () => {
+    expect(normalizeMerchantKey('PRLV SEPA FREE MOBILE ECH/150325')).toBe('FREE MOBILE');
+    expect(
+      normalizeMerchantKey('PRLV SEPA FREE MOBILE ECH/150425 ID EMETTEUR/FR25ZZZ MDT/FM123')
+    ).toBe('FREE MOBILE');
+  });
+
+  it('should drop reference codes and keep short alphanumeric names', () => {
+    expect(normalizeMerchantKey('VIR SEPA EDF CLIENTS 00012345678')).toBe('EDF CLIENTS');
+    expect(normalizeMerchantKey('CB O2 COIFFURE 01/02 12H30')).toBe('O2 COIFFURE');
+    expect(normalizeMerchantKey('CB AMAZON PAYMENTS 1A2B3C4D5E')).toBe('AMAZON PAYMENTS');
+  });
+
+  it('should ignore accents, case and punctuation', () => {
+    expect(normalizeMerchantKey('cb Boulangerie-Pâtisserie du Marché')).toBe(
+      'BOULANGERIE PATISSERIE DU MARCHE'
+    );
+  });
+
+  it('should return an empty key when only codes are left', () => {
+    expect(normalizeMerchantKey('CHQ 1234567')).toBe('');
+  });
+});
+
+describe('formatMerchantName', () => {
+  it('should capitalize each word', () => {
+    expect(formatMerchantName('FREE MOBILE')).toBe('Free Mobile');
+    expect(formatMerchantName("L'OCCITANE")).toBe("L'occitane");
+  });
+});
+
+describe('createMerchantMatcher', () => {
+  const merchants = [
+    { id: 1, aliases: ['CARREFOUR'] },
+    { id: 2, aliases: ['CARREFOUR CITY', 'CARREFOUR CITY EXPRESS'] },
+    { id: 3, aliases: ['FREE MOBILE'] },
+  ];
+  const match = createMerchantMatcher(merchants);
+
+  it('should match the key of a description to an alias', () => {
+    expect(match('PRLV SEPA FREE MOBILE ECH/150325')?.id).toBe(3);
+    expect(match('CB CARREFOUR CITY 12/03 CARTE 4974XXXX')?.id).toBe(2);
+  });
+
+  it('should match the longest alias starting the key', () => {
+    expect(match('CB CARREFOUR CITY PARIS 15 12/03')?.id).toBe(2);
+    expect(match('CB CARREFOUR MARKET 12/03')?.id).toBe(1);
+  });
+
+  it('should only match whole words', () => {
+    expect(match('CB CARREFOURS 12/03')).toBeNull();
+  });
+
+  it('should return null without a key', () => {
+    expect(match('CHQ 1234567')).toBeNull();
+  });
+});
+
+describe('planMerchantLinks', () => {
+  const merchants = [
+    { id: 1, name: 'Free', aliases: ['FREE MOBILE'] },
+    { id: 2, name: 'Edf Clients', aliases: ['EDF'] },
+  ];
+
+  it('should link known merchants and group the new ones by key', () => {
+    const plan = planMerchantLinks(
+      [
+        'PRLV SEPA FREE MOBILE ECH/150325',
+        'CB CARREFOUR CITY 12/03 CARTE 4974XXXX',
+        'CB CARREFOUR CITY 15/03 CARTE 4974XXXX',
+        'CHQ 1234567',
+      ],
+      merchants
+    );
+
+    expect(plan.known.get('PRLV SEPA FREE MOBILE ECH/150325')?.id).toBe(1);
+    expect(plan.created).toEqual([
+      {
+        key: 'CARREFOUR CITY',
+        name: 'Carrefour City',
+        descriptions: [
+          'CB CARREFOUR CITY 12/03 CARTE 4974XXXX',
+          'CB CARREFOUR CITY 15/03 CARTE 4974XXXX',
+        ],
+      },
+    ]);
+  });
+
+  it('should add a key as alias of the merchant having its name', () => {
+    const plan = planMerchantLinks(['VIR SEPA EDF CLIENTS 00012345678'], [
+      { id: 2, name: 'Edf Clients', aliases: [] },
+    ]);
+
+    expect(plan.known.get('VIR SEPA EDF CLIENTS 00012345678')?.id).toBe(2);
+    expect(plan.newAliases).toEqual([
+      { merchant: { id: 2, name: 'Edf Clients', aliases: [] }, key: 'EDF CLIENTS' },
+    ]);
+    expect(plan.created).toEqual([]);
+  });
+});
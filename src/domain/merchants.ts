@@ -0,0 +1,226 @@
+/**
+ * Merchant Functions
+ *
+ * Pure functions recognizing the merchant behind a bank description, e.g.
+ * "CB CARREFOUR CITY 12/03 CARTE 4974XXXX" and "CARREFOUR CITY 15/03" are
+ * both "Carrefour City"
+ */
+
+import { Merchant } from './types';
+
+/**
+ * Step of the normalization, applied to the uppercased description
+ */
+interface NormalizationStep {
+  name: string;
+  apply: (text: string) => string;
+}
+
+// Payment types opening bank descriptions, longest first
+const PAYMENT_PREFIXES = [
+  'PAIEMENT PAR CARTE',
+  'PRELEVEMENT SEPA',
+  'PRELEVEMENT EUROPEEN',
+  'VIREMENT SEPA RECU',
+  'VIREMENT SEPA EMIS',
+  'VIREMENT SEPA',
+  'VIREMENT INSTANTANE',
+  'VIR SEPA RECU',
+  'VIR SEPA EMIS',
+  'VIR SEPA',
+  'VIR INST',
+  'PRLV SEPA',
+  'RETRAIT DAB',
+  'PAIEMENT CB',
+  'ACHAT CB',
+  'AVOIR CB',
+  'PRELEVEMENT',
+  'VIREMENT',
+  'RETRAIT',
+  'FACTURE CARTE',
+  'CARTE',
+  'PRLV',
+  'VIR',
+  'CB',
+  'CHQ',
+  'CHEQUE',
+];
+
+/**
+ * Steps in order: references are cut before the prefixes are stripped, so
+ * that nothing after a reference marker is taken for the merchant name
+ */
+const NORMALIZATION_STEPS: NormalizationStep[] = [
+  {
+    name: 'references',
+    // ECH/150325, REF: 12AB, MDT/..., ID EMETTEUR/... and everything after them
+    apply: text => text.replace(/\s(?:ECH|REF|MDT|RUM|ID EMETTEUR|NUM|FACT)\s*[/:.].*$/, ''),
+  },
+  {
+    name: 'prefixes',
+    apply: text => {
+      let result = text.trim();
+      let prefix = PAYMENT_PREFIXES.find(candidate => result.startsWith(`${candidate} `));
+      while (prefix) {
+        result = result.slice(prefix.length).trim();
+        prefix = PAYMENT_PREFIXES.find(candidate => result.startsWith(`${candidate} `));
+      }
+      return result;
+    },
+  },
+  {
+    name: 'cards',
+    // 4974XXXX, XXXX1234, CARTE 4974XXXX1234, CARTE X1234
+    apply: text =>
+      text
+        .replace(/\bCARTE\s+[\dX*]+\b/g, ' ')
+        .replace(/\b\d{0,6}[X*]{4,}\d{0,4}\b/g, ' ')
+        .replace(/\bX\d{4}\b/g, ' ')
+        .replace(/\bCARTE\b/g, ' '),
+  },
+  {
+    name: 'dates',
+    // 12/03, 12/03/25, 12.03.2025, 12H30, 12:30
+    apply: text =>
+      text
+        .replace(/\b\d{1,2}[/.-]\d{1,2}(?:[/.-]\d{2,4})?\b/g, ' ')
+        .replace(/\b\d{1,2}[H:]\d{2}\b/g, ' '),
+  },
+  {
+    name: 'codes',
+    // Numbers and codes with 4 digits or more, short ones like O2 are kept
+    apply: text =>
+      text
+        .split(/\s+/)
+        .filter(word => !/^\d+$/.test(word) && (word.match(/\d/g) ?? []).length < 4)
+        .join(' '),
+  },
+  {
+    name: 'punctuation',
+    apply: text =>
+      text
+        .replace(/[^A-Z0-9&' ]+/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim(),
+  },
+];
+
+/**
+ * Reduces a bank description to the key of its merchant
+ * Payment types, card numbers, dates and reference codes are dropped.
+ *
+ * @param description - Description as found in the statement
+ * @returns Uppercase key such as "CARREFOUR CITY", empty when nothing is left
+ */
+export function normalizeMerchantKey(description: string): string {
+  const text = description
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+  return NORMALIZATION_STEPS.reduce((result, step) => step.apply(result), text);
+}
+
+/**
+ * Display name of a merchant key, e.g. "FREE MOBILE" becomes "Free Mobile"
+ */
+export function formatMerchantName(key: string): string {
+  return key
+    .toLowerCase()
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+/**
+ * Builds the lookup of the merchant of a description by its aliases
+ * A key matches an alias exactly, or starts with it followed by more words
+ * (e.g. "CARREFOUR CITY PARIS" matches the alias "CARREFOUR CITY"); the
+ * longest alias wins.
+ *
+ * @param merchants - Merchants with their aliases, as merchant keys
+ * @returns Function giving the merchant of a description, or null
+ */
+export function createMerchantMatcher<T extends Pick<Merchant, 'id' | 'aliases'>>(
+  merchants: T[]
+): (description: string) => T | null {
+  const aliases = merchants
+    .flatMap(merchant => merchant.aliases.map(alias => ({ alias, merchant })))
+    .filter(({ alias }) => alias !== '')
+    .sort((a, b) => b.alias.length - a.alias.length);
+  const exact = new Map(aliases.map(({ alias, merchant }) => [alias, merchant]));
+
+  return description => {
+    const key = normalizeMerchantKey(description);
+    if (key === '') {
+      return null;
+    }
+    return (
+      exact.get(key) ??
+      aliases.find(({ alias }) => key.startsWith(`${alias} `))?.merchant ??
+      null
+    );
+  };
+}
+
+/**
+ * Merchant to create for descriptions matching none, one per key
+ */
+export interface NewMerchant {
+  key: string;
+  name: string;
+}
+
+export interface MerchantLinkPlan<T> {
+  known: Map<string, T>; // Merchant of each description matching an existing one
+  newAliases: { merchant: T; key: string }[]; // Keys of merchants found by name
+  created: (NewMerchant & { descriptions: string[] })[];
+}
+
+/**
+ * Sorts descriptions into known merchants and merchants to create
+ * A new key whose display name is the one of an existing merchant, e.g.
+ * renamed after its first key, becomes an alias of that merchant.
+ *
+ * @param descriptions - Descriptions to link
+ * @param merchants - Existing merchants
+ */
+export function planMerchantLinks<T extends Pick<Merchant, 'id' | 'name' | 'aliases'>>(
+  descriptions: string[],
+  merchants: T[]
+): MerchantLinkPlan<T> {
+  const match = createMerchantMatcher(merchants);
+  const byName = new Map(merchants.map(merchant => [merchant.name.toUpperCase(), merchant]));
+  const plan: MerchantLinkPlan<T> = { known: new Map(), newAliases: [], created: [] };
+
+  [...new Set(descriptions)].forEach(description => {
+    const merchant = match(description);
+    if (merchant) {
+      plan.known.set(description, merchant);
+      return;
+    }
+    const key = normalizeMerchantKey(description);
+    if (key === '') {
+      return;
+    }
+
+    const named = byName.get(key);
+    if (named) {
+      plan.known.set(description, named);
+      if (!plan.newAliases.some(alias => alias.key === key)) {
+        plan.newAliases.push({ merchant: named, key });
+      }
+      return;
+    }
+
+    const entry = plan.created.find(created => created.key === key);
+    if (entry) {
+      entry.descriptions.push(description);
+    } else {
+      plan.created.push({ key, name: formatMerchantName(key), descriptions: [description] });
+    }
+  });
+
+  return plan;
+}
@@ -0,0 +1,165 @@
+/**
+ * Tests for OFX Import Domain Logic
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isOFXContent, parseOFXDate, parseOFXToTransactions } from './ofx-import';
+
+const sgmlStatement = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+SECURITY:NONE
+ENCODING:USASCII
+
+<OFX>
+<SIGNONMSGSRSV1><SONRS><STATUS><CODE>0<SEVERITY>INFO</STATUS><DTSERVER>20250320</SONRS></SIGNONMSGSRSV1>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<TRNUID>1
+<STMTRS>
+<CURDEF>EUR
+<BANKACCTFROM>
+<BANKID>30004
+<BRANCHID>00123
+<ACCTID>00012345678
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20250301
+<DTEND>20250320
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250318
+<TRNAMT>-45,30
+<FITID>FIT001
+<NAME>CB CARREFOUR
+<MEMO>CARTE 4974XXXX
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250317120000.000[+1:CET]
+<TRNAMT>2100.00
+<FITID>FIT002
+<NAME>VIR SALAIRE
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>2025XX17
+<TRNAMT>-10.00
+<FITID>FIT003
+<NAME>BAD DATE
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>`;
+
+const xmlStatement = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE"?>
+<OFX>
+  <CREDITCARDMSGSRSV1>
+    <CCSTMTTRNRS>
+      <CCSTMTRS>
+        <CURDEF>EUR</CURDEF>
+        <CCACCTFROM><ACCTID>4974123412341234</ACCTID></CCACCTFROM>
+        <BANKTRANLIST>
+          <STMTTRN>
+            <TRNTYPE>DEBIT</TRNTYPE>
+            <DTPOSTED>20250305</DTPOSTED>
+            <TRNAMT>-12.00</TRNAMT>
+            <FITID>CC1</FITID>
+            <NAME>Boulangerie &amp; Co</NAME>
+          </STMTTRN>
+          <STMTTRN>
+            <TRNTYPE>DEBIT</TRNTYPE>
+            <DTPOSTED>20250306</DTPOSTED>
+            <TRNAMT>abc</TRNAMT>
+            <FITID>CC2</FITID>
+            <NAME>Pharmacie</NAME>
+          </STMTTRN>
+        </BANKTRANLIST>
+      </CCSTMTRS>
+    </CCSTMTTRNRS>
+  </CREDITCARDMSGSRSV1>
+</OFX>`;
+
+describe('isOFXContent', () => {
+  it('should recognize SGML and XML statements', () => {
+    expect(isOFXContent(sgmlStatement)).toBe(true);
+    expect(isOFXContent(xmlStatement)).toBe(true);
+  });
+
+  it('should not recognize CSV content', () => {
+    expect(isOFXContent('Date;Libellé;Montant\n15/01/2025;CB;-12,50')).toBe(false);
+  });
+});
+
+describe('parseOFXDate', () => {
+  it('should parse dates with or without time and timezone', () => {
+    expect(parseOFXDate('20250318')?.toISOString()).toBe('2025-03-18T00:00:00.000Z');
+    expect(parseOFXDate('20250317120000.000[+1:CET]')?.toISOString()).toBe(
+      '2025-03-17T00:00:00.000Z'
+    );
+  });
+
+  it('should reject malformed or impossible dates', () => {
+    expect(parseOFXDate('2025XX17')).toBeNull();
+    expect(parseOFXDate('20250231')).toBeNull();
+  });
+});
+
+describe('parseOFXToTransactions', () => {
+  it('should parse an SGML bank statement', () => {
+    const result = parseOFXToTransactions(sgmlStatement);
+
+    expect(result.valid.length).toBe(2);
+    expect(result.valid[0]).toEqual({
+      date: new Date(Date.UTC(2025, 2, 18)),
+      description: 'CB CARREFOUR CARTE 4974XXXX',
+      amount: -45.3,
+      externalId: 'FIT001',
+      accountNumber: '00012345678',
+    });
+    expect(result.valid[1].amount).toBe(2100);
+    expect(result.valid[1].description).toBe('VIR SALAIRE');
+  });
+
+  it('should report invalid entries with their index', () => {
+    const result = parseOFXToTransactions(sgmlStatement);
+
+    expect(result.invalid.length).toBe(1);
+    expect(result.invalid[0].rowIndex).toBe(2);
+    expect(result.invalid[0].error).toContain('date');
+  });
+
+  it('should keep account identifiers', () => {
+    const result = parseOFXToTransactions(sgmlStatement);
+
+    expect(result.accounts).toEqual([
+      {
+        accountId: '00012345678',
+        bankId: '30004',
+        branchId: '00123',
+        accountType: 'CHECKING',
+        currency: 'EUR',
+      },
+    ]);
+  });
+
+  it('should parse an XML credit card statement', () => {
+    const result = parseOFXToTransactions(xmlStatement);
+
+    expect(result.valid.length).toBe(1);
+    expect(result.valid[0].description).toBe('Boulangerie & Co');
+    expect(result.valid[0].externalId).toBe('CC1');
+    expect(result.invalid[0].error).toContain('amount');
+    expect(result.accounts[0].accountType).toBe('CREDITCARD');
+  });
+
+  it('should return empty results for a document without statements', () => {
+    const result = parseOFXToTransactions('<OFX></OFX>');
+
+    expect(result).toEqual({ valid: [], invalid: [], accounts: [] });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * OFX Import Domain Logic
+ *
+ * Pure functions for parsing OFX/QFX statements (SGML 1.x and XML 2.x)
+ * into the same shape as CSV imports
+ */
+
+import { InvalidRow, ParseResult, ValidatedTransaction } from './csv-import';
+import { findAll, findChild, getText, MarkupNode, parseMarkup } from './markup';
+
+export interface OFXAccount {
+  accountId: string;
+  bankId?: string;
+  branchId?: string;
+  accountType?: string; // CHECKING, SAVINGS, CREDITCARD...
+  currency?: string;
+}
+
+export interface OFXParseResult extends ParseResult {
+  accounts: OFXAccount[];
+}
+
+/**
+ * Checks whether a file content looks like an OFX statement
+ */
+export function isOFXContent(content: string): boolean {
+  const start = content.slice(0, 1000);
+  return /OFXHEADER\s*[:=]/i.test(start) || /<OFX>/i.test(start);
+}
+
+/**
+ * Parses an OFX date (YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]])
+ * Only the calendar day is kept, as a UTC date
+ */
+export function parseOFXDate(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) {
+    return null;
+  }
+
+  const year = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10) - 1;
+  const day = parseInt(match[3], 10);
+  const date = new Date(Date.UTC(year, month, day));
+
+  // Reject impossible dates such as 20250231
+  if (date.getUTCMonth() !== month || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * Parses an OFX amount, tolerating the comma decimals used by French banks
+ */
+function parseOFXAmount(value: string): number {
+  const normalized = value.trim().replace(',', '.');
+  return /^[+-]?(\d+\.?\d*|\.\d+)$/.test(normalized) ? parseFloat(normalized) : NaN;
+}
+
+/**
+ * Builds a description from NAME and MEMO, avoiding repetitions
+ */
+function buildDescription(name: string, memo: string): string {
+  if (memo === '' || name.includes(memo)) {
+    return name;
+  }
+  if (name === '' || memo.includes(name)) {
+    return memo;
+  }
+  return `${name} ${memo}`;
+}
+
+/**
+ * Reads the account of a statement (bank account or credit card)
+ */
+function readAccount(statement: MarkupNode): OFXAccount {
+  const account =
+    findChild(statement, 'BANKACCTFROM') ?? findChild(statement, 'CCACCTFROM') ?? statement;
+
+  return {
+    accountId: getText(account, 'ACCTID') ?? '',
+    bankId: getText(account, 'BANKID'),
+    branchId: getText(account, 'BRANCHID'),
+    accountType:
+      getText(account, 'ACCTTYPE') ??
+      (statement.name === 'CCSTMTRS' ? 'CREDITCARD' : undefined),
+    currency: getText(statement, 'CURDEF'),
+  };
+}
+
+/**
+ * Parses an OFX document into valid and invalid transactions
+ * Row indices count STMTTRN elements in document order
+ */
+export function parseOFXToTransactions(content: string): OFXParseResult {
+  const document = parseMarkup(content);
+  const statements = [...findAll(document, 'STMTRS'), ...findAll(document, 'CCSTMTRS')];
+
+  const valid: ValidatedTransaction[] = [];
+  const invalid: InvalidRow[] = [];
+  const accounts: OFXAccount[] = [];
+  let rowIndex = 0;
+
+  for (const statement of statements) {
+    const account = readAccount(statement);
+    accounts.push(account);
+
+    for (const entry of findAll(statement, 'STMTTRN')) {
+      const index = rowIndex++;
+      const datePosted = getText(entry, 'DTPOSTED') ?? '';
+      const name = (getText(entry, 'NAME') ?? getText(entry, 'PAYEE', 'NAME') ?? '').trim();
+      const memo = (getText(entry, 'MEMO') ?? '').trim();
+      const rawAmount = getText(entry, 'TRNAMT') ?? '';
+      const fitId = getText(entry, 'FITID');
+      const row = [datePosted, name, memo, rawAmount];
+
+      const date = parseOFXDate(datePosted);
+      if (!date) {
+        invalid.push({ rowIndex: index, row, error: 'Invalid date format' });
+        continue;
+      }
+
+      const description = buildDescription(name, memo);
+      if (description === '') {
+        invalid.push({ rowIndex: index, row, error: 'Description cannot be empty' });
+        continue;
+      }
+
+      const amount = parseOFXAmount(rawAmount);
+      if (isNaN(amount)) {
+        invalid.push({ rowIndex: index, row, error: 'Invalid amount format' });
+        continue;
+      }
+
+      valid.push({
+        date,
+        description,
+        amount,
+        externalId: fitId || undefined,
+        accountNumber: account.accountId || undefined,
+      });
+    }
+  }
+
+  return { valid, invalid, accounts };
+}
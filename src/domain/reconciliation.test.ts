@@ -0,0 +1,99 @@
+/**
+ * Tests for Statement Reconciliation Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { reconcileBalances } from './reconciliation';
+
+// Oldest first, balance after each row
+const statement = [
+  { amount: -20, balance: 980 },
+  { amount: 1500, balance: 2480 },
+  { amount: -45.3, balance: 2434.7 },
+  { amount: -4.7, balance: 2430 },
+];
+
+describe('reconcileBalances', () => {
+  it('should return null without stated balances', () => {
+    expect(reconcileBalances([{ amount: -20 }, { amount: 10 }])).toBeNull();
+  });
+
+  it('should reconcile a consistent statement', () => {
+    const result = reconcileBalances(statement);
+
+    expect(result).toEqual({
+      order: 'file',
+      checkedCount: 3,
+      openingBalance: 1000,
+      closingBalance: 2430,
+      issues: [],
+      reconciled: true,
+    });
+  });
+
+  it('should detect newest-first exports', () => {
+    const result = reconcileBalances([...statement].reverse());
+
+    expect(result?.order).toBe('reversed');
+    expect(result?.reconciled).toBe(true);
+    expect(result?.openingBalance).toBe(1000);
+    expect(result?.closingBalance).toBe(2430);
+  });
+
+  it('should carry amounts of rows without balance to the next stated balance', () => {
+    const result = reconcileBalances([
+      { amount: -20 },
+      { amount: 1500, balance: 2480 },
+      { amount: -45.3 },
+      { amount: -4.7, balance: 2430 },
+      { amount: -30 },
+    ]);
+
+    expect(result?.reconciled).toBe(true);
+    expect(result?.checkedCount).toBe(1);
+    expect(result?.openingBalance).toBe(1000);
+    expect(result?.closingBalance).toBe(2400);
+  });
+
+  it('should flag missing rows', () => {
+    const result = reconcileBalances([statement[0], statement[1], statement[3]]);
+
+    expect(result?.reconciled).toBe(false);
+    expect(result?.issues).toEqual([
+      {
+        kind: 'missing-rows',
+        index: 2,
+        previousIndex: 1,
+        expectedBalance: 2475.3,
+        statedBalance: 2430,
+        difference: -45.3,
+      },
+    ]);
+  });
+
+  it('should flag duplicated rows', () => {
+    const result = reconcileBalances([statement[0], statement[1], statement[1], statement[2]]);
+
+    expect(result?.issues).toHaveLength(1);
+    expect(result?.issues[0]).toMatchObject({
+      kind: 'duplicate-row',
+      index: 2,
+      previousIndex: 1,
+      difference: -1500,
+    });
+  });
+
+  it('should report each gap once', () => {
+    const result = reconcileBalances([
+      { amount: -10, balance: 90 },
+      { amount: -10, balance: 50 },
+      { amount: -10, balance: 40 },
+      { amount: -10, balance: 10 },
+    ]);
+
+    expect(result?.issues.map(issue => [issue.index, issue.difference])).toEqual([
+      [1, -30],
+      [3, -20],
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Statement Reconciliation Functions
+ *
+ * Pure functions recomputing the running balance of an imported statement
+ * from its amounts and comparing it with the balance stated by the bank,
+ * to spot missing or duplicated rows before they are imported
+ */
+
+import { ValidatedTransaction } from './csv-import';
+
+/**
+ * - missing-rows: the stated balance moved by more than the rows in between,
+ *   some operations are missing from the file (or were filtered out)
+ * - duplicate-row: the stated balance did not move although the row has an
+ *   amount, the row repeats an operation already counted
+ */
+export type ReconciliationIssueKind = 'missing-rows' | 'duplicate-row';
+
+export interface ReconciliationIssue {
+  kind: ReconciliationIssueKind;
+  index: number; // Row where the balances diverge, in the checked transactions
+  previousIndex: number; // Last row with a stated balance before it
+  expectedBalance: number; // Previous stated balance plus the amounts in between
+  statedBalance: number;
+  difference: number; // Stated minus expected balance
+}
+
+export interface ReconciliationResult {
+  order: 'file' | 'reversed'; // Chronological order of the rows
+  checkedCount: number; // Rows whose stated balance was compared
+  openingBalance: number; // Balance before the first row
+  closingBalance: number; // Balance after the last row
+  issues: ReconciliationIssue[];
+  reconciled: boolean;
+}
+
+// Balances are compared to the cent
+const TOLERANCE = 0.005;
+
+type BalanceRow = Pick<ValidatedTransaction, 'amount' | 'balance'>;
+
+/**
+ * Rounds an amount to cents, avoiding floating point drift in long sums
+ */
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Walks rows in chronological order and compares each stated balance with
+ * the previous one plus the amounts in between. Rows without a balance
+ * (banks often state it once a day) are carried over to the next check.
+ */
+function checkChain(rows: BalanceRow[], indices: number[]) {
+  const issues: ReconciliationIssue[] = [];
+  let anchor: { index: number; balance: number } | null = null;
+  let openingBalance = 0;
+  let pending = 0; // Amounts since the last stated balance
+  let checkedCount = 0;
+
+  for (const index of indices) {
+    const { amount, balance } = rows[index];
+    pending += amount;
+    if (balance === undefined) {
+      continue;
+    }
+
+    if (anchor === null) {
+      openingBalance = balance - pending;
+    } else {
+      checkedCount++;
+      const expectedBalance = roundCents(anchor.balance + pending);
+      const difference = roundCents(balance - expectedBalance);
+
+      if (Math.abs(difference) >= TOLERANCE) {
+        const unchanged = Math.abs(balance - (expectedBalance - amount)) < TOLERANCE;
+        issues.push({
+          kind: unchanged && amount !== 0 ? 'duplicate-row' : 'missing-rows',
+          index,
+          previousIndex: anchor.index,
+          expectedBalance,
+          statedBalance: balance,
+          difference,
+        });
+      }
+    }
+
+    // Restart from the stated balance so that a gap is reported only once
+    anchor = { index, balance };
+    pending = 0;
+  }
+
+  return {
+    issues,
+    checkedCount,
+    openingBalance: roundCents(openingBalance),
+    closingBalance: roundCents((anchor?.balance ?? openingBalance) + pending),
+  };
+}
+
+/**
+ * Reconciles the stated balances of an imported statement
+ * Exports list rows oldest or newest first: both orders are tried and the one
+ * whose balances agree best is kept.
+ *
+ * @param transactions - Parsed rows, in file order
+ * @returns Reconciliation, or null when no row states a balance
+ */
+export function reconcileBalances(transactions: BalanceRow[]): ReconciliationResult | null {
+  if (!transactions.some(t => t.balance !== undefined)) {
+    return null;
+  }
+
+  const fileOrder = transactions.map((_, index) => index);
+  const candidates = [
+    { order: 'file' as const, ...checkChain(transactions, fileOrder) },
+    { order: 'reversed' as const, ...checkChain(transactions, [...fileOrder].reverse()) },
+  ];
+  const { issues, ...best } = candidates.reduce((a, b) =>
+    b.issues.length < a.issues.length ? b : a
+  );
+
+  return { ...best, issues, reconciled: issues.length === 0 };
+}
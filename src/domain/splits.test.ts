@@ -0,0 +1,93 @@
+/**
+ * Tests for Split Transaction Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expandSplits, getRemainingAmount, isSplit, validateSplits } from './splits';
+import { Transaction } from './types';
+
+const receipt: Transaction = {
+  id: 1,
+  date: new Date('2025-03-08'),
+  description: 'CB HYPERMARCHE',
+  amount: -120.5,
+  categoryId: null,
+  splits: [
+    { amount: -70.3, categoryId: 1 },
+    { amount: -20.2, categoryId: 2 },
+    { amount: -30, categoryId: 3, note: 'Pantalon' },
+  ],
+};
+
+const coffee: Transaction = {
+  id: 2,
+  date: new Date('2025-03-09'),
+  description: 'CB CAFE',
+  amount: -2.5,
+  categoryId: 1,
+};
+
+describe('isSplit', () => {
+  it('should tell split transactions apart', () => {
+    expect(isSplit(receipt)).toBe(true);
+    expect(isSplit(coffee)).toBe(false);
+    expect(isSplit({ ...coffee, splits: [] })).toBe(false);
+  });
+});
+
+describe('getRemainingAmount', () => {
+  it('should compute the amount left in cents', () => {
+    expect(getRemainingAmount(-120.5, [{ amount: -70.3 }, { amount: -20.1 }])).toBe(-30.1);
+    expect(getRemainingAmount(0.3, [{ amount: 0.1 }, { amount: 0.2 }])).toBe(0);
+  });
+});
+
+describe('validateSplits', () => {
+  it('should accept lines summing to the amount', () => {
+    expect(validateSplits(receipt.amount, receipt.splits ?? [])).toBeNull();
+  });
+
+  it('should require at least two lines', () => {
+    expect(validateSplits(-10, [{ amount: -10, categoryId: 1 }])).toMatch(/deux lignes/);
+  });
+
+  it('should refuse empty lines and lines of the opposite sign', () => {
+    expect(
+      validateSplits(-10, [
+        { amount: -10, categoryId: 1 },
+        { amount: 0, categoryId: 2 },
+      ])
+    ).toMatch(/montant/);
+    expect(
+      validateSplits(-10, [
+        { amount: -15, categoryId: 1 },
+        { amount: 5, categoryId: 2 },
+      ])
+    ).toMatch(/débits/);
+  });
+
+  it('should report the gap when the sum differs', () => {
+    expect(
+      validateSplits(-10, [
+        { amount: -4, categoryId: 1 },
+        { amount: -5, categoryId: 2 },
+      ])
+    ).toMatch(/écart de -1\.00 €/);
+  });
+});
+
+describe('expandSplits', () => {
+  it('should replace split transactions by their lines', () => {
+    const lines = expandSplits([receipt, coffee]);
+
+    expect(lines).toHaveLength(4);
+    expect(lines[2]).toEqual({
+      id: 1,
+      date: receipt.date,
+      description: 'CB HYPERMARCHE',
+      amount: -30,
+      categoryId: 3,
+    });
+    expect(lines[3]).toBe(coffee);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Split Transaction Functions
+ *
+ * Pure functions for transactions split across several categories, e.g. a
+ * hypermarket receipt covering groceries, household goods and clothing
+ */
+
+import { Transaction, TransactionSplit } from './types';
+
+// Lines are compared to the transaction amount in cents
+const toCents = (amount: number) => Math.round(amount * 100);
+
+export function isSplit(transaction: Transaction): boolean {
+  return (transaction.splits?.length ?? 0) > 0;
+}
+
+/**
+ * Amount still to assign to a line
+ */
+export function getRemainingAmount(amount: number, splits: Pick<TransactionSplit, 'amount'>[]): number {
+  return (toCents(amount) - splits.reduce((sum, split) => sum + toCents(split.amount), 0)) / 100;
+}
+
+/**
+ * Checks the lines of a split transaction
+ * @returns Error message for the user, or null when valid
+ */
+export function validateSplits(amount: number, splits: TransactionSplit[]): string | null {
+  if (splits.length < 2) {
+    return 'Une ventilation compte au moins deux lignes';
+  }
+  if (splits.some(split => toCents(split.amount) === 0)) {
+    return 'Chaque ligne doit avoir un montant';
+  }
+  if (splits.some(split => Math.sign(split.amount) !== Math.sign(amount))) {
+    return amount < 0
+      ? 'Les lignes d\'un débit doivent être des débits'
+      : 'Les lignes d\'un crédit doivent être des crédits';
+  }
+
+  const remaining = getRemainingAmount(amount, splits);
+  if (remaining !== 0) {
+    return `La somme des lignes doit être égale au montant de la transaction (écart de ${remaining.toFixed(2)} €)`;
+  }
+  return null;
+}
+
+/**
+ * Replaces split transactions by one transaction per line
+ * Lines keep the ID, date and description of their transaction, with the
+ * amount and category of the line. Other transactions are left as they are.
+ */
+export function expandSplits<T extends Transaction>(transactions: T[]): T[] {
+  return transactions.flatMap(transaction => {
+    if (!isSplit(transaction)) {
+      return [transaction];
+    }
+
+    const { splits, ...line } = transaction;
+    return (splits ?? []).map(split => ({
+      ...line,
+      amount: split.amount,
+      categoryId: split.categoryId,
+    })) as T[];
+  });
+}
@@ -6,6 +6,7 @@ import { describe, it, expect } from 'vitest';
 import {
   calculateSpendingStats,
   calculateStatsByCategory,
+  calculateStatsByTag,
   calculateDailyAverage,
   calculateMonthlyAverage,
   calculateStandardDeviation,
@@ -155,6 +156,100 @@ describe('calculateStatsByCategory', () => {
     const statsByCategory = calculateStatsByCategory([]);
     expect(statsByCategory.size).toBe(0);
   });
+
+  it('should count the lines of split transactions in their categories', () => {
+    const transactions: Transaction[] = [
+      {
+        id: 1,
+        date: new Date('2024-01-01'),
+        description: 'Hypermarché',
+        amount: -100,
+        categoryId: null,
+        splits: [
+          { amount: -70, categoryId: 1 },
+          { amount: -30, categoryId: 2 },
+        ],
+      },
+      { id: 2, date: new Date('2024-01-02'), description: 'Boulangerie', amount: -10, categoryId: 1 },
+    ];
+
+    const statsByCategory = calculateStatsByCategory(transactions);
+
+    expect(statsByCategory.has(0)).toBe(false);
+    expect(statsByCategory.get(1)?.total).toBe(80);
+    expect(statsByCategory.get(1)?.count).toBe(2);
+    expect(statsByCategory.get(2)?.total).toBe(30);
+  });
+
+  it('should roll subcategories up to the given depth', () => {
+    const categories = [
+      { id: 1, name: 'Alimentation' },
+      { id: 2, name: 'Courses', parentId: 1 },
+      { id: 3, name: 'Bio', parentId: 2 },
+    ];
+    const transactions: Transaction[] = [
+      { id: 1, date: new Date('2024-01-01'), description: 'Marché', amount: 20, categoryId: 1 },
+      { id: 2, date: new Date('2024-01-02'), description: 'Carrefour', amount: 100, categoryId: 2 },
+      { id: 3, date: new Date('2024-01-03'), description: 'Biocoop', amount: 60, categoryId: 3 },
+    ];
+
+    const topLevel = calculateStatsByCategory(transactions, { categories, depth: 0 });
+    const secondLevel = calculateStatsByCategory(transactions, { categories, depth: 1 });
+
+    expect([...topLevel.keys()]).toEqual([1]);
+    expect(topLevel.get(1)?.total).toBe(180);
+    expect(secondLevel.get(1)?.total).toBe(20);
+    expect(secondLevel.get(2)?.total).toBe(160);
+    expect(secondLevel.get(2)?.count).toBe(2);
+  });
+});
+
+describe('calculateStatsByTag', () => {
+  it('should count a transaction in each of its tags', () => {
+    const transactions: Transaction[] = [
+      { id: 1, date: new Date('2024-01-01'), description: 'Hotel', amount: -300, categoryId: 1, tagIds: [1, 2] },
+      { id: 2, date: new Date('2024-01-02'), description: 'Train', amount: -100, categoryId: 2, tagIds: [1] },
+      { id: 3, date: new Date('2024-01-03'), description: 'Groceries', amount: -50, categoryId: 3 },
+    ];
+
+    const statsByTag = calculateStatsByTag(transactions);
+
+    expect(statsByTag.size).toBe(2);
+    expect(statsByTag.get(1)?.total).toBe(400);
+    expect(statsByTag.get(1)?.count).toBe(2);
+    expect(statsByTag.get(2)?.total).toBe(300);
+    expect(statsByTag.get(2)?.max).toBe(300);
+  });
+
+  it('should count split transactions once with their full amount', () => {
+    const transactions: Transaction[] = [
+      {
+        id: 1,
+        date: new Date('2024-01-01'),
+        description: 'Hypermarket',
+        amount: -150,
+        categoryId: null,
+        tagIds: [1],
+        splits: [
+          { amount: -100, categoryId: 1 },
+          { amount: -50, categoryId: 2 },
+        ],
+      },
+    ];
+
+    const stats = calculateStatsByTag(transactions).get(1);
+
+    expect(stats?.total).toBe(150);
+    expect(stats?.count).toBe(1);
+  });
+
+  it('should return an empty map without tagged transactions', () => {
+    const transactions: Transaction[] = [
+      { id: 1, date: new Date('2024-01-01'), description: 'Item', amount: 100, categoryId: 1, tagIds: [] },
+    ];
+
+    expect(calculateStatsByTag(transactions).size).toBe(0);
+  });
 });
 
 describe('calculateDailyAverage', () => {
@@ -5,7 +5,9 @@
  * All functions handle edge cases and return safe defaults
  */
 
-import { Transaction, SpendingStats } from './types';
+import { Transaction, SpendingStats, Category } from './types';
+import { rollUpTransactions } from './category-tree';
+import { expandSplits } from './splits';
 
 /**
  * Calculate comprehensive spending statistics for a set of transactions
@@ -59,19 +61,27 @@ export function calculateSpendingStats(transactions: Transaction[]): SpendingSta
 
 /**
  * Calculate spending statistics grouped by category
+ * Split transactions count once per line, in the category of the line.
+ * With a hierarchy, subcategories deeper than the depth count in their ancestor.
  *
  * @param transactions - Array of transactions to analyze
+ * @param hierarchy - Categories and depth to roll up to (0 = top level), leaves when omitted
  * @returns Map of categoryId to SpendingStats
  */
 export function calculateStatsByCategory(
-  transactions: Transaction[]
+  transactions: Transaction[],
+  hierarchy?: { categories: Category[]; depth: number }
 ): Map<number, SpendingStats> {
   const statsByCategory = new Map<number, SpendingStats>();
+  const lines = expandSplits(transactions);
+  const grouped = hierarchy
+    ? rollUpTransactions(lines, hierarchy.categories, hierarchy.depth)
+    : lines;
 
   // Group transactions by category
   const transactionsByCategory = new Map<number, Transaction[]>();
 
-  for (const transaction of transactions) {
+  for (const transaction of grouped) {
     const categoryId = transaction.categoryId ?? 0; // 0 for uncategorized
     const existing = transactionsByCategory.get(categoryId) ?? [];
     transactionsByCategory.set(categoryId, [...existing, transaction]);
@@ -85,6 +95,32 @@ export function calculateStatsByCategory(
   return statsByCategory;
 }
 
+/**
+ * Calculate spending statistics grouped by tag
+ * A transaction counts once in each of its tags, so the totals of several
+ * tags may overlap. Untagged transactions are left out.
+ *
+ * @param transactions - Array of transactions to analyze
+ * @returns Map of tagId to SpendingStats
+ */
+export function calculateStatsByTag(transactions: Transaction[]): Map<number, SpendingStats> {
+  const transactionsByTag = new Map<number, Transaction[]>();
+
+  for (const transaction of transactions) {
+    for (const tagId of new Set(transaction.tagIds ?? [])) {
+      const existing = transactionsByTag.get(tagId) ?? [];
+      transactionsByTag.set(tagId, [...existing, transaction]);
+    }
+  }
+
+  return new Map(
+    [...transactionsByTag].map(([tagId, tagTransactions]) => [
+      tagId,
+      calculateSpendingStats(tagTransactions),
+    ])
+  );
+}
+
 /**
  * Calculate the average spending per day over a date range
  *
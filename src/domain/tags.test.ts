@@ -0,0 +1,62 @@
+/**
+ * Tests for Tag Functions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findTagNameConflict, normalizeTagName, parseTagNames } from './tags';
+
+describe('normalizeTagName', () => {
+  it('should lowercase and join words with hyphens', () => {
+    expect(normalizeTagName('  Vacances   2025 ')).toBe('vacances-2025');
+  });
+
+  it('should keep accents', () => {
+    expect(normalizeTagName('Remboursé')).toBe('remboursé');
+  });
+
+  it('should not leave leading, trailing or repeated hyphens', () => {
+    expect(normalizeTagName('- note de  frais -')).toBe('note-de-frais');
+    expect(normalizeTagName('a--b')).toBe('a-b');
+  });
+
+  it('should return an empty name for blank input', () => {
+    expect(normalizeTagName('   ')).toBe('');
+  });
+});
+
+describe('parseTagNames', () => {
+  it('should split on commas and normalize each name', () => {
+    expect(parseTagNames('Vacances 2025, remboursable')).toEqual([
+      'vacances-2025',
+      'remboursable',
+    ]);
+  });
+
+  it('should drop empty names and duplicates', () => {
+    expect(parseTagNames('pro, , PRO,perso,')).toEqual(['pro', 'perso']);
+  });
+
+  it('should return no names for an empty field', () => {
+    expect(parseTagNames('')).toEqual([]);
+  });
+});
+
+describe('findTagNameConflict', () => {
+  const tags = [
+    { id: 1, name: 'remboursé' },
+    { id: 2, name: 'vacances-2025' },
+  ];
+
+  it('should find a tag differing by case, spacing or accents', () => {
+    expect(findTagNameConflict(tags, 'Rembourse')?.id).toBe(1);
+    expect(findTagNameConflict(tags, 'Vacances 2025')?.id).toBe(2);
+  });
+
+  it('should ignore the tag being renamed', () => {
+    expect(findTagNameConflict(tags, 'remboursé', 1)).toBeNull();
+  });
+
+  it('should return null for a new name', () => {
+    expect(findTagNameConflict(tags, 'pro')).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Tag Functions
+ *
+ * Pure functions normalizing tag names, e.g. "Vacances 2025" typed in a
+ * form becomes the tag "vacances-2025"
+ */
+
+import { normalizeCategoryName } from './categories';
+import { Tag } from './types';
+
+/**
+ * Normalizes a tag name: lowercase, words joined by hyphens
+ */
+export function normalizeTagName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[\s,]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Reads the tags typed in a single field, separated by commas
+ * @returns Normalized names without duplicates, in typing order
+ */
+export function parseTagNames(text: string): string[] {
+  return [
+    ...new Set(text.split(',').map(normalizeTagName).filter(name => name !== '')),
+  ];
+}
+
+/**
+ * Finds an existing tag with the same name, accents ignored
+ *
+ * @param tags - Existing tags
+ * @param name - Name of the tag being created or renamed
+ * @param excludeId - Tag being renamed, which may keep its name
+ * @returns Conflicting tag, or null
+ */
+export function findTagNameConflict<T extends Pick<Tag, 'id' | 'name'>>(
+  tags: T[],
+  name: string,
+  excludeId?: number
+): T | null {
+  const normalized = normalizeCategoryName(normalizeTagName(name));
+  return (
+    tags.find(
+      tag => tag.id !== excludeId && normalizeCategoryName(normalizeTagName(tag.name)) === normalized
+    ) ?? null
+  );
+}
@@ -9,12 +9,66 @@ export interface Transaction {
   description: string;
   amount: number;
   categoryId: number | null;
+  accountId?: number | null; // Bank account, null when imported without one
+  splits?: TransactionSplit[]; // Lines across categories, missing or empty when not split
+  tagIds?: number[]; // Tags of the transaction, shared by its split lines
+  merchantId?: number | null; // Merchant recognized from the description
+}
+
+/**
+ * Line of a split transaction, e.g. the clothing part of a hypermarket receipt
+ */
+export interface TransactionSplit {
+  id?: number;
+  amount: number; // Same sign as the transaction, lines sum to its amount
+  categoryId: number | null;
+  note?: string | null;
+}
+
+export interface Account {
+  id: number;
+  name: string;
+  bank?: string | null;
+  ibanMask?: string | null;
+  currency: string;
+  openingBalance: number; // Balance before the first recorded transaction
 }
 
 export interface Category {
   id: number;
   name: string;
   color?: string | null;
+  parentId?: number | null; // Null or missing for a top-level category
+}
+
+/**
+ * Free-form label, a transaction can have several whatever its category
+ */
+export interface Tag {
+  id: number;
+  name: string;
+  color?: string | null;
+}
+
+/**
+ * Shop or company behind transactions whose descriptions vary
+ */
+export interface Merchant {
+  id: number;
+  name: string;
+  categoryId: number | null; // Default category of its transactions
+  aliases: string[]; // Merchant keys of its descriptions, e.g. "CARREFOUR CITY"
+}
+
+/**
+ * Monthly spending limit of a category, subcategories included
+ */
+export interface Budget {
+  id?: number;
+  categoryId: number;
+  amount: number; // Per month, positive
+  rollover: boolean; // Unspent amounts carry over to the next month
+  startDate: Date; // First budgeted month at UTC midnight, the day is ignored
 }
 
 export interface CategorySpending {
@@ -26,11 +80,25 @@ export interface CategorySpending {
   cumulativePercentage: number;
 }
 
+/**
+ * Spending of a category including its subcategories, to drill down
+ */
+export interface CategorySpendingNode {
+  categoryId: number;
+  categoryName: string;
+  depth: number; // 0 for a top-level category
+  totalAmount: number;
+  transactionCount: number;
+  percentage: number;
+  children: CategorySpendingNode[];
+}
+
 export interface ParetoAnalysisResult {
   categories: CategorySpending[];
   paretoCategories: CategorySpending[]; // Top 20% that make 80% of spending
   totalSpending: number;
   paretoThreshold: number; // The spending amount at 80%
+  tree: CategorySpendingNode[]; // Whole hierarchy, whatever the analyzed depth
 }
 
 export interface SpendingStats {
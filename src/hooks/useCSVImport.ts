@@ -1,80 +1,504 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import Papa from 'papaparse';
 import {
   detectColumnHeaders,
   parseCSVToTransactions,
+  resolveMappingDateFormat,
   ColumnMapping,
+  DateFormat,
   ParseResult,
 } from '@/domain/csv-import';
+import { DuplicateStatus } from '@/domain/duplicates';
+import { BUILT_IN_PROFILES, ImportProfile, matchImportProfile } from '@/domain/import-profiles';
+import { isOFXContent, parseOFXToTransactions } from '@/domain/ofx-import';
+import { isCAMTContent, parseCAMTToTransactions } from '@/domain/camt-import';
+import { decodeMarkup } from '@/domain/markup';
+import { CSVFormat, detectCSVFormat } from '@/domain/csv-format';
+import { matchAccount } from '@/domain/accounts';
+import { DataBlock, detectDataBlock } from '@/domain/data-block';
+import {
+  EMPTY_SELECTION,
+  PreviewSelection,
+  RowEdit,
+  fixInvalidRow,
+  selectTransactions,
+  setRowCategory,
+  toggleExcluded,
+  validateRowEdit,
+} from '@/domain/import-preview';
+import { Category } from '@/domain/types';
+import type { ApiErrorBody } from '@/lib/api-errors';
+
+// Larger CSV files are only previewed in the browser and parsed by the server
+const STREAMING_THRESHOLD_BYTES = 2 * 1024 * 1024;
+const PREVIEW_ROWS = 200;
+const SAMPLE_BYTES = 256 * 1024;
+const PROGRESS_POLL_INTERVAL_MS = 1000;
 
 type ImportStep = 'select-file' | 'map-columns' | 'preview' | 'importing' | 'complete';
 
+export type SourceFormat = 'csv' | 'ofx' | 'camt';
+
+export interface PreviousImport {
+  id: number;
+  fileName: string;
+  createdAt: string;
+}
+
+export interface DuplicateCheck {
+  statuses: DuplicateStatus[]; // Aligned with parseResult.valid
+  duplicateCount: number;
+  suspiciousCount: number;
+  previousImport: PreviousImport | null; // Same file already imported
+}
+
+export interface ImportResult {
+  batchId: number;
+  inserted: number;
+  skipped: number;
+  suspicious: number;
+}
+
+export interface ImportProgress {
+  processedBytes: number;
+  totalBytes: number | null;
+  rowCount: number;
+  insertedCount: number;
+}
+
+export interface ImportAccount {
+  id: number;
+  name: string;
+  ibanMask: string | null;
+}
+
 export interface CSVImportState {
   step: ImportStep;
   file: File | null;
+  fileHash: string | null;
+  sourceFormat: SourceFormat;
   headers: string[];
+  rows: string[][]; // All rows read from the file, preamble and footer included
+  dataBlock: DataBlock; // Header row and end of the transactions in rows
   rawData: string[][];
+  matchedProfile: ImportProfile | null;
   columnMapping: ColumnMapping | null;
+  dateFormatCandidates: DateFormat[]; // Non-empty when the user must pick the date format
   parseResult: ParseResult | null;
+  selection: PreviewSelection; // Excluded and categorized rows of parseResult.valid
+  duplicateCheck: DuplicateCheck | null;
+  importResult: ImportResult | null;
+  streaming: boolean; // File too large to import from the browser
+  csvFormat: CSVFormat | null; // Encoding, delimiter and quote character in use
+  csvFormatOverrides: Partial<CSVFormat>; // Settings chosen by the user
+  progress: ImportProgress | null;
+  accounts: ImportAccount[];
+  accountId: number | null; // Account the transactions are attached to
+  categories: Category[];
   error: string | null;
 }
 
 export interface CSVImportActions {
   selectFile: (file: File) => void;
   setColumnMapping: (mapping: ColumnMapping) => void;
+  setCSVFormat: (overrides: Partial<CSVFormat>) => void;
+  setDataBlock: (dataBlock: DataBlock) => void;
+  setAccount: (accountId: number | null) => void;
+  toggleRow: (index: number) => void;
+  setRowCategory: (index: number, categoryId: number | null) => void;
+  fixRow: (rowIndex: number, edit: RowEdit) => void;
   parseData: () => void;
+  chooseDateFormat: (format: DateFormat) => void;
+  editMapping: () => void;
   confirmImport: () => Promise<void>;
+  saveProfile: (name: string) => Promise<void>;
   reset: () => void;
 }
 
 const initialState: CSVImportState = {
   step: 'select-file',
   file: null,
+  fileHash: null,
+  sourceFormat: 'csv',
   headers: [],
+  rows: [],
+  dataBlock: { headerRowIndex: 0, endRowIndex: 0 },
   rawData: [],
+  matchedProfile: null,
   columnMapping: null,
+  dateFormatCandidates: [],
   parseResult: null,
+  selection: EMPTY_SELECTION,
+  duplicateCheck: null,
+  importResult: null,
+  streaming: false,
+  csvFormat: null,
+  csvFormatOverrides: {},
+  progress: null,
+  accounts: [],
+  accountId: null,
+  categories: [],
   error: null,
 };
 
+/**
+ * Decodes bytes with the detected or overridden format and splits them into rows
+ * A sample of a large file may end in the middle of a line, which is dropped
+ */
+function readCSV(
+  bytes: Uint8Array,
+  overrides: Partial<CSVFormat>,
+  sample: boolean
+): { format: CSVFormat; rows: string[][] } {
+  const { format, text } = detectCSVFormat(bytes, overrides);
+  const content = sample ? text.slice(0, text.lastIndexOf('\n') + 1) : text;
+
+  const { data } = Papa.parse<string[]>(content, {
+    skipEmptyLines: true,
+    delimiter: format.delimiter,
+    quoteChar: format.quoteChar,
+    preview: sample ? PREVIEW_ROWS : 0,
+  });
+
+  return { format, rows: data };
+}
+
+/**
+ * Builds a user message from an API error, listing the first invalid rows
+ */
+function describeApiError(data: Partial<ApiErrorBody>, fallback: string): string {
+  const message = data.error || fallback;
+  if (!data.rows || data.rows.length === 0) {
+    return message;
+  }
+
+  const rows = data.rows
+    .slice(0, 3)
+    .map((row) => `ligne ${row.index + 1} : ${row.message}`)
+    .join(', ');
+  const more = data.rows.length > 3 ? ` (et ${data.rows.length - 3} autres erreurs)` : '';
+  return `${message} : ${rows}${more}`;
+}
+
+/**
+ * Computes the SHA-256 of a file, used to recognize a file imported twice
+ */
+async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Headers and data rows of the file within the given boundaries
+ */
+function sliceDataBlock(rows: string[][], dataBlock: DataBlock) {
+  return {
+    rows,
+    dataBlock,
+    headers: detectColumnHeaders(rows[dataBlock.headerRowIndex] ?? []),
+    rawData: rows.slice(dataBlock.headerRowIndex + 1, dataBlock.endRowIndex),
+  };
+}
+
+/**
+ * Fixes the date format of the mapping from the data, then parses the rows
+ * Stays on the mapping step when the date column is ambiguous
+ */
+function parseWithMapping(
+  prev: CSVImportState,
+  rows: string[][],
+  columnMapping: ColumnMapping
+): CSVImportState {
+  const { mapping, inference } = resolveMappingDateFormat(rows, columnMapping);
+
+  if (inference?.ambiguous) {
+    return {
+      ...prev,
+      rawData: rows,
+      columnMapping: mapping,
+      dateFormatCandidates: inference.candidates,
+      step: 'map-columns',
+      error: null,
+    };
+  }
+
+  return {
+    ...prev,
+    rawData: rows,
+    columnMapping: mapping,
+    dateFormatCandidates: [],
+    parseResult: parseCSVToTransactions(rows, mapping),
+    selection: EMPTY_SELECTION,
+    duplicateCheck: null,
+    step: 'preview',
+    error: null,
+  };
+}
+
 export function useCSVImport(): [CSVImportState, CSVImportActions] {
   const [state, setState] = useState<CSVImportState>(initialState);
+  const [profiles, setProfiles] = useState<ImportProfile[]>(BUILT_IN_PROFILES);
 
-  const selectFile = useCallback((file: File) => {
-    setState({ ...initialState, file, step: 'select-file' });
+  // Load saved profiles (built-in ones are included by the API)
+  useEffect(() => {
+    fetch('/api/import-profiles')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { profiles: ImportProfile[] } | null) => {
+        if (data) {
+          setProfiles(data.profiles);
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading import profiles:', error);
+      });
+  }, []);
 
-    Papa.parse<string[]>(file, {
-      skipEmptyLines: true,
-      complete: (results) => {
-        if (results.data.length === 0) {
+  useEffect(() => {
+    fetch('/api/accounts')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { accounts: ImportAccount[] } | null) => {
+        if (data) {
           setState((prev) => ({
             ...prev,
-            error: 'Le fichier CSV est vide',
-            step: 'select-file',
+            accounts: data.accounts,
+            // Preselect the only account
+            accountId: prev.accountId ?? (data.accounts.length === 1 ? data.accounts[0].id : null),
           }));
-          return;
         }
+      })
+      .catch((error) => {
+        console.error('Error loading accounts:', error);
+      });
+  }, []);
+
+  useEffect(() => {
+    fetch('/api/categories')
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { categories: Category[] } | null) => {
+        if (data) {
+          setState((prev) => ({ ...prev, categories: data.categories }));
+        }
+      })
+      .catch((error) => {
+        console.error('Error loading categories:', error);
+      });
+  }, []);
+
+  const selectStatementFile = useCallback(async (file: File) => {
+    try {
+      const content = decodeMarkup(new Uint8Array(await file.arrayBuffer()));
+
+      // Structured statements need no column mapping
+      let sourceFormat: SourceFormat;
+      let parseResult: ParseResult;
+      let accountNumber: string | undefined;
+      if (isOFXContent(content)) {
+        sourceFormat = 'ofx';
+        const result = parseOFXToTransactions(content);
+        parseResult = result;
+        accountNumber = result.accounts[0]?.accountId;
+      } else if (isCAMTContent(content)) {
+        sourceFormat = 'camt';
+        const result = parseCAMTToTransactions(content);
+        parseResult = result;
+        accountNumber = result.accounts[0]?.accountId;
+      } else {
+        throw new Error('Le fichier n\'est pas un relevé OFX ou CAMT valide');
+      }
+
+      setState((prev) => ({
+        ...prev,
+        sourceFormat,
+        parseResult,
+        selection: EMPTY_SELECTION,
+        // Statements name their account, keep the user's choice when unknown
+        accountId: matchAccount(prev.accounts, accountNumber)?.id ?? prev.accountId,
+        duplicateCheck: null,
+        step: 'preview',
+        error: null,
+      }));
+    } catch (error) {
+      setState((prev) => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Erreur lors de la lecture du fichier',
+        step: 'select-file',
+      }));
+    }
+  }, []);
+
+  /**
+   * Decodes and parses a CSV file, then looks for a matching import profile
+   * The format stored in the matched profile applies unless the user overrode it
+   */
+  const loadCSVFile = useCallback(
+    async (file: File, overrides: Partial<CSVFormat>) => {
+      try {
+        const sample = file.size > STREAMING_THRESHOLD_BYTES;
+        const bytes = new Uint8Array(
+          await (sample ? file.slice(0, SAMPLE_BYTES) : file).arrayBuffer()
+        );
+
+        let { format, rows } = readCSV(bytes, overrides, sample);
+        if (rows.length === 0) {
+          throw new Error('Le fichier CSV est vide');
+        }
+
+        let match = matchImportProfile(rows, profiles);
+        const profileFormat = { ...match?.profile.csvFormat, ...overrides };
+        const formatChanged = (Object.keys(profileFormat) as (keyof CSVFormat)[]).some(
+          (key) => profileFormat[key] !== format[key]
+        );
+        if (match && formatChanged) {
+          ({ format, rows } = readCSV(bytes, profileFormat, sample));
+          match = matchImportProfile(rows, profiles);
+        }
+
+        const common = {
+          csvFormat: format,
+          csvFormatOverrides: overrides,
+          parseResult: null,
+          duplicateCheck: null,
+          dateFormatCandidates: [],
+        };
 
-        const [firstRow, ...dataRows] = results.data;
-        const headers = detectColumnHeaders(firstRow);
+        // A known export skips the mapping step entirely
+        if (match) {
+          const { profile, headerRowIndex } = match;
+          const block = sliceDataBlock(rows, detectDataBlock(rows, headerRowIndex));
 
+          setState((prev) =>
+            parseWithMapping(
+              { ...prev, ...common, ...block, matchedProfile: profile },
+              block.rawData,
+              profile.mapping
+            )
+          );
+          return;
+        }
+
+        // Unknown export: skip the lines around the transactions
         setState((prev) => ({
           ...prev,
-          headers,
-          rawData: dataRows,
+          ...common,
+          ...sliceDataBlock(rows, detectDataBlock(rows)),
+          matchedProfile: null,
           step: 'map-columns',
           error: null,
         }));
-      },
-      error: (error) => {
+      } catch (error) {
         setState((prev) => ({
           ...prev,
-          error: `Erreur lors de la lecture du fichier: ${error.message}`,
+          error:
+            error instanceof Error
+              ? error.message
+              : 'Erreur lors de la lecture du fichier',
           step: 'select-file',
         }));
-      },
+      }
+    },
+    [profiles]
+  );
+
+  const selectFile = useCallback((file: File) => {
+    const streaming = file.size > STREAMING_THRESHOLD_BYTES;
+    setState((prev) => ({
+      ...initialState,
+      accounts: prev.accounts,
+      accountId: prev.accountId,
+      categories: prev.categories,
+      file,
+      streaming,
+      step: 'select-file',
+    }));
+
+    hashFile(file)
+      .then((fileHash) => {
+        setState((prev) => (prev.file === file ? { ...prev, fileHash } : prev));
+      })
+      .catch((error) => {
+        console.error('Error hashing file:', error);
+      });
+
+    if (/\.(ofx|qfx|xml)$/i.test(file.name)) {
+      selectStatementFile(file);
+      return;
+    }
+
+    loadCSVFile(file, {});
+  }, [selectStatementFile, loadCSVFile]);
+
+  const setCSVFormat = useCallback(
+    (overrides: Partial<CSVFormat>) => {
+      if (state.file) {
+        loadCSVFile(state.file, overrides);
+      }
+    },
+    [state.file, loadCSVFile]
+  );
+
+  /**
+   * Moves the header row or the end of the data chosen by detection
+   * The preview is parsed again with the current mapping
+   */
+  const setDataBlock = useCallback((dataBlock: DataBlock) => {
+    setState((prev) => {
+      const headerRowIndex = Math.min(Math.max(dataBlock.headerRowIndex, 0), prev.rows.length - 1);
+      const endRowIndex = Math.min(
+        Math.max(dataBlock.endRowIndex, headerRowIndex + 1),
+        prev.rows.length
+      );
+      const block = sliceDataBlock(prev.rows, { headerRowIndex, endRowIndex });
+      const next = {
+        ...prev,
+        ...block,
+        // A profile is recognized by its header row
+        matchedProfile:
+          headerRowIndex === prev.dataBlock.headerRowIndex ? prev.matchedProfile : null,
+      };
+
+      return prev.step === 'preview' && prev.columnMapping
+        ? parseWithMapping(next, block.rawData, prev.columnMapping)
+        : next;
+    });
+  }, []);
+
+  const setAccount = useCallback((accountId: number | null) => {
+    setState((prev) => ({ ...prev, accountId, duplicateCheck: null }));
+  }, []);
+
+  const toggleRow = useCallback((index: number) => {
+    setState((prev) => ({ ...prev, selection: toggleExcluded(prev.selection, index) }));
+  }, []);
+
+  const setCategory = useCallback((index: number, categoryId: number | null) => {
+    setState((prev) => ({ ...prev, selection: setRowCategory(prev.selection, index, categoryId) }));
+  }, []);
+
+  /**
+   * Moves a corrected invalid row to the valid rows
+   * The duplicate check runs again since the valid rows changed
+   */
+  const fixRow = useCallback((rowIndex: number, edit: RowEdit) => {
+    setState((prev) => {
+      if (!prev.parseResult) {
+        return prev;
+      }
+      const validation = validateRowEdit(edit, prev.columnMapping);
+      if (!validation.success) {
+        return prev;
+      }
+
+      const fixed = fixInvalidRow(prev.parseResult, prev.selection, rowIndex, validation.data);
+      return {
+        ...prev,
+        parseResult: fixed.result,
+        selection: fixed.selection,
+        duplicateCheck: null,
+      };
     });
   }, []);
 
@@ -82,6 +506,7 @@ export function useCSVImport(): [CSVImportState, CSVImportActions] {
     setState((prev) => ({
       ...prev,
       columnMapping: mapping,
+      matchedProfile: null, // A manual mapping no longer reflects the matched profile
     }));
   }, []);
 
@@ -94,22 +519,145 @@ export function useCSVImport(): [CSVImportState, CSVImportActions] {
         };
       }
 
-      const parseResult = parseCSVToTransactions(prev.rawData, prev.columnMapping);
+      return parseWithMapping(prev, prev.rawData, prev.columnMapping);
+    });
+  }, []);
 
-      return {
-        ...prev,
-        parseResult,
-        step: 'preview',
-        error: null,
-      };
+  const chooseDateFormat = useCallback((dateFormat: DateFormat) => {
+    setState((prev) => {
+      if (!prev.columnMapping) {
+        return prev;
+      }
+
+      return parseWithMapping(prev, prev.rawData, { ...prev.columnMapping, dateFormat });
     });
   }, []);
 
+  // Check valid rows against existing transactions to show skipped rows in preview
+  useEffect(() => {
+    const valid = state.parseResult?.valid;
+    if (!valid || valid.length === 0) {
+      return;
+    }
+
+    let cancelled = false;
+
+    fetch('/api/transactions/import/check', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        transactions: valid,
+        fileHash: state.fileHash,
+        accountId: state.accountId ?? undefined,
+      }),
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((duplicateCheck: DuplicateCheck | null) => {
+        if (!cancelled && duplicateCheck) {
+          setState((prev) => ({ ...prev, duplicateCheck }));
+        }
+      })
+      .catch((error) => {
+        // The import route skips duplicates anyway, the preview just lacks the details
+        console.error('Error checking duplicates:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [state.parseResult, state.fileHash, state.accountId]);
+
+  const editMapping = useCallback(() => {
+    setState((prev) => ({ ...prev, step: 'map-columns' }));
+  }, []);
+
+  /**
+   * Uploads the file to an import job and polls its progress
+   */
+  const importOnServer = useCallback(async (): Promise<ImportResult> => {
+    if (!state.file || !state.columnMapping) {
+      throw new Error('Veuillez définir le mapping des colonnes');
+    }
+
+    const created = await fetch('/api/transactions/import/jobs', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        fileName: state.file.name,
+        fileHash: state.fileHash ?? undefined,
+        fileSize: state.file.size,
+        profileName: state.matchedProfile?.name,
+        accountId: state.accountId ?? undefined,
+        mapping: state.columnMapping,
+        headerRowIndex: state.dataBlock.headerRowIndex,
+        csvFormat: state.csvFormat,
+      }),
+    });
+    const job = await created.json();
+    if (!created.ok) {
+      throw new Error(describeApiError(job, 'Erreur lors de l\'importation'));
+    }
+
+    const poll = setInterval(() => {
+      fetch(`/api/transactions/import/jobs/${job.id}`)
+        .then((response) => (response.ok ? response.json() : null))
+        .then((progress: ImportProgress | null) => {
+          if (progress) {
+            setState((prev) => ({ ...prev, progress }));
+          }
+        })
+        .catch((error) => {
+          console.error('Error polling import progress:', error);
+        });
+    }, PROGRESS_POLL_INTERVAL_MS);
+
+    try {
+      const response = await fetch(`/api/transactions/import/jobs/${job.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'text/csv',
+        },
+        body: state.file,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(describeApiError(data, 'Erreur lors de l\'importation'));
+      }
+
+      const { batchId, inserted, skipped, suspicious } = data;
+      return { batchId, inserted, skipped, suspicious };
+    } finally {
+      clearInterval(poll);
+    }
+  }, [
+    state.file,
+    state.fileHash,
+    state.columnMapping,
+    state.dataBlock,
+    state.matchedProfile,
+    state.accountId,
+    state.csvFormat,
+  ]);
+
   const confirmImport = useCallback(async () => {
-    setState((prev) => ({ ...prev, step: 'importing' }));
+    setState((prev) => ({ ...prev, step: 'importing', progress: null }));
 
     try {
-      if (!state.parseResult || state.parseResult.valid.length === 0) {
+      if (state.streaming) {
+        const importResult = await importOnServer();
+        setState((prev) => ({ ...prev, step: 'complete', importResult, error: null }));
+        return;
+      }
+
+      const transactions = state.parseResult
+        ? selectTransactions(state.parseResult.valid, state.selection)
+        : [];
+      if (!state.parseResult || transactions.length === 0) {
         throw new Error('Aucune transaction valide à importer');
       }
 
@@ -120,18 +668,30 @@ export function useCSVImport(): [CSVImportState, CSVImportActions] {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          transactions: state.parseResult.valid,
+          transactions,
+          source: {
+            fileName: state.file?.name,
+            fileHash: state.fileHash ?? undefined,
+            sourceFormat: state.sourceFormat,
+            profileName: state.matchedProfile?.name,
+            accountId: state.accountId ?? undefined,
+            rowCount: state.parseResult.valid.length + state.parseResult.invalid.length,
+            invalidCount: state.parseResult.invalid.length,
+          },
         }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Erreur lors de l\'importation');
+        throw new Error(describeApiError(errorData, 'Erreur lors de l\'importation'));
       }
 
+      const { batchId, inserted, skipped, suspicious } = await response.json();
+
       setState((prev) => ({
         ...prev,
         step: 'complete',
+        importResult: { batchId, inserted, skipped, suspicious },
         error: null,
       }));
     } catch (error) {
@@ -141,10 +701,64 @@ export function useCSVImport(): [CSVImportState, CSVImportActions] {
         step: 'preview',
       }));
     }
-  }, [state.parseResult]);
+  }, [
+    state.parseResult,
+    state.selection,
+    state.file,
+    state.fileHash,
+    state.sourceFormat,
+    state.matchedProfile,
+    state.accountId,
+    state.streaming,
+    importOnServer,
+  ]);
+
+  const saveProfile = useCallback(
+    async (name: string) => {
+      if (!state.columnMapping) {
+        return;
+      }
+
+      try {
+        const response = await fetch('/api/import-profiles', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            name,
+            headers: state.headers,
+            mapping: state.columnMapping,
+            skipRows: state.dataBlock.headerRowIndex,
+            csvFormat: state.csvFormat ?? undefined,
+          }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(describeApiError(data, 'Erreur lors de l\'enregistrement du profil'));
+        }
+
+        const profile: ImportProfile = data.profile;
+        setProfiles((prev) => [profile, ...prev]);
+        setState((prev) => ({ ...prev, matchedProfile: profile, error: null }));
+      } catch (error) {
+        setState((prev) => ({
+          ...prev,
+          error: error instanceof Error ? error.message : 'Erreur inconnue',
+        }));
+      }
+    },
+    [state.columnMapping, state.headers, state.dataBlock, state.csvFormat]
+  );
 
   const reset = useCallback(() => {
-    setState(initialState);
+    setState((prev) => ({
+      ...initialState,
+      accounts: prev.accounts,
+      accountId: prev.accountId,
+      categories: prev.categories,
+    }));
   }, []);
 
   return [
@@ -152,8 +766,17 @@ export function useCSVImport(): [CSVImportState, CSVImportActions] {
     {
       selectFile,
       setColumnMapping,
+      setCSVFormat,
+      setDataBlock,
+      setAccount,
+      toggleRow,
+      setRowCategory: setCategory,
+      fixRow,
       parseData,
+      chooseDateFormat,
+      editMapping,
       confirmImport,
+      saveProfile,
       reset,
     },
   ];
@@ -0,0 +1,27 @@
+/**
+ * Server startup hook of Next.js
+ * Rolls back the import jobs cut short by the last shutdown, then starts
+ * watching the import inbox when IMPORT_INBOX_DIR is set
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { recoverInterruptedImportJobs } = await import('@/lib/streaming-import');
+  try {
+    const recovered = await recoverInterruptedImportJobs();
+    if (recovered > 0) {
+      console.log(`Rolled back ${recovered} import jobs interrupted by the last shutdown`);
+    }
+  } catch (error) {
+    console.error('Error recovering interrupted import jobs:', error);
+  }
+
+  const { getInboxDir, watchInbox } = await import('@/lib/inbox');
+  const dir = getInboxDir();
+  if (dir) {
+    watchInbox(dir);
+    console.log(`Watching ${dir} for bank statements`);
+  }
+}
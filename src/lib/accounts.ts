@@ -0,0 +1,113 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { accountSchema } from '@/lib/schemas';
+import { maskIban } from '@/domain/accounts';
+import { calculateBalancesByAccount, calculateRunningBalances } from '@/domain/balances';
+import { Account, Transaction } from '@/domain/types';
+
+// Transactions returned with an account statement, most recent first
+const STATEMENT_LIMIT = 100;
+
+export type AccountInput = z.infer<typeof accountSchema>;
+
+export interface AccountSummary extends Account {
+  createdAt: Date;
+  balance: number;
+  transactionCount: number;
+  lastTransactionDate: Date | null;
+}
+
+export interface StatementLine {
+  id: number;
+  date: Date;
+  description: string;
+  amount: number;
+  categoryId: number | null;
+  balance: number; // Balance right after the transaction
+}
+
+export type DeleteAccountResult = 'not-found' | 'has-transactions' | 'deleted';
+
+/**
+ * Lists accounts with their current balance
+ */
+export async function listAccounts(): Promise<AccountSummary[]> {
+  const [accounts, transactions] = await Promise.all([
+    prisma.account.findMany({ orderBy: { name: 'asc' } }),
+    prisma.transaction.findMany({
+      where: { accountId: { not: null } },
+      select: { id: true, date: true, description: true, amount: true, categoryId: true, accountId: true },
+    }),
+  ]);
+
+  const balances = calculateBalancesByAccount(accounts, transactions);
+  return accounts.map((account: Account & { createdAt: Date }, index: number) => ({
+    ...account,
+    balance: balances[index].balance,
+    transactionCount: balances[index].transactionCount,
+    lastTransactionDate: balances[index].lastTransactionDate,
+  }));
+}
+
+/**
+ * Creates an account, storing only the mask of its IBAN
+ */
+export async function createAccount(input: AccountInput): Promise<Account> {
+  return prisma.account.create({
+    data: {
+      name: input.name,
+      bank: input.bank || null,
+      ibanMask: input.iban ? maskIban(input.iban) : null,
+      currency: input.currency,
+      openingBalance: input.openingBalance,
+    },
+  });
+}
+
+/**
+ * Reads an account with its latest transactions and their running balance
+ */
+export async function getAccountStatement(
+  id: number
+): Promise<{ account: Account; lines: StatementLine[] } | null> {
+  const account = await prisma.account.findUnique({ where: { id } });
+  if (!account) {
+    return null;
+  }
+
+  // The running balance needs every transaction since the opening balance
+  const transactions: Transaction[] = await prisma.transaction.findMany({
+    where: { accountId: id },
+    select: { id: true, date: true, description: true, amount: true, categoryId: true },
+  });
+
+  const lines = calculateRunningBalances(transactions, account.openingBalance)
+    .slice(-STATEMENT_LIMIT)
+    .reverse()
+    .map(({ transaction, balance }) => ({ ...transaction, balance }));
+
+  return { account, lines };
+}
+
+/**
+ * Deletes an account without transactions
+ * Accounts with transactions are kept: their imports must be rolled back first
+ */
+export async function deleteAccount(id: number): Promise<DeleteAccountResult> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const account = await tx.account.findUnique({
+      where: { id },
+      include: { _count: { select: { transactions: true } } },
+    });
+    if (!account) {
+      return 'not-found';
+    }
+    if (account._count.transactions > 0) {
+      return 'has-transactions';
+    }
+
+    await tx.account.delete({ where: { id } });
+    return 'deleted';
+  });
+}
@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+/**
+ * Stable machine-readable error codes returned by the API
+ * Messages are shown to the user as is, codes let the UI and scripts react
+ */
+export const API_ERRORS = {
+  INVALID_JSON: { status: 400, message: 'Le corps de la requête n\'est pas un JSON valide' },
+  INVALID_PAYLOAD: { status: 400, message: 'Requête invalide' },
+  INVALID_ID: { status: 400, message: 'Identifiant invalide' },
+  PAYLOAD_TOO_LARGE: { status: 413, message: 'Requête trop volumineuse' },
+  IMPORT_EMPTY: { status: 400, message: 'Aucune transaction à importer' },
+  IMPORT_TOO_LARGE: {
+    status: 413,
+    message: 'Trop de transactions en une fois, importez le fichier par le serveur',
+  },
+  ROWS_INVALID: { status: 422, message: 'Certaines transactions sont invalides' },
+  IMPORT_FAILED: { status: 500, message: 'Erreur lors de l\'importation des transactions' },
+  DUPLICATE_CHECK_FAILED: { status: 500, message: 'Erreur lors de la détection des doublons' },
+  CATEGORY_NOT_FOUND: { status: 404, message: 'Catégorie introuvable' },
+  CATEGORY_NAME_TAKEN: { status: 409, message: 'Une catégorie porte déjà ce nom' },
+  CATEGORY_PARENT_INVALID: {
+    status: 422,
+    message: 'Une catégorie ne peut pas être rangée dans elle-même ou une de ses sous-catégories',
+  },
+  TRANSACTION_NOT_FOUND: { status: 404, message: 'Transaction introuvable' },
+  SPLITS_INVALID: { status: 422, message: 'Ventilation invalide' },
+  TAG_NOT_FOUND: { status: 404, message: 'Étiquette introuvable' },
+  TAG_NAME_TAKEN: { status: 409, message: 'Une étiquette porte déjà ce nom' },
+  SELECTION_EMPTY: {
+    status: 422,
+    message: 'Précisez au moins un critère, la modification toucherait toutes les transactions',
+  },
+  BULK_EDIT_NOT_FOUND: { status: 404, message: 'Modification groupée introuvable' },
+  BULK_EDIT_ALREADY_UNDONE: { status: 409, message: 'Cette modification a déjà été annulée' },
+  MERCHANT_NOT_FOUND: { status: 404, message: 'Marchand introuvable' },
+  MERCHANT_NAME_TAKEN: { status: 409, message: 'Un marchand porte déjà ce nom' },
+  MERCHANT_ALIAS_TAKEN: { status: 409, message: 'Ce libellé est déjà reconnu pour un autre marchand' },
+  BUDGET_NOT_FOUND: { status: 404, message: 'Budget introuvable' },
+  BUDGET_CATEGORY_TAKEN: { status: 409, message: 'Cette catégorie a déjà un budget' },
+  RULE_NOT_FOUND: { status: 404, message: 'Règle introuvable' },
+  RULE_INVALID: { status: 422, message: 'Règle invalide' },
+  PROFILE_NOT_FOUND: { status: 404, message: 'Profil d\'import introuvable' },
+  PROFILE_NAME_TAKEN: { status: 409, message: 'Un profil d\'import porte déjà ce nom' },
+  ACCOUNT_NOT_FOUND: { status: 404, message: 'Compte introuvable' },
+  ACCOUNT_NAME_TAKEN: { status: 409, message: 'Un compte porte déjà ce nom' },
+  ACCOUNT_HAS_TRANSACTIONS: {
+    status: 409,
+    message: 'Ce compte contient des transactions, annulez leurs imports avant de le supprimer',
+  },
+  BATCH_NOT_FOUND: { status: 404, message: 'Import introuvable' },
+  BATCH_ALREADY_ROLLED_BACK: { status: 409, message: 'Cet import a déjà été annulé' },
+  BATCH_PENDING: { status: 409, message: 'Cet import attend encore son fichier' },
+  BATCH_RUNNING: { status: 409, message: 'Cet import est encore en cours' },
+  BATCH_FAILED: {
+    status: 409,
+    message: 'Cet import a échoué, aucune de ses transactions n\'a été conservée',
+  },
+  BATCH_HAS_CHANGES: {
+    status: 409,
+    message: 'Des transactions de cet import ont été catégorisées ou modifiées depuis',
+  },
+  JOB_ALREADY_STARTED: { status: 409, message: 'Cet import a déjà été lancé' },
+  JOB_NO_FILE: { status: 400, message: 'Aucun fichier reçu' },
+  INBOX_FILE_NOT_FOUND: { status: 404, message: 'Fichier introuvable dans le dossier d\'import' },
+  INBOX_FILE_NOT_PENDING: { status: 409, message: 'Ce fichier a déjà été traité' },
+  INTERNAL_ERROR: { status: 500, message: 'Erreur interne du serveur' },
+} as const;
+
+export type ApiErrorCode = keyof typeof API_ERRORS;
+
+/**
+ * Codes of per-row validation errors
+ */
+export type RowErrorCode =
+  | 'ROW_INVALID_DATE'
+  | 'ROW_INVALID_AMOUNT'
+  | 'ROW_INVALID_DESCRIPTION'
+  | 'ROW_INVALID_FIELD';
+
+export interface RowError {
+  index: number; // Position of the row in the submitted array
+  field: string;
+  code: RowErrorCode;
+  message: string;
+}
+
+export interface ApiErrorBody {
+  error: string; // Message for the user
+  code: ApiErrorCode;
+  rows?: RowError[];
+  details?: Record<string, unknown>;
+}
+
+// Default limit for JSON bodies, transaction rows are limited separately
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+const ROW_ERROR_CODES: Record<string, RowErrorCode> = {
+  date: 'ROW_INVALID_DATE',
+  valueDate: 'ROW_INVALID_DATE',
+  amount: 'ROW_INVALID_AMOUNT',
+  description: 'ROW_INVALID_DESCRIPTION',
+};
+
+/**
+ * Builds an error response from the catalogue
+ */
+export function apiError(
+  code: ApiErrorCode,
+  extra: Omit<ApiErrorBody, 'error' | 'code'> & { error?: string } = {}
+): NextResponse<ApiErrorBody> {
+  const { status, message } = API_ERRORS[code];
+  return NextResponse.json({ ...extra, error: extra.error ?? message, code }, { status });
+}
+
+/**
+ * Converts validation issues located in an array of rows to row errors
+ * e.g. path ['transactions', 3, 'amount'] with arrayKey 'transactions'
+ */
+export function toRowErrors(issues: z.core.$ZodIssue[], arrayKey: string): RowError[] {
+  return issues
+    .filter((issue) => issue.path[0] === arrayKey && typeof issue.path[1] === 'number')
+    .map((issue) => {
+      const field = String(issue.path[2] ?? '');
+      return {
+        index: issue.path[1] as number,
+        field,
+        code: ROW_ERROR_CODES[field] ?? 'ROW_INVALID_FIELD',
+        message: issue.message,
+      };
+    });
+}
+
+/**
+ * Reads and validates a JSON body
+ * Rows of rowsKey failing validation are reported individually as ROWS_INVALID
+ *
+ * @returns Parsed data, or the error response to send
+ */
+export async function parseJsonBody<T extends z.ZodType>(
+  request: NextRequest,
+  schema: T,
+  { rowsKey, maxBytes = MAX_BODY_BYTES }: { rowsKey?: string; maxBytes?: number } = {}
+): Promise<{ success: true; data: z.infer<T> } | { success: false; response: NextResponse }> {
+  const length = Number(request.headers.get('content-length') ?? 0);
+  if (length > maxBytes) {
+    return { success: false, response: apiError('PAYLOAD_TOO_LARGE') };
+  }
+
+  let body: unknown;
+  try {
+    const text = await request.text();
+    if (text.length > maxBytes) {
+      return { success: false, response: apiError('PAYLOAD_TOO_LARGE') };
+    }
+    body = text === '' ? {} : JSON.parse(text);
+  } catch {
+    return { success: false, response: apiError('INVALID_JSON') };
+  }
+
+  const result = schema.safeParse(body);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  // Size of the rows array itself
+  const sizeIssue = result.error.issues.find(
+    (issue) => rowsKey && issue.path.length === 1 && issue.path[0] === rowsKey
+  );
+  if (sizeIssue?.code === 'too_small') {
+    return { success: false, response: apiError('IMPORT_EMPTY') };
+  }
+  if (sizeIssue?.code === 'too_big') {
+    return { success: false, response: apiError('IMPORT_TOO_LARGE') };
+  }
+
+  const rows = rowsKey ? toRowErrors(result.error.issues, rowsKey) : [];
+  if (rows.length > 0 && rows.length === result.error.issues.length) {
+    return { success: false, response: apiError('ROWS_INVALID', { rows }) };
+  }
+
+  return {
+    success: false,
+    response: apiError('INVALID_PAYLOAD', {
+      details: { issues: z.flattenError(result.error) },
+    }),
+  };
+}
+
+/**
+ * Parses a numeric route parameter
+ */
+export function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
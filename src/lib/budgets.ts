@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { budgetSchema, budgetUpdateSchema } from '@/lib/schemas';
+import { BudgetStatus, calculateBudgetStatuses } from '@/domain/budgets';
+import { Budget, Category, Transaction } from '@/domain/types';
+
+export type BudgetInput = z.infer<typeof budgetSchema>;
+export type BudgetUpdate = z.infer<typeof budgetUpdateSchema>;
+
+export interface SavedBudget extends Budget {
+  id: number;
+}
+
+export interface BudgetSummary extends SavedBudget {
+  categoryName: string;
+  status: BudgetStatus;
+}
+
+export type SaveBudgetResult =
+  | { status: 'not-found' }
+  | { status: 'category-not-found' }
+  | { status: 'category-taken'; budgetId: number }
+  | { status: 'saved'; budget: SavedBudget };
+
+const BUDGET_SELECT = {
+  id: true,
+  categoryId: true,
+  amount: true,
+  rollover: true,
+  startDate: true,
+};
+
+/**
+ * First day of the month of a date at UTC midnight, budgets start on a whole month
+ */
+function toMonthStart(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * Lists budgets by category name with their status for a month
+ * Budgets starting after the month are left out.
+ *
+ * @param month - Month (0-11, where 0 = January)
+ * @param year - Year
+ */
+export async function listBudgetSummaries(month: number, year: number): Promise<BudgetSummary[]> {
+  const [budgets, categories]: [(SavedBudget & { category: { name: string } })[], Category[]] =
+    await Promise.all([
+      prisma.budget.findMany({
+        orderBy: { category: { name: 'asc' } },
+        select: { ...BUDGET_SELECT, category: { select: { name: true } } },
+      }),
+      prisma.category.findMany({ select: { id: true, name: true, parentId: true } }),
+    ]);
+
+  // Rollover needs the months since the earliest start
+  const monthStart = new Date(Date.UTC(year, month, 1));
+  const from = budgets
+    .filter((budget) => budget.rollover)
+    .map((budget) => toMonthStart(budget.startDate))
+    .reduce((earliest, start) => (start < earliest ? start : earliest), monthStart);
+  const transactions: Transaction[] = await prisma.transaction.findMany({
+    where: { date: { gte: from, lt: new Date(Date.UTC(year, month + 1, 1)) }, amount: { lt: 0 } },
+    select: {
+      id: true,
+      date: true,
+      description: true,
+      amount: true,
+      categoryId: true,
+      splits: { select: { amount: true, categoryId: true } },
+    },
+  });
+
+  const statuses = calculateBudgetStatuses(transactions, budgets, categories, month, year);
+  const statusByCategory = new Map(statuses.map((status) => [status.categoryId, status]));
+  return budgets.flatMap(({ category, ...budget }) => {
+    const status = statusByCategory.get(budget.categoryId);
+    return status ? [{ ...budget, categoryName: category.name, status }] : [];
+  });
+}
+
+/**
+ * Creates the budget of a category, starting this month unless a start is given
+ */
+export async function createBudget(input: BudgetInput): Promise<SaveBudgetResult> {
+  if (!(await prisma.category.findUnique({ where: { id: input.categoryId } }))) {
+    return { status: 'category-not-found' };
+  }
+  const existing: { id: number } | null = await prisma.budget.findUnique({
+    where: { categoryId: input.categoryId },
+  });
+  if (existing) {
+    return { status: 'category-taken', budgetId: existing.id };
+  }
+
+  const budget = await prisma.budget.create({
+    data: { ...input, startDate: toMonthStart(input.startDate ?? new Date()) },
+    select: BUDGET_SELECT,
+  });
+  return { status: 'saved', budget };
+}
+
+/**
+ * Changes the amount, rollover and/or start of a budget
+ * The carry over is recomputed from the start with the new amount.
+ */
+export async function updateBudget(id: number, input: BudgetUpdate): Promise<SaveBudgetResult> {
+  if (!(await prisma.budget.findUnique({ where: { id } }))) {
+    return { status: 'not-found' };
+  }
+
+  const budget = await prisma.budget.update({
+    where: { id },
+    data: {
+      ...input,
+      ...(input.startDate !== undefined && { startDate: toMonthStart(input.startDate) }),
+    },
+    select: BUDGET_SELECT,
+  });
+  return { status: 'saved', budget };
+}
+
+/**
+ * Deletes a budget
+ * @returns false when the budget does not exist
+ */
+export async function deleteBudget(id: number): Promise<boolean> {
+  const { count } = await prisma.budget.deleteMany({ where: { id } });
+  return count > 0;
+}
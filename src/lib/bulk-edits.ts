@@ -0,0 +1,275 @@
+import { randomUUID } from 'node:crypto';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { invalidateClassifier } from '@/lib/category-classifier';
+import { bulkEditRequestSchema } from '@/lib/schemas';
+import {
+  BulkAction,
+  BulkChange,
+  isEmptySelection,
+  planBulkEdit,
+  planUndo,
+  TransactionSelection,
+} from '@/domain/bulk-edits';
+import { Transaction } from '@/domain/types';
+
+export type BulkEditInput = z.infer<typeof bulkEditRequestSchema>;
+
+export interface BulkEditSummary {
+  matchedCount: number;
+  changedCount: number;
+  skippedSplitCount: number;
+  sample: Pick<Transaction, 'id' | 'date' | 'description' | 'amount'>[]; // First changed transactions
+}
+
+export type BulkEditResult =
+  | { status: 'empty-selection' }
+  | { status: 'category-not-found' }
+  | { status: 'tag-not-found' }
+  | { status: 'preview'; summary: BulkEditSummary }
+  | { status: 'applied'; summary: BulkEditSummary; token: string | null }; // No token when nothing changed
+
+export type UndoBulkEditResult =
+  | { status: 'not-found' }
+  | { status: 'already-undone' }
+  | { status: 'undone'; restoredCount: number; skippedCount: number };
+
+// Changed transactions listed in a preview
+const SAMPLE_SIZE = 10;
+
+/**
+ * Change as stored with a bulk edit, with the editedAt to put back on undo
+ * Edits recorded before it was stored have none.
+ */
+interface StoredBulkChange extends BulkChange {
+  editedAt?: string | null; // ISO date
+}
+
+const TRANSACTION_SELECT = {
+  id: true,
+  date: true,
+  description: true,
+  amount: true,
+  categoryId: true,
+  accountId: true,
+  merchantId: true,
+  splits: { select: { amount: true, categoryId: true } },
+  tags: { select: { tagId: true } },
+};
+
+type TransactionRow = Omit<Transaction, 'tagIds'> & { tags: { tagId: number }[] };
+
+function toTransaction({ tags, ...transaction }: TransactionRow): Transaction {
+  return { ...transaction, tagIds: tags.map((tag) => tag.tagId) };
+}
+
+/**
+ * Loads the transactions a selection may match, narrowed by date in the database
+ */
+async function loadCandidates(
+  db: Prisma.TransactionClient,
+  selection: TransactionSelection
+): Promise<Transaction[]> {
+  const rows: TransactionRow[] = await db.transaction.findMany({
+    where: {
+      date: {
+        ...(selection.from !== undefined && { gte: selection.from }),
+        ...(selection.to !== undefined && { lte: selection.to }),
+      },
+    },
+    orderBy: [{ date: 'desc' }, { id: 'desc' }],
+    select: TRANSACTION_SELECT,
+  });
+  return rows.map(toTransaction);
+}
+
+/**
+ * Checks that the category or tag of an action exists
+ */
+async function checkActionTarget(
+  db: Prisma.TransactionClient,
+  action: BulkAction
+): Promise<BulkEditResult | null> {
+  if (
+    action.type === 'set-category' &&
+    !(await db.category.findUnique({ where: { id: action.categoryId } }))
+  ) {
+    return { status: 'category-not-found' };
+  }
+  if (action.type === 'add-tag' && !(await db.tag.findUnique({ where: { id: action.tagId } }))) {
+    return { status: 'tag-not-found' };
+  }
+  return null;
+}
+
+/**
+ * Changes the category or adds a tag to all the transactions of a selection
+ * With dryRun, only counts them. Otherwise the change is made in one database
+ * transaction and recorded, to be undone with the returned token.
+ */
+export async function runBulkEdit({
+  selection,
+  action,
+  dryRun,
+}: BulkEditInput): Promise<BulkEditResult> {
+  if (isEmptySelection(selection)) {
+    return { status: 'empty-selection' };
+  }
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const invalidTarget = await checkActionTarget(tx, action);
+    if (invalidTarget) {
+      return invalidTarget;
+    }
+
+    const transactions = await loadCandidates(tx, selection);
+    const plan = planBulkEdit(transactions, selection, action);
+    const changedIds = plan.changes.map((change) => change.transactionId);
+    const sampleIds = new Set(changedIds.slice(0, SAMPLE_SIZE));
+    const summary: BulkEditSummary = {
+      matchedCount: plan.matchedCount,
+      changedCount: plan.changes.length,
+      skippedSplitCount: plan.skippedSplitCount,
+      sample: transactions
+        .filter((transaction) => sampleIds.has(transaction.id))
+        .map(({ id, date, description, amount }) => ({ id, date, description, amount })),
+    };
+    if (dryRun) {
+      return { status: 'preview', summary };
+    }
+    if (plan.changes.length === 0) {
+      return { status: 'applied', summary, token: null };
+    }
+
+    const previous: { id: number; editedAt: Date | null }[] = await tx.transaction.findMany({
+      where: { id: { in: changedIds } },
+      select: { id: true, editedAt: true },
+    });
+    const previousEditedAt = new Map(previous.map(({ id, editedAt }) => [id, editedAt]));
+    const changes: StoredBulkChange[] = plan.changes.map((change) => ({
+      ...change,
+      editedAt: previousEditedAt.get(change.transactionId)?.toISOString() ?? null,
+    }));
+    // Also the date of the edit, to tell on undo which rows were not edited again since
+    const editedAt = new Date();
+
+    if (action.type === 'add-tag') {
+      await tx.transactionTag.createMany({
+        data: changedIds.map((transactionId) => ({ transactionId, tagId: action.tagId })),
+      });
+      await tx.transaction.updateMany({
+        where: { id: { in: changedIds } },
+        data: { editedAt },
+      });
+    } else {
+      await tx.transaction.updateMany({
+        where: { id: { in: changedIds } },
+        data: {
+          categoryId: action.type === 'set-category' ? action.categoryId : null,
+          editedAt,
+        },
+      });
+      await invalidateClassifier(tx);
+    }
+
+    const token = randomUUID();
+    await tx.bulkEdit.create({
+      data: {
+        token,
+        selection: JSON.stringify(selection),
+        action: JSON.stringify(action),
+        changes: JSON.stringify(changes),
+        changedCount: plan.changes.length,
+        createdAt: editedAt,
+      },
+    });
+    return { status: 'applied', summary, token };
+  });
+}
+
+/**
+ * Puts back the editedAt the restored transactions had before a bulk edit, so
+ * that an edit and its undo do not block the rollback of their import
+ * Transactions edited again since keep their date, as do the ones of edits
+ * recorded without the previous dates.
+ */
+async function restoreEditedAt(
+  tx: Prisma.TransactionClient,
+  restored: StoredBulkChange[],
+  editDate: Date
+): Promise<void> {
+  const idsByEditedAt = new Map<string | null, number[]>();
+  restored.forEach((change) => {
+    if (change.editedAt !== undefined) {
+      idsByEditedAt.set(change.editedAt, [
+        ...(idsByEditedAt.get(change.editedAt) ?? []),
+        change.transactionId,
+      ]);
+    }
+  });
+  for (const [editedAt, ids] of idsByEditedAt) {
+    await tx.transaction.updateMany({
+      where: { id: { in: ids }, editedAt: editDate },
+      data: { editedAt: editedAt === null ? null : new Date(editedAt) },
+    });
+  }
+}
+
+/**
+ * Undoes a bulk edit: restores the previous categories or removes the added tag
+ * Transactions changed again since the edit keep their current state.
+ */
+export async function undoBulkEdit(token: string): Promise<UndoBulkEditResult> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const edit = await tx.bulkEdit.findUnique({ where: { token } });
+    if (!edit) {
+      return { status: 'not-found' };
+    }
+    if (edit.undoneAt) {
+      return { status: 'already-undone' };
+    }
+
+    const action: BulkAction = JSON.parse(edit.action);
+    const changes: StoredBulkChange[] = JSON.parse(edit.changes);
+    const rows: TransactionRow[] = await tx.transaction.findMany({
+      where: { id: { in: changes.map((change) => change.transactionId) } },
+      select: TRANSACTION_SELECT,
+    });
+    const plan = planUndo(action, changes, rows.map(toTransaction));
+    const restoredIds = plan.restore.map((change) => change.transactionId);
+
+    if (action.type === 'add-tag') {
+      await tx.transactionTag.deleteMany({
+        where: { tagId: action.tagId, transactionId: { in: restoredIds } },
+      });
+    } else {
+      const idsByCategory = new Map<number | null, number[]>();
+      plan.restore.forEach((change) => {
+        idsByCategory.set(change.categoryId, [
+          ...(idsByCategory.get(change.categoryId) ?? []),
+          change.transactionId,
+        ]);
+      });
+      for (const [categoryId, ids] of idsByCategory) {
+        // Categories deleted since the edit leave their transactions uncategorized
+        const exists =
+          categoryId !== null && (await tx.category.findUnique({ where: { id: categoryId } }));
+        await tx.transaction.updateMany({
+          where: { id: { in: ids } },
+          data: { categoryId: exists ? categoryId : null },
+        });
+      }
+      await invalidateClassifier(tx);
+    }
+    const restoredIdSet = new Set(restoredIds);
+    await restoreEditedAt(
+      tx,
+      changes.filter((change) => restoredIdSet.has(change.transactionId)),
+      edit.createdAt
+    );
+
+    await tx.bulkEdit.update({ where: { id: edit.id }, data: { undoneAt: new Date() } });
+    return { status: 'undone', restoredCount: restoredIds.length, skippedCount: plan.skippedCount };
+  });
+}
@@ -0,0 +1,261 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { invalidateClassifier } from '@/lib/category-classifier';
+import { categorySchema, categoryUpdateSchema } from '@/lib/schemas';
+import { findCategoryNameConflict, pickCategoryColor } from '@/domain/categories';
+import { wouldCreateCycle } from '@/domain/category-tree';
+import { Category } from '@/domain/types';
+
+export type CategoryInput = z.infer<typeof categorySchema>;
+export type CategoryUpdate = z.infer<typeof categoryUpdateSchema>;
+
+export interface CategorySummary extends Category {
+  createdAt: Date;
+  transactionCount: number;
+  totalAmount: number; // Sum of the signed amounts
+  lastTransactionDate: Date | null;
+}
+
+export type SaveCategoryResult =
+  | { status: 'not-found' }
+  | { status: 'name-taken'; conflict: Category }
+  | { status: 'parent-not-found' }
+  | { status: 'parent-cycle' } // The parent is the category itself or one of its subcategories
+  | { status: 'saved'; category: Category };
+
+export type DeleteCategoryResult =
+  | { status: 'not-found' }
+  | { status: 'target-not-found' }
+  | { status: 'deleted'; movedCount: number; budgetDropped: boolean };
+
+interface CategoryUsageRow {
+  categoryId: number;
+  _count: { _all: number };
+  _sum: { amount: number | null };
+  _max: { date: Date | null };
+}
+
+const CATEGORY_SELECT = { id: true, name: true, color: true, parentId: true };
+
+/**
+ * Checks the parent given to a category, if any
+ */
+function checkParent(
+  categories: Category[],
+  id: number | null,
+  parentId: number | null | undefined
+): SaveCategoryResult | null {
+  if (parentId == null) {
+    return null;
+  }
+  if (!categories.some((category) => category.id === parentId)) {
+    return { status: 'parent-not-found' };
+  }
+  if (id !== null && wouldCreateCycle(categories, id, parentId)) {
+    return { status: 'parent-cycle' };
+  }
+  return null;
+}
+
+/**
+ * Lists categories by name
+ */
+export async function listCategories(): Promise<Category[]> {
+  return prisma.category.findMany({
+    orderBy: { name: 'asc' },
+    select: CATEGORY_SELECT,
+  });
+}
+
+/**
+ * Lists categories by name with their transaction count and total
+ * Lines of split transactions count as transactions of their category.
+ */
+export async function listCategorySummaries(): Promise<CategorySummary[]> {
+  const [categories, usage, splits] = await Promise.all([
+    prisma.category.findMany({ orderBy: { name: 'asc' } }),
+    prisma.transaction.groupBy({
+      by: ['categoryId'],
+      where: { categoryId: { not: null } },
+      _count: { _all: true },
+      _sum: { amount: true },
+      _max: { date: true },
+    }),
+    prisma.transactionSplit.findMany({
+      where: { categoryId: { not: null } },
+      select: { categoryId: true, amount: true, transaction: { select: { date: true } } },
+    }),
+  ]);
+
+  const usageByCategory = new Map<number, CategoryUsageRow>(
+    usage.map((row: CategoryUsageRow) => [row.categoryId, row])
+  );
+  const splitUsage = new Map<number, { count: number; total: number; lastDate: Date }>();
+  splits.forEach((split: { categoryId: number; amount: number; transaction: { date: Date } }) => {
+    const existing = splitUsage.get(split.categoryId);
+    splitUsage.set(split.categoryId, {
+      count: (existing?.count ?? 0) + 1,
+      total: (existing?.total ?? 0) + split.amount,
+      lastDate:
+        existing && existing.lastDate > split.transaction.date
+          ? existing.lastDate
+          : split.transaction.date,
+    });
+  });
+
+  return categories.map((category: Category & { createdAt: Date }) => {
+    const row = usageByCategory.get(category.id);
+    const lines = splitUsage.get(category.id);
+    const lastDates = [row?._max.date, lines?.lastDate].filter((date): date is Date => !!date);
+    return {
+      ...category,
+      transactionCount: (row?._count._all ?? 0) + (lines?.count ?? 0),
+      totalAmount: Math.round(((row?._sum.amount ?? 0) + (lines?.total ?? 0)) * 100) / 100,
+      lastTransactionDate:
+        lastDates.length > 0 ? new Date(Math.max(...lastDates.map((date) => date.getTime()))) : null,
+    };
+  });
+}
+
+/**
+ * Creates a category, with the next palette color unless one is chosen
+ * Names differing only by case or accents are refused
+ */
+export async function createCategory(input: CategoryInput): Promise<SaveCategoryResult> {
+  const categories = await listCategories();
+  const conflict = findCategoryNameConflict(categories, input.name);
+  if (conflict) {
+    return { status: 'name-taken', conflict };
+  }
+  const invalidParent = checkParent(categories, null, input.parentId);
+  if (invalidParent) {
+    return invalidParent;
+  }
+
+  const category = await prisma.category.create({
+    data: {
+      name: input.name,
+      color: input.color ?? pickCategoryColor(categories),
+      parentId: input.parentId ?? null,
+    },
+    select: CATEGORY_SELECT,
+  });
+  return { status: 'saved', category };
+}
+
+/**
+ * Renames, recolors and/or moves a category in the hierarchy
+ */
+export async function updateCategory(
+  id: number,
+  input: CategoryUpdate
+): Promise<SaveCategoryResult> {
+  const categories = await listCategories();
+  if (!categories.some((category) => category.id === id)) {
+    return { status: 'not-found' };
+  }
+  const conflict =
+    input.name !== undefined ? findCategoryNameConflict(categories, input.name, id) : null;
+  if (conflict) {
+    return { status: 'name-taken', conflict };
+  }
+  const invalidParent = checkParent(categories, id, input.parentId);
+  if (invalidParent) {
+    return invalidParent;
+  }
+
+  const category = await prisma.category.update({
+    where: { id },
+    data: input,
+    select: CATEGORY_SELECT,
+  });
+  return { status: 'saved', category };
+}
+
+/**
+ * Deletes a category
+ * Its transactions, rules and merchant defaults move to the reassignTo category,
+ * otherwise the transactions become uncategorized, the rules are deleted and
+ * the merchants lose their default category. Its budget moves too when the
+ * reassignTo category has none, otherwise it is deleted (budgetDropped).
+ * Its subcategories move up to its parent.
+ */
+export async function deleteCategory(
+  id: number,
+  { reassignTo }: { reassignTo?: number } = {}
+): Promise<DeleteCategoryResult> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const category: Category | null = await tx.category.findUnique({ where: { id } });
+    if (!category) {
+      return { status: 'not-found' };
+    }
+    if (
+      reassignTo !== undefined &&
+      (reassignTo === id || !(await tx.category.findUnique({ where: { id: reassignTo } })))
+    ) {
+      return { status: 'target-not-found' };
+    }
+
+    const editedAt = new Date();
+    const moved = await tx.transaction.updateMany({
+      where: { categoryId: id },
+      data: { categoryId: reassignTo ?? null, editedAt },
+    });
+    // Split transactions count as edited when one of their lines moves
+    await tx.transaction.updateMany({
+      where: { splits: { some: { categoryId: id } } },
+      data: { editedAt },
+    });
+    const movedSplits = await tx.transactionSplit.updateMany({
+      where: { categoryId: id },
+      data: { categoryId: reassignTo ?? null },
+    });
+    if (reassignTo !== undefined) {
+      await tx.categoryRule.updateMany({
+        where: { categoryId: id },
+        data: { categoryId: reassignTo },
+      });
+      await tx.merchant.updateMany({
+        where: { categoryId: id },
+        data: { categoryId: reassignTo },
+      });
+      if (!(await tx.budget.findUnique({ where: { categoryId: reassignTo } }))) {
+        await tx.budget.updateMany({ where: { categoryId: id }, data: { categoryId: reassignTo } });
+      }
+    }
+    // Left when there is nowhere to move it, deleted with the category
+    const dropped = await tx.budget.findUnique({ where: { categoryId: id } });
+    await tx.category.updateMany({
+      where: { parentId: id },
+      data: { parentId: category.parentId ?? null },
+    });
+    await tx.category.delete({ where: { id } });
+    await invalidateClassifier(tx);
+    return {
+      status: 'deleted',
+      movedCount: moved.count + movedSplits.count,
+      budgetDropped: dropped !== null,
+    };
+  });
+}
+
+/**
+ * Returns the IDs that match no category
+ */
+export async function findMissingCategoryIds(
+  ids: number[],
+  db: Prisma.TransactionClient = prisma
+): Promise<number[]> {
+  const unique = [...new Set(ids)];
+  if (unique.length === 0) {
+    return [];
+  }
+
+  const found: { id: number }[] = await db.category.findMany({
+    where: { id: { in: unique } },
+    select: { id: true },
+  });
+  const foundIds = new Set(found.map((category) => category.id));
+  return unique.filter((id) => !foundIds.has(id));
+}
@@ -0,0 +1,238 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  CategorySuggestion,
+  ClassifierModel,
+  ClassifierSubject,
+  createCategorySuggester,
+  createClassifierModel,
+  isConfidentSuggestion,
+  trainClassifier,
+  TrainingExample,
+  untrainClassifier,
+} from '@/domain/category-classifier';
+
+// The classifier is a single row
+const CLASSIFIER_ID = 1;
+
+// Uncategorized transactions listed with their suggestions
+const SUGGESTION_LIST_LIMIT = 50;
+
+// Split transactions have no category of their own but are categorized line by line
+const UNCATEGORIZED = { categoryId: null, splits: { none: {} } };
+
+export interface ClassifierStatus {
+  autoApply: boolean;
+  exampleCount: number; // Categorized transactions learned
+  categoryCount: number;
+}
+
+export interface TransactionSuggestions {
+  id: number;
+  date: Date;
+  description: string;
+  amount: number;
+  suggestions: (CategorySuggestion & { categoryName: string })[];
+}
+
+export type SetTransactionCategoryResult =
+  | { status: 'not-found' }
+  | { status: 'category-not-found' }
+  | { status: 'saved' };
+
+/**
+ * Trains a new model on all categorized transactions
+ */
+async function buildModel(db: Prisma.TransactionClient): Promise<ClassifierModel> {
+  const examples: TrainingExample[] = await db.transaction.findMany({
+    where: { categoryId: { not: null } },
+    select: { description: true, amount: true, categoryId: true },
+  });
+  return trainClassifier(createClassifierModel(), examples);
+}
+
+async function saveModel(db: Prisma.TransactionClient, model: ClassifierModel): Promise<void> {
+  await db.categoryClassifier.upsert({
+    where: { id: CLASSIFIER_ID },
+    create: { id: CLASSIFIER_ID, model: JSON.stringify(model) },
+    update: { model: JSON.stringify(model) },
+  });
+}
+
+/**
+ * Loads the model, training it first when missing or invalidated
+ */
+async function loadModel(db: Prisma.TransactionClient): Promise<ClassifierModel> {
+  const record = await db.categoryClassifier.findUnique({ where: { id: CLASSIFIER_ID } });
+  if (record?.model) {
+    return JSON.parse(record.model);
+  }
+
+  const model = await buildModel(db);
+  await saveModel(db, model);
+  return model;
+}
+
+function toStatus(model: ClassifierModel, autoApply: boolean): ClassifierStatus {
+  return {
+    autoApply,
+    exampleCount: model.documentCount,
+    categoryCount: Object.keys(model.categories).length,
+  };
+}
+
+export async function getClassifierStatus(): Promise<ClassifierStatus> {
+  const model = await loadModel(prisma);
+  const record = await prisma.categoryClassifier.findUnique({ where: { id: CLASSIFIER_ID } });
+  return toStatus(model, record?.autoApply ?? false);
+}
+
+/**
+ * Turns on or off the categorization of new transactions by confident suggestions
+ */
+export async function setClassifierAutoApply(autoApply: boolean): Promise<ClassifierStatus> {
+  const model = await loadModel(prisma);
+  await prisma.categoryClassifier.update({ where: { id: CLASSIFIER_ID }, data: { autoApply } });
+  return toStatus(model, autoApply);
+}
+
+/**
+ * Retrains the model from scratch on all categorized transactions
+ */
+export async function rebuildClassifier(): Promise<ClassifierStatus> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const model = await buildModel(tx);
+    await saveModel(tx, model);
+    const record = await tx.categoryClassifier.findUnique({ where: { id: CLASSIFIER_ID } });
+    return toStatus(model, record?.autoApply ?? false);
+  });
+}
+
+/**
+ * Drops the model, it is retrained on next use
+ */
+export async function invalidateClassifier(db: Prisma.TransactionClient = prisma): Promise<void> {
+  await db.categoryClassifier.updateMany({ where: { id: CLASSIFIER_ID }, data: { model: null } });
+}
+
+/**
+ * Teaches the stored model newly categorized transactions
+ * Nothing to do when the model is invalidated or not trained yet: it is
+ * trained with them on next use.
+ */
+export async function learnTransactions(
+  db: Prisma.TransactionClient,
+  examples: TrainingExample[]
+): Promise<void> {
+  if (examples.length === 0) {
+    return;
+  }
+  const record = await db.categoryClassifier.findUnique({ where: { id: CLASSIFIER_ID } });
+  if (record?.model) {
+    await saveModel(db, trainClassifier(JSON.parse(record.model), examples));
+  }
+}
+
+/**
+ * Builds the categorization of new transactions by confident suggestions
+ * @returns Function giving the category of a transaction or null, or null when auto-apply is off
+ */
+export async function loadAutoCategorizer(
+  db: Prisma.TransactionClient = prisma
+): Promise<((transaction: ClassifierSubject) => number | null) | null> {
+  const record = await db.categoryClassifier.findUnique({ where: { id: CLASSIFIER_ID } });
+  if (!record?.autoApply) {
+    return null;
+  }
+
+  const model = await loadModel(db);
+  const suggest = createCategorySuggester(model);
+  return (transaction) => {
+    const [best] = suggest(transaction, 1);
+    return best && isConfidentSuggestion(model, best) ? best.categoryId : null;
+  };
+}
+
+/**
+ * Lists the latest uncategorized transactions with their suggested categories
+ */
+export async function listCategorySuggestions(): Promise<{
+  uncategorizedCount: number;
+  transactions: TransactionSuggestions[];
+}> {
+  const model = await loadModel(prisma);
+  const [uncategorizedCount, transactions, categories] = await Promise.all([
+    prisma.transaction.count({ where: UNCATEGORIZED }),
+    prisma.transaction.findMany({
+      where: UNCATEGORIZED,
+      orderBy: [{ date: 'desc' }, { id: 'desc' }],
+      take: SUGGESTION_LIST_LIMIT,
+      select: { id: true, date: true, description: true, amount: true },
+    }),
+    prisma.category.findMany({ select: { id: true, name: true } }),
+  ]);
+
+  const names = new Map<number, string>(
+    categories.map((category: { id: number; name: string }) => [category.id, category.name])
+  );
+  const suggest = createCategorySuggester(model);
+
+  return {
+    uncategorizedCount,
+    transactions: transactions.map((transaction: Omit<TransactionSuggestions, 'suggestions'>) => ({
+      ...transaction,
+      suggestions: suggest(transaction)
+        .filter((suggestion) => names.has(suggestion.categoryId))
+        .map((suggestion) => ({
+          ...suggestion,
+          categoryName: names.get(suggestion.categoryId) ?? '',
+        })),
+    })),
+  };
+}
+
+/**
+ * Sets the category of a transaction, accepting or correcting a suggestion
+ * The model learns the change right away: it forgets the previous category
+ * and learns the new one. A split transaction loses its lines.
+ */
+export async function setTransactionCategory(
+  id: number,
+  categoryId: number | null
+): Promise<SetTransactionCategoryResult> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const transaction: (ClassifierSubject & { categoryId: number | null }) | null =
+      await tx.transaction.findUnique({
+        where: { id },
+        select: { description: true, amount: true, categoryId: true },
+      });
+    if (!transaction) {
+      return { status: 'not-found' };
+    }
+    if (categoryId !== null && !(await tx.category.findUnique({ where: { id: categoryId } }))) {
+      return { status: 'category-not-found' };
+    }
+    const { count: removedSplits } = await tx.transactionSplit.deleteMany({
+      where: { transactionId: id },
+    });
+    if (transaction.categoryId === categoryId) {
+      if (removedSplits > 0) {
+        await tx.transaction.update({ where: { id }, data: { editedAt: new Date() } });
+      }
+      return { status: 'saved' };
+    }
+
+    // Loaded before the update, so that a model trained now does not count it twice
+    let model = await loadModel(tx);
+    await tx.transaction.update({ where: { id }, data: { categoryId, editedAt: new Date() } });
+
+    if (transaction.categoryId !== null) {
+      model = untrainClassifier(model, [{ ...transaction, categoryId: transaction.categoryId }]);
+    }
+    if (categoryId !== null) {
+      model = trainClassifier(model, [{ ...transaction, categoryId }]);
+    }
+    await saveModel(tx, model);
+    return { status: 'saved' };
+  });
+}
@@ -0,0 +1,252 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { learnTransactions } from '@/lib/category-classifier';
+import { categoryRuleSchema, categoryRuleUpdateSchema } from '@/lib/schemas';
+import {
+  AmountSign,
+  CategoryRule,
+  categorizeTransactions,
+  DescriptionMatch,
+  previewRules,
+  RulePreview,
+  RuleSubject,
+  validateRuleConditions,
+} from '@/domain/category-rules';
+
+export type CategoryRuleInput = z.infer<typeof categoryRuleSchema>;
+export type CategoryRuleUpdate = z.infer<typeof categoryRuleUpdateSchema>;
+
+export interface CategoryRuleSummary extends CategoryRule {
+  categoryName: string;
+  accountName: string | null;
+}
+
+export type SaveRuleResult =
+  | { status: 'not-found' }
+  | { status: 'invalid'; message: string }
+  | { status: 'category-not-found' }
+  | { status: 'account-not-found' }
+  | { status: 'saved'; rule: CategoryRule };
+
+export interface ApplyRulesResult {
+  uncategorizedCount: number; // Transactions without category before applying
+  categorizedCount: number; // Transactions categorized, or that would be in a dry run
+  rules: RulePreview[];
+}
+
+interface CategoryRuleRecord {
+  id: number;
+  name: string;
+  categoryId: number;
+  priority: number;
+  enabled: boolean;
+  descriptionMatch: string | null;
+  descriptionPattern: string | null;
+  minAmount: number | null;
+  maxAmount: number | null;
+  sign: string | null;
+  accountId: number | null;
+  weekdays: string;
+}
+
+const DEFAULT_PRIORITY = 100;
+
+/**
+ * Converts a database row to a domain rule
+ */
+function toCategoryRule(record: CategoryRuleRecord): CategoryRule {
+  return {
+    id: record.id,
+    name: record.name,
+    categoryId: record.categoryId,
+    priority: record.priority,
+    enabled: record.enabled,
+    descriptionMatch: record.descriptionMatch as DescriptionMatch | null,
+    descriptionPattern: record.descriptionPattern,
+    minAmount: record.minAmount,
+    maxAmount: record.maxAmount,
+    sign: record.sign as AmountSign | null,
+    accountId: record.accountId,
+    weekdays: JSON.parse(record.weekdays),
+  };
+}
+
+/**
+ * Converts rule fields to database columns
+ */
+function toCategoryRuleData(rule: Omit<CategoryRule, 'id'>) {
+  return {
+    ...rule,
+    descriptionPattern: rule.descriptionMatch ? rule.descriptionPattern?.trim() ?? null : null,
+    weekdays: JSON.stringify([...new Set(rule.weekdays)].sort()),
+  };
+}
+
+/**
+ * Lists rules in the order they are tried, with their category and account names
+ */
+export async function listCategoryRules(): Promise<CategoryRuleSummary[]> {
+  const records = await prisma.categoryRule.findMany({
+    orderBy: [{ priority: 'asc' }, { id: 'asc' }],
+    include: {
+      category: { select: { name: true } },
+      account: { select: { name: true } },
+    },
+  });
+
+  return records.map(
+    ({
+      category,
+      account,
+      ...record
+    }: CategoryRuleRecord & { category: { name: string }; account: { name: string } | null }) => ({
+      ...toCategoryRule(record),
+      categoryName: category.name,
+      accountName: account?.name ?? null,
+    })
+  );
+}
+
+/**
+ * Loads the rules applied to new transactions
+ */
+export async function loadCategoryRules(
+  db: Prisma.TransactionClient = prisma
+): Promise<CategoryRule[]> {
+  const records: CategoryRuleRecord[] = await db.categoryRule.findMany({
+    where: { enabled: true },
+  });
+  return records.map(toCategoryRule);
+}
+
+/**
+ * Validates a complete rule and checks that its category and account exist
+ */
+async function checkRule(rule: Omit<CategoryRule, 'id'>): Promise<SaveRuleResult | null> {
+  const message = validateRuleConditions(rule);
+  if (message) {
+    return { status: 'invalid', message };
+  }
+  if (!(await prisma.category.findUnique({ where: { id: rule.categoryId } }))) {
+    return { status: 'category-not-found' };
+  }
+  if (rule.accountId !== null && !(await prisma.account.findUnique({ where: { id: rule.accountId } }))) {
+    return { status: 'account-not-found' };
+  }
+  return null;
+}
+
+/**
+ * Creates a rule
+ */
+export async function createCategoryRule(input: CategoryRuleInput): Promise<SaveRuleResult> {
+  const rule = {
+    name: input.name,
+    categoryId: input.categoryId,
+    priority: input.priority ?? DEFAULT_PRIORITY,
+    enabled: input.enabled ?? true,
+    descriptionMatch: input.descriptionMatch ?? null,
+    descriptionPattern: input.descriptionPattern ?? null,
+    minAmount: input.minAmount ?? null,
+    maxAmount: input.maxAmount ?? null,
+    sign: input.sign ?? null,
+    accountId: input.accountId ?? null,
+    weekdays: input.weekdays ?? [],
+  };
+
+  const error = await checkRule(rule);
+  if (error) {
+    return error;
+  }
+
+  const record = await prisma.categoryRule.create({ data: toCategoryRuleData(rule) });
+  return { status: 'saved', rule: toCategoryRule(record) };
+}
+
+/**
+ * Updates some fields of a rule, the resulting rule is validated as a whole
+ */
+export async function updateCategoryRule(
+  id: number,
+  input: CategoryRuleUpdate
+): Promise<SaveRuleResult> {
+  const record: CategoryRuleRecord | null = await prisma.categoryRule.findUnique({ where: { id } });
+  if (!record) {
+    return { status: 'not-found' };
+  }
+
+  // Omitted fields keep their value, null clears a condition
+  const { id: _id, ...current } = toCategoryRule(record);
+  const fields = Object.fromEntries(
+    Object.entries(input).filter(([, value]) => value !== undefined)
+  ) as Partial<Omit<CategoryRule, 'id'>>;
+  const rule = { ...current, ...fields };
+
+  const error = await checkRule(rule);
+  if (error) {
+    return error;
+  }
+
+  const updated = await prisma.categoryRule.update({
+    where: { id: _id },
+    data: toCategoryRuleData(rule),
+  });
+  return { status: 'saved', rule: toCategoryRule(updated) };
+}
+
+/**
+ * Deletes a rule, the transactions it categorized keep their category
+ */
+export async function deleteCategoryRule(id: number): Promise<boolean> {
+  const deleted = await prisma.categoryRule.deleteMany({ where: { id } });
+  return deleted.count > 0;
+}
+
+/**
+ * Applies the rules to the transactions without category
+ * A dry run only counts the transactions each rule would categorize.
+ */
+export async function applyCategoryRules({
+  dryRun = false,
+}: { dryRun?: boolean } = {}): Promise<ApplyRulesResult> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const rules = await loadCategoryRules(tx);
+    const transactions: (RuleSubject & { id: number })[] = await tx.transaction.findMany({
+      where: { categoryId: null, splits: { none: {} } }, // Split lines have their own categories
+      select: { id: true, date: true, description: true, amount: true, accountId: true },
+    });
+
+    const previews = previewRules(transactions, rules);
+    const categorizedCount = previews.reduce((sum, preview) => sum + preview.appliedCount, 0);
+    if (!dryRun && categorizedCount > 0) {
+      // One update per category
+      const idsByCategory = new Map<number, number[]>();
+      const assignments = categorizeTransactions(transactions, rules);
+      assignments.forEach((assignment, index) => {
+        if (assignment) {
+          const ids = idsByCategory.get(assignment.categoryId) ?? [];
+          ids.push(transactions[index].id);
+          idsByCategory.set(assignment.categoryId, ids);
+        }
+      });
+
+      // Not a user edit: like rules applied on import, they leave rollbacks possible
+      for (const [categoryId, ids] of idsByCategory) {
+        await tx.transaction.updateMany({
+          where: { id: { in: ids }, categoryId: null, splits: { none: {} } },
+          data: { categoryId },
+        });
+      }
+      await learnTransactions(
+        tx,
+        transactions.flatMap((transaction, index) => {
+          const assignment = assignments[index];
+          return assignment ? [{ ...transaction, categoryId: assignment.categoryId }] : [];
+        })
+      );
+    }
+
+    return { uncategorizedCount: transactions.length, categorizedCount, rules: previews };
+  });
+}
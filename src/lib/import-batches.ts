@@ -0,0 +1,115 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { invalidateClassifier } from '@/lib/category-classifier';
+import { assessRollback, BatchTransaction, RollbackAssessment } from '@/domain/import-batches';
+
+export interface ImportBatchSummary {
+  id: number;
+  fileName: string;
+  fileHash: string | null;
+  sourceFormat: string;
+  profileName: string | null;
+  accountName: string | null;
+  rowCount: number;
+  insertedCount: number;
+  skippedCount: number;
+  suspiciousCount: number;
+  invalidCount: number;
+  status: string;
+  errorMessage: string | null;
+  rolledBackAt: Date | null;
+  createdAt: Date;
+  remainingCount: number; // Transactions still linked to the batch
+}
+
+interface ImportBatchRecord extends Omit<ImportBatchSummary, 'accountName' | 'remainingCount'> {
+  account: { name: string } | null;
+  _count: { transactions: number };
+}
+
+export type RollbackResult =
+  | { status: 'not-found' }
+  | { status: 'already-rolled-back' }
+  | { status: 'pending' } // Import job still waiting for its file
+  | { status: 'running' } // Import job still inserting rows
+  | { status: 'failed'; errorMessage: string | null } // Import job failed, its rows are already deleted
+  | { status: 'blocked'; assessment: RollbackAssessment }
+  | { status: 'rolled-back'; deleted: number; assessment: RollbackAssessment };
+
+/**
+ * Lists import batches, most recent first
+ */
+export async function listImportBatches(): Promise<ImportBatchSummary[]> {
+  const batches: ImportBatchRecord[] = await prisma.importBatch.findMany({
+    orderBy: { createdAt: 'desc' },
+    include: {
+      account: { select: { name: true } },
+      _count: { select: { transactions: true } },
+    },
+  });
+
+  return batches.map(({ account, _count, ...batch }) => ({
+    ...batch,
+    accountName: account?.name ?? null,
+    remainingCount: _count.transactions,
+  }));
+}
+
+/**
+ * Finds an earlier import of the same file that was not rolled back
+ */
+export async function findBatchByHash(fileHash: string) {
+  return prisma.importBatch.findFirst({
+    where: { fileHash, rolledBackAt: null },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, fileName: true, createdAt: true },
+  });
+}
+
+/**
+ * Deletes all transactions of a batch in one database transaction
+ * Refuses when some of them were categorized or edited since the import,
+ * unless force is set
+ */
+export async function rollbackImportBatch(
+  id: number,
+  { force = false }: { force?: boolean } = {}
+): Promise<RollbackResult> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const batch = await tx.importBatch.findUnique({ where: { id } });
+    if (!batch) {
+      return { status: 'not-found' };
+    }
+    if (batch.status === 'failed') {
+      return { status: 'failed', errorMessage: batch.errorMessage };
+    }
+    if (batch.rolledBackAt) {
+      return { status: 'already-rolled-back' };
+    }
+    if (batch.status === 'pending' || batch.status === 'running') {
+      return { status: batch.status };
+    }
+
+    const transactions: BatchTransaction[] = await tx.transaction.findMany({
+      where: { importBatchId: id },
+      select: { id: true, categoryId: true, editedAt: true },
+    });
+
+    const assessment = assessRollback(transactions);
+    if (!assessment.safe && !force) {
+      return { status: 'blocked', assessment };
+    }
+
+    const deleted = await tx.transaction.deleteMany({ where: { importBatchId: id } });
+    // The model learned the categories of the deleted transactions
+    if (transactions.some((transaction) => transaction.categoryId !== null)) {
+      await invalidateClassifier(tx);
+    }
+    await tx.importBatch.update({
+      where: { id },
+      data: { rolledBackAt: new Date() },
+    });
+
+    return { status: 'rolled-back', deleted: deleted.count, assessment };
+  });
+}
@@ -0,0 +1,121 @@
+import { prisma } from '@/lib/prisma';
+import { BUILT_IN_PROFILES, ImportProfile } from '@/domain/import-profiles';
+import { CSVDelimiter, CSVEncoding, CSVFormat, CSVQuoteChar } from '@/domain/csv-format';
+import {
+  ColumnMapping,
+  DateFormat,
+  DecimalSeparator,
+  SignConvention,
+  isSplitAmountMapping,
+} from '@/domain/csv-import';
+
+interface ImportProfileRecord {
+  id: number;
+  name: string;
+  headers: string;
+  dateColumn: number;
+  descriptionColumn: number;
+  amountColumn: number | null;
+  debitColumn: number | null;
+  creditColumn: number | null;
+  balanceColumn: number | null;
+  dateFormat: string;
+  decimalSeparator: string;
+  skipRows: number;
+  signConvention: string;
+  encoding: string;
+  delimiter: string;
+  quoteChar: string;
+}
+
+/**
+ * Converts a database row to a domain profile
+ * @returns null when the row has neither an amount column nor both debit and credit columns
+ */
+export function toImportProfile(record: ImportProfileRecord): ImportProfile | null {
+  const options = {
+    dateFormat: record.dateFormat as DateFormat,
+    decimalSeparator:
+      record.decimalSeparator === 'auto' ? undefined : (record.decimalSeparator as DecimalSeparator),
+    signConvention: record.signConvention as SignConvention,
+    ...(record.balanceColumn !== null && { balanceColumn: record.balanceColumn }),
+  };
+
+  let mapping: ColumnMapping;
+  if (record.amountColumn !== null) {
+    mapping = {
+      dateColumn: record.dateColumn,
+      descriptionColumn: record.descriptionColumn,
+      amountColumn: record.amountColumn,
+      ...options,
+    };
+  } else if (record.debitColumn !== null && record.creditColumn !== null) {
+    mapping = {
+      dateColumn: record.dateColumn,
+      descriptionColumn: record.descriptionColumn,
+      debitColumn: record.debitColumn,
+      creditColumn: record.creditColumn,
+      ...options,
+    };
+  } else {
+    return null;
+  }
+
+  // 'auto' settings are detected on each file
+  const csvFormat: Partial<CSVFormat> = {};
+  if (record.encoding !== 'auto') {
+    csvFormat.encoding = record.encoding as CSVEncoding;
+  }
+  if (record.delimiter !== 'auto') {
+    csvFormat.delimiter = record.delimiter as CSVDelimiter;
+  }
+  if (record.quoteChar !== 'auto') {
+    csvFormat.quoteChar = record.quoteChar as CSVQuoteChar;
+  }
+
+  return {
+    id: record.id,
+    name: record.name,
+    headers: JSON.parse(record.headers),
+    mapping,
+    skipRows: record.skipRows,
+    csvFormat,
+  };
+}
+
+/**
+ * Converts a domain profile to database columns
+ */
+export function toImportProfileData(profile: ImportProfile) {
+  const { mapping } = profile;
+
+  return {
+    name: profile.name,
+    headers: JSON.stringify(profile.headers),
+    dateColumn: mapping.dateColumn,
+    descriptionColumn: mapping.descriptionColumn,
+    amountColumn: isSplitAmountMapping(mapping) ? null : mapping.amountColumn,
+    debitColumn: isSplitAmountMapping(mapping) ? mapping.debitColumn : null,
+    creditColumn: isSplitAmountMapping(mapping) ? mapping.creditColumn : null,
+    balanceColumn: mapping.balanceColumn ?? null,
+    dateFormat: mapping.dateFormat ?? 'auto',
+    decimalSeparator: mapping.decimalSeparator ?? 'auto', // Detected per value
+    skipRows: profile.skipRows,
+    signConvention: mapping.signConvention ?? 'signed',
+    encoding: profile.csvFormat?.encoding ?? 'auto',
+    delimiter: profile.csvFormat?.delimiter ?? 'auto',
+    quoteChar: profile.csvFormat?.quoteChar ?? 'auto',
+  };
+}
+
+/**
+ * Lists saved profiles followed by built-in ones, in matching priority order
+ * Saved profiles without amount columns cannot map a file and are left out.
+ */
+export async function listImportProfiles(): Promise<ImportProfile[]> {
+  const records: ImportProfileRecord[] = await prisma.importProfile.findMany({
+    orderBy: { name: 'asc' },
+  });
+
+  return [...records.flatMap((record) => toImportProfile(record) ?? []), ...BUILT_IN_PROFILES];
+}
@@ -0,0 +1,385 @@
+import { watch } from 'node:fs';
+import { mkdir, readdir, readFile, rename, stat } from 'node:fs/promises';
+import { basename, dirname, extname, join } from 'node:path';
+import { prisma } from '@/lib/prisma';
+import { findBatchByHash } from '@/lib/import-batches';
+import { listImportProfiles } from '@/lib/import-profiles';
+import { STATEMENT_EXTENSIONS, hashBytes, parseStatementFile } from '@/lib/statement-files';
+import { importTransactions } from '@/lib/transaction-import';
+import { matchAccount } from '@/domain/accounts';
+
+/**
+ * Inbox folder watched by the server
+ * Statements dropped in IMPORT_INBOX_DIR are imported with the profile
+ * recognized from their header row, then moved to processed/ or failed/.
+ * Files in a subfolder named after an account are imported into it, OFX and
+ * CAMT statements into the account matching their account number.
+ * CSV files matching no profile stay in place, pending a manual import.
+ */
+
+const PROCESSED_FOLDER = 'processed';
+const FAILED_FOLDER = 'failed';
+
+// Files modified more recently are probably still being written
+const SETTLE_DELAY_MS = 2000;
+// Full scan catching the changes missed by fs.watch and the files not settled yet
+const POLL_INTERVAL_MS = 60 * 1000;
+// Delay grouping the events of a file being written
+const WATCH_DEBOUNCE_MS = 500;
+
+// Entries returned to the UI, most recent first
+const INBOX_LOG_LIMIT = 50;
+
+export type InboxFileStatus = 'pending' | 'imported' | 'skipped' | 'failed';
+
+export interface InboxFileSummary {
+  id: number;
+  fileName: string;
+  path: string;
+  status: InboxFileStatus;
+  profileName: string | null;
+  accountName: string | null;
+  importBatchId: number | null;
+  insertedCount: number | null;
+  errorMessage: string | null;
+  createdAt: Date;
+  processedAt: Date | null;
+}
+
+export type ResolveInboxFileResult = 'not-found' | 'not-pending' | 'batch-not-found' | 'resolved';
+
+interface InboxFileRecord {
+  id: number;
+  path: string;
+  status: string;
+}
+
+interface AccountRecord {
+  id: number;
+  name: string;
+  ibanMask: string | null;
+}
+
+/**
+ * Directory watched for new statements, null when the inbox is disabled
+ */
+export function getInboxDir(): string | null {
+  return process.env.IMPORT_INBOX_DIR || null;
+}
+
+/**
+ * Lists the statement files waiting in the inbox and in its account
+ * subfolders, as paths relative to the inbox
+ */
+async function listInboxPaths(dir: string): Promise<string[]> {
+  const isStatement = (name: string) => STATEMENT_EXTENSIONS.includes(extname(name).toLowerCase());
+  const entries = await readdir(dir, { withFileTypes: true });
+  const paths = entries.filter((e) => e.isFile() && isStatement(e.name)).map((e) => e.name);
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || [PROCESSED_FOLDER, FAILED_FOLDER].includes(entry.name)) {
+      continue;
+    }
+    const children = await readdir(join(dir, entry.name), { withFileTypes: true });
+    paths.push(
+      ...children
+        .filter((e) => e.isFile() && isStatement(e.name))
+        .map((e) => join(entry.name, e.name))
+    );
+  }
+
+  return paths.sort();
+}
+
+/**
+ * Moves a file to a subfolder of the inbox, without overwriting
+ * @returns New path, relative to the inbox
+ */
+async function moveInboxFile(dir: string, path: string, folder: string): Promise<string> {
+  await mkdir(join(dir, folder), { recursive: true });
+
+  const name = basename(path);
+  let target = join(folder, name);
+  if (await stat(join(dir, target)).catch(() => null)) {
+    target = join(folder, `${new Date().toISOString().replace(/[:.]/g, '-')}-${name}`);
+  }
+
+  await rename(join(dir, path), join(dir, target));
+  return target;
+}
+
+/**
+ * Account of a file: the one its subfolder is named after, else the one
+ * matching the account number of the statement
+ */
+function resolveAccount(
+  accounts: AccountRecord[],
+  path: string,
+  accountNumber: string | undefined
+): AccountRecord | null {
+  const folder = dirname(path);
+  if (folder !== '.') {
+    const account = accounts.find((a) => a.name.toLowerCase() === folder.toLowerCase());
+    if (!account) {
+      throw new Error(`Aucun compte ne s'appelle « ${folder} »`);
+    }
+    return account;
+  }
+
+  return matchAccount(accounts, accountNumber);
+}
+
+/**
+ * Imports one file of the inbox and records the outcome
+ * Known files are left alone: pending ones wait for the user, the others
+ * were moved away and only come back when dropped again.
+ */
+async function processInboxFile(dir: string, path: string): Promise<void> {
+  const stats = await stat(join(dir, path));
+  if (Date.now() - stats.mtimeMs < SETTLE_DELAY_MS) {
+    return;
+  }
+
+  const bytes = new Uint8Array(await readFile(join(dir, path)));
+  const fileHash = hashBytes(bytes);
+  const pending = await prisma.inboxFile.findFirst({
+    where: { fileHash, path, status: 'pending' },
+  });
+  if (pending) {
+    return;
+  }
+
+  const record = { fileName: basename(path), fileHash };
+  const previousImport = await findBatchByHash(fileHash);
+  if (previousImport) {
+    await prisma.inboxFile.create({
+      data: {
+        ...record,
+        path: await moveInboxFile(dir, path, PROCESSED_FOLDER),
+        status: 'skipped',
+        importBatchId: previousImport.id,
+        errorMessage: `Déjà importé le ${previousImport.createdAt.toLocaleDateString('fr-FR')}`,
+        processedAt: new Date(),
+      },
+    });
+    return;
+  }
+
+  try {
+    const [profiles, accounts] = await Promise.all([
+      listImportProfiles(),
+      prisma.account.findMany({ select: { id: true, name: true, ibanMask: true } }),
+    ]);
+    const parsed = parseStatementFile(bytes, profiles);
+    if (!parsed) {
+      await prisma.inboxFile.create({ data: { ...record, path, status: 'pending' } });
+      return;
+    }
+
+    const account = resolveAccount(accounts, path, parsed.accountNumber);
+    const { valid, invalid } = parsed.result;
+    if (valid.length === 0) {
+      throw new Error('Aucune transaction valide');
+    }
+
+    const summary = await importTransactions(valid, {
+      fileName: record.fileName,
+      fileHash,
+      sourceFormat: parsed.sourceFormat,
+      profileName: parsed.profileName,
+      accountId: account?.id,
+      rowCount: valid.length + invalid.length,
+      invalidCount: invalid.length,
+    });
+    await prisma.inboxFile.create({
+      data: {
+        ...record,
+        path: await moveInboxFile(dir, path, PROCESSED_FOLDER),
+        status: 'imported',
+        profileName: parsed.profileName ?? null,
+        accountId: account?.id ?? null,
+        importBatchId: summary.batchId,
+        processedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    await prisma.inboxFile.create({
+      data: {
+        ...record,
+        path: await moveInboxFile(dir, path, FAILED_FOLDER),
+        status: 'failed',
+        errorMessage: error instanceof Error ? error.message : String(error),
+        processedAt: new Date(),
+      },
+    });
+  }
+}
+
+let scanning: Promise<void> | null = null;
+let rescan = false;
+
+/**
+ * Processes the files of the inbox one at a time
+ * A scan requested while another one runs is done right after it
+ */
+export function scanInbox(dir: string): Promise<void> {
+  if (scanning) {
+    rescan = true;
+    return scanning;
+  }
+
+  scanning = (async () => {
+    do {
+      rescan = false;
+      for (const path of await listInboxPaths(dir)) {
+        try {
+          await processInboxFile(dir, path);
+        } catch (error) {
+          console.error(`Error processing inbox file ${path}:`, error);
+        }
+      }
+    } while (rescan);
+  })()
+    .catch((error) => {
+      console.error('Error scanning the import inbox:', error);
+    })
+    .finally(() => {
+      scanning = null;
+    });
+
+  return scanning;
+}
+
+/**
+ * Watches the inbox: scans it now, on file changes and periodically
+ * @returns Function stopping the watch
+ */
+export function watchInbox(dir: string): () => void {
+  // Hot reloads in development would start another watcher
+  const globalForInbox = globalThis as unknown as { stopInboxWatch?: () => void };
+  globalForInbox.stopInboxWatch?.();
+
+  let timer: NodeJS.Timeout | null = null;
+  const scheduleScan = () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => scanInbox(dir), WATCH_DEBOUNCE_MS);
+  };
+
+  const watcher = watch(dir, scheduleScan);
+  watcher.on('error', (error) => {
+    console.error('Error watching the import inbox:', error);
+  });
+  const interval = setInterval(() => scanInbox(dir), POLL_INTERVAL_MS);
+  scanInbox(dir);
+
+  const stop = () => {
+    watcher.close();
+    clearInterval(interval);
+    if (timer) {
+      clearTimeout(timer);
+    }
+  };
+  globalForInbox.stopInboxWatch = stop;
+  return stop;
+}
+
+/**
+ * Lists the latest files seen in the inbox, most recent first
+ */
+export async function listInboxFiles(): Promise<InboxFileSummary[]> {
+  const files = await prisma.inboxFile.findMany({
+    orderBy: { createdAt: 'desc' },
+    take: INBOX_LOG_LIMIT,
+    select: {
+      id: true,
+      fileName: true,
+      path: true,
+      status: true,
+      profileName: true,
+      importBatchId: true,
+      errorMessage: true,
+      createdAt: true,
+      processedAt: true,
+      account: { select: { name: true } },
+      importBatch: { select: { insertedCount: true } },
+    },
+  });
+
+  return files.map(
+    ({
+      account,
+      importBatch,
+      ...file
+    }: {
+      account: { name: string } | null;
+      importBatch: { insertedCount: number } | null;
+    } & Omit<InboxFileSummary, 'accountName' | 'insertedCount'>) => ({
+      ...file,
+      accountName: account?.name ?? null,
+      insertedCount: importBatch?.insertedCount ?? null,
+    })
+  );
+}
+
+/**
+ * Reads a pending file, to import it with the wizard
+ */
+export async function readPendingInboxFile(
+  id: number
+): Promise<{ fileName: string; bytes: Uint8Array } | null> {
+  const dir = getInboxDir();
+  const file: (InboxFileRecord & { fileName: string }) | null = await prisma.inboxFile.findUnique({
+    where: { id },
+  });
+  if (!dir || !file || file.status !== 'pending') {
+    return null;
+  }
+
+  const bytes = await readFile(join(dir, file.path)).catch(() => null);
+  return bytes ? { fileName: file.fileName, bytes: new Uint8Array(bytes) } : null;
+}
+
+/**
+ * Closes a pending file once imported with the wizard, or dismisses it
+ * The file is moved to processed/ or failed/ accordingly.
+ */
+export async function resolveInboxFile(
+  id: number,
+  { importBatchId }: { importBatchId?: number } = {}
+): Promise<ResolveInboxFileResult> {
+  const dir = getInboxDir();
+  const file: InboxFileRecord | null = await prisma.inboxFile.findUnique({ where: { id } });
+  if (!dir || !file) {
+    return 'not-found';
+  }
+  if (file.status !== 'pending') {
+    return 'not-pending';
+  }
+  if (
+    importBatchId !== undefined &&
+    !(await prisma.importBatch.findUnique({ where: { id: importBatchId } }))
+  ) {
+    return 'batch-not-found';
+  }
+
+  // The file may have been removed from the inbox meanwhile
+  const imported = importBatchId !== undefined;
+  const exists = await stat(join(dir, file.path)).catch(() => null);
+  const path = exists
+    ? await moveInboxFile(dir, file.path, imported ? PROCESSED_FOLDER : FAILED_FOLDER)
+    : file.path;
+  await prisma.inboxFile.update({
+    where: { id },
+    data: {
+      path,
+      status: imported ? 'imported' : 'failed',
+      importBatchId: importBatchId ?? null,
+      errorMessage: imported ? null : 'Ignoré',
+      processedAt: new Date(),
+    },
+  });
+
+  return 'resolved';
+}
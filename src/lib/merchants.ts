@@ -0,0 +1,297 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { merchantUpdateSchema } from '@/lib/schemas';
+import {
+  createMerchantMatcher,
+  normalizeMerchantKey,
+  planMerchantLinks,
+} from '@/domain/merchants';
+import { Merchant } from '@/domain/types';
+
+export type MerchantUpdate = z.infer<typeof merchantUpdateSchema>;
+
+export interface MerchantSummary extends Merchant {
+  transactionCount: number;
+  totalAmount: number; // Sum of the signed amounts
+  lastTransactionDate: Date | null;
+}
+
+export type SaveMerchantResult =
+  | { status: 'not-found' }
+  | { status: 'name-taken'; conflict: { id: number; name: string } }
+  | { status: 'category-not-found' }
+  | { status: 'alias-taken'; key: string; merchantId: number }
+  | { status: 'saved'; merchant: Merchant };
+
+export type MergeMerchantsResult =
+  | { status: 'not-found' }
+  | { status: 'source-not-found' }
+  | { status: 'merged'; merchant: Merchant; movedCount: number };
+
+interface MerchantRow {
+  id: number;
+  name: string;
+  categoryId: number | null;
+  aliases: { key: string }[];
+}
+
+interface MerchantUsageRow {
+  merchantId: number;
+  _count: { _all: number };
+  _sum: { amount: number | null };
+  _max: { date: Date | null };
+}
+
+const MERCHANT_SELECT = {
+  id: true,
+  name: true,
+  categoryId: true,
+  aliases: { select: { key: true }, orderBy: { key: 'asc' } },
+};
+
+function toMerchant({ aliases, ...merchant }: MerchantRow): Merchant {
+  return { ...merchant, aliases: aliases.map((alias) => alias.key) };
+}
+
+async function loadMerchants(db: Prisma.TransactionClient): Promise<Merchant[]> {
+  const rows: MerchantRow[] = await db.merchant.findMany({
+    orderBy: { name: 'asc' },
+    select: MERCHANT_SELECT,
+  });
+  return rows.map(toMerchant);
+}
+
+/**
+ * Lists merchants by name with their transaction count and total
+ */
+export async function listMerchantSummaries(): Promise<MerchantSummary[]> {
+  const [merchants, usage] = await Promise.all([
+    loadMerchants(prisma),
+    prisma.transaction.groupBy({
+      by: ['merchantId'],
+      where: { merchantId: { not: null } },
+      _count: { _all: true },
+      _sum: { amount: true },
+      _max: { date: true },
+    }),
+  ]);
+
+  const usageByMerchant = new Map<number, MerchantUsageRow>(
+    usage.map((row: MerchantUsageRow) => [row.merchantId, row])
+  );
+  return merchants.map((merchant) => {
+    const row = usageByMerchant.get(merchant.id);
+    return {
+      ...merchant,
+      transactionCount: row?._count._all ?? 0,
+      totalAmount: Math.round((row?._sum.amount ?? 0) * 100) / 100,
+      lastTransactionDate: row?._max.date ?? null,
+    };
+  });
+}
+
+/**
+ * Finds the merchant of each description, creating the missing ones
+ * @returns Merchant of each description that has a merchant key
+ */
+export async function resolveMerchants(
+  db: Prisma.TransactionClient,
+  descriptions: string[]
+): Promise<Map<string, Pick<Merchant, 'id' | 'categoryId'>>> {
+  const plan = planMerchantLinks(descriptions, await loadMerchants(db));
+  const resolved = new Map<string, Pick<Merchant, 'id' | 'categoryId'>>(plan.known);
+
+  if (plan.newAliases.length > 0) {
+    await db.merchantAlias.createMany({
+      data: plan.newAliases.map(({ merchant, key }) => ({ merchantId: merchant.id, key })),
+    });
+  }
+  for (const created of plan.created) {
+    const merchant: Pick<Merchant, 'id' | 'categoryId'> = await db.merchant.create({
+      data: { name: created.name, aliases: { create: { key: created.key } } },
+      select: { id: true, categoryId: true },
+    });
+    created.descriptions.forEach((description) => resolved.set(description, merchant));
+  }
+  return resolved;
+}
+
+/**
+ * Links transactions to their merchant, creating the missing merchants
+ * Only unlinked transactions are looked at, unless relinkAll is set, e.g.
+ * after the normalization changed.
+ *
+ * @returns Number of transactions whose merchant changed
+ */
+export async function linkTransactionMerchants({
+  relinkAll = false,
+}: { relinkAll?: boolean } = {}): Promise<{ linkedCount: number; merchantCount: number }> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const transactions: { id: number; description: string; merchantId: number | null }[] =
+      await tx.transaction.findMany({
+        where: relinkAll ? {} : { merchantId: null },
+        select: { id: true, description: true, merchantId: true },
+      });
+    const resolved = await resolveMerchants(
+      tx,
+      transactions.map((transaction) => transaction.description)
+    );
+
+    const idsByMerchant = new Map<number, number[]>();
+    transactions.forEach((transaction) => {
+      const merchant = resolved.get(transaction.description);
+      if (merchant && merchant.id !== transaction.merchantId) {
+        idsByMerchant.set(merchant.id, [...(idsByMerchant.get(merchant.id) ?? []), transaction.id]);
+      }
+    });
+    let linkedCount = 0;
+    for (const [merchantId, ids] of idsByMerchant) {
+      const { count } = await tx.transaction.updateMany({
+        where: { id: { in: ids } },
+        data: { merchantId },
+      });
+      linkedCount += count;
+    }
+
+    return { linkedCount, merchantCount: await tx.merchant.count() };
+  });
+}
+
+/**
+ * Moves to a merchant the transactions its aliases now match
+ */
+async function relinkMatchingTransactions(
+  db: Prisma.TransactionClient,
+  merchantId: number
+): Promise<void> {
+  const match = createMerchantMatcher(await loadMerchants(db));
+  const transactions: { id: number; description: string; merchantId: number | null }[] =
+    await db.transaction.findMany({
+      where: { OR: [{ merchantId: null }, { merchantId: { not: merchantId } }] },
+      select: { id: true, description: true, merchantId: true },
+    });
+  const ids = transactions
+    .filter((transaction) => match(transaction.description)?.id === merchantId)
+    .map((transaction) => transaction.id);
+  if (ids.length > 0) {
+    await db.transaction.updateMany({ where: { id: { in: ids } }, data: { merchantId } });
+  }
+}
+
+/**
+ * Renames a merchant, sets its default category and/or replaces its aliases
+ * Aliases are typed as descriptions and stored as merchant keys. Transactions
+ * matching a new alias move to the merchant; the ones matching a removed
+ * alias stay linked to it.
+ */
+export async function updateMerchant(
+  id: number,
+  input: MerchantUpdate
+): Promise<SaveMerchantResult> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const merchants = await loadMerchants(tx);
+    if (!merchants.some((merchant) => merchant.id === id)) {
+      return { status: 'not-found' };
+    }
+    const conflict =
+      input.name !== undefined
+        ? merchants.find(
+            (merchant) =>
+              merchant.id !== id && merchant.name.toLowerCase() === input.name?.toLowerCase()
+          )
+        : undefined;
+    if (conflict) {
+      return { status: 'name-taken', conflict };
+    }
+    if (
+      input.categoryId != null &&
+      !(await tx.category.findUnique({ where: { id: input.categoryId } }))
+    ) {
+      return { status: 'category-not-found' };
+    }
+
+    const keys =
+      input.aliases !== undefined
+        ? [...new Set(input.aliases.map(normalizeMerchantKey).filter((key) => key !== ''))]
+        : undefined;
+    if (keys !== undefined) {
+      const taken = merchants.find(
+        (merchant) => merchant.id !== id && merchant.aliases.some((alias) => keys.includes(alias))
+      );
+      if (taken) {
+        const key = keys.find((alias) => taken.aliases.includes(alias)) ?? '';
+        return { status: 'alias-taken', key, merchantId: taken.id };
+      }
+    }
+
+    await tx.merchant.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined && { name: input.name }),
+        ...(input.categoryId !== undefined && { categoryId: input.categoryId }),
+        ...(keys !== undefined && {
+          aliases: { deleteMany: {}, create: keys.map((key) => ({ key })) },
+        }),
+      },
+    });
+    if (keys !== undefined) {
+      await relinkMatchingTransactions(tx, id);
+    }
+
+    const merchant: MerchantRow = await tx.merchant.findUniqueOrThrow({
+      where: { id },
+      select: MERCHANT_SELECT,
+    });
+    return { status: 'saved', merchant: toMerchant(merchant) };
+  });
+}
+
+/**
+ * Merges a merchant into another: its aliases and transactions move over
+ * The merged merchant's default category is kept when the other has none.
+ */
+export async function mergeMerchants(
+  id: number,
+  sourceId: number
+): Promise<MergeMerchantsResult> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const target: { categoryId: number | null } | null = await tx.merchant.findUnique({
+      where: { id },
+    });
+    if (!target) {
+      return { status: 'not-found' };
+    }
+    const source: { categoryId: number | null } | null =
+      sourceId !== id ? await tx.merchant.findUnique({ where: { id: sourceId } }) : null;
+    if (!source) {
+      return { status: 'source-not-found' };
+    }
+
+    await tx.merchantAlias.updateMany({
+      where: { merchantId: sourceId },
+      data: { merchantId: id },
+    });
+    const moved = await tx.transaction.updateMany({
+      where: { merchantId: sourceId },
+      data: { merchantId: id },
+    });
+    await tx.merchant.delete({ where: { id: sourceId } });
+
+    const merchant: MerchantRow = await tx.merchant.update({
+      where: { id },
+      data: { categoryId: target.categoryId ?? source.categoryId },
+      select: MERCHANT_SELECT,
+    });
+    return { status: 'merged', merchant: toMerchant(merchant), movedCount: moved.count };
+  });
+}
+
+/**
+ * Deletes a merchant, its transactions become unlinked
+ * @returns false when the merchant does not exist
+ */
+export async function deleteMerchant(id: number): Promise<boolean> {
+  const { count } = await prisma.merchant.deleteMany({ where: { id } });
+  return count > 0;
+}
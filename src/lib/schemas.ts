@@ -0,0 +1,333 @@
+import { z } from 'zod';
+
+/**
+ * Zod schemas of the API payloads
+ * Shared by the routes and by any client that wants to validate before sending
+ */
+
+// Largest import accepted as a JSON body, larger files go through import jobs
+export const MAX_IMPORT_ROWS = 20000;
+export const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_TEXT_LENGTH = 1000;
+const MAX_AMOUNT = 1_000_000_000;
+
+const dateSchema = z
+  .union([z.string().max(40), z.date()])
+  .pipe(z.coerce.date({ error: 'Date invalide' }));
+
+const optionalText = (max: number) => z.string().trim().max(max).optional();
+
+export const transactionSchema = z.object({
+  date: dateSchema,
+  description: z
+    .string({ error: 'Description manquante' })
+    .trim()
+    .min(1, { error: 'La description est vide' })
+    .max(MAX_DESCRIPTION_LENGTH, { error: 'La description est trop longue' }),
+  amount: z
+    .number({ error: 'Montant invalide' })
+    .min(-MAX_AMOUNT, { error: 'Montant hors limites' })
+    .max(MAX_AMOUNT, { error: 'Montant hors limites' }),
+  externalId: optionalText(255),
+  accountNumber: optionalText(64),
+  valueDate: dateSchema.optional(),
+  counterpartyName: optionalText(255),
+  counterpartyIban: optionalText(64),
+  remittanceInfo: optionalText(MAX_TEXT_LENGTH),
+  categoryId: z.number().int().positive().optional(), // Chosen in the import preview
+});
+
+const accountIdSchema = z.number().int().positive();
+
+const fileHashSchema = z.string().regex(/^[0-9a-f]{64}$/, { error: 'Empreinte SHA-256 invalide' });
+
+export const importSourceSchema = z.object({
+  fileName: z.string().trim().max(255).optional(),
+  fileHash: fileHashSchema.optional(),
+  sourceFormat: z.enum(['csv', 'ofx', 'camt']).optional(),
+  profileName: optionalText(255),
+  accountId: accountIdSchema.optional(),
+  rowCount: z.number().int().nonnegative().optional(),
+  invalidCount: z.number().int().nonnegative().optional(),
+});
+
+export const importRequestSchema = z.object({
+  transactions: z.array(transactionSchema).min(1).max(MAX_IMPORT_ROWS),
+  source: importSourceSchema.optional(),
+});
+
+export const duplicateCheckRequestSchema = z.object({
+  transactions: z.array(transactionSchema).max(MAX_IMPORT_ROWS),
+  fileHash: fileHashSchema.optional(),
+  accountId: accountIdSchema.optional(),
+});
+
+export const csvFormatSchema = z.object({
+  encoding: z.enum(['utf-8', 'utf-16le', 'utf-16be', 'windows-1252']),
+  delimiter: z.enum([';', ',', '\t', '|']),
+  quoteChar: z.enum(['"', "'"]),
+});
+
+const columnIndex = z.number().int().min(0).max(1000);
+
+const parseOptionsSchema = z.object({
+  dateFormat: z
+    .enum([
+      'auto',
+      'YYYY-MM-DD',
+      'DD/MM/YYYY',
+      'MM/DD/YYYY',
+      'DD/MM/YY',
+      'MM/DD/YY',
+      'DD.MM.YYYY',
+      'DD.MM.YY',
+      'DD-MM-YYYY',
+      'DD-MM-YY',
+      'D MMMM YYYY',
+    ])
+    .optional(),
+  decimalSeparator: z.enum(['.', ',']).optional(),
+  signConvention: z.enum(['signed', 'inverted']).optional(),
+});
+
+export const columnMappingSchema = z.union([
+  parseOptionsSchema.extend({
+    dateColumn: columnIndex,
+    descriptionColumn: columnIndex,
+    debitColumn: columnIndex,
+    creditColumn: columnIndex,
+    balanceColumn: columnIndex.optional(),
+  }),
+  parseOptionsSchema.extend({
+    dateColumn: columnIndex,
+    descriptionColumn: columnIndex,
+    amountColumn: columnIndex,
+    balanceColumn: columnIndex.optional(),
+  }),
+]);
+
+export const importProfileSchema = z.object({
+  name: z.string().trim().min(1, { error: 'Le nom du profil est vide' }).max(100),
+  headers: z.array(z.string().max(255)).min(1).max(200),
+  mapping: columnMappingSchema,
+  skipRows: z.number().int().min(0).max(1000).default(0),
+  csvFormat: csvFormatSchema.partial().optional(),
+});
+
+export const importJobRequestSchema = z.object({
+  fileName: z.string().trim().min(1).max(255),
+  fileHash: fileHashSchema.optional(),
+  fileSize: z.number().int().nonnegative().optional(),
+  profileName: optionalText(255),
+  accountId: accountIdSchema.optional(),
+  mapping: columnMappingSchema,
+  headerRowIndex: z.number().int().min(0).max(1000).default(0),
+  csvFormat: csvFormatSchema,
+});
+
+export const rollbackRequestSchema = z.object({
+  force: z.boolean().default(false),
+});
+
+export const categorySchema = z.object({
+  name: z
+    .string({ error: 'Nom de catégorie manquant' })
+    .trim()
+    .min(1, { error: 'Le nom de la catégorie est vide' })
+    .max(50, { error: 'Le nom de la catégorie est trop long' }),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, { error: 'Couleur invalide, format #RRGGBB attendu' })
+    .nullable()
+    .optional(),
+  parentId: z.number().int().positive().nullable().optional(), // Null for a top-level category
+});
+
+// Rename, recolor and/or move
+export const categoryUpdateSchema = categorySchema.partial();
+
+// Fields of a categorization rule, checked as a whole by validateRuleConditions
+export const categoryRuleSchema = z.object({
+  name: z
+    .string({ error: 'Nom de règle manquant' })
+    .trim()
+    .min(1, { error: 'Le nom de la règle est vide' })
+    .max(100),
+  categoryId: z.number({ error: 'Catégorie manquante' }).int().positive(),
+  priority: z.number().int().min(0).max(10000).optional(),
+  enabled: z.boolean().optional(),
+  descriptionMatch: z.enum(['contains', 'starts-with', 'regex']).nullable().optional(),
+  descriptionPattern: z.string().max(200).nullable().optional(),
+  minAmount: z.number().min(0).max(MAX_AMOUNT).nullable().optional(),
+  maxAmount: z.number().min(0).max(MAX_AMOUNT).nullable().optional(),
+  sign: z.enum(['debit', 'credit']).nullable().optional(),
+  accountId: accountIdSchema.nullable().optional(),
+  weekdays: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+});
+
+export const categoryRuleUpdateSchema = categoryRuleSchema.partial();
+
+export const applyRulesRequestSchema = z.object({
+  dryRun: z.boolean().default(false),
+});
+
+export const transactionCategorySchema = z.object({
+  categoryId: z.number({ error: 'Catégorie manquante' }).int().positive().nullable(),
+});
+
+// Lines of a split transaction, an empty list removes the split
+export const transactionSplitsSchema = z.object({
+  splits: z
+    .array(
+      z.object({
+        amount: z
+          .number({ error: 'Montant manquant' })
+          .min(-MAX_AMOUNT, { error: 'Montant hors limites' })
+          .max(MAX_AMOUNT, { error: 'Montant hors limites' }),
+        categoryId: z.number().int().positive().nullable(),
+        note: z.string().trim().max(100).nullable().optional(),
+      })
+    )
+    .max(20, { error: 'Trop de lignes' }),
+});
+
+export const tagSchema = z.object({
+  name: z
+    .string({ error: 'Nom d\'étiquette manquant' })
+    .trim()
+    .min(1, { error: 'Le nom de l\'étiquette est vide' })
+    .max(50, { error: 'Le nom de l\'étiquette est trop long' }),
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, { error: 'Couleur invalide, format #RRGGBB attendu' })
+    .nullable()
+    .optional(),
+});
+
+export const tagUpdateSchema = tagSchema.partial();
+
+const tagIdsSchema = z.array(z.number().int().positive()).max(50).default([]);
+
+// Tags added to and removed from many transactions at once
+export const transactionTagsSchema = z
+  .object({
+    transactionIds: z
+      .array(z.number().int().positive())
+      .min(1, { error: 'Aucune transaction sélectionnée' })
+      .max(MAX_IMPORT_ROWS),
+    add: tagIdsSchema,
+    remove: tagIdsSchema,
+  })
+  .refine((input) => input.add.length > 0 || input.remove.length > 0, {
+    error: 'Aucune étiquette à ajouter ou retirer',
+  });
+
+export const merchantUpdateSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, { error: 'Le nom du marchand est vide' })
+    .max(100, { error: 'Le nom du marchand est trop long' })
+    .optional(),
+  categoryId: z.number().int().positive().nullable().optional(), // Default category
+  aliases: z.array(z.string().trim().max(200)).max(50).optional(), // Descriptions to recognize
+});
+
+export const mergeMerchantsSchema = z.object({
+  sourceId: z.number({ error: 'Marchand à fusionner manquant' }).int().positive(),
+});
+
+export const linkMerchantsSchema = z.object({
+  relinkAll: z.boolean().default(false),
+});
+
+const budgetAmountSchema = z
+  .number({ error: 'Montant invalide' })
+  .positive({ error: 'Le budget doit être positif' })
+  .max(MAX_AMOUNT, { error: 'Montant hors limites' });
+
+export const budgetSchema = z.object({
+  categoryId: z.number({ error: 'Catégorie manquante' }).int().positive(),
+  amount: budgetAmountSchema, // Per month
+  rollover: z.boolean().default(false),
+  startDate: dateSchema.optional(), // First budgeted month, the current one when missing
+});
+
+export const budgetUpdateSchema = z.object({
+  amount: budgetAmountSchema.optional(),
+  rollover: z.boolean().optional(),
+  startDate: dateSchema.optional(),
+});
+
+// Month of a budget report, e.g. 2025-03
+export const budgetMonthSchema = z
+  .string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, { error: 'Mois invalide, format AAAA-MM attendu' });
+
+const amountBoundSchema = z.number().min(0).max(MAX_AMOUNT).optional();
+
+// Same criteria as the domain filters, combined with AND
+export const transactionSelectionSchema = z
+  .object({
+    from: dateSchema.optional(),
+    to: dateSchema.optional(),
+    categoryIds: z.array(z.number().int().positive().nullable()).max(500).optional(), // null for uncategorized
+    minAmount: amountBoundSchema,
+    maxAmount: amountBoundSchema,
+    search: z.string().trim().max(200).optional(),
+    accountIds: z.array(accountIdSchema.nullable()).max(100).optional(),
+    tagIds: z.array(z.number().int().positive()).max(50).optional(),
+    merchantIds: z.array(z.number().int().positive()).max(100).optional(),
+    tagMatch: z.enum(['any', 'all']).optional(),
+  })
+  .refine(
+    (selection) =>
+      selection.from === undefined || selection.to === undefined || selection.from <= selection.to,
+    { error: 'La date de début est après la date de fin', path: ['to'] }
+  );
+
+export const bulkActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('set-category'), categoryId: z.number().int().positive() }),
+  z.object({ type: z.literal('clear-category') }),
+  z.object({ type: z.literal('add-tag'), tagId: z.number().int().positive() }),
+]);
+
+export const bulkEditRequestSchema = z.object({
+  selection: transactionSelectionSchema,
+  action: bulkActionSchema,
+  dryRun: z.boolean().default(false),
+});
+
+export const bulkUndoRequestSchema = z.object({
+  token: z.string({ error: 'Jeton d\'annulation manquant' }).min(1).max(100),
+});
+
+export const classifierSettingsSchema = z.object({
+  autoApply: z.boolean(),
+});
+
+export const inboxResolveSchema = z.object({
+  importBatchId: z.number().int().positive().optional(), // Import done with the wizard, none to dismiss
+});
+
+export const accountSchema = z.object({
+  name: z.string().trim().min(1, { error: 'Le nom du compte est vide' }).max(100),
+  bank: optionalText(100),
+  // Full IBAN or account number, only its mask is stored
+  iban: z
+    .string()
+    .trim()
+    .max(64)
+    .regex(/^[A-Za-z0-9 -]*$/, { error: 'IBAN invalide' })
+    .optional(),
+  currency: z
+    .string()
+    .trim()
+    .regex(/^[A-Z]{3}$/, { error: 'Code devise invalide' })
+    .default('EUR'),
+  openingBalance: z
+    .number({ error: 'Solde initial invalide' })
+    .min(-MAX_AMOUNT)
+    .max(MAX_AMOUNT)
+    .default(0),
+});
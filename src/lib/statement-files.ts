@@ -0,0 +1,127 @@
+import { createHash } from 'node:crypto';
+import Papa from 'papaparse';
+import { isCAMTContent, parseCAMTToTransactions } from '@/domain/camt-import';
+import { CSVFormat, detectCSVFormat } from '@/domain/csv-format';
+import {
+  ColumnMapping,
+  ParseResult,
+  parseCSVToTransactions,
+  resolveMappingDateFormat,
+} from '@/domain/csv-import';
+import { detectDataBlock } from '@/domain/data-block';
+import { ImportProfile, matchImportProfile } from '@/domain/import-profiles';
+import { decodeMarkup } from '@/domain/markup';
+import { isOFXContent, parseOFXToTransactions } from '@/domain/ofx-import';
+
+/**
+ * Server-side reading of statement files, shared by the command line import
+ * and the inbox watcher. Files are parsed the same way as in the import wizard.
+ */
+
+export type StatementFormat = 'csv' | 'ofx' | 'camt';
+
+// Extensions of the files picked up in a directory
+export const STATEMENT_EXTENSIONS = ['.csv', '.txt', '.ofx', '.qfx', '.xml'];
+
+export interface ParsedStatement {
+  sourceFormat: StatementFormat;
+  profileName?: string;
+  accountNumber?: string; // Read from OFX and CAMT statements
+  result: ParseResult;
+}
+
+export interface StatementParseOptions {
+  profile?: ImportProfile; // Used instead of the profile recognized from the header row
+  mapping?: ColumnMapping; // Used instead of any profile
+}
+
+/**
+ * SHA-256 of a file, as computed by the browser to recognize a file imported twice
+ */
+export function hashBytes(bytes: Uint8Array): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+/**
+ * Decodes and splits a CSV file into rows
+ */
+function readCSVRows(bytes: Uint8Array, overrides: Partial<CSVFormat> = {}): string[][] {
+  const { format, text } = detectCSVFormat(bytes, overrides);
+  const { data } = Papa.parse<string[]>(text, {
+    skipEmptyLines: true,
+    delimiter: format.delimiter,
+    quoteChar: format.quoteChar,
+  });
+  return data;
+}
+
+/**
+ * Account number of an OFX or CAMT statement
+ * Rows are imported into a single account, so files covering several
+ * accounts are refused rather than merged into the first one.
+ */
+function singleAccountNumber(accounts: { accountId: string }[]): string | undefined {
+  const accountIds = [...new Set(accounts.map((account) => account.accountId))];
+  if (accountIds.length > 1) {
+    throw new Error(
+      `Le relevé couvre ${accountIds.length} comptes (${accountIds.join(', ')}), ` +
+        'exportez-les dans des fichiers séparés'
+    );
+  }
+  return accountIds[0];
+}
+
+/**
+ * Parses an OFX, CAMT or CSV statement
+ * CSV files use the given mapping or profile, else the profile recognized
+ * from their header row
+ *
+ * @returns Parsed statement, or null for a CSV file matching no profile
+ * @throws When the date format of the file is ambiguous, or when an OFX or
+ * CAMT file covers several accounts
+ */
+export function parseStatementFile(
+  bytes: Uint8Array,
+  profiles: ImportProfile[],
+  options: StatementParseOptions = {}
+): ParsedStatement | null {
+  const content = decodeMarkup(bytes);
+  if (isOFXContent(content)) {
+    const result = parseOFXToTransactions(content);
+    return { sourceFormat: 'ofx', accountNumber: singleAccountNumber(result.accounts), result };
+  }
+  if (isCAMTContent(content)) {
+    const result = parseCAMTToTransactions(content);
+    return { sourceFormat: 'camt', accountNumber: singleAccountNumber(result.accounts), result };
+  }
+
+  let rows = readCSVRows(bytes);
+  let mapping = options.mapping;
+  let profileName: string | undefined;
+  let headerRowIndex: number | undefined;
+  if (!mapping) {
+    const profile = options.profile ?? matchImportProfile(rows, profiles)?.profile;
+    if (!profile) {
+      return null;
+    }
+
+    // The format stored in the profile may differ from the detected one
+    rows = readCSVRows(bytes, profile.csvFormat);
+    headerRowIndex = matchImportProfile(rows, [profile])?.headerRowIndex ?? profile.skipRows;
+    mapping = profile.mapping;
+    profileName = profile.name;
+  }
+
+  const block = detectDataBlock(rows, headerRowIndex);
+  const dataRows = rows.slice(block.headerRowIndex + 1, block.endRowIndex);
+  const { mapping: resolved, inference } = resolveMappingDateFormat(dataRows, mapping);
+  if (inference?.ambiguous) {
+    throw new Error(`Format de date ambigu (${inference.candidates.join(', ')})`);
+  }
+
+  return {
+    sourceFormat: 'csv',
+    profileName,
+    result: parseCSVToTransactions(dataRows, resolved),
+  };
+}
@@ -0,0 +1,299 @@
+import { Readable } from 'node:stream';
+import { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import Papa from 'papaparse';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { invalidateClassifier } from '@/lib/category-classifier';
+import { ColumnMapping, parseCSVToTransactions } from '@/domain/csv-import';
+import { CSVEncoding, CSVFormat, decodeBytes } from '@/domain/csv-format';
+import { createFooterFilter, FooterFilter } from '@/domain/data-block';
+import { checkDuplicates, insertTransactions, ImportSummary } from '@/lib/transaction-import';
+
+// Rows parsed, checked and inserted per database transaction
+const CHUNK_SIZE = 500;
+
+export interface ImportJobOptions {
+  fileName: string;
+  fileHash?: string;
+  fileSize?: number;
+  profileName?: string;
+  accountId?: number;
+  mapping: ColumnMapping; // With the date format already fixed
+  headerRowIndex: number; // Lines before the header row
+  csvFormat: CSVFormat; // Detected on the first bytes by the browser
+}
+
+// Options of a job as stored on its batch
+interface ImportJobRow {
+  accountId: number | null;
+  mapping: string | null;
+  headerRowIndex: number;
+  csvFormat: string | null;
+}
+
+export interface ImportJobProgress {
+  id: number;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  fileName: string;
+  rowCount: number;
+  insertedCount: number;
+  skippedCount: number;
+  suspiciousCount: number;
+  invalidCount: number;
+  processedBytes: number;
+  totalBytes: number | null;
+  errorMessage: string | null;
+}
+
+/**
+ * Creates a pending import batch holding the options of a server-side import
+ */
+export async function createImportJob(options: ImportJobOptions): Promise<number> {
+  const batch = await prisma.importBatch.create({
+    data: {
+      fileName: options.fileName,
+      fileHash: options.fileHash ?? null,
+      sourceFormat: 'csv',
+      profileName: options.profileName ?? null,
+      accountId: options.accountId ?? null,
+      status: 'pending',
+      mapping: JSON.stringify(options.mapping),
+      headerRowIndex: options.headerRowIndex,
+      csvFormat: JSON.stringify(options.csvFormat),
+      totalBytes: options.fileSize ?? null,
+    },
+  });
+
+  return batch.id;
+}
+
+/**
+ * Reads the progress of an import job
+ */
+export async function getImportJobProgress(id: number): Promise<ImportJobProgress | null> {
+  return prisma.importBatch.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      status: true,
+      fileName: true,
+      rowCount: true,
+      insertedCount: true,
+      skippedCount: true,
+      suspiciousCount: true,
+      invalidCount: true,
+      processedBytes: true,
+      totalBytes: true,
+      errorMessage: true,
+    },
+  });
+}
+
+/**
+ * Counts the bytes flowing through a stream
+ */
+function countBytes(onBytes: (count: number) => void): TransformStream<Uint8Array, Uint8Array> {
+  return new TransformStream({
+    transform(chunk, controller) {
+      onBytes(chunk.byteLength);
+      controller.enqueue(chunk);
+    },
+  });
+}
+
+/**
+ * Decodes a byte stream to text
+ * Windows-1252 is single-byte, so chunks can be decoded independently
+ */
+function decodeStream(encoding: CSVEncoding): TransformStream<Uint8Array, string> {
+  if (encoding !== 'windows-1252') {
+    return new TextDecoderStream(encoding) as TransformStream<Uint8Array, string>;
+  }
+  return new TransformStream({
+    transform(chunk, controller) {
+      controller.enqueue(decodeBytes(chunk, encoding));
+    },
+  });
+}
+
+/**
+ * Parses, checks and inserts one chunk of rows, then records progress
+ * Each chunk is its own database transaction
+ */
+async function importChunk(
+  batchId: number,
+  accountId: number | null,
+  mapping: ColumnMapping,
+  rows: string[][],
+  startIndex: number,
+  processedBytes: number
+): Promise<ImportSummary> {
+  const { valid, invalid } = parseCSVToTransactions(rows, mapping, startIndex);
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const check = await checkDuplicates(valid, tx, {
+      excludeBatchId: batchId,
+      accountId: accountId ?? undefined,
+    });
+    const inserted = await insertTransactions(tx, check.newTransactions, batchId, accountId);
+
+    await tx.importBatch.update({
+      where: { id: batchId },
+      data: {
+        rowCount: { increment: rows.length },
+        insertedCount: { increment: inserted },
+        skippedCount: { increment: check.duplicates.length },
+        suspiciousCount: { increment: check.suspicious.length },
+        invalidCount: { increment: invalid.length },
+        processedBytes,
+      },
+    });
+
+    return {
+      batchId,
+      inserted,
+      skipped: check.duplicates.length,
+      suspicious: check.suspicious.length,
+    };
+  });
+}
+
+/**
+ * Deletes the rows already inserted by a job and marks it failed
+ * The batch counts as rolled back, so the file can simply be imported again.
+ */
+async function failImportJob(id: number, errorMessage: string): Promise<void> {
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const categorized = await tx.transaction.count({
+      where: { importBatchId: id, categoryId: { not: null } },
+    });
+    await tx.transaction.deleteMany({ where: { importBatchId: id } });
+    // The model learned the categories of the deleted transactions
+    if (categorized > 0) {
+      await invalidateClassifier(tx);
+    }
+    await tx.importBatch.update({
+      where: { id },
+      data: { status: 'failed', errorMessage, rolledBackAt: new Date() },
+    });
+  });
+}
+
+/**
+ * Fails the import jobs left pending or running when the server stopped
+ * Jobs run inside their upload request, so none of them survives a restart;
+ * call this once at startup, before any new job is created.
+ *
+ * @returns Number of jobs rolled back
+ */
+export async function recoverInterruptedImportJobs(): Promise<number> {
+  const jobs: { id: number }[] = await prisma.importBatch.findMany({
+    where: { status: { in: ['pending', 'running'] } },
+    select: { id: true },
+  });
+  for (const job of jobs) {
+    await failImportJob(job.id, 'Import interrupted by a server restart');
+  }
+
+  return jobs.length;
+}
+
+/**
+ * Streams a CSV file into a pending import job
+ * Rows are parsed as they arrive and inserted in chunks, leaving out the
+ * footer after the data; progress is stored on the batch for polling. On
+ * failure the rows already inserted are deleted and the batch is marked
+ * failed, so the file can simply be imported again.
+ *
+ * @param id - Pending import batch created by createImportJob
+ * @param body - Raw file content
+ * @returns Totals of the whole import
+ */
+export async function runImportJob(
+  id: number,
+  body: ReadableStream<Uint8Array>
+): Promise<ImportSummary> {
+  const started = await prisma.importBatch.updateMany({
+    where: { id, status: 'pending' },
+    data: { status: 'running' },
+  });
+  if (started.count === 0) {
+    throw new Error(`Import job ${id} is not pending`);
+  }
+
+  const summary: ImportSummary = { batchId: id, inserted: 0, skipped: 0, suspicious: 0 };
+
+  try {
+    // Read inside the try so that a bad job ends failed rather than stuck running
+    const batch: ImportJobRow = await prisma.importBatch.findUniqueOrThrow({ where: { id } });
+    if (!batch.mapping || !batch.csvFormat) {
+      throw new Error(`Import job ${id} has no column mapping or CSV format`);
+    }
+    const mapping: ColumnMapping = JSON.parse(batch.mapping);
+    const csvFormat: CSVFormat = JSON.parse(batch.csvFormat);
+
+    let processedBytes = 0;
+    const text = body
+      .pipeThrough(countBytes((count) => (processedBytes += count)))
+      .pipeThrough(decodeStream(csvFormat.encoding));
+    const parser = Papa.parse(Papa.NODE_STREAM_INPUT, {
+      skipEmptyLines: true,
+      delimiter: csvFormat.delimiter,
+      quoteChar: csvFormat.quoteChar,
+    });
+    const source = Readable.fromWeb(text as NodeReadableStream<string>);
+    source.on('error', (error) => parser.destroy(error));
+    source.pipe(parser);
+
+    let lineIndex = 0;
+    let chunk: string[][] = [];
+    let chunkStart = 0;
+    // Totals and balance lines after the data are only known at the end of the file
+    let footer: FooterFilter | null = null;
+
+    const flush = async () => {
+      if (chunk.length === 0) {
+        return;
+      }
+      const result = await importChunk(
+        id,
+        batch.accountId,
+        mapping,
+        chunk,
+        chunkStart,
+        processedBytes
+      );
+      summary.inserted += result.inserted;
+      summary.skipped += result.skipped;
+      summary.suspicious += result.suspicious;
+      chunkStart += chunk.length;
+      chunk = [];
+    };
+
+    for await (const row of parser as AsyncIterable<string[]>) {
+      // Skip preamble and header lines
+      if (lineIndex++ <= batch.headerRowIndex) {
+        footer = createFooterFilter(row.length);
+        continue;
+      }
+
+      chunk.push(...(footer ? footer.push(row) : [row]));
+      if (chunk.length >= CHUNK_SIZE) {
+        await flush();
+      }
+    }
+    chunk.push(...(footer?.end() ?? []));
+    await flush();
+
+    await prisma.importBatch.update({
+      where: { id },
+      data: { status: 'completed', processedBytes },
+    });
+
+    return summary;
+  } catch (error) {
+    await failImportJob(id, error instanceof Error ? error.message : String(error));
+
+    throw error;
+  }
+}
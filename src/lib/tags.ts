@@ -0,0 +1,202 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { tagSchema, tagUpdateSchema, transactionTagsSchema } from '@/lib/schemas';
+import { pickCategoryColor } from '@/domain/categories';
+import { calculateSpendingStats, calculateStatsByTag } from '@/domain/statistics';
+import { findTagNameConflict, normalizeTagName } from '@/domain/tags';
+import { SpendingStats, Tag, Transaction } from '@/domain/types';
+
+export type TagInput = z.infer<typeof tagSchema>;
+export type TagUpdate = z.infer<typeof tagUpdateSchema>;
+export type TransactionTagsInput = z.infer<typeof transactionTagsSchema>;
+
+export interface TagSummary extends Tag {
+  createdAt: Date;
+  spending: SpendingStats;
+}
+
+export type SaveTagResult =
+  | { status: 'not-found' }
+  | { status: 'invalid-name' }
+  | { status: 'name-taken'; conflict: Tag }
+  | { status: 'saved'; tag: Tag };
+
+export type AssignTagsResult =
+  | { status: 'transaction-not-found'; transactionIds: number[] }
+  | { status: 'tag-not-found'; tagIds: number[] }
+  | { status: 'saved'; addedCount: number; removedCount: number };
+
+const TAG_SELECT = { id: true, name: true, color: true };
+
+/**
+ * Lists tags by name
+ */
+export async function listTags(): Promise<Tag[]> {
+  return prisma.tag.findMany({ orderBy: { name: 'asc' }, select: TAG_SELECT });
+}
+
+/**
+ * Lists tags by name with the spending of their transactions
+ */
+export async function listTagSummaries(): Promise<TagSummary[]> {
+  const [tags, transactions] = await Promise.all([
+    prisma.tag.findMany({ orderBy: { name: 'asc' } }),
+    prisma.transaction.findMany({
+      where: { tags: { some: {} } },
+      select: {
+        id: true,
+        date: true,
+        description: true,
+        amount: true,
+        categoryId: true,
+        tags: { select: { tagId: true } },
+      },
+    }),
+  ]);
+
+  const statsByTag = calculateStatsByTag(
+    transactions.map(
+      ({ tags, ...transaction }: Omit<Transaction, 'tagIds'> & { tags: { tagId: number }[] }) => ({
+        ...transaction,
+        tagIds: tags.map((tag) => tag.tagId),
+      })
+    )
+  );
+
+  return tags.map((tag: Tag & { createdAt: Date }) => ({
+    ...tag,
+    spending: statsByTag.get(tag.id) ?? calculateSpendingStats([]),
+  }));
+}
+
+/**
+ * Creates a tag, with the next palette color unless one is chosen
+ * The name is normalized, e.g. "Vacances 2025" becomes "vacances-2025".
+ */
+export async function createTag(input: TagInput): Promise<SaveTagResult> {
+  const name = normalizeTagName(input.name);
+  if (name === '') {
+    return { status: 'invalid-name' };
+  }
+  const tags = await listTags();
+  const conflict = findTagNameConflict(tags, name);
+  if (conflict) {
+    return { status: 'name-taken', conflict };
+  }
+
+  const tag = await prisma.tag.create({
+    data: { name, color: input.color ?? pickCategoryColor(tags) },
+    select: TAG_SELECT,
+  });
+  return { status: 'saved', tag };
+}
+
+/**
+ * Renames and/or recolors a tag
+ */
+export async function updateTag(id: number, input: TagUpdate): Promise<SaveTagResult> {
+  const tags = await listTags();
+  if (!tags.some((tag) => tag.id === id)) {
+    return { status: 'not-found' };
+  }
+  const name = input.name !== undefined ? normalizeTagName(input.name) : undefined;
+  if (name === '') {
+    return { status: 'invalid-name' };
+  }
+  const conflict = name !== undefined ? findTagNameConflict(tags, name, id) : null;
+  if (conflict) {
+    return { status: 'name-taken', conflict };
+  }
+
+  const tag = await prisma.tag.update({
+    where: { id },
+    data: { ...input, name },
+    select: TAG_SELECT,
+  });
+  return { status: 'saved', tag };
+}
+
+/**
+ * Deletes a tag, its transactions simply lose it
+ * @returns false when the tag does not exist
+ */
+export async function deleteTag(id: number): Promise<boolean> {
+  const { count } = await prisma.tag.deleteMany({ where: { id } });
+  return count > 0;
+}
+
+/**
+ * Adds and removes tags on many transactions at once
+ * Tags already present are left as is, a tag both added and removed is added.
+ */
+export async function assignTags(input: TransactionTagsInput): Promise<AssignTagsResult> {
+  const transactionIds = [...new Set(input.transactionIds)];
+  const add = [...new Set(input.add)];
+  const remove = [...new Set(input.remove)].filter((tagId) => !add.includes(tagId));
+
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const foundTransactions: { id: number }[] = await tx.transaction.findMany({
+      where: { id: { in: transactionIds } },
+      select: { id: true },
+    });
+    if (foundTransactions.length < transactionIds.length) {
+      const found = new Set(foundTransactions.map((transaction) => transaction.id));
+      return {
+        status: 'transaction-not-found',
+        transactionIds: transactionIds.filter((id) => !found.has(id)),
+      };
+    }
+
+    const tagIds = [...add, ...remove];
+    const foundTags: { id: number }[] = await tx.tag.findMany({
+      where: { id: { in: tagIds } },
+      select: { id: true },
+    });
+    if (foundTags.length < tagIds.length) {
+      const found = new Set(foundTags.map((tag) => tag.id));
+      return { status: 'tag-not-found', tagIds: tagIds.filter((id) => !found.has(id)) };
+    }
+
+    // SQLite has no createMany skipDuplicates, existing links are left out by hand
+    const existing: { transactionId: number; tagId: number }[] =
+      add.length > 0
+        ? await tx.transactionTag.findMany({
+            where: { transactionId: { in: transactionIds }, tagId: { in: add } },
+            select: { transactionId: true, tagId: true },
+          })
+        : [];
+    const existingKeys = new Set(existing.map((link) => `${link.transactionId}:${link.tagId}`));
+    const links = transactionIds.flatMap((transactionId) =>
+      add
+        .filter((tagId) => !existingKeys.has(`${transactionId}:${tagId}`))
+        .map((tagId) => ({ transactionId, tagId }))
+    );
+    if (links.length > 0) {
+      await tx.transactionTag.createMany({ data: links });
+    }
+
+    const removed: { transactionId: number }[] =
+      remove.length > 0
+        ? await tx.transactionTag.findMany({
+            where: { transactionId: { in: transactionIds }, tagId: { in: remove } },
+            select: { transactionId: true },
+          })
+        : [];
+    if (removed.length > 0) {
+      await tx.transactionTag.deleteMany({
+        where: { transactionId: { in: transactionIds }, tagId: { in: remove } },
+      });
+    }
+
+    // Transactions that gained or lost a tag count as edited since their import
+    const changedIds = [...new Set([...links, ...removed].map((link) => link.transactionId))];
+    if (changedIds.length > 0) {
+      await tx.transaction.updateMany({
+        where: { id: { in: changedIds } },
+        data: { editedAt: new Date() },
+      });
+    }
+    return { status: 'saved', addedCount: links.length, removedCount: removed.length };
+  });
+}
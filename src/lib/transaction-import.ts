@@ -0,0 +1,188 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { learnTransactions, loadAutoCategorizer } from '@/lib/category-classifier';
+import { loadCategoryRules } from '@/lib/category-rules';
+import { resolveMerchants } from '@/lib/merchants';
+import { categorizeTransactions } from '@/domain/category-rules';
+import { ValidatedTransaction } from '@/domain/csv-import';
+import { detectDuplicates, DuplicateCheckResult } from '@/domain/duplicates';
+
+// Margin around the imported period when looking for near-duplicates
+const DUPLICATE_WINDOW_DAYS = 3;
+
+/**
+ * Row to import, optionally categorized in the import preview
+ */
+export type ImportedTransaction = ValidatedTransaction & { categoryId?: number };
+
+export interface ImportSummary {
+  batchId: number;
+  inserted: number;
+  skipped: number;
+  suspicious: number;
+}
+
+/**
+ * Where the imported transactions come from, recorded on the import batch
+ */
+export interface ImportSource {
+  fileName: string;
+  fileHash?: string;
+  sourceFormat?: string;
+  profileName?: string;
+  accountId?: number; // Account the statement belongs to
+  rowCount?: number; // Rows read, including invalid ones
+  invalidCount?: number;
+}
+
+export interface DuplicateCheckOptions {
+  excludeBatchId?: number;
+  accountId?: number;
+}
+
+/**
+ * Classifies transactions as new, duplicate or suspicious against the database
+ * Rows of excludeBatchId are ignored, so that the chunks of a file being
+ * imported are not compared with each other. With an accountId only the rows
+ * of that account, or without account, are compared: the same card payment
+ * on two accounts is not a duplicate.
+ */
+export async function checkDuplicates<T extends ValidatedTransaction>(
+  transactions: T[],
+  db: Prisma.TransactionClient = prisma,
+  { excludeBatchId, accountId }: DuplicateCheckOptions = {}
+): Promise<DuplicateCheckResult<T>> {
+  if (transactions.length === 0) {
+    return detectDuplicates(transactions, []);
+  }
+
+  // Load stored transactions overlapping the imported period
+  // reduce rather than Math.min(...times): spreading large imports overflows the stack
+  const times = transactions.map((t) => t.date.getTime());
+  const first = times.reduce((min, time) => Math.min(min, time), Infinity);
+  const last = times.reduce((max, time) => Math.max(max, time), -Infinity);
+  const margin = DUPLICATE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const existing = await db.transaction.findMany({
+    where: {
+      date: {
+        gte: new Date(first - margin),
+        lte: new Date(last + margin),
+      },
+      AND: [
+        ...(excludeBatchId !== undefined
+          ? [{ OR: [{ importBatchId: null }, { importBatchId: { not: excludeBatchId } }] }]
+          : []),
+        ...(accountId !== undefined ? [{ OR: [{ accountId: null }, { accountId }] }] : []),
+      ],
+    },
+    select: { date: true, description: true, amount: true, externalId: true },
+    orderBy: { id: 'asc' },
+  });
+
+  return detectDuplicates(transactions, existing, {
+    suspiciousDayWindow: DUPLICATE_WINDOW_DAYS,
+  });
+}
+
+/**
+ * Inserts new transactions linked to an import batch, their account and merchant
+ * Rows left uncategorized in the preview get the category of the first matching rule,
+ * the default category of their merchant, or a confident suggestion of the
+ * classifier when auto-apply is on. Merchants seen for the first time are created.
+ * @returns Number of inserted rows
+ */
+export async function insertTransactions(
+  db: Prisma.TransactionClient,
+  transactions: ImportedTransaction[],
+  batchId: number,
+  accountId: number | null = null
+): Promise<number> {
+  const rules = await loadCategoryRules(db);
+  const assignments = categorizeTransactions(
+    transactions.map((t) => ({ ...t, accountId })),
+    rules
+  );
+  const autoCategorize = await loadAutoCategorizer(db);
+  const merchants = await resolveMerchants(db, transactions.map((t) => t.description));
+
+  // A category chosen in the preview wins over the rules, then the merchant
+  const knownCategoryIds = transactions.map(
+    (t, index) =>
+      t.categoryId ??
+      assignments[index]?.categoryId ??
+      merchants.get(t.description)?.categoryId ??
+      null
+  );
+  const rows = transactions.map((t, index) => ({
+    date: t.date,
+    description: t.description,
+    amount: t.amount,
+    externalId: t.externalId ?? null,
+    accountNumber: t.accountNumber ?? null,
+    valueDate: t.valueDate ?? null,
+    counterpartyName: t.counterpartyName ?? null,
+    counterpartyIban: t.counterpartyIban ?? null,
+    remittanceInfo: t.remittanceInfo ?? null,
+    // Suggestions only fill what nothing else categorized
+    categoryId: knownCategoryIds[index] ?? autoCategorize?.(t) ?? null,
+    merchantId: merchants.get(t.description)?.id ?? null,
+    accountId,
+    importBatchId: batchId,
+  }));
+  const created = await db.transaction.createMany({ data: rows });
+
+  // Keeps suggestions and auto-apply in step with the categories just imported, leaving out
+  // the classifier's own guesses so that it does not reinforce its mistakes
+  await learnTransactions(
+    db,
+    rows.flatMap((row, index) => {
+      const categoryId = knownCategoryIds[index];
+      return categoryId !== null ? [{ ...row, categoryId }] : [];
+    })
+  );
+  return created.count;
+}
+
+/**
+ * Inserts transactions, skipping the ones already imported
+ * The check and the insert share a database transaction so that two
+ * concurrent uploads of the same file cannot both insert the rows.
+ * Inserted rows are linked to a new import batch so the import can be rolled back.
+ */
+export async function importTransactions(
+  transactions: ImportedTransaction[],
+  source: ImportSource
+): Promise<ImportSummary> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const check = await checkDuplicates(transactions, tx, { accountId: source.accountId });
+
+    const batch = await tx.importBatch.create({
+      data: {
+        fileName: source.fileName,
+        fileHash: source.fileHash ?? null,
+        sourceFormat: source.sourceFormat ?? 'csv',
+        profileName: source.profileName ?? null,
+        accountId: source.accountId ?? null,
+        rowCount: source.rowCount ?? transactions.length,
+        insertedCount: check.newTransactions.length,
+        skippedCount: check.duplicates.length,
+        suspiciousCount: check.suspicious.length,
+        invalidCount: source.invalidCount ?? 0,
+      },
+    });
+
+    const inserted = await insertTransactions(
+      tx,
+      check.newTransactions,
+      batch.id,
+      source.accountId ?? null
+    );
+
+    return {
+      batchId: batch.id,
+      inserted,
+      skipped: check.duplicates.length,
+      suspicious: check.suspicious.length,
+    };
+  });
+}
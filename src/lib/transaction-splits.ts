@@ -0,0 +1,87 @@
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { invalidateClassifier } from '@/lib/category-classifier';
+import { findMissingCategoryIds } from '@/lib/categories';
+import { transactionSplitsSchema } from '@/lib/schemas';
+import { validateSplits } from '@/domain/splits';
+import { TransactionSplit } from '@/domain/types';
+
+export type TransactionSplitInput = z.infer<typeof transactionSplitsSchema>['splits'][number];
+
+export type SaveSplitsResult =
+  | { status: 'not-found' }
+  | { status: 'invalid'; message: string }
+  | { status: 'category-not-found'; categoryIds: number[] }
+  | { status: 'saved'; splits: TransactionSplit[] };
+
+const SPLIT_SELECT = { id: true, amount: true, categoryId: true, note: true };
+
+/**
+ * Lines of a transaction, empty when it is not split
+ * @returns null when the transaction does not exist
+ */
+export async function getTransactionSplits(id: number): Promise<TransactionSplit[] | null> {
+  const transaction = await prisma.transaction.findUnique({
+    where: { id },
+    select: { splits: { select: SPLIT_SELECT, orderBy: { id: 'asc' } } },
+  });
+  return transaction?.splits ?? null;
+}
+
+/**
+ * Replaces the lines of a transaction, an empty list removes the split
+ * A split transaction has no category of its own, removing the split leaves
+ * it uncategorized.
+ */
+export async function saveTransactionSplits(
+  id: number,
+  splits: TransactionSplitInput[]
+): Promise<SaveSplitsResult> {
+  return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const transaction: { amount: number; categoryId: number | null } | null =
+      await tx.transaction.findUnique({
+        where: { id },
+        select: { amount: true, categoryId: true },
+      });
+    if (!transaction) {
+      return { status: 'not-found' };
+    }
+
+    if (splits.length > 0) {
+      const message = validateSplits(transaction.amount, splits);
+      if (message) {
+        return { status: 'invalid', message };
+      }
+      const missing = await findMissingCategoryIds(
+        splits.flatMap((split) => (split.categoryId !== null ? [split.categoryId] : [])),
+        tx
+      );
+      if (missing.length > 0) {
+        return { status: 'category-not-found', categoryIds: missing };
+      }
+    }
+
+    await tx.transactionSplit.deleteMany({ where: { transactionId: id } });
+    await tx.transactionSplit.createMany({
+      data: splits.map((split) => ({
+        transactionId: id,
+        amount: split.amount,
+        categoryId: split.categoryId,
+        note: split.note || null,
+      })),
+    });
+    await tx.transaction.update({ where: { id }, data: { categoryId: null, editedAt: new Date() } });
+    // The model learned the category the transaction loses
+    if (transaction.categoryId !== null) {
+      await invalidateClassifier(tx);
+    }
+
+    const saved: TransactionSplit[] = await tx.transactionSplit.findMany({
+      where: { transactionId: id },
+      select: SPLIT_SELECT,
+      orderBy: { id: 'asc' },
+    });
+    return { status: 'saved', splits: saved };
+  });
+}